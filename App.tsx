@@ -1,16 +1,29 @@
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { User, UserRole, ViewState, Poll, Exam, Announcement, Resource, AppNotification, SchoolSettings, ClassGroup } from './types';
+import { User, UserRole, ViewState, Poll, PollOption, PollType, PollReminder, PollTemplate, Quiz, QuizScore, Survey, SurveyAnswer, Exam, ExamGrade, ExamSeat, ExamInvigilator, ExamSeries, RevisionCheck, Announcement, Resource, AppNotification, SchoolSettings, ClassGroup, Room } from './types';
 import { Layout } from './components/Layout';
 import { Login } from './components/Login';
 import { Dashboard } from './components/Dashboard';
 import { InfoBoard } from './components/InfoBoard';
 import { ExamSchedule } from './components/ExamSchedule';
+import { GradeEntry } from './components/ExamGrades';
 import { Polls } from './components/Polls';
 import { Resources } from './components/Resources';
 import { UserManagement } from './components/UserManagement';
 import { Settings } from './components/Settings';
 import { differenceInDays, differenceInHours } from 'date-fns';
 import { supabase } from './lib/supabase';
+import { can, PermissionAction, PermissionResource, PermissionTarget } from './lib/permissions';
+import { hasUserVoted, withBallot, withTextAnswer } from './lib/pollResults';
+import { getPollStatus, isPollOpen } from './lib/pollSchedule';
+import { generateOccurrenceDates, getFutureOccurrences, daysBetween, shiftDays, toDateKey } from './lib/examSeries';
+import { buildFeedUrl } from './lib/icalendar';
+import { getRevisionProgress, isTopicRevised } from './lib/revision';
+import { mapUser, mapAnnouncement, mapExam, mapExamGrade, mapExamSeries, mapPoll, mapPollReminder, mapPollTemplate, mapQuiz, mapQuizScore, mapSurvey, mapResource, mapClassGroup, mapRoom, mapExamSeat, mapExamInvigilator, mapRevisionCheck, POLL_COLUMNS, SURVEY_COLUMNS, hasLegacyVotes, toPollOptionsRow } from './lib/mappers';
+import { subscribeToChanges, RowChange, RealtimeStatus } from './lib/realtime';
+import {
+  signIn, signOut, restoreSession, resolveSession, clearSession, setUserPassword, bootstrapAdmin,
+  generateTemporaryPassword, requestPasswordReset, resetPasswordWithToken, getResetTokenFromUrl, clearResetTokenFromUrl
+} from './lib/auth';
 import { Loader2, AlertTriangle } from 'lucide-react';
 
 // Default Admin to ensure the system is accessible on first load
@@ -18,12 +31,21 @@ const DEFAULT_ADMIN: User = {
   id: 'admin-init', 
   name: 'Administrateur Principal', 
   email: 'faye@eco.com', 
-  password: 'passer25', 
   role: UserRole.ADMIN 
 };
+const DEFAULT_ADMIN_PASSWORD = 'passer25';
+
+// Columns exposed to clients (credentials live in user_credentials, see supabase/migrations)
+const USER_COLUMNS = 'id, name, email, role, avatar, class_group';
+
+// Longest delay setTimeout accepts (about 24 days); later closings are picked up by the next reload
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [mustChangePassword, setMustChangePassword] = useState(false);
+  const [resetToken, setResetToken] = useState<string | null>(() => getResetTokenFromUrl());
+  const [loginNotice, setLoginNotice] = useState<string | undefined>(undefined);
   const [currentView, setCurrentView] = useState<ViewState>('DASHBOARD');
   const [viewHistory, setViewHistory] = useState<ViewState[]>([]); // Navigation History Stack
   
@@ -31,13 +53,25 @@ const App: React.FC = () => {
   const [users, setUsers] = useState<User[]>([]);
   const [announcements, setAnnouncements] = useState<Announcement[]>([]);
   const [exams, setExams] = useState<Exam[]>([]);
+  const [examSeries, setExamSeries] = useState<ExamSeries[]>([]);
+  const [examGrades, setExamGrades] = useState<ExamGrade[]>([]);
+  const [examSeats, setExamSeats] = useState<ExamSeat[]>([]);
+  const [examInvigilators, setExamInvigilators] = useState<ExamInvigilator[]>([]);
+  const [revisionChecks, setRevisionChecks] = useState<RevisionCheck[]>([]);
   const [polls, setPolls] = useState<Poll[]>([]);
+  const [pollReminders, setPollReminders] = useState<PollReminder[]>([]);
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [quizScores, setQuizScores] = useState<QuizScore[]>([]);
+  const [surveys, setSurveys] = useState<Survey[]>([]);
+  const [pollTemplates, setPollTemplates] = useState<PollTemplate[]>([]);
   const [resources, setResources] = useState<Resource[]>([]);
   const [schoolSettings, setSchoolSettings] = useState<SchoolSettings>({ schoolName: 'ClassPoll+', themeColor: 'indigo' });
   const [classGroups, setClassGroups] = useState<ClassGroup[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
   
   const [isLoading, setIsLoading] = useState(true);
   const [dbError, setDbError] = useState<string | null>(null);
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>('OFFLINE');
 
   // Helper for generating IDs
   const generateId = () => {
@@ -57,117 +91,170 @@ const App: React.FC = () => {
         setSchoolSettings({ 
           schoolName: settingsData.school_name || 'ClassPoll+', 
           themeColor: settingsData.theme_color || 'indigo',
-          logoUrl: settingsData.logo_url
+          logoUrl: settingsData.logo_url,
+          blockExamConflicts: !!settingsData.block_exam_conflicts
         });
         document.title = settingsData.school_name || 'ClassPoll+';
       }
 
       const { data: classesData } = await supabase.from('class_groups').select('*').order('name');
       if (classesData) {
-        setClassGroups(classesData);
+        setClassGroups(classesData.map(mapClassGroup));
       }
 
-      // 1. Fetch Users
-      const { data: userData, error: userError } = await supabase.from('users').select('*');
+      // The session token must be attached before any row-level protected query
+      const storedSession = restoreSession();
+
+      // 1. Fetch Users (RLS: staff see everyone, students themselves and their class)
+      const { data: userData, error: userError } = await supabase.from('users').select(USER_COLUMNS);
       if (userError) throw userError;
 
-      // Map DB snake_case to CamelCase
-      const mappedUsers: User[] = (userData || []).map((u: any) => ({
-        ...u,
-        classGroup: u.class_group
-      }));
+      const mappedUsers: User[] = (userData || []).map(mapUser);
 
-      // Initialize Admin if empty
-      if (mappedUsers.length === 0) {
-        const { error: initError } = await supabase.from('users').insert({
-           id: DEFAULT_ADMIN.id,
-           name: DEFAULT_ADMIN.name,
-           email: DEFAULT_ADMIN.email,
-           password: DEFAULT_ADMIN.password,
-           role: DEFAULT_ADMIN.role
-        });
-        if (initError) console.error("Failed to init admin", initError);
-        else mappedUsers.push(DEFAULT_ADMIN);
+      // Initialize Admin if empty (anonymous visitors never see users, the database decides)
+      if (mappedUsers.length === 0 && !storedSession) {
+        try {
+          if (await bootstrapAdmin(DEFAULT_ADMIN, DEFAULT_ADMIN_PASSWORD)) mappedUsers.push(DEFAULT_ADMIN);
+        } catch (initError) {
+          console.error("Failed to init admin", initError);
+        }
       }
       setUsers(mappedUsers);
 
       // --- SESSION RESTORATION ---
-      const storedSession = localStorage.getItem('classpoll_session');
+      let sessionUser: User | undefined;
+      let isPasswordChangePending = false;
       if (storedSession) {
         try {
-          const sessionUser = JSON.parse(storedSession);
-          const validUser = mappedUsers.find(u => u.id === sessionUser.id);
-          if (validUser) {
-            setCurrentUser(validUser);
+          const session = await resolveSession();
+          sessionUser = session ? mappedUsers.find(u => u.id === session.userId) || session.profile || undefined : undefined;
+          if (session && sessionUser) {
+            setCurrentUser(sessionUser);
+            setMustChangePassword(session.mustChangePassword);
+            isPasswordChangePending = session.mustChangePassword;
           } else {
-            localStorage.removeItem('classpoll_session');
+            clearSession();
           }
         } catch (e) {
-          console.error("Invalid session data", e);
-          localStorage.removeItem('classpoll_session');
+          console.error("Session validation failed", e);
+          clearSession();
         }
       }
 
+      // Content is only served to logged-in users who have replaced their temporary password
+      if (!sessionUser || isPasswordChangePending) {
+        setAnnouncements([]);
+        setExams([]);
+        setExamSeries([]);
+        setExamGrades([]);
+        setExamSeats([]);
+        setExamInvigilators([]);
+        setRevisionChecks([]);
+        setRooms([]);
+        setPolls([]);
+        setPollReminders([]);
+        setQuizzes([]);
+        setQuizScores([]);
+        setSurveys([]);
+        setPollTemplates([]);
+        setResources([]);
+        return;
+      }
+
+      // Class-scoped queries mirroring the RLS policies: students only download school-wide rows and their own class
+      const classScope = sessionUser.role === UserRole.ELEVE
+        ? (sessionUser.classGroup ? `target_class.is.null,target_class.eq."${sessionUser.classGroup}"` : 'target_class.is.null')
+        : null;
+      const selectVisible = (table: string, columns = '*') => {
+        const query = supabase.from(table).select(columns);
+        return classScope ? query.or(classScope) : query;
+      };
+
       // 2. Fetch Announcements
-      const { data: annData, error: annError } = await supabase.from('announcements').select('*');
+      const { data: annData, error: annError } = await selectVisible('announcements');
       if (annError) throw annError;
-      setAnnouncements((annData || []).map((a: any) => ({
-        ...a,
-        meetLink: a.meet_link,
-        isUrgent: a.is_urgent,
-        authorId: a.author_id,
-        authorName: a.author_name,
-        targetClass: a.target_class,
-        date: new Date(a.date)
-      })));
+      setAnnouncements((annData || []).map(mapAnnouncement));
 
       // 3. Fetch Exams
-      const { data: examData, error: examError } = await supabase.from('exams').select('*');
+      const { data: examData, error: examError } = await selectVisible('exams');
       if (examError) throw examError;
-      setExams((examData || []).map((e: any) => ({
-        ...e,
-        startTime: e.start_time,
-        durationMinutes: e.duration_minutes,
-        createdById: e.created_by_id,
-        targetClass: e.target_class,
-        date: new Date(e.date)
-      })));
+      setExams((examData || []).map(mapExam));
+
+      // Recurrence rules of the recurring exams
+      const { data: seriesData, error: seriesError } = await selectVisible('exam_series');
+      if (seriesError) console.error("Exam series fetch error", seriesError);
+      else setExamSeries((seriesData || []).map(mapExamSeries));
+
+      // Grades RLS lets us read: the exams we manage, or our own marks
+      const { data: gradeData, error: gradeError } = await supabase.from('exam_grades').select('*');
+      if (gradeError) console.error("Exam grades fetch error", gradeError);
+      else setExamGrades((gradeData || []).map(mapExamGrade));
+
+      // Rooms and the seating plans RLS lets us read (whole plans for managers, their own seat for students)
+      const { data: roomData, error: roomError } = await supabase.from('rooms').select('*').order('name');
+      if (roomError) console.error("Rooms fetch error", roomError);
+      else setRooms((roomData || []).map(mapRoom));
+
+      const { data: seatData, error: seatError } = await supabase.from('exam_seats').select('*');
+      if (seatError) console.error("Exam seats fetch error", seatError);
+      else setExamSeats((seatData || []).map(mapExamSeat));
+
+      // Invigilation duties are only visible to staff
+      const { data: invigilatorData, error: invigilatorError } = await supabase.from('exam_invigilators').select('*');
+      if (invigilatorError) console.error("Exam invigilators fetch error", invigilatorError);
+      else setExamInvigilators((invigilatorData || []).map(mapExamInvigilator));
+
+      // Revision ticks are private: RLS only returns our own
+      const { data: revisionData, error: revisionError } = await supabase.from('exam_revisions').select('*');
+      if (revisionError) console.error("Exam revisions fetch error", revisionError);
+      else setRevisionChecks((revisionData || []).map(mapRevisionCheck));
 
       // 4. Fetch Polls
-      const { data: pollData, error: pollError } = await supabase.from('polls').select('*');
+      const { data: pollData, error: pollError } = await selectVisible('polls', POLL_COLUMNS);
       if (pollError) throw pollError;
-      
-      setPolls((pollData || []).map((p: any) => {
-        // Handle Migration: If DB has array (old format), convert to empty object or ignore
-        // If DB has object (new format), use it
-        let votesMap: Record<string, string> = {};
-        if (p.voted_user_ids && !Array.isArray(p.voted_user_ids)) {
-            votesMap = p.voted_user_ids;
-        }
+      setPolls((pollData || []).map(mapPoll));
 
-        return {
-          ...p,
-          isAnonymous: p.is_anonymous,
-          createdAt: new Date(p.created_at),
-          expiresAt: new Date(p.expires_at),
-          createdById: p.created_by_id,
-          userVotes: votesMap, // New field
-          targetClass: p.target_class,
-          options: p.options || []
-        };
-      }));
+      // Move votes still stored in the legacy voted_user_ids map to poll_votes (mapPoll counts both meanwhile)
+      const legacyPollIds = (pollData || []).filter(hasLegacyVotes).map((p: any) => p.id);
+      if (legacyPollIds.length > 0) {
+        const { error: migrateError } = await supabase.rpc('migrate_legacy_votes', { p_poll_ids: legacyPollIds });
+        if (migrateError) console.error("Legacy votes migration failed", migrateError);
+      }
+
+      // Quizzes (their questions are polls) and the scores RLS lets us read
+      const { data: quizData, error: quizError } = await selectVisible('quizzes');
+      if (quizError) throw quizError;
+      setQuizzes((quizData || []).map(mapQuiz));
+
+      const { data: scoreData, error: scoreError } = await supabase.from('quiz_scores').select('*');
+      if (scoreError) console.error("Quiz scores fetch error", scoreError);
+      else setQuizScores((scoreData || []).map(mapQuizScore));
+
+      // Surveys (their questions are polls) with who submitted them
+      const { data: surveyData, error: surveyError } = await selectVisible('surveys', SURVEY_COLUMNS);
+      if (surveyError) throw surveyError;
+      setSurveys((surveyData || []).map(mapSurvey));
+
+      // Poll templates (staff only): school-wide ones and the user's own
+      if (sessionUser.role !== UserRole.ELEVE) {
+        const { data: templateData, error: templateError } = await supabase.from('poll_templates').select('*').order('title');
+        if (templateError) console.error("Poll templates fetch error", templateError);
+        else setPollTemplates((templateData || []).map(mapPollTemplate));
+      } else {
+        setPollTemplates([]);
+      }
+
+      // Reminders addressed to the current user
+      const { data: reminderData, error: reminderError } = await supabase.from('poll_reminders').select('*').eq('user_id', sessionUser.id);
+      if (reminderError) console.error("Poll reminders fetch error", reminderError);
+      else setPollReminders((reminderData || []).map(mapPollReminder));
 
       // 5. Fetch Resources
-      const { data: resData, error: resError } = await supabase.from('resources').select('*');
+      const { data: resData, error: resError } = await selectVisible('resources');
       if (resError && resError.code !== '42P01') { 
          console.error("Resources fetch error", resError);
       } else if (resData) {
-        setResources((resData || []).map((r: any) => ({
-          ...r,
-          targetClass: r.target_class,
-          createdAt: new Date(r.created_at),
-          createdById: r.created_by_id
-        })));
+        setResources((resData || []).map(mapResource));
       }
 
     } catch (error: any) {
@@ -182,6 +269,115 @@ const App: React.FC = () => {
     fetchData();
   }, [fetchData]);
 
+  // --- REALTIME SYNC ---
+
+  // Reloads one changed row (RLS decides whether we may still see it) and merges it into state
+  const applyRowChange = useCallback(async ({ table, id, event }: RowChange) => {
+    const upsertById = <T extends { id: string }>(list: T[], item: T) =>
+      list.some(x => x.id === item.id) ? list.map(x => x.id === item.id ? item : x) : [item, ...list];
+    const removeById = <T extends { id: string }>(list: T[]) => list.filter(x => x.id !== id);
+
+    // Grades are broadcast per exam (id = exam id): its whole sheet is reloaded
+    if (table === 'exam_grades') {
+      const { data, error } = await supabase.from('exam_grades').select('*').eq('exam_id', id);
+      if (error) console.error(`Realtime reload of exam_grades/${id} failed`, error);
+      else setExamGrades(prev => [...prev.filter(g => g.examId !== id), ...(data || []).map(mapExamGrade)]);
+      return;
+    }
+    if (table === 'exam_seats') {
+      const { data, error } = await supabase.from('exam_seats').select('*').eq('exam_id', id);
+      if (error) console.error(`Realtime reload of exam_seats/${id} failed`, error);
+      else setExamSeats(prev => [...prev.filter(s => s.examId !== id), ...(data || []).map(mapExamSeat)]);
+      return;
+    }
+    if (table === 'exam_invigilators') {
+      const { data, error } = await supabase.from('exam_invigilators').select('*').eq('exam_id', id);
+      if (error) console.error(`Realtime reload of exam_invigilators/${id} failed`, error);
+      else setExamInvigilators(prev => [...prev.filter(i => i.examId !== id), ...(data || []).map(mapExamInvigilator)]);
+      return;
+    }
+
+    let row: any = null;
+    if (event !== 'DELETE') {
+      const columns = table === 'polls' ? POLL_COLUMNS : table === 'surveys' ? SURVEY_COLUMNS : '*';
+      const { data, error } = await supabase.from(table).select(columns).eq('id', id).maybeSingle();
+      if (error) {
+        console.error(`Realtime reload of ${table}/${id} failed`, error);
+        return;
+      }
+      row = data;
+    }
+
+    switch (table) {
+      case 'announcements':
+        setAnnouncements(prev => row ? upsertById(prev, mapAnnouncement(row)) : removeById(prev));
+        break;
+      case 'exams':
+        setExams(prev => row ? upsertById(prev, mapExam(row)) : removeById(prev));
+        // Grades and seats are deleted with their exam (on delete cascade)
+        if (!row) {
+          setExamGrades(prev => prev.filter(g => g.examId !== id));
+          setExamSeats(prev => prev.filter(s => s.examId !== id));
+        }
+        break;
+      case 'exam_series':
+        setExamSeries(prev => row ? upsertById(prev, mapExamSeries(row)) : removeById(prev));
+        // Occurrences are deleted with their series (on delete cascade)
+        if (!row) setExams(prev => prev.filter(e => e.seriesId !== id));
+        break;
+      case 'polls':
+        setPolls(prev => row ? upsertById(prev, mapPoll(row)) : removeById(prev));
+        // Answers to quiz questions change the stored scores
+        if (row?.quiz_id) {
+          const { data: scoreData, error: scoreError } = await supabase.from('quiz_scores').select('*').eq('quiz_id', row.quiz_id);
+          if (scoreError) console.error(`Quiz scores reload of ${row.quiz_id} failed`, scoreError);
+          else setQuizScores(prev => [...prev.filter(s => s.quizId !== row.quiz_id), ...(scoreData || []).map(mapQuizScore)]);
+        }
+        break;
+      case 'quizzes':
+        setQuizzes(prev => row ? upsertById(prev, mapQuiz(row)) : removeById(prev));
+        break;
+      case 'surveys':
+        setSurveys(prev => row ? upsertById(prev, mapSurvey(row)) : removeById(prev));
+        break;
+      case 'poll_reminders':
+        // Responsables may also read the reminders they sent; only the user's own ones are kept (see notifications)
+        setPollReminders(prev => row ? upsertById(prev, mapPollReminder(row)) : removeById(prev));
+        break;
+      case 'resources':
+        setResources(prev => row ? upsertById(prev, mapResource(row)) : removeById(prev));
+        break;
+      case 'rooms':
+        setRooms(prev => (row ? upsertById(prev, mapRoom(row)) : removeById(prev)).sort((a, b) => a.name.localeCompare(b.name)));
+        // Seats of a deleted room go with it (on delete cascade)
+        if (!row) setExamSeats(prev => prev.filter(s => s.roomId !== id));
+        break;
+      case 'class_groups':
+        setClassGroups(prev => (row ? upsertById(prev, mapClassGroup(row)) : removeById(prev)).sort((a, b) => a.name.localeCompare(b.name)));
+        break;
+    }
+  }, []);
+
+  const currentUserId = currentUser?.id;
+  useEffect(() => {
+    if (!currentUserId) return;
+    const unsubscribe = subscribeToChanges(applyRowChange, setRealtimeStatus);
+    return () => {
+      unsubscribe();
+      setRealtimeStatus('OFFLINE');
+    };
+  }, [currentUserId, applyRowChange]);
+
+  // Anonymous results are served once the poll is closed and no ballot is broadcast: reload them at closing time
+  useEffect(() => {
+    const timers = polls
+      .filter(p => p.isAnonymous && getPollStatus(p) !== 'CLOSED')
+      .map(p => ({ id: p.id, delay: new Date(p.expiresAt).getTime() - Date.now() + 1000 }))
+      .filter(({ delay }) => delay <= MAX_TIMER_DELAY)
+      .map(({ id, delay }) => window.setTimeout(() => applyRowChange({ table: 'polls', id, event: 'UPDATE' }), delay));
+    return () => timers.forEach(timer => window.clearTimeout(timer));
+  }, [polls, applyRowChange]);
+
   // --- NAVIGATION LOGIC ---
   const changeView = (newView: ViewState) => {
     if (newView === currentView) return;
@@ -204,49 +400,111 @@ const App: React.FC = () => {
   };
 
   // --- Filtering Logic for Students ---
+  // Safety net only: the queries in fetchData and the RLS policies already restrict rows to the user's class
   const filteredAnnouncements = useMemo(() => {
-    if (!currentUser || currentUser.role === UserRole.ADMIN || currentUser.role === UserRole.RESPONSABLE) return announcements;
-    return announcements.filter(a => !a.targetClass || a.targetClass === currentUser.classGroup);
+    if (!currentUser) return announcements;
+    return announcements.filter(a => can(currentUser, 'view', 'announcement', a));
   }, [announcements, currentUser]);
 
   const filteredExams = useMemo(() => {
-    if (!currentUser || currentUser.role === UserRole.ADMIN || currentUser.role === UserRole.RESPONSABLE) return exams;
-    return exams.filter(e => !e.targetClass || e.targetClass === currentUser.classGroup);
+    if (!currentUser) return exams;
+    return exams.filter(e => can(currentUser, 'view', 'exam', e));
   }, [exams, currentUser]);
 
+  const filteredExamSeries = useMemo(() => {
+    if (!currentUser) return examSeries;
+    return examSeries.filter(s => can(currentUser, 'view', 'examSeries', s));
+  }, [examSeries, currentUser]);
+
   const filteredPolls = useMemo(() => {
-    if (!currentUser || currentUser.role === UserRole.ADMIN || currentUser.role === UserRole.RESPONSABLE) return polls;
-    return polls.filter(p => !p.targetClass || p.targetClass === currentUser.classGroup);
+    if (!currentUser) return polls;
+    return polls.filter(p => can(currentUser, 'view', 'poll', p));
   }, [polls, currentUser]);
 
+  const filteredQuizzes = useMemo(() => {
+    if (!currentUser) return quizzes;
+    return quizzes.filter(q => can(currentUser, 'view', 'quiz', q));
+  }, [quizzes, currentUser]);
+
+  const filteredSurveys = useMemo(() => {
+    if (!currentUser) return surveys;
+    return surveys.filter(s => can(currentUser, 'view', 'survey', s));
+  }, [surveys, currentUser]);
+
   const filteredResources = useMemo(() => {
-    if (!currentUser || currentUser.role === UserRole.ADMIN || currentUser.role === UserRole.RESPONSABLE) return resources;
-    return resources.filter(r => !r.targetClass || r.targetClass === currentUser.classGroup);
+    if (!currentUser) return resources;
+    return resources.filter(r => can(currentUser, 'view', 'resource', r));
   }, [resources, currentUser]);
 
 
-  const handleLogin = (email: string, password: string): boolean => {
-    const user = users.find(u => u.email.toLowerCase() === email.toLowerCase() && u.password === password);
-    if (user) {
-      localStorage.setItem('classpoll_session', JSON.stringify(user));
-      setCurrentUser(user);
+  const handleLogin = async (email: string, password: string): Promise<boolean> => {
+    try {
+      const session = await signIn(email, password);
+      if (!session) return false;
       setCurrentView('DASHBOARD');
       setViewHistory([]); // Reset history on login
+      await fetchData(); // Restores the user from the new session
       return true;
+    } catch (err) {
+      console.error("Login failed", err);
+      return false;
     }
-    return false;
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('classpoll_session');
+  const handleLogout = async () => {
+    await signOut();
     setCurrentUser(null);
+    setMustChangePassword(false);
     setViewHistory([]);
   };
 
+  // --- PASSWORD RESET ---
+
+  const handleResetWithToken = async (password: string): Promise<boolean> => {
+    if (!resetToken) return false;
+    try {
+      const success = await resetPasswordWithToken(resetToken, password);
+      if (success) {
+        clearResetTokenFromUrl();
+        setResetToken(null);
+        setLoginNotice('Mot de passe modifié. Vous pouvez vous connecter.');
+      }
+      return success;
+    } catch (err) {
+      console.error("Password reset failed", err);
+      return false;
+    }
+  };
+
+  const cancelResetWithToken = () => {
+    clearResetTokenFromUrl();
+    setResetToken(null);
+  };
+
+  const handleForcedPasswordChange = async (password: string): Promise<boolean> => {
+    if (!currentUser) return false;
+    try {
+      await setUserPassword(currentUser.id, password);
+      setMustChangePassword(false);
+      await fetchData(); // The session now gives access to the content
+      return true;
+    } catch (err) {
+      console.error("Password change failed", err);
+      return false;
+    }
+  };
+
   // --- Optimistic Actions with Supabase ---
 
+  // Every mutation goes through the permission module, not only the buttons shown in the UI
+  const ensureAllowed = <R extends PermissionResource>(action: PermissionAction, resource: R, item?: PermissionTarget<R>) => {
+    if (can(currentUser, action, resource, item)) return true;
+    alert("Vous n'avez pas la permission d'effectuer cette action.");
+    return false;
+  };
+
   const addAnnouncement = async (data: Omit<Announcement, 'id' | 'authorId' | 'authorName'>) => {
-    if (!currentUser) return;
+    if (!currentUser || !ensureAllowed('create', 'announcement', data)) return;
     const newId = generateId();
     const newAnn: Announcement = {
       ...data,
@@ -278,6 +536,9 @@ const App: React.FC = () => {
   };
 
   const updateAnnouncement = async (updatedAnn: Omit<Announcement, 'authorName'>) => {
+    const existing = announcements.find(a => a.id === updatedAnn.id);
+    // Retargeting counts as creating for the new class
+    if (!existing || !ensureAllowed('update', 'announcement', existing) || !ensureAllowed('create', 'announcement', updatedAnn)) return;
     const prevAnnouncements = [...announcements];
     setAnnouncements(prev => prev.map(a => a.id === updatedAnn.id ? { ...a, ...updatedAnn } : a));
 
@@ -299,6 +560,8 @@ const App: React.FC = () => {
   };
 
   const deleteAnnouncement = async (id: string) => {
+    const existing = announcements.find(a => a.id === id);
+    if (!existing || !ensureAllowed('delete', 'announcement', existing)) return;
     const prevAnnouncements = [...announcements];
     setAnnouncements(prev => prev.filter(a => a.id !== id));
 
@@ -313,7 +576,7 @@ const App: React.FC = () => {
   };
 
   const addExam = async (data: Omit<Exam, 'id' | 'createdById'>) => {
-    if (!currentUser) return;
+    if (!currentUser || !ensureAllowed('create', 'exam', data)) return;
     const newId = generateId();
     const newExam: Exam = {
       ...data,
@@ -333,6 +596,10 @@ const App: React.FC = () => {
         room: data.room,
         notes: data.notes,
         target_class: data.targetClass,
+        max_score: data.maxScore,
+        coefficient: data.coefficient,
+        syllabus: data.syllabus,
+        resource_ids: data.resourceIds,
         created_by_id: currentUser.id
       });
       if (error) throw error;
@@ -343,7 +610,39 @@ const App: React.FC = () => {
     }
   };
 
+  // Timetable import: all rows in a single insert, so a rejected row leaves nothing half imported
+  const importExams = async (rows: Omit<Exam, 'id' | 'createdById'>[]): Promise<boolean> => {
+    if (!currentUser || rows.length === 0 || !rows.every(row => ensureAllowed('create', 'exam', row))) return false;
+    const newExams: Exam[] = rows.map(row => ({ ...row, id: generateId(), createdById: currentUser.id }));
+    const newIds = newExams.map(e => e.id);
+
+    setExams(prev => [...prev, ...newExams]);
+
+    try {
+      const { error } = await supabase.from('exams').insert(newExams.map(exam => ({
+        id: exam.id,
+        subject: exam.subject,
+        date: exam.date.toISOString(),
+        start_time: exam.startTime,
+        duration_minutes: exam.durationMinutes,
+        room: exam.room,
+        notes: exam.notes,
+        target_class: exam.targetClass,
+        created_by_id: currentUser.id
+      })));
+      if (error) throw error;
+      return true;
+    } catch (err: any) {
+      console.error("Failed to import exams", err);
+      alert(`Erreur lors de l'import des examens: ${err.message}`);
+      setExams(prev => prev.filter(e => !newIds.includes(e.id)));
+      return false;
+    }
+  };
+
   const updateExam = async (updatedExam: Exam) => {
+    const existing = exams.find(e => e.id === updatedExam.id);
+    if (!existing || !ensureAllowed('update', 'exam', existing) || !ensureAllowed('create', 'exam', updatedExam)) return;
     const prevExams = [...exams];
     setExams(prev => prev.map(e => e.id === updatedExam.id ? updatedExam : e));
 
@@ -355,7 +654,11 @@ const App: React.FC = () => {
         duration_minutes: updatedExam.durationMinutes,
         room: updatedExam.room,
         notes: updatedExam.notes,
-        target_class: updatedExam.targetClass
+        target_class: updatedExam.targetClass,
+        max_score: updatedExam.maxScore,
+        coefficient: updatedExam.coefficient,
+        syllabus: updatedExam.syllabus,
+        resource_ids: updatedExam.resourceIds
       }).eq('id', updatedExam.id);
       if (error) throw error;
     } catch (err: any) {
@@ -365,22 +668,367 @@ const App: React.FC = () => {
     }
   };
 
+  // Mark sheet of an exam: filled entries are upserted, emptied ones deleted
+  const saveExamGrades = async (exam: Exam, entries: GradeEntry[]): Promise<boolean> => {
+    if (!currentUser || !ensureAllowed('update', 'exam', exam)) return false;
+    const isEmpty = (entry: GradeEntry) => entry.score === undefined && !entry.isAbsent && !entry.comment;
+    const studentIds = entries.map(e => e.studentId);
+    const kept = entries.filter(e => !isEmpty(e));
+    const removedIds = entries.filter(isEmpty).map(e => e.studentId);
+    const prevGrades = [...examGrades];
+
+    setExamGrades(prev => [
+      ...prev.filter(g => g.examId !== exam.id || !studentIds.includes(g.studentId)),
+      ...kept.map(entry => ({ ...entry, examId: exam.id, gradedById: currentUser.id, updatedAt: new Date() }))
+    ]);
+
+    try {
+      if (kept.length > 0) {
+        const { error } = await supabase.from('exam_grades').upsert(kept.map(entry => ({
+          exam_id: exam.id,
+          student_id: entry.studentId,
+          score: entry.score ?? null,
+          is_absent: entry.isAbsent,
+          comment: entry.comment ?? null,
+          graded_by_id: currentUser.id
+        })), { onConflict: 'exam_id,student_id' });
+        if (error) throw error;
+      }
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from('exam_grades').delete().eq('exam_id', exam.id).in('student_id', removedIds);
+        if (error) throw error;
+      }
+      return true;
+    } catch (err: any) {
+      console.error("Failed to save exam grades", err);
+      alert(`Erreur lors de l'enregistrement des notes: ${err.message}`);
+      setExamGrades(prevGrades);
+      return false;
+    }
+  };
+
+  // Replaces the whole seating plan of an exam (save_exam_seating runs in one transaction)
+  const saveExamSeating = async (exam: Exam, seats: ExamSeat[]): Promise<boolean> => {
+    if (!ensureAllowed('update', 'exam', exam)) return false;
+    const prevSeats = [...examSeats];
+    setExamSeats(prev => [...prev.filter(s => s.examId !== exam.id), ...seats]);
+
+    try {
+      const { error } = await supabase.rpc('save_exam_seating', {
+        p_exam_id: exam.id,
+        p_seats: seats.map(s => ({ studentId: s.studentId, roomId: s.roomId, row: s.row, seat: s.seat }))
+      });
+      if (error) throw error;
+      return true;
+    } catch (err: any) {
+      console.error("Failed to save seating plan", err);
+      alert(`Erreur lors de l'enregistrement du plan de salle: ${err.message}`);
+      setExamSeats(prevSeats);
+      return false;
+    }
+  };
+
+  // Replaces the invigilators of an exam (save_exam_invigilators checks double bookings when conflicts are blocked)
+  const saveExamInvigilators = async (exam: Exam, userIds: string[]): Promise<boolean> => {
+    if (!ensureAllowed('update', 'exam', exam)) return false;
+    const prevInvigilators = [...examInvigilators];
+    setExamInvigilators(prev => [...prev.filter(i => i.examId !== exam.id), ...userIds.map(userId => ({ examId: exam.id, userId }))]);
+
+    try {
+      const { error } = await supabase.rpc('save_exam_invigilators', { p_exam_id: exam.id, p_user_ids: userIds });
+      if (error) throw error;
+      return true;
+    } catch (err: any) {
+      console.error("Failed to save invigilators", err);
+      alert(`Erreur lors de l'enregistrement des surveillants: ${err.message}`);
+      setExamInvigilators(prevInvigilators);
+      return false;
+    }
+  };
+
+  // Ticks (or unticks) a syllabus chapter in the current user's own revision checklist
+  const toggleRevisionTopic = async (exam: Exam, topicId: string) => {
+    if (!currentUser || !ensureAllowed('view', 'exam', exam)) return;
+    const userId = currentUser.id;
+    const isRevised = isTopicRevised(revisionChecks, exam.id, topicId, userId);
+    const prevChecks = [...revisionChecks];
+    setRevisionChecks(prev => isRevised
+      ? prev.filter(c => !(c.examId === exam.id && c.topicId === topicId && c.userId === userId))
+      : [...prev, { examId: exam.id, userId, topicId }]);
+
+    try {
+      const { error } = isRevised
+        ? await supabase.from('exam_revisions').delete().eq('exam_id', exam.id).eq('user_id', userId).eq('topic_id', topicId)
+        : await supabase.from('exam_revisions').insert({ exam_id: exam.id, user_id: userId, topic_id: topicId });
+      if (error) throw error;
+    } catch (err: any) {
+      console.error("Failed to update revision checklist", err);
+      alert(`Erreur lors de la mise à jour des révisions: ${err.message}`);
+      setRevisionChecks(prevChecks);
+    }
+  };
+
   const deleteExam = async (id: string) => {
+    const existing = exams.find(e => e.id === id);
+    if (!existing || !ensureAllowed('delete', 'exam', existing)) return;
     const prevExams = [...exams];
+    const prevSeries = [...examSeries];
     setExams(prev => prev.filter(e => e.id !== id));
 
+    // A deleted occurrence becomes an exception of its series
+    const series = examSeries.find(s => s.id === existing.seriesId);
+    const exceptionDates = series ? Array.from(new Set([...series.exceptionDates, toDateKey(existing.date)])).sort() : [];
+    if (series) setExamSeries(prev => prev.map(s => s.id === series.id ? { ...s, exceptionDates } : s));
+
     try {
       const { error } = await supabase.from('exams').delete().eq('id', id);
       if (error) throw error;
+      if (series) {
+        const { error: seriesError } = await supabase.from('exam_series').update({ exception_dates: exceptionDates }).eq('id', series.id);
+        if (seriesError) throw seriesError;
+      }
     } catch (err: any) {
       console.error("Delete failed", err);
       alert(`Impossible de supprimer l'examen. Détails: ${err.message}`);
       setExams(prevExams);
+      setExamSeries(prevSeries);
     }
   };
 
-  const addPoll = async (data: Omit<Poll, 'id' | 'createdById' | 'createdAt' | 'userVotes'>) => {
-    if (!currentUser) return;
+  // --- EXAM SERIES ---
+
+  // Creates the rule and all its occurrences, which are then regular exams
+  const addExamSeries = async (data: Omit<ExamSeries, 'id' | 'createdById' | 'createdAt'>) => {
+    if (!currentUser || !ensureAllowed('create', 'examSeries', data)) return;
+    const dates = generateOccurrenceDates(data);
+    if (dates.length === 0) {
+      alert("Cette récurrence ne produit aucune date : vérifiez la date de fin et les exceptions.");
+      return;
+    }
+    const seriesId = generateId();
+    const now = new Date();
+    const newSeries: ExamSeries = { ...data, id: seriesId, createdById: currentUser.id, createdAt: now };
+    const occurrences: Exam[] = dates.map(date => ({
+      id: generateId(),
+      subject: data.subject,
+      date,
+      startTime: data.startTime,
+      durationMinutes: data.durationMinutes,
+      room: data.room,
+      notes: data.notes,
+      targetClass: data.targetClass,
+      createdById: currentUser.id,
+      seriesId
+    }));
+
+    setExamSeries(prev => [...prev, newSeries]);
+    setExams(prev => [...prev, ...occurrences]);
+
+    try {
+      const { error: seriesError } = await supabase.from('exam_series').insert({
+        id: seriesId,
+        subject: data.subject,
+        start_time: data.startTime,
+        duration_minutes: data.durationMinutes,
+        room: data.room,
+        notes: data.notes,
+        target_class: data.targetClass,
+        frequency: data.frequency,
+        starts_on: toDateKey(data.startsOn),
+        until: toDateKey(data.until),
+        exception_dates: data.exceptionDates,
+        created_by_id: currentUser.id,
+        created_at: now.toISOString()
+      });
+      if (seriesError) throw seriesError;
+
+      const { error: examsError } = await supabase.from('exams').insert(occurrences.map(exam => ({
+        id: exam.id,
+        subject: exam.subject,
+        date: exam.date.toISOString(),
+        start_time: exam.startTime,
+        duration_minutes: exam.durationMinutes,
+        room: exam.room,
+        notes: exam.notes,
+        target_class: exam.targetClass,
+        created_by_id: currentUser.id,
+        series_id: seriesId
+      })));
+      if (examsError) throw examsError;
+    } catch (err: any) {
+      console.error("Failed to add exam series", err);
+      alert(`Erreur lors de la création de la série de DS: ${err.message}`);
+      setExamSeries(prev => prev.filter(s => s.id !== seriesId));
+      setExams(prev => prev.filter(e => e.seriesId !== seriesId));
+      // Occurrences already written go away with the series (on delete cascade)
+      await supabase.from('exam_series').delete().eq('id', seriesId);
+    }
+  };
+
+  // Applies the edited occurrence to it and every later occurrence; a date change shifts them all by the same number of days.
+  // The rule moves with them: shifted as a whole from the first occurrence, split otherwise (earlier ones keep their dates)
+  const updateFutureExams = async (updatedExam: Exam) => {
+    const existing = exams.find(e => e.id === updatedExam.id);
+    const series = examSeries.find(s => s.id === existing?.seriesId);
+    if (!currentUser || !existing || !series) return updateExam(updatedExam);
+    if (!ensureAllowed('update', 'examSeries', series) || !ensureAllowed('create', 'examSeries', { targetClass: updatedExam.targetClass })) return;
+
+    const shift = daysBetween(existing.date, updatedExam.date);
+    const futureIds = new Set(getFutureOccurrences(existing, exams).map(e => e.id));
+    const keepsPast = exams.some(e => e.seriesId === series.id && !futureIds.has(e.id));
+    const fromKey = toDateKey(existing.date);
+    const shiftKeys = (keys: string[]) => keys.map(key => toDateKey(shiftDays(new Date(key), shift)));
+
+    const fields = {
+      subject: updatedExam.subject,
+      startTime: updatedExam.startTime,
+      durationMinutes: updatedExam.durationMinutes,
+      room: updatedExam.room,
+      notes: updatedExam.notes,
+      targetClass: updatedExam.targetClass
+    };
+    // Series of the edited occurrences, and what remains of the old one when it is split.
+    // With past occurrences left, the series is always split so their rule keeps the old fields.
+    let updatedSeries: ExamSeries = { ...series, ...fields };
+    let truncatedSeries: ExamSeries | null = null;
+    if (keepsPast) {
+      truncatedSeries = { ...series, until: shiftDays(existing.date, -1), exceptionDates: series.exceptionDates.filter(key => key < fromKey) };
+      updatedSeries = {
+        ...updatedSeries,
+        id: generateId(),
+        createdById: currentUser.id,
+        createdAt: new Date(),
+        startsOn: shiftDays(existing.date, shift),
+        until: shiftDays(series.until, shift),
+        exceptionDates: shiftKeys(series.exceptionDates.filter(key => key >= fromKey))
+      };
+    } else if (shift !== 0) {
+      updatedSeries = {
+        ...updatedSeries,
+        startsOn: shiftDays(series.startsOn, shift),
+        until: shiftDays(series.until, shift),
+        exceptionDates: shiftKeys(series.exceptionDates)
+      };
+    }
+
+    const changed = exams
+      .filter(e => futureIds.has(e.id))
+      .map(e => ({
+        ...e,
+        ...fields,
+        date: shiftDays(e.date, shift),
+        maxScore: updatedExam.maxScore,
+        coefficient: updatedExam.coefficient,
+        seriesId: updatedSeries.id,
+        // Each occurrence covers its own chapters: the syllabus only changes on the edited one
+        ...(e.id === updatedExam.id ? { syllabus: updatedExam.syllabus, resourceIds: updatedExam.resourceIds } : {})
+      }));
+    const prevExams = [...exams];
+    const prevSeries = [...examSeries];
+    setExams(prev => prev.map(e => changed.find(c => c.id === e.id) || e));
+    setExamSeries(prev => [
+      ...prev.map(s => s.id === series.id ? truncatedSeries || updatedSeries : s),
+      ...(truncatedSeries ? [updatedSeries] : [])
+    ]);
+
+    const ruleRow = (rule: ExamSeries) => ({
+      subject: rule.subject,
+      start_time: rule.startTime,
+      duration_minutes: rule.durationMinutes,
+      room: rule.room,
+      notes: rule.notes,
+      target_class: rule.targetClass,
+      starts_on: toDateKey(rule.startsOn),
+      until: toDateKey(rule.until),
+      exception_dates: rule.exceptionDates
+    });
+
+    try {
+      const { error: seriesError } = truncatedSeries
+        ? await supabase.from('exam_series').insert({
+            ...ruleRow(updatedSeries),
+            id: updatedSeries.id,
+            frequency: updatedSeries.frequency,
+            created_by_id: currentUser.id,
+            created_at: updatedSeries.createdAt.toISOString()
+          })
+        : await supabase.from('exam_series').update(ruleRow(updatedSeries)).eq('id', series.id);
+      if (seriesError) throw seriesError;
+
+      const { error } = await supabase.from('exams').upsert(changed.map(exam => ({
+        id: exam.id,
+        subject: exam.subject,
+        date: exam.date.toISOString(),
+        start_time: exam.startTime,
+        duration_minutes: exam.durationMinutes,
+        room: exam.room,
+        notes: exam.notes,
+        target_class: exam.targetClass,
+        max_score: exam.maxScore,
+        coefficient: exam.coefficient,
+        syllabus: exam.syllabus,
+        resource_ids: exam.resourceIds,
+        created_by_id: exam.createdById,
+        series_id: updatedSeries.id
+      })));
+      if (error) throw error;
+
+      if (truncatedSeries) {
+        const { error: truncateError } = await supabase.from('exam_series')
+          .update({ until: toDateKey(truncatedSeries.until), exception_dates: truncatedSeries.exceptionDates })
+          .eq('id', series.id);
+        if (truncateError) throw truncateError;
+      }
+    } catch (err: any) {
+      console.error("Update exam series failed", err);
+      alert(`Erreur lors de la mise à jour des occurrences: ${err.message}`);
+      setExams(prevExams);
+      setExamSeries(prevSeries);
+      if (truncatedSeries) {
+        // Occurrences moved to the new series come back to the old one before it goes
+        await supabase.from('exams').update({ series_id: series.id }).eq('series_id', updatedSeries.id);
+        await supabase.from('exam_series').delete().eq('id', updatedSeries.id);
+        await supabase.from('exam_series').update(ruleRow(series)).eq('id', series.id);
+      }
+      await fetchData();
+    }
+  };
+
+  // Ends the series before the given occurrence (or removes it entirely from its first one)
+  const deleteFutureExams = async (id: string) => {
+    const existing = exams.find(e => e.id === id);
+    const series = examSeries.find(s => s.id === existing?.seriesId);
+    if (!existing || !series) return deleteExam(id);
+    if (!ensureAllowed('delete', 'examSeries', series)) return;
+
+    const futureIds = getFutureOccurrences(existing, exams).map(e => e.id);
+    const keepsPast = exams.some(e => e.seriesId === series.id && !futureIds.includes(e.id));
+    const until = shiftDays(existing.date, -1);
+    const prevExams = [...exams];
+    const prevSeries = [...examSeries];
+    setExams(prev => prev.filter(e => !futureIds.includes(e.id)));
+    setExamSeries(prev => keepsPast ? prev.map(s => s.id === series.id ? { ...s, until } : s) : prev.filter(s => s.id !== series.id));
+
+    try {
+      if (keepsPast) {
+        const { error } = await supabase.from('exams').delete().in('id', futureIds);
+        if (error) throw error;
+        const { error: seriesError } = await supabase.from('exam_series').update({ until: toDateKey(until) }).eq('id', series.id);
+        if (seriesError) throw seriesError;
+      } else {
+        const { error } = await supabase.from('exam_series').delete().eq('id', series.id);
+        if (error) throw error;
+      }
+    } catch (err: any) {
+      console.error("Delete exam series failed", err);
+      alert(`Impossible de supprimer les occurrences. Détails: ${err.message}`);
+      setExams(prevExams);
+      setExamSeries(prevSeries);
+    }
+  };
+
+  const addPoll = async (data: Omit<Poll, 'id' | 'createdById' | 'createdAt' | 'userVotes' | 'voterIds' | 'ballots' | 'textAnswers'>) => {
+    if (!currentUser || !ensureAllowed('create', 'poll', data)) return;
     const newId = generateId();
     const now = new Date();
     const newPoll: Poll = {
@@ -388,7 +1036,10 @@ const App: React.FC = () => {
       id: newId,
       createdById: currentUser.id,
       createdAt: now,
-      userVotes: {}
+      userVotes: {},
+      voterIds: [],
+      ballots: [],
+      textAnswers: []
     };
 
     setPolls(prev => [newPoll, ...prev]);
@@ -397,13 +1048,16 @@ const App: React.FC = () => {
       const { error } = await supabase.from('polls').insert({
         id: newId,
         title: data.title,
-        options: data.options,
+        options: toPollOptionsRow(data.options),
+        poll_type: data.pollType,
+        max_selections: data.maxSelections ?? null,
+        scale_max: data.scaleMax ?? null,
         is_anonymous: data.isAnonymous,
         created_at: now.toISOString(),
+        opens_at: data.opensAt.toISOString(),
         expires_at: data.expiresAt.toISOString(),
         target_class: data.targetClass,
-        created_by_id: currentUser.id,
-        voted_user_ids: {} // Initialize as empty object
+        created_by_id: currentUser.id
       });
       if (error) throw error;
     } catch (err: any) {
@@ -414,13 +1068,20 @@ const App: React.FC = () => {
   };
 
   const updatePoll = async (updatedPoll: Poll) => {
+    const existing = polls.find(p => p.id === updatedPoll.id);
+    if (!existing || !ensureAllowed('update', 'poll', existing) || !ensureAllowed('create', 'poll', updatedPoll)) return;
     const prevPolls = [...polls];
     setPolls(prev => prev.map(p => p.id === updatedPoll.id ? updatedPoll : p));
 
     try {
       const { error } = await supabase.from('polls').update({
         title: updatedPoll.title,
-        options: updatedPoll.options,
+        options: toPollOptionsRow(updatedPoll.options),
+        poll_type: updatedPoll.pollType,
+        max_selections: updatedPoll.maxSelections ?? null,
+        scale_max: updatedPoll.scaleMax ?? null,
+        opens_at: updatedPoll.opensAt.toISOString(),
+        expires_at: updatedPoll.expiresAt.toISOString(),
         is_anonymous: updatedPoll.isAnonymous,
         target_class: updatedPoll.targetClass
       }).eq('id', updatedPoll.id);
@@ -432,45 +1093,41 @@ const App: React.FC = () => {
     }
   };
 
-  // CORRECTED VOTE LOGIC: Handle changing votes with robust error handling
-  const votePoll = async (pollId: string, optionId: string) => {
-    if (!currentUser) return;
+  // Votes are recorded server-side (cast_vote replaces the user's ballot in poll_votes), so concurrent voters never overwrite each other.
+  // optionIds holds one option for single choice polls, the selection for multiple choice, the order of preference for ranked polls.
+  const votePoll = async (pollId: string, optionIds: string[]) => {
+    if (!currentUser || optionIds.length === 0) return;
     
     // 1. Identify poll and changes
     const pollToUpdate = polls.find(p => p.id === pollId);
-    if (!pollToUpdate) return;
+    if (!pollToUpdate || !ensureAllowed('vote', 'poll', pollToUpdate)) return;
 
-    // Ensure userVotes is an object
-    const currentUserVotes = pollToUpdate.userVotes || {};
-    const previousOptionId = currentUserVotes[currentUser.id];
-    
-    // Prevent voting for the same option again
-    if (previousOptionId === optionId) return;
+    const status = getPollStatus(pollToUpdate);
+    if (status !== 'OPEN') {
+      alert(status === 'CLOSED' ? "Ce sondage est clos : les votes ne sont plus acceptés." : "Ce sondage n'est pas encore ouvert.");
+      return;
+    }
 
     // 2. Compute new state
-    const updatedUserVotes = { ...currentUserVotes, [currentUser.id]: optionId };
-    
-    const updatedOptions = pollToUpdate.options.map(o => {
-      let voteCount = o.votes;
-      // Decrement old vote (if any)
-      if (o.id === previousOptionId) voteCount = Math.max(0, voteCount - 1);
-      // Increment new vote
-      if (o.id === optionId) voteCount += 1;
-      return { ...o, votes: voteCount };
-    });
-
-    const updatedPoll = { ...pollToUpdate, userVotes: updatedUserVotes, options: updatedOptions };
+    if (pollToUpdate.isAnonymous) {
+      // Anonymous ballots are stored unlinked from the voter and cannot be changed afterwards
+      if (hasUserVoted(pollToUpdate, currentUser.id)) {
+        alert("Vous avez déjà voté : un vote anonyme est définitif.");
+        return;
+      }
+    } else {
+      // Prevent submitting the same ballot again
+      const previousBallot = pollToUpdate.userVotes?.[currentUser.id] || [];
+      if (previousBallot.join(',') === optionIds.join(',')) return;
+    }
+    const updatedPoll = withBallot(pollToUpdate, currentUser.id, optionIds);
 
     // 3. Optimistic Update
     setPolls(prev => prev.map(p => p.id === pollId ? updatedPoll : p));
 
     try {
-      // 4. Send to Supabase
-      const { error } = await supabase.from('polls').update({
-        voted_user_ids: updatedUserVotes, // Save object map
-        options: updatedOptions
-      }).eq('id', pollId);
-      
+      // 4. Send to Supabase; the realtime signal then reloads the authoritative counts
+      const { error } = await supabase.rpc('cast_vote', { p_poll_id: pollId, p_option_ids: optionIds });
       if (error) throw error;
     } catch (err: any) {
       console.error("Vote failed", err);
@@ -480,7 +1137,39 @@ const App: React.FC = () => {
     }
   };
 
+  const answerTextPoll = async (pollId: string, answer: string) => {
+    const text = answer.trim();
+    if (!currentUser || !text) return;
+
+    const pollToUpdate = polls.find(p => p.id === pollId);
+    if (!pollToUpdate || !ensureAllowed('vote', 'poll', pollToUpdate)) return;
+
+    const status = getPollStatus(pollToUpdate);
+    if (status !== 'OPEN') {
+      alert(status === 'CLOSED' ? "Ce sondage est clos : les réponses ne sont plus acceptées." : "Ce sondage n'est pas encore ouvert.");
+      return;
+    }
+    if (pollToUpdate.isAnonymous && hasUserVoted(pollToUpdate, currentUser.id)) {
+      alert("Vous avez déjà répondu : une réponse anonyme est définitive.");
+      return;
+    }
+
+    const updatedPoll = withTextAnswer(pollToUpdate, currentUser.id, text);
+    setPolls(prev => prev.map(p => p.id === pollId ? updatedPoll : p));
+
+    try {
+      const { error } = await supabase.rpc('submit_text_answer', { p_poll_id: pollId, p_answer: text });
+      if (error) throw error;
+    } catch (err: any) {
+      console.error("Text answer failed", err);
+      alert(`Erreur lors de l'envoi de la réponse: ${err.message}`);
+      await fetchData();
+    }
+  };
+
   const deletePoll = async (id: string) => {
+    const existing = polls.find(p => p.id === id);
+    if (!existing || !ensureAllowed('delete', 'poll', existing)) return;
     const prevPolls = [...polls];
     setPolls(prev => prev.filter(p => p.id !== id));
 
@@ -494,10 +1183,306 @@ const App: React.FC = () => {
     }
   };
 
+  // Reminds the students of the poll's class who have not voted yet (computed server-side)
+  const remindPollNonVoters = async (pollId: string) => {
+    const poll = polls.find(p => p.id === pollId);
+    if (!poll || !ensureAllowed('update', 'poll', poll)) return;
+
+    try {
+      const { data, error } = await supabase.rpc('remind_poll_non_voters', { p_poll_id: pollId });
+      if (error) throw error;
+      const count = data as number;
+      alert(count > 0 ? `${count} rappel${count > 1 ? 's' : ''} envoyé${count > 1 ? 's' : ''}.` : "Tous les élèves de la classe ont déjà voté.");
+    } catch (err: any) {
+      console.error("Poll reminder failed", err);
+      alert(`Erreur lors de l'envoi des rappels: ${err.message}`);
+    }
+  };
+
+  // --- QUIZZES ---
+
+  // A quiz is stored with its questions (QUIZ polls sharing its target and window) and their answer keys
+  const addQuiz = async (data: Omit<Quiz, 'id' | 'createdById' | 'createdAt'>, questions: { title: string; options: PollOption[] }[]) => {
+    if (!currentUser || !ensureAllowed('create', 'quiz', data)) return;
+    const quizId = generateId();
+    const now = new Date();
+    const newQuiz: Quiz = { ...data, id: quizId, createdById: currentUser.id, createdAt: now };
+    const questionPolls: Poll[] = questions.map((question, idx) => ({
+      id: generateId(),
+      title: question.title,
+      options: question.options,
+      pollType: PollType.QUIZ,
+      isAnonymous: false,
+      createdAt: now,
+      opensAt: data.opensAt,
+      expiresAt: data.expiresAt,
+      createdById: currentUser.id,
+      userVotes: {},
+      voterIds: [],
+      ballots: [],
+      textAnswers: [],
+      targetClass: data.targetClass,
+      quizId,
+      quizPosition: idx
+    }));
+
+    setQuizzes(prev => [newQuiz, ...prev]);
+    setPolls(prev => [...questionPolls, ...prev]);
+
+    try {
+      const { error: quizError } = await supabase.from('quizzes').insert({
+        id: quizId,
+        title: data.title,
+        description: data.description,
+        target_class: data.targetClass,
+        opens_at: data.opensAt.toISOString(),
+        expires_at: data.expiresAt.toISOString(),
+        created_by_id: currentUser.id,
+        created_at: now.toISOString()
+      });
+      if (quizError) throw quizError;
+
+      const { error: pollsError } = await supabase.from('polls').insert(questionPolls.map(q => ({
+        id: q.id,
+        title: q.title,
+        options: toPollOptionsRow(q.options),
+        poll_type: PollType.QUIZ,
+        is_anonymous: false,
+        created_at: now.toISOString(),
+        opens_at: data.opensAt.toISOString(),
+        expires_at: data.expiresAt.toISOString(),
+        target_class: data.targetClass,
+        created_by_id: currentUser.id,
+        quiz_id: quizId,
+        quiz_position: q.quizPosition
+      })));
+      if (pollsError) throw pollsError;
+
+      const { error: keysError } = await supabase.from('poll_answer_keys').insert(questionPolls.map(q => ({
+        poll_id: q.id,
+        correct_option_ids: q.options.filter(o => o.isCorrect).map(o => o.id)
+      })));
+      if (keysError) throw keysError;
+    } catch (err: any) {
+      console.error("Failed to add quiz", err);
+      alert(`Erreur lors de la création du quiz: ${err.message}`);
+      setQuizzes(prev => prev.filter(q => q.id !== quizId));
+      setPolls(prev => prev.filter(p => p.quizId !== quizId));
+      // Questions and answer keys already written go away with the quiz (on delete cascade)
+      await supabase.from('quizzes').delete().eq('id', quizId);
+    }
+  };
+
+  const deleteQuiz = async (id: string) => {
+    const existing = quizzes.find(q => q.id === id);
+    if (!existing || !ensureAllowed('delete', 'quiz', existing)) return;
+    const prevQuizzes = [...quizzes];
+    const prevPolls = [...polls];
+    setQuizzes(prev => prev.filter(q => q.id !== id));
+    setPolls(prev => prev.filter(p => p.quizId !== id));
+
+    try {
+      const { error } = await supabase.from('quizzes').delete().eq('id', id);
+      if (error) throw error;
+    } catch (err: any) {
+      console.error("Delete quiz failed", err);
+      alert(`Impossible de supprimer le quiz. Détails: ${err.message}`);
+      setQuizzes(prevQuizzes);
+      setPolls(prevPolls);
+    }
+  };
+
+  // --- SURVEYS ---
+
+  const addSurvey = async (data: Omit<Survey, 'id' | 'createdById' | 'createdAt' | 'respondentIds'>, questions: Pick<Poll, 'title' | 'options' | 'pollType' | 'maxSelections' | 'scaleMax'>[]) => {
+    if (!currentUser || !ensureAllowed('create', 'survey', data)) return;
+    const surveyId = generateId();
+    const now = new Date();
+    const newSurvey: Survey = { ...data, id: surveyId, createdById: currentUser.id, createdAt: now, respondentIds: [] };
+    const questionPolls: Poll[] = questions.map((question, idx) => ({
+      ...question,
+      id: generateId(),
+      isAnonymous: data.isAnonymous,
+      createdAt: now,
+      opensAt: data.opensAt,
+      expiresAt: data.expiresAt,
+      createdById: currentUser.id,
+      userVotes: {},
+      voterIds: [],
+      ballots: [],
+      textAnswers: [],
+      targetClass: data.targetClass,
+      surveyId,
+      surveyPosition: idx
+    }));
+
+    setSurveys(prev => [newSurvey, ...prev]);
+    setPolls(prev => [...questionPolls, ...prev]);
+
+    try {
+      const { error: surveyError } = await supabase.from('surveys').insert({
+        id: surveyId,
+        title: data.title,
+        description: data.description,
+        target_class: data.targetClass,
+        is_anonymous: data.isAnonymous,
+        opens_at: data.opensAt.toISOString(),
+        expires_at: data.expiresAt.toISOString(),
+        created_by_id: currentUser.id,
+        created_at: now.toISOString()
+      });
+      if (surveyError) throw surveyError;
+
+      const { error: pollsError } = await supabase.from('polls').insert(questionPolls.map(q => ({
+        id: q.id,
+        title: q.title,
+        options: toPollOptionsRow(q.options),
+        poll_type: q.pollType,
+        max_selections: q.maxSelections ?? null,
+        scale_max: q.scaleMax ?? null,
+        is_anonymous: data.isAnonymous,
+        created_at: now.toISOString(),
+        opens_at: data.opensAt.toISOString(),
+        expires_at: data.expiresAt.toISOString(),
+        target_class: data.targetClass,
+        created_by_id: currentUser.id,
+        survey_id: surveyId,
+        survey_position: q.surveyPosition
+      })));
+      if (pollsError) throw pollsError;
+    } catch (err: any) {
+      console.error("Failed to add survey", err);
+      alert(`Erreur lors de la création du questionnaire: ${err.message}`);
+      setSurveys(prev => prev.filter(s => s.id !== surveyId));
+      setPolls(prev => prev.filter(p => p.surveyId !== surveyId));
+      // Questions already written go away with the survey (on delete cascade)
+      await supabase.from('surveys').delete().eq('id', surveyId);
+    }
+  };
+
+  // Submits every answer of the survey at once (all or nothing, server-side)
+  const submitSurvey = async (surveyId: string, answers: Record<string, SurveyAnswer>) => {
+    if (!currentUser) return;
+    const survey = surveys.find(s => s.id === surveyId);
+    if (!survey || !ensureAllowed('vote', 'survey', survey)) return;
+
+    const status = getPollStatus(survey);
+    if (status !== 'OPEN') {
+      alert(status === 'CLOSED' ? "Ce questionnaire est clos : les réponses ne sont plus acceptées." : "Ce questionnaire n'est pas encore ouvert.");
+      return;
+    }
+    if (survey.isAnonymous && survey.respondentIds.includes(currentUser.id)) {
+      alert("Vous avez déjà répondu : un questionnaire anonyme est définitif.");
+      return;
+    }
+
+    setSurveys(prev => prev.map(s => s.id === surveyId
+      ? { ...s, respondentIds: Array.from(new Set([...s.respondentIds, currentUser.id])) }
+      : s));
+    setPolls(prev => prev.map(p => {
+      const answer = p.surveyId === surveyId ? answers[p.id] : undefined;
+      if (!answer) return p;
+      return p.pollType === PollType.TEXT
+        ? withTextAnswer(p, currentUser.id, answer.text?.trim() || '')
+        : withBallot(p, currentUser.id, answer.optionIds || []);
+    }));
+
+    try {
+      const { error } = await supabase.rpc('submit_survey', { p_survey_id: surveyId, p_answers: answers });
+      if (error) throw error;
+    } catch (err: any) {
+      console.error("Survey submission failed", err);
+      alert(`Erreur lors de l'envoi du questionnaire: ${err.message}`);
+      await fetchData();
+    }
+  };
+
+  const deleteSurvey = async (id: string) => {
+    const existing = surveys.find(s => s.id === id);
+    if (!existing || !ensureAllowed('delete', 'survey', existing)) return;
+    const prevSurveys = [...surveys];
+    const prevPolls = [...polls];
+    setSurveys(prev => prev.filter(s => s.id !== id));
+    setPolls(prev => prev.filter(p => p.surveyId !== id));
+
+    try {
+      const { error } = await supabase.from('surveys').delete().eq('id', id);
+      if (error) throw error;
+    } catch (err: any) {
+      console.error("Delete survey failed", err);
+      alert(`Impossible de supprimer le questionnaire. Détails: ${err.message}`);
+      setSurveys(prevSurveys);
+      setPolls(prevPolls);
+    }
+  };
+
+  // --- CALENDAR FEEDS ---
+
+  // Subscription URL of a class calendar (school-wide exams only without class); rotating invalidates the previous URL
+  const getCalendarFeedUrl = async (className?: string, rotate = false): Promise<string | null> => {
+    if (!currentUser) return null;
+    if (rotate && !ensureAllowed('create', 'exam', { targetClass: className })) return null;
+    try {
+      const { data, error } = await supabase.rpc(rotate ? 'rotate_calendar_feed_token' : 'get_calendar_feed_token', { p_class: className ?? null });
+      if (error) throw error;
+      return buildFeedUrl(process.env.CALENDAR_FEED_URL || 'http://localhost:8787', data as string);
+    } catch (err: any) {
+      console.error("Calendar feed token failed", err);
+      alert(`Impossible d'obtenir le lien d'abonnement: ${err.message}`);
+      return null;
+    }
+  };
+
+  // --- POLL TEMPLATES ---
+
+  const addPollTemplate = async (data: Omit<PollTemplate, 'id' | 'createdById' | 'createdAt'>) => {
+    if (!currentUser || !ensureAllowed('create', 'pollTemplate', data)) return;
+    const newId = generateId();
+    const now = new Date();
+    const newTemplate: PollTemplate = { ...data, id: newId, createdById: currentUser.id, createdAt: now };
+    setPollTemplates(prev => [...prev, newTemplate].sort((a, b) => a.title.localeCompare(b.title)));
+
+    try {
+      const { error } = await supabase.from('poll_templates').insert({
+        id: newId,
+        title: data.title,
+        options: data.options,
+        poll_type: data.pollType,
+        max_selections: data.maxSelections ?? null,
+        scale_max: data.scaleMax ?? null,
+        is_anonymous: data.isAnonymous,
+        scope: data.scope,
+        created_by_id: currentUser.id,
+        created_at: now.toISOString()
+      });
+      if (error) throw error;
+    } catch (err: any) {
+      console.error("Failed to add poll template", err);
+      alert(`Erreur lors de l'enregistrement du modèle: ${err.message}`);
+      setPollTemplates(prev => prev.filter(t => t.id !== newId));
+    }
+  };
+
+  const deletePollTemplate = async (id: string) => {
+    const existing = pollTemplates.find(t => t.id === id);
+    if (!existing || !ensureAllowed('delete', 'pollTemplate', existing)) return;
+    const prevTemplates = [...pollTemplates];
+    setPollTemplates(prev => prev.filter(t => t.id !== id));
+
+    try {
+      const { error } = await supabase.from('poll_templates').delete().eq('id', id);
+      if (error) throw error;
+    } catch (err: any) {
+      console.error("Delete poll template failed", err);
+      alert(`Impossible de supprimer le modèle. Détails: ${err.message}`);
+      setPollTemplates(prevTemplates);
+    }
+  };
+
   // --- RESOURCES ---
 
   const addResource = async (data: Omit<Resource, 'id' | 'createdAt'>) => {
-    if (!currentUser) return;
+    if (!currentUser || !ensureAllowed('create', 'resource', data)) return;
     const newId = generateId();
     const now = new Date();
     const newRes: Resource = {
@@ -530,6 +1515,8 @@ const App: React.FC = () => {
   };
 
   const updateResource = async (updatedRes: Resource) => {
+    const existing = resources.find(r => r.id === updatedRes.id);
+    if (!existing || !ensureAllowed('update', 'resource', existing) || !ensureAllowed('create', 'resource', updatedRes)) return;
     const prevResources = [...resources];
     setResources(prev => prev.map(r => r.id === updatedRes.id ? updatedRes : r));
 
@@ -551,6 +1538,8 @@ const App: React.FC = () => {
   };
 
   const deleteResource = async (id: string) => {
+    const existing = resources.find(r => r.id === id);
+    if (!existing || !ensureAllowed('delete', 'resource', existing)) return;
     const prevResources = [...resources];
     setResources(prev => prev.filter(r => r.id !== id));
 
@@ -566,18 +1555,19 @@ const App: React.FC = () => {
 
   // --- USERS MANAGEMENT ---
 
-  const addUser = async (user: User) => {
+  const addUser = async (user: User, password: string) => {
+    if (!ensureAllowed('create', 'user', user)) return;
     setUsers(prev => [...prev, user]);
     try {
       const { error } = await supabase.from('users').insert({
         id: user.id,
         name: user.name,
         email: user.email,
-        password: user.password,
         role: user.role,
         class_group: user.classGroup
       });
       if (error) throw error;
+      await setUserPassword(user.id, password, { mustChange: true });
     } catch (err: any) {
       console.error("Add user failed", err);
       alert(`Erreur: ${err.message}`);
@@ -585,7 +1575,8 @@ const App: React.FC = () => {
     }
   };
 
-  const updateUser = async (updatedUser: User) => {
+  const updateUser = async (updatedUser: User, password?: string) => {
+    if (!ensureAllowed('update', 'user', updatedUser)) return;
     const prevUsers = [...users];
     setUsers(prev => prev.map(u => u.id === updatedUser.id ? updatedUser : u));
 
@@ -593,11 +1584,11 @@ const App: React.FC = () => {
       const { error } = await supabase.from('users').update({
         name: updatedUser.name,
         email: updatedUser.email,
-        password: updatedUser.password,
         role: updatedUser.role,
         class_group: updatedUser.classGroup
       }).eq('id', updatedUser.id);
       if (error) throw error;
+      if (password) await setUserPassword(updatedUser.id, password, { mustChange: updatedUser.id !== currentUser?.id });
     } catch (err: any) {
       console.error("Update user failed", err);
       alert(`Erreur: ${err.message}`);
@@ -605,23 +1596,24 @@ const App: React.FC = () => {
     }
   };
 
+  // Sets a random temporary password that the user must replace at next login
   const resetUserPassword = async (id: string) => {
-    const prevUsers = [...users];
-    setUsers(prev => prev.map(u => u.id === id ? { ...u, password: 'passer25' } : u));
+    if (!ensureAllowed('update', 'user', { id })) return;
+    const user = users.find(u => u.id === id);
+    const temporaryPassword = generateTemporaryPassword();
     try {
-      const { error } = await supabase.from('users').update({ password: 'passer25' }).eq('id', id);
-      if (error) throw error;
-      alert("Mot de passe réinitialisé à 'passer25'");
+      await setUserPassword(id, temporaryPassword, { mustChange: true });
+      alert(`Mot de passe temporaire pour ${user?.name || 'cet utilisateur'} :\n\n${temporaryPassword}\n\nTransmettez-le à l'utilisateur : il devra en choisir un nouveau à sa prochaine connexion.`);
     } catch (err: any) {
       console.error("Reset password failed", err);
       alert(`Erreur: ${err.message}`);
-      setUsers(prevUsers);
     }
   };
 
   // ROBUST DELETE USER: Database Cascade
   // Assumes the user has run the SQL script to enable ON DELETE CASCADE
   const deleteUser = async (id: string) => {
+    if (!ensureAllowed('delete', 'user', { id })) return;
     const prevUsers = [...users];
     setUsers(prev => prev.filter(u => u.id !== id));
 
@@ -645,13 +1637,15 @@ const App: React.FC = () => {
 
   // --- SETTINGS ---
   const updateSettings = async (settings: SchoolSettings) => {
+    if (!ensureAllowed('update', 'settings', settings)) return;
     setSchoolSettings(settings);
     try {
       const { error } = await supabase.from('school_settings').upsert({
         id: 'config',
         school_name: settings.schoolName,
         theme_color: settings.themeColor,
-        logo_url: settings.logoUrl
+        logo_url: settings.logoUrl,
+        block_exam_conflicts: !!settings.blockExamConflicts
       });
       if (error) throw error;
     } catch (err: any) {
@@ -660,6 +1654,7 @@ const App: React.FC = () => {
   };
 
   const addClassGroup = async (name: string) => {
+    if (!ensureAllowed('create', 'classGroup', { name })) return;
     // 1. Check for duplicates locally to provide immediate feedback
     if (classGroups.some(c => c.name.toLowerCase() === name.toLowerCase())) {
         alert("Cette classe existe déjà.");
@@ -684,6 +1679,7 @@ const App: React.FC = () => {
   };
 
   const deleteClassGroup = async (id: string) => {
+    if (!ensureAllowed('delete', 'classGroup', { id })) return;
     const prevClasses = [...classGroups];
     setClassGroups(prev => prev.filter(c => c.id !== id));
     try {
@@ -695,6 +1691,67 @@ const App: React.FC = () => {
     }
   };
 
+  const addRoom = async (data: Omit<Room, 'id'>) => {
+    if (!ensureAllowed('create', 'room', data)) return;
+    if (rooms.some(r => r.name.toLowerCase() === data.name.toLowerCase())) {
+      alert("Cette salle existe déjà.");
+      return;
+    }
+    const newRoom: Room = { ...data, id: generateId() };
+    setRooms(prev => [...prev, newRoom].sort((a, b) => a.name.localeCompare(b.name)));
+
+    try {
+      const { error } = await supabase.from('rooms').insert({
+        id: newRoom.id,
+        name: newRoom.name,
+        rows: newRoom.rows,
+        seats_per_row: newRoom.seatsPerRow,
+        capacity: newRoom.capacity
+      });
+      if (error) throw error;
+    } catch (err: any) {
+      console.error("Failed to add room", err);
+      alert(`Impossible d'ajouter la salle: ${err.message}`);
+      setRooms(prev => prev.filter(r => r.id !== newRoom.id));
+    }
+  };
+
+  const updateRoom = async (updatedRoom: Room) => {
+    if (!ensureAllowed('update', 'room', updatedRoom)) return;
+    const prevRooms = [...rooms];
+    setRooms(prev => prev.map(r => r.id === updatedRoom.id ? updatedRoom : r).sort((a, b) => a.name.localeCompare(b.name)));
+
+    try {
+      const { error } = await supabase.from('rooms').update({
+        name: updatedRoom.name,
+        rows: updatedRoom.rows,
+        seats_per_row: updatedRoom.seatsPerRow,
+        capacity: updatedRoom.capacity
+      }).eq('id', updatedRoom.id);
+      if (error) throw error;
+    } catch (err: any) {
+      console.error("Update room failed", err);
+      alert(`Impossible de modifier la salle: ${err.message}`);
+      setRooms(prevRooms);
+    }
+  };
+
+  const deleteRoom = async (id: string) => {
+    if (!ensureAllowed('delete', 'room', { id })) return;
+    const prevRooms = [...rooms];
+    const prevSeats = [...examSeats];
+    setRooms(prev => prev.filter(r => r.id !== id));
+    setExamSeats(prev => prev.filter(s => s.roomId !== id));
+    try {
+      const { error } = await supabase.from('rooms').delete().eq('id', id);
+      if (error) throw error;
+    } catch (err: any) {
+      alert(`Impossible de supprimer la salle: ${err.message}`);
+      setRooms(prevRooms);
+      setExamSeats(prevSeats);
+    }
+  };
+
   // --- NOTIFICATIONS ---
   const notifications: AppNotification[] = useMemo(() => {
     if (!currentUser) return [];
@@ -730,45 +1787,106 @@ const App: React.FC = () => {
       }
     });
 
-    // 3. New Polls (Success)
-    filteredPolls.forEach(poll => {
-       const hoursAgo = differenceInHours(new Date(), new Date(poll.createdAt));
+    // 3. New Polls (Success); quiz and survey questions are announced once per quiz / survey
+    filteredPolls.filter(poll => !poll.quizId && !poll.surveyId).forEach(poll => {
+       // Counted from the opening, so scheduled polls are announced when they open
+       const hoursAgo = differenceInHours(new Date(), new Date(poll.opensAt));
        // Check if user has NOT voted yet
-       const hasVoted = poll.userVotes && poll.userVotes[currentUser.id];
-       if (hoursAgo >= 0 && hoursAgo <= 48 && !hasVoted) {
+       const hasVoted = hasUserVoted(poll, currentUser.id);
+       if (hoursAgo >= 0 && hoursAgo <= 48 && !hasVoted && isPollOpen(poll)) {
          notifs.push({
            id: `poll-${poll.id}`,
            type: 'success',
            title: "Nouveau sondage",
            message: poll.title,
            linkTo: 'POLLS',
-           timestamp: new Date(poll.createdAt)
+           timestamp: new Date(poll.opensAt)
+         });
+       }
+    });
+
+    filteredQuizzes.forEach(quiz => {
+       const hoursAgo = differenceInHours(new Date(), new Date(quiz.opensAt));
+       const isOpen = isPollOpen(quiz);
+       const questions = filteredPolls.filter(p => p.quizId === quiz.id);
+       const isDone = questions.length > 0 && questions.every(q => hasUserVoted(q, currentUser.id));
+       if (hoursAgo >= 0 && hoursAgo <= 48 && isOpen && !isDone) {
+         notifs.push({
+           id: `quiz-${quiz.id}`,
+           type: 'success',
+           title: "Nouveau quiz",
+           message: quiz.title,
+           linkTo: 'POLLS',
+           timestamp: new Date(quiz.opensAt)
          });
        }
     });
 
+    filteredSurveys.forEach(survey => {
+       const hoursAgo = differenceInHours(new Date(), new Date(survey.opensAt));
+       if (hoursAgo >= 0 && hoursAgo <= 48 && isPollOpen(survey) && !survey.respondentIds.includes(currentUser.id)) {
+         notifs.push({
+           id: `survey-${survey.id}`,
+           type: 'success',
+           title: "Nouveau questionnaire",
+           message: survey.title,
+           linkTo: 'POLLS',
+           timestamp: new Date(survey.opensAt)
+         });
+       }
+    });
+
+    // 4. Reminders for polls still awaiting the user's vote (latest reminder per poll)
+    const latestReminders = new Map<string, PollReminder>();
+    pollReminders
+      .filter(r => r.userId === currentUser.id)
+      .forEach(r => {
+        const known = latestReminders.get(r.pollId);
+        if (!known || known.createdAt < r.createdAt) latestReminders.set(r.pollId, r);
+      });
+    latestReminders.forEach(reminder => {
+      const poll = filteredPolls.find(p => p.id === reminder.pollId);
+      if (poll && isPollOpen(poll) && !hasUserVoted(poll, currentUser.id)) {
+        notifs.push({
+          id: `reminder-${poll.id}`,
+          type: 'alert',
+          title: "Rappel : vote en attente",
+          message: poll.title,
+          linkTo: 'POLLS',
+          timestamp: reminder.createdAt
+        });
+      }
+    });
+
     return notifs.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-  }, [filteredExams, filteredAnnouncements, filteredPolls, currentUser]);
+  }, [filteredExams, filteredAnnouncements, filteredPolls, filteredQuizzes, filteredSurveys, pollReminders, currentUser]);
 
   // --- STATS ---
   const stats = useMemo(() => ({
     students: users.filter(u => u.role === UserRole.ELEVE).length,
     exams: filteredExams.filter(e => new Date(e.date) >= new Date()).length,
-    polls: filteredPolls.length,
+    polls: filteredPolls.filter(p => !p.quizId && !p.surveyId).length + filteredQuizzes.length + filteredSurveys.length,
     resources: filteredResources.length
-  }), [users, filteredExams, filteredPolls, filteredResources]);
+  }), [users, filteredExams, filteredPolls, filteredQuizzes, filteredSurveys, filteredResources]);
 
   const upcomingExam = useMemo(() => {
     const futureExams = filteredExams.filter(e => new Date(e.date) >= new Date());
     return futureExams.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())[0];
   }, [filteredExams]);
 
+  // Only students tick off chapters, staff get no progress bar
+  const upcomingExamRevision = useMemo(
+    () => upcomingExam && currentUser?.role === UserRole.ELEVE ? getRevisionProgress(upcomingExam, revisionChecks, currentUser.id) : null,
+    [upcomingExam, revisionChecks, currentUser]
+  );
+
   const latestAnnouncement = useMemo(() => {
     return [...filteredAnnouncements].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
   }, [filteredAnnouncements]);
 
   const activePoll = useMemo(() => {
-    return filteredPolls.find(p => !p.userVotes || !p.userVotes[currentUser?.id || '']);
+    // Only polls currently accepting votes
+    return filteredPolls.find(p => !p.quizId && !p.surveyId && isPollOpen(p) && !hasUserVoted(p, currentUser?.id || ''));
   }, [filteredPolls, currentUser]);
 
   if (isLoading) {
@@ -802,8 +1920,34 @@ const App: React.FC = () => {
     );
   }
 
+  if (resetToken) {
+    return (
+      <Login
+        onLogin={handleLogin}
+        onRequestReset={requestPasswordReset}
+        onSetNewPassword={handleResetWithToken}
+        onCancelNewPassword={cancelResetWithToken}
+        newPasswordReason="RESET_LINK"
+        logoUrl={schoolSettings.logoUrl}
+      />
+    );
+  }
+
   if (!currentUser) {
-    return <Login onLogin={handleLogin} logoUrl={schoolSettings.logoUrl} />;
+    return <Login onLogin={handleLogin} onRequestReset={requestPasswordReset} notice={loginNotice} logoUrl={schoolSettings.logoUrl} />;
+  }
+
+  if (mustChangePassword) {
+    return (
+      <Login
+        onLogin={handleLogin}
+        onRequestReset={requestPasswordReset}
+        onSetNewPassword={handleForcedPasswordChange}
+        onCancelNewPassword={handleLogout}
+        newPasswordReason="FORCED"
+        logoUrl={schoolSettings.logoUrl}
+      />
+    );
   }
 
   return (
@@ -822,6 +1966,7 @@ const App: React.FC = () => {
           currentUser={currentUser}
           stats={stats}
           upcomingExam={upcomingExam}
+          upcomingExamRevision={upcomingExamRevision}
           activePoll={activePoll}
           latestAnnouncement={latestAnnouncement}
           notifications={notifications}
@@ -843,21 +1988,55 @@ const App: React.FC = () => {
         <ExamSchedule 
           currentUser={currentUser} 
           exams={filteredExams} 
+          examSeries={filteredExamSeries}
+          blockConflicts={!!schoolSettings.blockExamConflicts}
+          schoolName={schoolSettings.schoolName}
+          onGetFeedUrl={getCalendarFeedUrl}
           classGroups={classGroups}
           onAdd={addExam}
+          onImport={importExams}
+          users={users}
+          examGrades={examGrades}
+          onSaveGrades={saveExamGrades}
+          rooms={rooms}
+          examSeats={examSeats}
+          onSaveSeating={saveExamSeating}
+          examInvigilators={examInvigilators}
+          onSaveInvigilators={saveExamInvigilators}
+          resources={filteredResources}
+          revisionChecks={revisionChecks}
+          onToggleRevision={toggleRevisionTopic}
           onUpdate={updateExam}
           onDelete={deleteExam}
+          onAddSeries={addExamSeries}
+          onUpdateFuture={updateFutureExams}
+          onDeleteFuture={deleteFutureExams}
         />
       )}
       {currentView === 'POLLS' && (
         <Polls 
           currentUser={currentUser} 
           polls={filteredPolls} 
+          quizzes={filteredQuizzes}
+          quizScores={quizScores}
+          users={users}
           classGroups={classGroups}
           onAdd={addPoll}
           onUpdate={updatePoll}
           onVote={votePoll}
+          onAnswerText={answerTextPoll}
           onDelete={deletePoll}
+          onRemind={remindPollNonVoters}
+          onAddQuiz={addQuiz}
+          onDeleteQuiz={deleteQuiz}
+          surveys={filteredSurveys}
+          onAddSurvey={addSurvey}
+          onSubmitSurvey={submitSurvey}
+          onDeleteSurvey={deleteSurvey}
+          pollTemplates={pollTemplates}
+          onSaveTemplate={addPollTemplate}
+          onDeleteTemplate={deletePollTemplate}
+          isLive={realtimeStatus === 'LIVE'}
         />
       )}
       {currentView === 'RESOURCES' && (
@@ -870,7 +2049,7 @@ const App: React.FC = () => {
           onDelete={deleteResource}
         />
       )}
-      {currentView === 'USERS' && currentUser.role === UserRole.ADMIN && (
+      {currentView === 'USERS' && can(currentUser, 'update', 'user') && (
         <UserManagement 
           users={users} 
           classGroups={classGroups}
@@ -880,13 +2059,17 @@ const App: React.FC = () => {
           onResetPassword={resetUserPassword}
         />
       )}
-      {currentView === 'SETTINGS' && currentUser.role === UserRole.ADMIN && (
+      {currentView === 'SETTINGS' && can(currentUser, 'update', 'settings') && (
         <Settings 
            settings={schoolSettings} 
            classGroups={classGroups}
            onUpdateSettings={updateSettings}
            onAddClass={addClassGroup}
            onDeleteClass={deleteClassGroup}
+           rooms={rooms}
+           onAddRoom={addRoom}
+           onUpdateRoom={updateRoom}
+           onDeleteRoom={deleteRoom}
            onNavigateToUsers={() => changeView('USERS')}
         />
       )}
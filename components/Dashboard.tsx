@@ -3,6 +3,7 @@ import { User, UserRole, Poll, Exam, Announcement, AppNotification, ViewState }
 import { Users, BookOpen, Vote, AlertCircle, Settings, Check, X, RefreshCw, Clock, ArrowRight, Library, Sparkles } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { fr } from 'date-fns/locale';
+import { RevisionProgress } from '../lib/revision';
 
 interface DashboardProps {
   currentUser: User;
@@ -13,6 +14,7 @@ interface DashboardProps {
     resources: number;
   };
   upcomingExam: Exam | undefined;
+  upcomingExamRevision?: RevisionProgress | null; // Current student's checklist on the upcoming exam
   activePoll: Poll | undefined;
   latestAnnouncement: Announcement | undefined;
   notifications: AppNotification[];
@@ -24,6 +26,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
   currentUser, 
   stats, 
   upcomingExam, 
+  upcomingExamRevision,
   activePoll,
   latestAnnouncement,
   notifications,
@@ -198,6 +201,19 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     <div className="mt-3 inline-block px-2.5 py-1 bg-slate-100 text-slate-600 text-xs rounded-lg font-bold">
                       Durée: {upcomingExam.durationMinutes} min
                     </div>
+                    {upcomingExamRevision && (
+                      <div className="mt-3 w-48 max-w-full">
+                        <p className="text-xs text-slate-500 font-medium mb-1">
+                          Révisions : {upcomingExamRevision.done}/{upcomingExamRevision.total} chapitre{upcomingExamRevision.total > 1 ? 's' : ''}
+                        </p>
+                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full rounded-full transition-all ${upcomingExamRevision.percent === 100 ? 'bg-green-500' : 'bg-indigo-500'}`}
+                            style={{ width: `${upcomingExamRevision.percent}%` }}
+                          />
+                        </div>
+                      </div>
+                    )}
                   </div>
               </div>
             ) : (
@@ -259,7 +275,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                            <div className="bg-purple-500 h-2.5 rounded-full" style={{ width: '60%' }}></div>
                         </div>
                         <p className="text-xs text-slate-500 font-semibold mt-2">
-                           {activePoll.options.reduce((acc, curr) => acc + curr.votes, 0)} votes enregistrés
+                           {activePoll.voterIds.length} votes enregistrés
                         </p>
                     </div>
                 </div>
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Exam, ClassGroup } from '../types';
+import { toDateKey } from '../lib/examSeries';
+import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
+import { format, addMonths, addWeeks, startOfMonth, endOfMonth, startOfWeek, endOfWeek, eachDayOfInterval, isSameMonth, isToday } from 'date-fns';
+import { fr } from 'date-fns/locale';
+
+export type CalendarMode = 'MONTH' | 'WEEK';
+
+interface ExamCalendarProps {
+  mode: CalendarMode;
+  exams: Exam[];
+  classGroups: ClassGroup[];
+  canCreate: boolean;
+  onCreateAt: (dateKey: string, startTime?: string) => void; // "+" of a day or click on an hour slot
+  onSelect: (exam: Exam) => void;
+}
+
+// Hours shown by the week view, widened when an exam of the week starts earlier or ends later
+const FIRST_HOUR = 7;
+const LAST_HOUR = 20;
+const HOUR_HEIGHT = 48; // px
+
+const CLASS_COLORS = [
+  'bg-indigo-100 text-indigo-800 border-indigo-300',
+  'bg-emerald-100 text-emerald-800 border-emerald-300',
+  'bg-amber-100 text-amber-800 border-amber-300',
+  'bg-rose-100 text-rose-800 border-rose-300',
+  'bg-sky-100 text-sky-800 border-sky-300',
+  'bg-purple-100 text-purple-800 border-purple-300',
+  'bg-lime-100 text-lime-800 border-lime-300',
+  'bg-orange-100 text-orange-800 border-orange-300'
+];
+const SCHOOL_WIDE_COLOR = 'bg-slate-200 text-slate-800 border-slate-400';
+
+const getClassColor = (targetClass: string | undefined, classGroups: ClassGroup[]): string => {
+  if (!targetClass) return SCHOOL_WIDE_COLOR;
+  const index = classGroups.findIndex(g => g.name === targetClass);
+  return CLASS_COLORS[(index >= 0 ? index : targetClass.length) % CLASS_COLORS.length];
+};
+
+const toMinutes = (startTime: string) => {
+  const [hours, minutes] = startTime.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Side-by-side lanes for exams overlapping on the same day
+const assignLanes = (dayExams: Exam[]): { exam: Exam; lane: number; lanes: number }[] => {
+  const sorted = [...dayExams].sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+  const laneEnds: number[] = [];
+  const placed = sorted.map(exam => {
+    const start = toMinutes(exam.startTime);
+    let lane = laneEnds.findIndex(end => end <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = start + exam.durationMinutes;
+    return { exam, lane };
+  });
+  return placed.map(p => ({ ...p, lanes: laneEnds.length }));
+};
+
+export const ExamCalendar: React.FC<ExamCalendarProps> = ({ mode, exams, classGroups, canCreate, onCreateAt, onSelect }) => {
+  const [cursor, setCursor] = useState(() => new Date());
+
+  const days = mode === 'MONTH'
+    ? eachDayOfInterval({ start: startOfWeek(startOfMonth(cursor), { weekStartsOn: 1 }), end: endOfWeek(endOfMonth(cursor), { weekStartsOn: 1 }) })
+    : eachDayOfInterval({ start: startOfWeek(cursor, { weekStartsOn: 1 }), end: endOfWeek(cursor, { weekStartsOn: 1 }) });
+
+  const examsByDay = exams.reduce<Record<string, Exam[]>>((acc, exam) => {
+    const key = toDateKey(exam.date);
+    (acc[key] = acc[key] || []).push(exam);
+    return acc;
+  }, {});
+  const getDayExams = (day: Date) =>
+    (examsByDay[format(day, 'yyyy-MM-dd')] || []).sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+
+  // Exams crossing midnight are cut at the end of the day
+  const weekMinutes = mode === 'WEEK'
+    ? days.flatMap(getDayExams).flatMap(exam => [toMinutes(exam.startTime), toMinutes(exam.startTime) + exam.durationMinutes])
+    : [];
+  const firstHour = Math.min(FIRST_HOUR, ...weekMinutes.map(m => Math.floor(m / 60)));
+  const lastHour = Math.min(24, Math.max(LAST_HOUR, ...weekMinutes.map(m => Math.ceil(m / 60))));
+
+  const move = (offset: number) => setCursor(prev => mode === 'MONTH' ? addMonths(prev, offset) : addWeeks(prev, offset));
+  const title = mode === 'MONTH'
+    ? format(cursor, 'MMMM yyyy', { locale: fr })
+    : `Semaine du ${format(days[0], 'd MMM', { locale: fr })} au ${format(days[6], 'd MMM yyyy', { locale: fr })}`;
+
+  const describe = (exam: Exam) =>
+    `${exam.subject} · ${exam.startTime} (${exam.durationMinutes} min) · Salle ${exam.room} · ${exam.targetClass || "Toute l'école"}`;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="flex justify-between items-center p-4 border-b border-slate-100">
+        <h3 className="font-bold text-slate-800 capitalize">{title}</h3>
+        <div className="flex items-center gap-1">
+          <button type="button" onClick={() => move(-1)} className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-slate-100 rounded transition-colors" title="Période précédente">
+            <ChevronLeft size={18} />
+          </button>
+          <button type="button" onClick={() => setCursor(new Date())} className="px-3 py-1 text-sm text-slate-600 hover:bg-slate-100 rounded transition-colors">
+            Aujourd'hui
+          </button>
+          <button type="button" onClick={() => move(1)} className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-slate-100 rounded transition-colors" title="Période suivante">
+            <ChevronRight size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 border-b border-slate-100 bg-slate-50 text-xs font-semibold text-slate-500 uppercase">
+        {days.slice(0, 7).map(day => (
+          <div key={day.toISOString()} className={`p-2 text-center ${mode === 'WEEK' && isToday(day) ? 'text-indigo-600' : ''}`}>
+            {format(day, mode === 'MONTH' ? 'EEE' : 'EEE d', { locale: fr })}
+          </div>
+        ))}
+      </div>
+
+      {mode === 'MONTH' ? (
+        <div className="grid grid-cols-7">
+          {days.map(day => {
+            const dayExams = getDayExams(day);
+            return (
+              <div
+                key={day.toISOString()}
+                className={`group min-h-[96px] p-1.5 border-b border-r border-slate-100 space-y-1 ${isSameMonth(day, cursor) ? '' : 'bg-slate-50/60 text-slate-300'}`}
+              >
+                <div className="flex justify-between items-center">
+                  <div className={`text-xs font-semibold ${isToday(day) ? 'bg-indigo-600 text-white rounded-full w-6 h-6 flex items-center justify-center' : ''}`}>
+                    {format(day, 'd')}
+                  </div>
+                  {canCreate && (
+                    <button
+                      type="button"
+                      onClick={() => onCreateAt(format(day, 'yyyy-MM-dd'))}
+                      className="p-0.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      title="Planifier un DS ce jour"
+                    >
+                      <Plus size={14} />
+                    </button>
+                  )}
+                </div>
+                {dayExams.map(exam => (
+                  <button
+                    key={exam.id}
+                    type="button"
+                    onClick={() => onSelect(exam)}
+                    title={describe(exam)}
+                    className={`w-full text-left text-[11px] px-1.5 py-0.5 rounded border truncate ${getClassColor(exam.targetClass, classGroups)}`}
+                  >
+                    <span className="font-semibold">{exam.startTime}</span> {exam.subject}
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))] overflow-x-auto">
+          <div>
+            {Array.from({ length: lastHour - firstHour }, (_, i) => (
+              <div key={i} style={{ height: HOUR_HEIGHT }} className="text-[10px] text-slate-400 text-right pr-1 border-b border-slate-100">
+                {firstHour + i}h
+              </div>
+            ))}
+          </div>
+          {days.map(day => (
+            <div key={day.toISOString()} className={`relative border-l border-slate-100 ${isToday(day) ? 'bg-indigo-50/30' : ''}`}>
+              {Array.from({ length: lastHour - firstHour }, (_, i) => (
+                <div
+                  key={i}
+                  style={{ height: HOUR_HEIGHT }}
+                  onClick={() => canCreate && onCreateAt(format(day, 'yyyy-MM-dd'), `${String(firstHour + i).padStart(2, '0')}:00`)}
+                  className={`border-b border-slate-100 ${canCreate ? 'cursor-pointer hover:bg-indigo-50/60' : ''}`}
+                />
+              ))}
+              {assignLanes(getDayExams(day)).map(({ exam, lane, lanes }) => {
+                const start = toMinutes(exam.startTime);
+                const end = Math.min(start + exam.durationMinutes, lastHour * 60);
+                return (
+                  <button
+                    key={exam.id}
+                    type="button"
+                    onClick={() => onSelect(exam)}
+                    title={describe(exam)}
+                    style={{
+                      top: ((start - firstHour * 60) / 60) * HOUR_HEIGHT,
+                      height: Math.max(((end - start) / 60) * HOUR_HEIGHT, 18),
+                      left: `${(lane / lanes) * 100}%`,
+                      width: `${100 / lanes}%`
+                    }}
+                    className={`absolute p-1 rounded border text-left text-[11px] leading-tight overflow-hidden ${getClassColor(exam.targetClass, classGroups)}`}
+                  >
+                    <span className="font-semibold block truncate">{exam.subject}</span>
+                    <span className="block truncate">{exam.startTime} · {exam.room}</span>
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 p-3 border-t border-slate-100 text-[10px] font-bold">
+        <span className={`px-2 py-0.5 rounded-full border ${SCHOOL_WIDE_COLOR}`}>Toute l'école</span>
+        {classGroups.map(group => (
+          <span key={group.id} className={`px-2 py-0.5 rounded-full border ${getClassColor(group.name, classGroups)}`}>{group.name}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
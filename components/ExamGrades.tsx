@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Exam, ExamGrade, User } from '../types';
+import { computeGradeStats, formatScore, getCoefficient, getMaxScore, buildGradesCsv, gradesExportFilename } from '../lib/grades';
+import { downloadTextFile } from '../lib/pollExport';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { GraduationCap, Download, X, Save } from 'lucide-react';
+
+export type GradeEntry = Pick<ExamGrade, 'studentId' | 'score' | 'isAbsent' | 'comment'>;
+
+interface ExamGradesProps {
+  exam: Exam;
+  students: User[];
+  grades: ExamGrade[]; // Grades of this exam
+  onSave: (exam: Exam, entries: GradeEntry[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+interface DraftGrade {
+  score: string; // As typed, "12,5" accepted
+  isAbsent: boolean;
+  comment: string;
+}
+
+const parseScore = (value: string): number | undefined => {
+  const text = value.trim().replace(',', '.');
+  return text === '' ? undefined : Number(text);
+};
+
+// Mark sheet of an exam for its managers: entry, class statistics and CSV export
+export const ExamGrades: React.FC<ExamGradesProps> = ({ exam, students, grades, onSave, onClose }) => {
+  const maxScore = getMaxScore(exam);
+  const [drafts, setDrafts] = useState<Record<string, DraftGrade>>(() =>
+    Object.fromEntries(students.map(student => {
+      const grade = grades.find(g => g.studentId === student.id);
+      return [student.id, {
+        score: grade?.score !== undefined ? String(grade.score).replace('.', ',') : '',
+        isAbsent: !!grade?.isAbsent,
+        comment: grade?.comment || ''
+      }];
+    }))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateDraft = (studentId: string, changes: Partial<DraftGrade>) =>
+    setDrafts(prev => ({ ...prev, [studentId]: { ...prev[studentId], ...changes } }));
+
+  const isInvalid = (draft: DraftGrade) => {
+    const score = parseScore(draft.score);
+    return score !== undefined && (Number.isNaN(score) || score < 0 || score > maxScore);
+  };
+  const invalidCount = students.filter(s => isInvalid(drafts[s.id])).length;
+
+  const entries: GradeEntry[] = students.map(student => {
+    const draft = drafts[student.id];
+    return {
+      studentId: student.id,
+      score: draft.isAbsent || isInvalid(draft) ? undefined : parseScore(draft.score),
+      isAbsent: draft.isAbsent,
+      comment: draft.comment.trim() || undefined
+    };
+  });
+
+  // Statistics follow the sheet as it is typed
+  const stats = computeGradeStats(entries.map(entry => ({ ...entry, examId: exam.id, updatedAt: new Date() })), maxScore);
+  const stat = (value: number | null) => value !== null ? `${formatScore(value)}/${formatScore(maxScore)}` : '–';
+
+  const handleSave = async () => {
+    if (invalidCount > 0) {
+      alert(`Les notes doivent être comprises entre 0 et ${formatScore(maxScore)}.`);
+      return;
+    }
+    setIsSaving(true);
+    const saved = await onSave(exam, entries);
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-indigo-100 shadow-sm animate-fade-in space-y-4">
+      <div className="flex justify-between items-start gap-2">
+        <div>
+          <h3 className="font-semibold text-indigo-700 flex items-center gap-2"><GraduationCap size={18} /> Notes · {exam.subject}</h3>
+          <p className="text-xs text-slate-500 mt-1">Barème sur {formatScore(maxScore)} · coefficient {formatScore(getCoefficient(exam))}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => downloadTextFile(gradesExportFilename(exam), buildGradesCsv(exam, students, grades))}
+            className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Exporter les notes enregistrées (CSV)"
+          >
+            <Download size={16} />
+          </button>
+          <button type="button" onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-lg" title="Fermer">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center">
+        {[
+          { label: 'Moyenne', value: stat(stats.mean) },
+          { label: 'Médiane', value: stat(stats.median) },
+          { label: 'Min', value: stat(stats.min) },
+          { label: 'Max', value: stat(stats.max) },
+          { label: 'Copies', value: `${stats.count}${stats.absent > 0 ? ` · ${stats.absent} abs.` : ''}` }
+        ].map(({ label, value }) => (
+          <div key={label} className="p-2 rounded-lg bg-slate-50 border border-slate-100">
+            <p className="text-[10px] uppercase font-bold text-slate-400">{label}</p>
+            <p className="text-sm font-bold text-slate-800">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      {stats.count > 0 && (
+        <div style={{ height: 140 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={stats.distribution} margin={{ left: 0, right: 0, top: 4 }}>
+              <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={0} />
+              <YAxis allowDecimals={false} hide />
+              <Tooltip formatter={(value: number) => [`${value} copie${value > 1 ? 's' : ''}`, 'Répartition']} />
+              <Bar dataKey="count" fill="#818cf8" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {students.length > 0 ? (
+        <div className="max-h-96 overflow-auto">
+          <table className="w-full text-left border-collapse text-sm">
+            <thead>
+              <tr className="border-b-2 border-slate-200 text-xs">
+                <th className="py-2 pr-2 font-bold text-slate-700">Élève</th>
+                <th className="py-2 px-2 font-bold text-slate-700">Note /{formatScore(maxScore)}</th>
+                <th className="py-2 px-2 font-bold text-slate-700 text-center">Absent</th>
+                <th className="py-2 pl-2 font-bold text-slate-700">Commentaire</th>
+              </tr>
+            </thead>
+            <tbody>
+              {students.map(student => {
+                const draft = drafts[student.id];
+                return (
+                  <tr key={student.id} className="border-b border-slate-100">
+                    <td className="py-1.5 pr-2 text-slate-700">
+                      {student.name}
+                      {!exam.targetClass && student.classGroup && <span className="text-xs text-slate-400"> · {student.classGroup}</span>}
+                    </td>
+                    <td className="py-1.5 px-2">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        disabled={draft.isAbsent}
+                        className={`w-20 border p-1 rounded text-right disabled:bg-slate-100 ${isInvalid(draft) ? 'border-red-400 bg-red-50' : ''}`}
+                        value={draft.isAbsent ? '' : draft.score}
+                        onChange={e => updateDraft(student.id, { score: e.target.value })}
+                      />
+                    </td>
+                    <td className="py-1.5 px-2 text-center">
+                      <input
+                        type="checkbox"
+                        className="rounded text-indigo-600"
+                        checked={draft.isAbsent}
+                        onChange={e => updateDraft(student.id, { isAbsent: e.target.checked })}
+                      />
+                    </td>
+                    <td className="py-1.5 pl-2">
+                      <input
+                        type="text"
+                        className="w-full border p-1 rounded text-xs"
+                        value={draft.comment}
+                        onChange={e => updateDraft(student.id, { comment: e.target.value })}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">Aucun élève concerné par ce DS.</p>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded">Annuler</button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || students.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Save size={16} /> Enregistrer les notes
+        </button>
+      </div>
+    </div>
+  );
+};
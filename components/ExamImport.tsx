@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Exam, User, ClassGroup } from '../types';
+import { readSpreadsheet, SPREADSHEET_ACCEPT } from '../lib/spreadsheet';
+import { ExamImportRow, ImportedExam, IMPORT_TEMPLATE_CSV, parseExamImport } from '../lib/examImport';
+import { CONFLICT_LABELS } from '../lib/examConflicts';
+import { downloadTextFile } from '../lib/pollExport';
+import { Upload, Download, CheckCircle, XCircle, AlertTriangle, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+
+interface ExamImportProps {
+  currentUser: User;
+  exams: Exam[];
+  classGroups: ClassGroup[];
+  blockConflicts: boolean; // Conflicting rows are skipped instead of imported with a warning
+  onImport: (exams: ImportedExam[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+// Timetable import from a CSV or XLSX file: preview with per-row errors, then one batch insert
+export const ExamImport: React.FC<ExamImportProps> = ({ currentUser, exams, classGroups, blockConflicts, onImport, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ExamImportRow[]>([]);
+  const [missingColumns, setMissingColumns] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const isImportable = (row: ExamImportRow) => !!row.exam && !(blockConflicts && row.conflicts.length > 0);
+  const importable = rows.filter(isImportable);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = parseExamImport(await readSpreadsheet(file), classGroups, exams, currentUser);
+      setFileName(file.name);
+      setRows(result.rows);
+      setMissingColumns(result.missingColumns);
+    } catch (err: any) {
+      console.error("Failed to read timetable file", err);
+      alert(`Impossible de lire le fichier: ${err.message}`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (importable.length === 0) return;
+    const skipped = rows.length - importable.length;
+    if (skipped > 0 && !window.confirm(`${skipped} ligne(s) en erreur ou en conflit seront ignorées. Continuer ?`)) return;
+    setIsImporting(true);
+    const imported = await onImport(importable.map(row => row.exam!));
+    setIsImporting(false);
+    if (imported) onClose();
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-indigo-100 shadow-lg animate-fade-in space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="font-semibold text-lg text-indigo-700 flex items-center gap-2"><Upload size={18} /> Importer un planning</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            Fichier CSV ou XLSX avec les colonnes Matière, Date, Heure, Durée (min), Salle, Classe et Notes. Une classe vide concerne toute l'école.
+          </p>
+        </div>
+        <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded" title="Fermer">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 px-4 py-2 text-sm bg-indigo-50 text-indigo-700 rounded-lg hover:bg-indigo-100 cursor-pointer transition-colors">
+          <Upload size={16} />
+          {fileName ? 'Choisir un autre fichier' : 'Choisir un fichier'}
+          <input type="file" accept={SPREADSHEET_ACCEPT} onChange={handleFile} className="hidden" />
+        </label>
+        <button
+          type="button"
+          onClick={() => downloadTextFile('modele-planning-ds.csv', `\uFEFF${IMPORT_TEMPLATE_CSV}`)}
+          className="flex items-center gap-1 text-sm text-slate-500 hover:text-indigo-600"
+        >
+          <Download size={14} /> Télécharger le modèle
+        </button>
+        {fileName && <span className="text-sm text-slate-600 font-medium">{fileName}</span>}
+      </div>
+
+      {missingColumns.length > 0 && (
+        <div className="p-3 rounded-lg border bg-red-50 border-red-200 text-red-700 text-sm">
+          Colonnes introuvables : {missingColumns.join(', ')}. Vérifiez la première ligne du fichier.
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          <div className="max-h-96 overflow-auto border border-slate-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-500 text-xs uppercase sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">Ligne</th>
+                  <th className="px-3 py-2 text-left">Matière</th>
+                  <th className="px-3 py-2 text-left">Date</th>
+                  <th className="px-3 py-2 text-left">Horaire</th>
+                  <th className="px-3 py-2 text-left">Salle</th>
+                  <th className="px-3 py-2 text-left">Classe</th>
+                  <th className="px-3 py-2 text-left">Statut</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.map(row => (
+                  <tr key={row.line} className={row.exam ? (row.conflicts.length > 0 ? 'bg-orange-50/50' : '') : 'bg-red-50/50'}>
+                    <td className="px-3 py-2 text-slate-400">{row.line}</td>
+                    {row.exam ? (
+                      <>
+                        <td className="px-3 py-2 font-medium text-slate-800">{row.exam.subject}</td>
+                        <td className="px-3 py-2">{format(row.exam.date, 'EEE d MMM yyyy', { locale: fr })}</td>
+                        <td className="px-3 py-2">{row.exam.startTime} · {row.exam.durationMinutes} min</td>
+                        <td className="px-3 py-2">{row.exam.room}</td>
+                        <td className="px-3 py-2">{row.exam.targetClass || "Toute l'école"}</td>
+                      </>
+                    ) : (
+                      <td colSpan={5} className="px-3 py-2 text-red-700">
+                        {row.errors.map(error => <div key={error}>{error}</div>)}
+                      </td>
+                    )}
+                    <td className="px-3 py-2">
+                      {!row.exam ? (
+                        <span className="flex items-center gap-1 text-red-600"><XCircle size={14} /> Erreur</span>
+                      ) : row.conflicts.length > 0 ? (
+                        <div className={blockConflicts ? 'text-red-600' : 'text-orange-600'}>
+                          <span className="flex items-center gap-1"><AlertTriangle size={14} /> Conflit</span>
+                          {row.conflicts.map(c => (
+                            <div key={c.exam.id} className="text-xs">
+                              {c.exam.subject} · {format(new Date(c.exam.date), 'd MMM', { locale: fr })} {c.exam.startTime} ({c.reasons.map(r => CONFLICT_LABELS[r]).join(', ')})
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="flex items-center gap-1 text-green-600"><CheckCircle size={14} /> Prêt</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-between items-center">
+            <p className="text-xs text-slate-500">
+              {importable.length} / {rows.length} ligne(s) importable(s)
+              {blockConflicts && rows.some(r => r.exam && r.conflicts.length > 0) && ' · les lignes en conflit sont bloquées par les réglages'}
+            </p>
+            <div className="flex space-x-3">
+              <button type="button" onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded">Annuler</button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={importable.length === 0 || isImporting}
+                className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Importer {importable.length} DS
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
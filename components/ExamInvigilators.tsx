@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Exam, ExamInvigilator, User } from '../types';
+import { findInvigilatorClashes } from '../lib/invigilation';
+import { ShieldCheck, Save, X, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+
+interface ExamInvigilatorsProps {
+  exam: Exam;
+  staff: User[]; // Responsables and admins
+  exams: Exam[]; // To flag double bookings
+  invigilators: ExamInvigilator[]; // All assignments
+  blockConflicts: boolean; // School setting: double bookings cannot be saved
+  onSave: (exam: Exam, userIds: string[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+// Invigilator assignment of an exam for its managers, with the double bookings of each staff member
+export const ExamInvigilators: React.FC<ExamInvigilatorsProps> = ({ exam, staff, exams, invigilators, blockConflicts, onSave, onClose }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+    invigilators.filter(i => i.examId === exam.id).map(i => i.userId)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const clashesOf = (userId: string) => findInvigilatorClashes(exam, userId, exams, invigilators);
+  const doubleBookedCount = selectedIds.filter(id => clashesOf(id).length > 0).length;
+
+  const toggle = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(u => u !== id) : [...prev, id]);
+
+  const handleSave = async () => {
+    if (doubleBookedCount > 0) {
+      if (blockConflicts) {
+        alert("Un surveillant est déjà pris sur ce créneau. Choisissez quelqu'un d'autre.");
+        return;
+      }
+      if (!window.confirm(`${doubleBookedCount} surveillant${doubleBookedCount > 1 ? 's sont' : ' est'} déjà pris sur ce créneau. Enregistrer quand même ?`)) {
+        return;
+      }
+    }
+    setIsSaving(true);
+    const saved = await onSave(exam, selectedIds);
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-indigo-100 shadow-sm animate-fade-in space-y-4">
+      <div className="flex justify-between items-start gap-2">
+        <div>
+          <h3 className="font-semibold text-indigo-700 flex items-center gap-2"><ShieldCheck size={18} /> Surveillants · {exam.subject}</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            {format(new Date(exam.date), 'EEEE d MMMM', { locale: fr })} à {exam.startTime} ({exam.durationMinutes} min) · salle {exam.room}
+          </p>
+        </div>
+        <button type="button" onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-lg" title="Fermer">
+          <X size={16} />
+        </button>
+      </div>
+
+      {staff.length === 0 ? (
+        <p className="text-sm text-slate-400">Aucun membre du personnel disponible.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {staff.map(member => {
+            const isSelected = selectedIds.includes(member.id);
+            const clashes = clashesOf(member.id);
+            return (
+              <label
+                key={member.id}
+                className={`flex items-start gap-2 p-2 rounded-lg border text-sm cursor-pointer transition-colors ${isSelected ? 'bg-indigo-50 border-indigo-300' : 'border-slate-200 hover:bg-slate-50'}`}
+              >
+                <input type="checkbox" className="mt-0.5" checked={isSelected} onChange={() => toggle(member.id)} />
+                <span className="min-w-0">
+                  <span className="font-medium text-slate-800">{member.name}</span>
+                  {member.classGroup && <span className="text-xs text-slate-400"> · {member.classGroup}</span>}
+                  {clashes.map(other => (
+                    <span key={other.id} className="block text-xs text-orange-600">
+                      <AlertTriangle size={10} className="inline mr-1" />
+                      Surveille déjà {other.subject} à {other.startTime}{other.targetClass ? ` (${other.targetClass})` : ''}
+                    </span>
+                  ))}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || (blockConflicts && doubleBookedCount > 0)}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Save size={16} /> Enregistrer
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,21 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Exam, User, UserRole, ClassGroup } from '../types';
-import { Calendar as CalendarIcon, Clock, MapPin, FileText, Plus, Trash2, AlertTriangle, Users, Pencil, MoreVertical } from 'lucide-react';
+import { Exam, ExamGrade, ExamInvigilator, ExamSeat, ExamSeries, RecurrenceFrequency, User, UserRole, ClassGroup, Room, Resource, RevisionCheck } from '../types';
+import { can } from '../lib/permissions';
+import { FREQUENCY_LABELS, MAX_SERIES_OCCURRENCES, countRuleOccurrences, getSeriesOccurrences, getFutureOccurrences, generateOccurrenceDates, daysBetween, shiftDays } from '../lib/examSeries';
+import { ExamSlot, findExamConflicts, CONFLICT_LABELS } from '../lib/examConflicts';
+import { ExamCalendar, CalendarMode } from './ExamCalendar';
+import { ExamImport } from './ExamImport';
+import { ExamGrades, GradeEntry } from './ExamGrades';
+import { SeatingPlanner, SeatingPrint, SeatingPrintKind } from './SeatingPlanner';
+import { ExamInvigilators } from './ExamInvigilators';
+import { formatSeat } from '../lib/seating';
+import { buildRotaCsv, getDoubleBookedIds, getDuties, getInvigilators, getStaffMembers, isStaffMember, rotaExportFilename } from '../lib/invigilation';
+import { getLinkableResources, getLinkedResources, getRevisionProgress, isTopicRevised, parseSyllabus, syllabusToText } from '../lib/revision';
+import { DEFAULT_COEFFICIENT, DEFAULT_MAX_SCORE, computeWeightedAverage, formatScore, getExamStudents, getMaxScore } from '../lib/grades';
+import { buildExamCalendar, calendarFilename } from '../lib/icalendar';
+import { downloadTextFile } from '../lib/pollExport';
+import { Calendar as CalendarIcon, Clock, MapPin, FileText, Plus, Trash2, AlertTriangle, Users, Pencil, MoreVertical, Repeat, X, ChevronDown, ChevronUp, Ban, List, CalendarDays, CalendarRange, CalendarPlus, Download, Rss, Copy, RefreshCw, Upload, GraduationCap, LayoutGrid, ListChecks, CheckSquare, Square, ExternalLink, BookOpen, ShieldCheck, ClipboardList } from 'lucide-react';
 import { format, differenceInDays } from 'date-fns';
 import { fr } from 'date-fns/locale';
 
@@ -10,11 +24,40 @@ interface ExamScheduleProps {
   exams: Exam[];
   classGroups: ClassGroup[];
   onAdd: (exam: Omit<Exam, 'id' | 'createdById'>) => void;
+  onImport: (exams: Omit<Exam, 'id' | 'createdById'>[]) => Promise<boolean>; // Spreadsheet timetable, one batch
   onUpdate: (exam: Exam) => void;
-  onDelete: (id: string) => void;
+  onDelete: (id: string) => void; // Deleting an occurrence adds an exception to its series
+  examSeries: ExamSeries[];
+  onAddSeries: (series: Omit<ExamSeries, 'id' | 'createdById' | 'createdAt'>) => void;
+  onUpdateFuture: (exam: Exam) => void; // Edited occurrence and all later ones
+  onDeleteFuture: (id: string) => void; // Occurrence and all later ones
+  blockConflicts: boolean; // School setting: conflicting exams cannot be saved
+  schoolName: string;
+  onGetFeedUrl: (className?: string, rotate?: boolean) => Promise<string | null>; // Calendar subscription link
+  users: User[];
+  examGrades: ExamGrade[]; // Students only receive their own
+  onSaveGrades: (exam: Exam, entries: GradeEntry[]) => Promise<boolean>;
+  rooms: Room[];
+  examSeats: ExamSeat[]; // Students only receive their own seat
+  onSaveSeating: (exam: Exam, seats: ExamSeat[]) => Promise<boolean>;
+  examInvigilators: ExamInvigilator[]; // Staff only
+  onSaveInvigilators: (exam: Exam, userIds: string[]) => Promise<boolean>;
+  resources: Resource[]; // Candidates for the revision links
+  revisionChecks: RevisionCheck[]; // Current user's ticks only
+  onToggleRevision: (exam: Exam, topicId: string) => void;
 }
 
-export const ExamSchedule: React.FC<ExamScheduleProps> = ({ currentUser, exams, classGroups, onAdd, onUpdate, onDelete }) => {
+type EditScope = 'THIS' | 'FUTURE';
+
+type ScheduleView = 'LIST' | CalendarMode;
+
+const VIEW_OPTIONS: { view: ScheduleView; label: string; icon: React.ElementType }[] = [
+  { view: 'LIST', label: 'Liste', icon: List },
+  { view: 'WEEK', label: 'Semaine', icon: CalendarRange },
+  { view: 'MONTH', label: 'Mois', icon: CalendarDays }
+];
+
+export const ExamSchedule: React.FC<ExamScheduleProps> = ({ currentUser, exams, classGroups, onAdd, onImport, onUpdate, onDelete, examSeries, onAddSeries, onUpdateFuture, onDeleteFuture, blockConflicts, schoolName, onGetFeedUrl, users, examGrades, onSaveGrades, rooms, examSeats, onSaveSeating, examInvigilators, onSaveInvigilators, resources, revisionChecks, onToggleRevision }) => {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [activeMenuId, setActiveMenuId] = useState<string | null>(null);
@@ -27,8 +70,34 @@ export const ExamSchedule: React.FC<ExamScheduleProps> = ({ currentUser, exams,
   const [room, setRoom] = useState('');
   const [notes, setNotes] = useState('');
   const [targetClass, setTargetClass] = useState('');
+  const [maxScore, setMaxScore] = useState(DEFAULT_MAX_SCORE);
+  const [coefficient, setCoefficient] = useState(DEFAULT_COEFFICIENT);
+  const [syllabusText, setSyllabusText] = useState('');
+  const [resourceIds, setResourceIds] = useState<string[]>([]);
+
+  // Recurrence (creation only) and scope of an occurrence edit
+  const [frequency, setFrequency] = useState<RecurrenceFrequency | ''>('');
+  const [until, setUntil] = useState('');
+  const [exceptionDates, setExceptionDates] = useState<string[]>([]);
+  const [exceptionInput, setExceptionInput] = useState('');
+  const [editScope, setEditScope] = useState<EditScope>('THIS');
+
+  // Students mostly look at the coming week
+  const [view, setView] = useState<ScheduleView>(currentUser.role === UserRole.ELEVE ? 'WEEK' : 'LIST');
+
+  const [isFeedOpen, setIsFeedOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [gradingExamId, setGradingExamId] = useState<string | null>(null);
+  const [seatingExamId, setSeatingExamId] = useState<string | null>(null);
+  const [invigilatingExamId, setInvigilatingExamId] = useState<string | null>(null);
 
-  const canEdit = [UserRole.ADMIN, UserRole.RESPONSABLE].includes(currentUser.role);
+  // Seating plan or door lists rendered for printing
+  const [printJob, setPrintJob] = useState<{ exam: Exam; kind: SeatingPrintKind; seats: ExamSeat[] } | null>(null);
+
+  // Series whose past occurrences are shown
+  const [expandedSeriesIds, setExpandedSeriesIds] = useState<string[]>([]);
+
+  const canCreate = can(currentUser, 'create', 'exam');
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -42,13 +111,53 @@ export const ExamSchedule: React.FC<ExamScheduleProps> = ({ currentUser, exams,
     };
   }, []);
 
+  // Print once the plan is rendered, then drop it
+  useEffect(() => {
+    if (!printJob) return;
+    const reset = () => setPrintJob(null);
+    window.addEventListener('afterprint', reset);
+    window.print();
+    return () => window.removeEventListener('afterprint', reset);
+  }, [printJob]);
+
+  const editingExam = exams.find(e => e.id === editingId);
+
+  // Slots the form would write (one exam, the generated dates of a series, or the shifted future occurrences)
+  // and the exams they replace
+  const getPendingSlots = (): [ExamSlot[], string[]] => {
+    if (!date || !startTime) return [[], []];
+    const slot: ExamSlot = { date: new Date(date), startTime, durationMinutes: Number(duration), room, targetClass: targetClass || undefined };
+    if (editingExam?.seriesId && editScope === 'FUTURE') {
+      const future = getFutureOccurrences(editingExam, exams);
+      const shift = daysBetween(editingExam.date, slot.date);
+      return [future.map(e => ({ ...slot, date: shiftDays(e.date, shift) })), future.map(e => e.id)];
+    }
+    if (!editingExam && frequency && until) {
+      const dates = generateOccurrenceDates({ frequency, startsOn: slot.date, until: new Date(until), exceptionDates });
+      return [dates.map(d => ({ ...slot, date: d })), []];
+    }
+    return [[slot], editingExam ? [editingExam.id] : []];
+  };
+  const [pendingSlots, replacedIds] = getPendingSlots();
+  const conflicts = findExamConflicts(pendingSlots, exams, replacedIds);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (conflicts.length > 0) {
+      if (blockConflicts) {
+        alert("Ce DS chevauche un autre examen dans la même salle ou pour la même classe. Changez le créneau ou la salle.");
+        return;
+      }
+      if (!window.confirm(`Ce DS chevauche ${conflicts.length} autre${conflicts.length > 1 ? 's' : ''} examen${conflicts.length > 1 ? 's' : ''}. Enregistrer quand même ?`)) {
+        return;
+      }
+    }
     if (editingId) {
        // Update existing
        const existingExam = exams.find(e => e.id === editingId);
        if (existingExam) {
-         onUpdate({
+         const save = existingExam.seriesId && editScope === 'FUTURE' ? onUpdateFuture : onUpdate;
+         save({
            ...existingExam,
            subject,
            date: new Date(date),
@@ -56,9 +165,30 @@ export const ExamSchedule: React.FC<ExamScheduleProps> = ({ currentUser, exams,
            durationMinutes: Number(duration),
            room,
            notes: notes || undefined,
-           targetClass: targetClass || undefined
+           targetClass: targetClass || undefined,
+           maxScore: Number(maxScore),
+           coefficient: Number(coefficient),
+           syllabus: parseSyllabus(syllabusText, existingExam.syllabus),
+           resourceIds
          });
        }
+    } else if (frequency) {
+       if (new Date(until) < new Date(date)) {
+         alert("La date de fin de la récurrence doit être postérieure à la première date.");
+         return;
+       }
+       onAddSeries({
+         subject,
+         startTime,
+         durationMinutes: Number(duration),
+         room,
+         notes: notes || undefined,
+         targetClass: targetClass || undefined,
+         frequency,
+         startsOn: new Date(date),
+         until: new Date(until),
+         exceptionDates: [...exceptionDates].sort()
+       });
     } else {
        // Create new
        onAdd({
@@ -68,7 +198,11 @@ export const ExamSchedule: React.FC<ExamScheduleProps> = ({ currentUser, exams,
          durationMinutes: Number(duration),
          room,
          notes: notes || undefined,
-         targetClass: targetClass || undefined
+         targetClass: targetClass || undefined,
+         maxScore: Number(maxScore),
+         coefficient: Number(coefficient),
+         syllabus: parseSyllabus(syllabusText),
+         resourceIds
        });
     }
     closeForm();
@@ -83,6 +217,11 @@ export const ExamSchedule: React.FC<ExamScheduleProps> = ({ currentUser, exams,
     setRoom(exam.room);
     setNotes(exam.notes || '');
     setTargetClass(exam.targetClass || '');
+    setMaxScore(getMaxScore(exam));
+    setCoefficient(exam.coefficient ?? DEFAULT_COEFFICIENT);
+    setSyllabusText(syllabusToText(exam.syllabus));
+    setResourceIds(exam.resourceIds || []);
+    setEditScope('THIS');
     setIsFormOpen(true);
     setActiveMenuId(null);
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -92,6 +231,30 @@ export const ExamSchedule: React.FC<ExamScheduleProps> = ({ currentUser, exams,
     setIsFormOpen(false);
     setEditingId(null);
     setSubject(''); setDate(''); setStartTime(''); setDuration(60); setRoom(''); setNotes(''); setTargetClass('');
+    setMaxScore(DEFAULT_MAX_SCORE); setCoefficient(DEFAULT_COEFFICIENT); setSyllabusText(''); setResourceIds([]);
+    setFrequency(''); setUntil(''); setExceptionDates([]); setExceptionInput(''); setEditScope('THIS');
+  };
+
+  // Calendar click on an empty day (month) or hour slot (week)
+  const openFormAt = (dateKey: string, time?: string) => {
+    closeForm();
+    setDate(dateKey);
+    if (time) setStartTime(time);
+    setIsFormOpen(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const downloadCalendar = (list: Exam[], name: string) =>
+    downloadTextFile(calendarFilename(name), buildExamCalendar(list, name), 'text/calendar;charset=utf-8');
+
+  const handleCalendarSelect = (exam: Exam) => {
+    if (can(currentUser, 'update', 'exam', exam)) handleEdit(exam);
+  };
+
+  const addException = () => {
+    if (!exceptionInput || exceptionDates.includes(exceptionInput)) return;
+    setExceptionDates([...exceptionDates, exceptionInput].sort());
+    setExceptionInput('');
   };
 
   const handleDelete = (id: string) => {
@@ -101,26 +264,455 @@ export const ExamSchedule: React.FC<ExamScheduleProps> = ({ currentUser, exams,
     setActiveMenuId(null);
   };
 
-  const sortedExams = [...exams].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const handleDeleteFuture = (id: string) => {
+    if (window.confirm("Supprimer cette occurrence et toutes les suivantes de la série ? Cette action est irréversible.")) {
+      onDeleteFuture(id);
+    }
+    setActiveMenuId(null);
+  };
+
+  const toggleResource = (id: string) =>
+    setResourceIds(prev => prev.includes(id) ? prev.filter(r => r !== id) : [...prev, id]);
+
+  const toggleSeries = (seriesId: string) =>
+    setExpandedSeriesIds(prev => prev.includes(seriesId) ? prev.filter(id => id !== seriesId) : [...prev, seriesId]);
+
+  const ruleOccurrences = frequency && date && until
+    ? countRuleOccurrences({ frequency, startsOn: new Date(date), until: new Date(until), exceptionDates })
+    : 0;
+
+  // Single exams and series share one chronological list; a series is placed at its next occurrence
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const seriesGroups = examSeries
+    .map(series => {
+      const occurrences = getSeriesOccurrences(series.id, exams);
+      const upcoming = occurrences.filter(e => new Date(e.date) >= today);
+      return { series, occurrences, upcoming, anchor: upcoming[0] || occurrences[occurrences.length - 1] };
+    })
+    .filter(group => group.occurrences.length > 0);
+  type SeriesGroup = typeof seriesGroups[number];
+  const groupedIds = new Set(seriesGroups.flatMap(group => group.occurrences.map(e => e.id)));
+  const timeline = [
+    ...exams.filter(e => !groupedIds.has(e.id)).map(exam => ({ date: new Date(exam.date), exam, group: undefined })),
+    ...seriesGroups.map(group => ({ date: new Date(group.anchor.date), exam: undefined, group }))
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Staff see who supervises each exam and their own upcoming duties
+  const isStaff = isStaffMember(currentUser);
+  const myDuties = isStaff ? getDuties(currentUser.id, exams, examInvigilators, today) : [];
+
+  // Resources the form can link: visible to the exam's class, same subject first
+  const linkableResources = getLinkableResources({ subject, targetClass: targetClass || undefined }, resources);
+
+  // Students see their own marks, weighted by the exam coefficients
+  const myAverage = currentUser.role === UserRole.ELEVE ? computeWeightedAverage(currentUser.id, examGrades, exams) : null;
+
+  const renderExam = (exam: Exam) => {
+    const daysLeft = differenceInDays(new Date(exam.date), new Date());
+    const isUrgent = daysLeft >= 0 && daysLeft <= 3;
+    
+    // Permission Checks
+    const canManage = can(currentUser, 'update', 'exam', exam) || can(currentUser, 'delete', 'exam', exam);
+    const myGrade = currentUser.role === UserRole.ELEVE ? examGrades.find(g => g.examId === exam.id && g.studentId === currentUser.id) : undefined;
+    const mySeat = currentUser.role === UserRole.ELEVE ? examSeats.find(s => s.examId === exam.id && s.studentId === currentUser.id) : undefined;
+    const mySeatRoom = mySeat && rooms.find(r => r.id === mySeat.roomId);
+    const isStudent = currentUser.role === UserRole.ELEVE;
+    const syllabus = exam.syllabus || [];
+    const linkedResources = getLinkedResources(exam, resources);
+    const revision = isStudent ? getRevisionProgress(exam, revisionChecks, currentUser.id) : null;
+    const invigilators = isStaff ? getInvigilators(exam.id, examInvigilators, users) : [];
+    const doubleBookedIds = invigilators.length > 0 ? getDoubleBookedIds(exam, exams, examInvigilators) : [];
+
+    return (
+      <React.Fragment key={exam.id}>
+        <div className={`bg-white rounded-xl p-5 shadow-sm border border-slate-200 flex flex-col md:flex-row items-start md:items-center justify-between hover:shadow-md transition-shadow relative group ${activeMenuId === exam.id ? 'z-50' : 'z-0'}`}>
+          <div className="flex items-start space-x-4 mb-4 md:mb-0 flex-1">
+            <div className={`flex flex-col items-center justify-center p-3 rounded-xl min-w-[70px] ${isUrgent ? 'bg-orange-100 text-orange-700' : 'bg-indigo-50 text-indigo-700'}`}>
+              <span className="text-xl font-bold">{format(new Date(exam.date), 'dd')}</span>
+              <span className="text-xs uppercase font-bold">{format(new Date(exam.date), 'MMM', { locale: fr })}</span>
+            </div>
+          
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                 <h3 className="font-bold text-lg text-slate-800">{exam.subject}</h3>
+                 {isUrgent && (
+                   <span className="flex items-center text-[10px] font-bold bg-orange-100 text-orange-600 px-2 py-0.5 rounded-full uppercase tracking-wide">
+                     <AlertTriangle size={10} className="mr-1" /> Bientôt
+                   </span>
+                 )}
+                 {exam.targetClass && (
+                    <span className="text-[10px] bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full font-bold flex items-center">
+                      <Users size={10} className="mr-1" /> {exam.targetClass}
+                    </span>
+                 )}
+              </div>
+
+              <div className="flex flex-wrap gap-4 mt-2 text-sm text-slate-500">
+                <div className="flex items-center">
+                  <Clock size={14} className="mr-1.5" />
+                  {exam.startTime} ({exam.durationMinutes} min)
+                </div>
+                <div className="flex items-center">
+                  <MapPin size={14} className="mr-1.5" />
+                  Salle {exam.room}
+                </div>
+                {mySeat && mySeatRoom && (
+                  <div className="flex items-center font-semibold text-indigo-700">
+                    <LayoutGrid size={14} className="mr-1.5" />
+                    Ma place : {mySeatRoom.name !== exam.room ? `salle ${mySeatRoom.name}, ` : ''}{formatSeat(mySeat)}
+                  </div>
+                )}
+                {invigilators.length > 0 && (
+                  <div className="flex items-center flex-wrap gap-1">
+                    <ShieldCheck size={14} className="mr-0.5" />
+                    Surveillance :
+                    {invigilators.map((invigilator, idx) => (
+                      <span
+                        key={invigilator.id}
+                        className={doubleBookedIds.includes(invigilator.id) ? 'text-orange-600 font-semibold' : invigilator.id === currentUser.id ? 'text-indigo-700 font-semibold' : ''}
+                        title={doubleBookedIds.includes(invigilator.id) ? 'Surveille un autre DS sur ce créneau' : undefined}
+                      >
+                        {invigilator.name}{doubleBookedIds.includes(invigilator.id) && <AlertTriangle size={10} className="inline ml-0.5" />}{idx < invigilators.length - 1 ? ',' : ''}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            
+              {exam.notes && (
+                <div className="mt-2 flex items-start text-xs text-slate-500 bg-slate-50 p-2 rounded">
+                  <FileText size={12} className="mr-1.5 mt-0.5 flex-shrink-0" />
+                  <p>{exam.notes}</p>
+                </div>
+              )}
+
+              {myGrade && (myGrade.score !== undefined || myGrade.isAbsent) && (
+                <div className="mt-2 text-sm">
+                  <span className="font-bold text-indigo-700 flex items-center gap-1.5">
+                    <GraduationCap size={14} />
+                    {myGrade.isAbsent ? 'Absent(e)' : `Ma note : ${formatScore(myGrade.score as number)}/${formatScore(getMaxScore(exam))}`}
+                  </span>
+                  {myGrade.comment && <p className="text-xs text-slate-500 mt-0.5 italic">{myGrade.comment}</p>}
+                </div>
+              )}
+
+              {(syllabus.length > 0 || linkedResources.length > 0) && (
+                <div className="mt-3 p-3 rounded-lg border border-slate-100 bg-slate-50 text-sm space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold text-slate-700 flex items-center gap-1.5"><ListChecks size={14} /> Révisions</span>
+                    {revision && <span className="text-xs font-bold text-indigo-700">{revision.done}/{revision.total}</span>}
+                  </div>
+                  {revision && (
+                    <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                      <div className={`h-full rounded-full transition-all ${revision.percent === 100 ? 'bg-green-500' : 'bg-indigo-500'}`} style={{ width: `${revision.percent}%` }} />
+                    </div>
+                  )}
+                  {syllabus.length > 0 && (
+                    <ul className="space-y-1">
+                      {syllabus.map(topic => {
+                        const isRevised = isTopicRevised(revisionChecks, exam.id, topic.id, currentUser.id);
+                        return (
+                          <li key={topic.id}>
+                            {isStudent ? (
+                              <button
+                                type="button"
+                                onClick={() => onToggleRevision(exam, topic.id)}
+                                className={`flex items-start gap-2 text-left ${isRevised ? 'text-slate-400 line-through' : 'text-slate-700 hover:text-indigo-700'}`}
+                              >
+                                {isRevised ? <CheckSquare size={16} className="text-green-600 flex-shrink-0" /> : <Square size={16} className="flex-shrink-0" />}
+                                {topic.title}
+                              </button>
+                            ) : (
+                              <span className="flex items-start gap-2 text-slate-600">
+                                <span className="text-slate-300">•</span> {topic.title}
+                              </span>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                  {linkedResources.length > 0 && (
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      {linkedResources.map(resource => resource.type === 'BOOK' ? (
+                        <span key={resource.id} className="flex items-center gap-1 text-xs bg-white border border-slate-200 text-slate-600 px-2 py-1 rounded-lg" title={resource.content}>
+                          <BookOpen size={12} /> {resource.title}
+                        </span>
+                      ) : (
+                        <a
+                          key={resource.id}
+                          href={resource.content}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 text-xs bg-white border border-indigo-100 text-indigo-700 px-2 py-1 rounded-lg hover:bg-indigo-50"
+                        >
+                          <ExternalLink size={12} /> {resource.title}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => downloadCalendar([exam], `DS ${exam.subject} ${format(new Date(exam.date), 'dd-MM-yyyy')}`)}
+            className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Ajouter à mon agenda (.ics)"
+          >
+            <CalendarPlus size={20} />
+          </button>
+
+          {canManage && (
+            <div className="relative ml-2 z-20">
+                <button 
+                   type="button"
+                   onClick={(e) => { e.stopPropagation(); setActiveMenuId(activeMenuId === exam.id ? null : exam.id); }}
+                   className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors"
+                 >
+                   <MoreVertical size={20} />
+                 </button>
+
+                 {activeMenuId === exam.id && (
+                   <div ref={menuRef} className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-xl border border-slate-100 z-50 animate-in fade-in zoom-in-95 origin-top-right">
+                     <button 
+                       onClick={(e) => { e.stopPropagation(); handleEdit(exam); }}
+                       className="w-full text-left px-4 py-3 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center gap-2 first:rounded-t-lg"
+                     >
+                       <Pencil size={16} /> Modifier
+                     </button>
+                     {can(currentUser, 'update', 'exam', exam) && (
+                       <button
+                         onClick={(e) => { e.stopPropagation(); setGradingExamId(gradingExamId === exam.id ? null : exam.id); setActiveMenuId(null); }}
+                         className="w-full text-left px-4 py-3 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center gap-2 border-t border-slate-50"
+                       >
+                         <GraduationCap size={16} /> Notes
+                       </button>
+                     )}
+                     {can(currentUser, 'update', 'exam', exam) && (
+                       <button
+                         onClick={(e) => { e.stopPropagation(); setSeatingExamId(seatingExamId === exam.id ? null : exam.id); setActiveMenuId(null); }}
+                         className="w-full text-left px-4 py-3 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center gap-2 border-t border-slate-50"
+                       >
+                         <LayoutGrid size={16} /> Plan de salle
+                       </button>
+                     )}
+                     {can(currentUser, 'update', 'exam', exam) && (
+                       <button
+                         onClick={(e) => { e.stopPropagation(); setInvigilatingExamId(invigilatingExamId === exam.id ? null : exam.id); setActiveMenuId(null); }}
+                         className="w-full text-left px-4 py-3 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center gap-2 border-t border-slate-50"
+                       >
+                         <ShieldCheck size={16} /> Surveillants
+                       </button>
+                     )}
+                     <button 
+                       onClick={(e) => { e.stopPropagation(); handleDelete(exam.id); }}
+                       className="w-full text-left px-4 py-3 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2 last:rounded-b-lg border-t border-slate-50"
+                     >
+                       <Trash2 size={16} /> {exam.seriesId ? 'Supprimer cette occurrence' : 'Supprimer'}
+                     </button>
+                     {exam.seriesId && (
+                       <button 
+                         onClick={(e) => { e.stopPropagation(); handleDeleteFuture(exam.id); }}
+                         className="w-full text-left px-4 py-3 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2 last:rounded-b-lg"
+                       >
+                         <Trash2 size={16} /> Supprimer les suivantes
+                       </button>
+                     )}
+                   </div>
+                 )}
+            </div>
+          )}
+        </div>
+        {gradingExamId === exam.id && (
+          <ExamGrades
+            exam={exam}
+            students={getExamStudents(exam, users, examGrades)}
+            grades={examGrades.filter(g => g.examId === exam.id)}
+            onSave={onSaveGrades}
+            onClose={() => setGradingExamId(null)}
+          />
+        )}
+        {seatingExamId === exam.id && (
+          <SeatingPlanner
+            exam={exam}
+            students={getExamStudents(exam, users, [])}
+            rooms={rooms}
+            exams={exams}
+            seats={examSeats.filter(s => s.examId === exam.id)}
+            onSave={onSaveSeating}
+            onPrint={(kind, seats) => setPrintJob({ exam, kind, seats })}
+            onClose={() => setSeatingExamId(null)}
+          />
+        )}
+        {invigilatingExamId === exam.id && (
+          <ExamInvigilators
+            exam={exam}
+            staff={getStaffMembers(users)}
+            exams={exams}
+            invigilators={examInvigilators}
+            blockConflicts={blockConflicts}
+            onSave={onSaveInvigilators}
+            onClose={() => setInvigilatingExamId(null)}
+          />
+        )}
+      </React.Fragment>
+    );
+  };
+
+  const renderSeries =(group: SeriesGroup) => {
+    const { series, occurrences, upcoming, anchor } = group;
+    const isExpanded = expandedSeriesIds.includes(series.id);
+    const shown = isExpanded ? occurrences : [anchor];
+    const hidden = occurrences.length - shown.length;
+    return (
+      <div key={series.id} className="bg-indigo-50/40 rounded-2xl p-4 border border-indigo-100 space-y-3">
+        <div className="flex justify-between items-center gap-2 flex-wrap">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Repeat size={16} className="text-indigo-600" />
+            <h3 className="font-bold text-slate-800">{series.subject}</h3>
+            <span className="text-[10px] bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full font-bold">
+              {FREQUENCY_LABELS[series.frequency]} · jusqu'au {format(new Date(series.until), 'd MMM yyyy', { locale: fr })}
+            </span>
+            {series.targetClass && (
+              <span className="text-[10px] bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full font-bold flex items-center">
+                <Users size={10} className="mr-1" /> {series.targetClass}
+              </span>
+            )}
+          </div>
+          <span className="text-xs text-slate-500">
+            {occurrences.length} occurrence{occurrences.length > 1 ? 's' : ''} · {upcoming.length} à venir
+          </span>
+        </div>
+        {shown.map(renderExam)}
+        {(hidden > 0 || isExpanded) && (
+          <button
+            type="button"
+            onClick={() => toggleSeries(series.id)}
+            className="flex items-center gap-1 text-sm text-indigo-600 hover:underline font-medium"
+          >
+            {isExpanded ? <><ChevronUp size={14} /> Masquer les autres occurrences</> : <><ChevronDown size={14} /> Voir les {hidden} autres occurrences</>}
+          </button>
+        )}
+      </div>
+    );
+  };
 
   return (
-    <div className="space-y-6">
+    <>
+    <div className="space-y-6 print:hidden">
       <div className="flex justify-between items-center">
         <div>
           <h2 className="text-2xl font-bold text-slate-800">Devoirs Surveillés (DS)</h2>
           <p className="text-slate-500">Calendrier des examens et évaluations</p>
+          {myAverage !== null && (
+            <p className="text-sm text-indigo-700 font-semibold flex items-center gap-1.5 mt-1">
+              <GraduationCap size={14} /> Moyenne des DS : {formatScore(myAverage)}/20
+            </p>
+          )}
         </div>
-        {canEdit && (
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 rounded-lg p-1">
+            {VIEW_OPTIONS.map(({ view: option, label, icon: Icon }) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm transition-colors ${view === option ? 'bg-white text-indigo-700 shadow-sm font-semibold' : 'text-slate-500 hover:text-slate-700'}`}
+                title={label}
+              >
+                <Icon size={16} />
+                <span className="hidden md:inline">{label}</span>
+              </button>
+            ))}
+          </div>
           <button
-            onClick={() => { closeForm(); setIsFormOpen(!isFormOpen); }}
-            className="flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-all shadow-sm"
+            type="button"
+            onClick={() => downloadCalendar(exams, `DS ${currentUser.role === UserRole.ELEVE && currentUser.classGroup ? currentUser.classGroup : schoolName}`)}
+            disabled={exams.length === 0}
+            className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-40"
+            title="Exporter les DS affichés (.ics)"
           >
-            <Plus size={18} />
-            <span className="hidden sm:inline">Planifier un DS</span>
+            <Download size={18} />
           </button>
-        )}
+          {isStaff && (
+            <button
+              type="button"
+              onClick={() => downloadTextFile(rotaExportFilename(), buildRotaCsv(exams, examInvigilators, users))}
+              disabled={exams.length === 0}
+              className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-40"
+              title="Exporter le planning des surveillances (CSV)"
+            >
+              <ClipboardList size={18} />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setIsFeedOpen(!isFeedOpen)}
+            className={`p-2 rounded-lg transition-colors ${isFeedOpen ? 'text-indigo-600 bg-indigo-50' : 'text-slate-500 hover:text-indigo-600 hover:bg-slate-100'}`}
+            title="S'abonner au calendrier des DS"
+          >
+            <Rss size={18} />
+          </button>
+          {canCreate && (
+            <button
+              type="button"
+              onClick={() => { closeForm(); setIsImportOpen(!isImportOpen); }}
+              className={`p-2 rounded-lg transition-colors ${isImportOpen ? 'text-indigo-600 bg-indigo-50' : 'text-slate-500 hover:text-indigo-600 hover:bg-slate-100'}`}
+              title="Importer un planning (CSV, XLSX)"
+            >
+              <Upload size={18} />
+            </button>
+          )}
+          {canCreate && (
+            <button
+              onClick={() => { closeForm(); setIsImportOpen(false); setIsFormOpen(!isFormOpen); }}
+              className="flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-all shadow-sm"
+            >
+              <Plus size={18} />
+              <span className="hidden sm:inline">Planifier un DS</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      {myDuties.length > 0 && (
+        <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+          <h3 className="font-semibold text-slate-700 flex items-center gap-2 mb-2"><ShieldCheck size={16} className="text-indigo-600" /> Mes surveillances</h3>
+          <ul className="divide-y divide-slate-100">
+            {myDuties.map(duty => (
+              <li key={duty.id} className="py-1.5 flex flex-wrap items-center gap-x-3 text-sm">
+                <span className="font-semibold text-slate-800 w-28 capitalize">{format(new Date(duty.date), 'EEE d MMM', { locale: fr })}</span>
+                <span className="text-slate-500">{duty.startTime} ({duty.durationMinutes} min)</span>
+                <span className="text-slate-800">{duty.subject}{duty.targetClass ? ` · ${duty.targetClass}` : ''}</span>
+                <span className="text-slate-500">Salle {duty.room}</span>
+                {getDoubleBookedIds(duty, exams, examInvigilators).includes(currentUser.id) && (
+                  <span className="text-xs text-orange-600 font-semibold flex items-center gap-1"><AlertTriangle size={12} /> Double réservation</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isFeedOpen && (
+        <FeedPanel currentUser={currentUser} classGroups={classGroups} onGetFeedUrl={onGetFeedUrl} />
+      )}
+
+      {isImportOpen && (
+        <ExamImport
+          currentUser={currentUser}
+          exams={exams}
+          classGroups={classGroups}
+          blockConflicts={blockConflicts}
+          onImport={onImport}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
       {isFormOpen && (
         <div className="bg-white p-6 rounded-xl border border-indigo-100 shadow-lg animate-fade-in">
            <h3 className="font-semibold text-lg mb-4 text-indigo-700">{editingId ? 'Modifier l\'examen' : 'Planifier un nouvel examen'}</h3>
@@ -132,9 +724,9 @@ export const ExamSchedule: React.FC<ExamScheduleProps> = ({ currentUser, exams,
                   value={targetClass}
                   onChange={(e) => setTargetClass(e.target.value)}
                >
-                 {currentUser.role === UserRole.ADMIN && <option value="">🏫 Toute l'école</option>}
+                 {can(currentUser, 'create', 'exam', { targetClass: undefined }) && <option value="">🏫 Toute l'école</option>}
                  {classGroups
-                   .filter(g => currentUser.role === UserRole.ADMIN || g.name === currentUser.classGroup)
+                   .filter(g => can(currentUser, 'create', 'exam', { targetClass: g.name }))
                    .map(group => (
                      <option key={group.id} value={group.name}>🎓 {group.name}</option>
                  ))}
@@ -145,116 +737,241 @@ export const ExamSchedule: React.FC<ExamScheduleProps> = ({ currentUser, exams,
             </div>
 
             <input type="text" required placeholder="Matière (ex: Mathématiques)" className="border p-2 rounded" value={subject} onChange={e => setSubject(e.target.value)} />
-            <input type="date" required className="border p-2 rounded" value={date} onChange={e => setDate(e.target.value)} />
+            <input type="date" required title={frequency ? 'Première date' : undefined} className="border p-2 rounded" value={date} onChange={e => setDate(e.target.value)} />
             <div className="flex space-x-2">
               <input type="time" required className="border p-2 rounded flex-1" value={startTime} onChange={e => setStartTime(e.target.value)} />
               <input type="number" required placeholder="Durée (min)" className="border p-2 rounded w-24" value={duration} onChange={e => setDuration(Number(e.target.value))} />
             </div>
-            <input type="text" required placeholder="Salle (ex: B12)" className="border p-2 rounded" value={room} onChange={e => setRoom(e.target.value)} />
-            <textarea placeholder="Notes supplémentaires (chapitres à réviser, matériel...)" className="border p-2 rounded md:col-span-2" value={notes} onChange={e => setNotes(e.target.value)} />
+            <input type="text" required list="exam-rooms" placeholder="Salle (ex: B12)" className="border p-2 rounded" value={room} onChange={e => setRoom(e.target.value)} />
+            <datalist id="exam-rooms">
+              {rooms.map(r => <option key={r.id} value={r.name}>{r.capacity} places</option>)}
+            </datalist>
+            {!frequency && (
+              <div className="flex items-center gap-2 text-sm text-slate-600">
+                <label className="flex items-center gap-1">
+                  Noté sur
+                  <input type="number" required min={1} step="any" className="border p-2 rounded w-20" value={maxScore} onChange={e => setMaxScore(Number(e.target.value))} />
+                </label>
+                <label className="flex items-center gap-1">
+                  Coef.
+                  <input type="number" required min={0.25} step={0.25} className="border p-2 rounded w-20" value={coefficient} onChange={e => setCoefficient(Number(e.target.value))} />
+                </label>
+              </div>
+            )}
+            <textarea placeholder="Notes supplémentaires (matériel, consignes...)" className="border p-2 rounded md:col-span-2" value={notes} onChange={e => setNotes(e.target.value)} />
+            {!frequency && (
+              <>
+                <textarea
+                  placeholder="Programme (un chapitre par ligne)"
+                  rows={4}
+                  className="border p-2 rounded"
+                  value={syllabusText}
+                  onChange={e => setSyllabusText(e.target.value)}
+                />
+                <div className="border rounded p-2 max-h-32 overflow-y-auto text-sm">
+                  <p className="text-xs font-semibold text-slate-500 mb-1">Ressources de révision</p>
+                  {linkableResources.length === 0 ? (
+                    <p className="text-xs text-slate-400">Aucune ressource disponible pour cette classe.</p>
+                  ) : linkableResources.map(resource => (
+                    <label key={resource.id} className="flex items-center gap-2 py-0.5 text-slate-700 cursor-pointer">
+                      <input type="checkbox" checked={resourceIds.includes(resource.id)} onChange={() => toggleResource(resource.id)} />
+                      <span className="truncate">{resource.title}</span>
+                      <span className="text-xs text-slate-400 flex-shrink-0">{resource.subject}</span>
+                    </label>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {!editingId && (
+              <div className="md:col-span-2 p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-semibold text-slate-700 block mb-1">Répétition</label>
+                    <select
+                      className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                      value={frequency}
+                      onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency | '')}
+                    >
+                      <option value="">Ne se répète pas</option>
+                      {Object.values(RecurrenceFrequency).map(f => <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>)}
+                    </select>
+                  </div>
+                  {frequency && (
+                    <div>
+                      <label className="text-sm font-semibold text-slate-700 block mb-1">Jusqu'au</label>
+                      <input type="date" required min={date || undefined} className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-white" value={until} onChange={e => setUntil(e.target.value)} />
+                    </div>
+                  )}
+                </div>
+                {frequency && (
+                  <div>
+                    <label className="text-sm font-semibold text-slate-700 block mb-1">Exceptions (vacances, jours fériés…)</label>
+                    <div className="flex gap-2">
+                      <input type="date" min={date || undefined} max={until || undefined} className="border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-white" value={exceptionInput} onChange={e => setExceptionInput(e.target.value)} />
+                      <button type="button" onClick={addException} className="text-sm text-indigo-600 hover:underline font-medium">+ Ajouter</button>
+                    </div>
+                    {exceptionDates.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {exceptionDates.map(key => (
+                          <span key={key} className="text-xs bg-white border border-slate-200 text-slate-600 px-2 py-0.5 rounded-full flex items-center gap-1">
+                            {format(new Date(key), 'd MMM yyyy', { locale: fr })}
+                            <button type="button" onClick={() => setExceptionDates(exceptionDates.filter(d => d !== key))} className="text-slate-400 hover:text-red-500" title="Retirer l'exception">
+                              <X size={12} />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {ruleOccurrences > 0 && (
+                      <p className={`text-xs mt-2 ${ruleOccurrences > MAX_SERIES_OCCURRENCES ? 'text-orange-600' : 'text-slate-500'}`}>
+                        {ruleOccurrences > MAX_SERIES_OCCURRENCES
+                          ? `${ruleOccurrences} dates : seules les ${MAX_SERIES_OCCURRENCES} premières seront créées.`
+                          : `${ruleOccurrences} DS seront planifiés, modifiables ensuite un par un.`}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {editingExam?.seriesId && (
+              <div className="md:col-span-2 flex flex-wrap gap-4 text-sm text-slate-700">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" name="edit-scope" checked={editScope === 'THIS'} onChange={() => setEditScope('THIS')} className="text-indigo-600 focus:ring-indigo-500" />
+                  Cette occurrence uniquement
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" name="edit-scope" checked={editScope === 'FUTURE'} onChange={() => setEditScope('FUTURE')} className="text-indigo-600 focus:ring-indigo-500" />
+                  Cette occurrence et toutes les suivantes
+                </label>
+              </div>
+            )}
             
+            {conflicts.length > 0 && (
+              <div className={`md:col-span-2 p-3 rounded-lg border text-sm ${blockConflicts ? 'bg-red-50 border-red-200 text-red-700' : 'bg-orange-50 border-orange-200 text-orange-700'}`}>
+                <p className="font-semibold flex items-center gap-1.5 mb-1">
+                  {blockConflicts ? <Ban size={14} /> : <AlertTriangle size={14} />}
+                  {blockConflicts ? 'Enregistrement impossible : conflit de planning' : 'Conflit de planning'}
+                </p>
+                <ul className="space-y-0.5 text-xs">
+                  {conflicts.map(({ exam, reasons }) => (
+                    <li key={exam.id}>
+                      {exam.subject} · {format(new Date(exam.date), 'd MMM yyyy', { locale: fr })} à {exam.startTime} ({exam.durationMinutes} min) · Salle {exam.room} · {exam.targetClass || "Toute l'école"}
+                      <span className="font-semibold"> — {reasons.map(r => CONFLICT_LABELS[r]).join(', ')}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="md:col-span-2 flex justify-end space-x-2">
                 <button type="button" onClick={closeForm} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded">Annuler</button>
-                <button type="submit" className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">
-                  {editingId ? 'Mettre à jour' : 'Planifier'}
+                <button type="submit" disabled={blockConflicts && conflicts.length > 0} className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed">
+                  {editingId ? 'Mettre à jour' : frequency ? 'Planifier la série' : 'Planifier'}
                 </button>
             </div>
            </form>
         </div>
       )}
 
-      <div className="space-y-4">
-        {sortedExams.map((exam) => {
-          const daysLeft = differenceInDays(new Date(exam.date), new Date());
-          const isUrgent = daysLeft >= 0 && daysLeft <= 3;
-          
-          // Permission Checks
-          const isCreator = exam.createdById === currentUser.id;
-          const isAdmin = currentUser.role === UserRole.ADMIN;
-          const canManage = isAdmin || isCreator || 
-                            (currentUser.role === UserRole.RESPONSABLE && exam.targetClass === currentUser.classGroup);
-
-          return (
-            <div key={exam.id} className={`bg-white rounded-xl p-5 shadow-sm border border-slate-200 flex flex-col md:flex-row items-start md:items-center justify-between hover:shadow-md transition-shadow relative group ${activeMenuId === exam.id ? 'z-50' : 'z-0'}`}>
-              <div className="flex items-start space-x-4 mb-4 md:mb-0 flex-1">
-                <div className={`flex flex-col items-center justify-center p-3 rounded-xl min-w-[70px] ${isUrgent ? 'bg-orange-100 text-orange-700' : 'bg-indigo-50 text-indigo-700'}`}>
-                  <span className="text-xl font-bold">{format(new Date(exam.date), 'dd')}</span>
-                  <span className="text-xs uppercase font-bold">{format(new Date(exam.date), 'MMM', { locale: fr })}</span>
-                </div>
-                
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-2 flex-wrap">
-                     <h3 className="font-bold text-lg text-slate-800">{exam.subject}</h3>
-                     {isUrgent && (
-                       <span className="flex items-center text-[10px] font-bold bg-orange-100 text-orange-600 px-2 py-0.5 rounded-full uppercase tracking-wide">
-                         <AlertTriangle size={10} className="mr-1" /> Bientôt
-                       </span>
-                     )}
-                     {exam.targetClass && (
-                        <span className="text-[10px] bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full font-bold flex items-center">
-                          <Users size={10} className="mr-1" /> {exam.targetClass}
-                        </span>
-                     )}
-                  </div>
+      {view === 'LIST' ? (
+        <div className="space-y-4">
+          {timeline.map(item => item.exam ? renderExam(item.exam) : item.group && renderSeries(item.group))}
+          {exams.length === 0 && (
+             <div className="text-center py-10 bg-slate-50 rounded-xl border border-dashed border-slate-300">
+               <CalendarIcon size={40} className="mx-auto text-slate-300 mb-3" />
+               <p className="text-slate-500">Aucun examen planifié.</p>
+             </div>
+          )}
+        </div>
+      ) : (
+        <ExamCalendar
+          mode={view}
+          exams={exams}
+          classGroups={classGroups}
+          canCreate={canCreate}
+          onCreateAt={openFormAt}
+          onSelect={handleCalendarSelect}
+        />
+      )}
+    </div>
+    {printJob && <SeatingPrint exam={printJob.exam} kind={printJob.kind} seats={printJob.seats} rooms={rooms} users={users} />}
+    </>
+  );
+};
 
-                  <div className="flex flex-wrap gap-4 mt-2 text-sm text-slate-500">
-                    <div className="flex items-center">
-                      <Clock size={14} className="mr-1.5" />
-                      {exam.startTime} ({exam.durationMinutes} min)
-                    </div>
-                    <div className="flex items-center">
-                      <MapPin size={14} className="mr-1.5" />
-                      Salle {exam.room}
-                    </div>
-                  </div>
-                  
-                  {exam.notes && (
-                    <div className="mt-2 flex items-start text-xs text-slate-500 bg-slate-50 p-2 rounded">
-                      <FileText size={12} className="mr-1.5 mt-0.5 flex-shrink-0" />
-                      <p>{exam.notes}</p>
-                    </div>
-                  )}
-                </div>
-              </div>
+interface FeedPanelProps {
+  currentUser: User;
+  classGroups: ClassGroup[];
+  onGetFeedUrl: (className?: string, rotate?: boolean) => Promise<string | null>;
+}
 
-              {canManage && (
-                <div className="relative ml-2 z-20">
-                    <button 
-                       type="button"
-                       onClick={(e) => { e.stopPropagation(); setActiveMenuId(activeMenuId === exam.id ? null : exam.id); }}
-                       className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors"
-                     >
-                       <MoreVertical size={20} />
-                     </button>
+// Subscription link of a class calendar: students get their own class, staff pick one
+const FeedPanel: React.FC<FeedPanelProps> = ({ currentUser, classGroups, onGetFeedUrl }) => {
+  const [className, setClassName] = useState(currentUser.classGroup || '');
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
 
-                     {activeMenuId === exam.id && (
-                       <div ref={menuRef} className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-xl border border-slate-100 z-50 animate-in fade-in zoom-in-95 origin-top-right">
-                         <button 
-                           onClick={(e) => { e.stopPropagation(); handleEdit(exam); }}
-                           className="w-full text-left px-4 py-3 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center gap-2 first:rounded-t-lg"
-                         >
-                           <Pencil size={16} /> Modifier
-                         </button>
-                         <button 
-                           onClick={(e) => { e.stopPropagation(); handleDelete(exam.id); }}
-                           className="w-full text-left px-4 py-3 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2 last:rounded-b-lg border-t border-slate-50"
-                         >
-                           <Trash2 size={16} /> Supprimer
-                         </button>
-                       </div>
-                     )}
-                </div>
-              )}
-            </div>
-          );
-        })}
-        {exams.length === 0 && (
-           <div className="text-center py-10 bg-slate-50 rounded-xl border border-dashed border-slate-300">
-             <CalendarIcon size={40} className="mx-auto text-slate-300 mb-3" />
-             <p className="text-slate-500">Aucun examen planifié.</p>
-           </div>
+  const fetchUrl = async (rotate = false) => {
+    if (rotate && !window.confirm("Générer un nouveau lien ? L'ancien cessera de fonctionner pour tous les abonnés.")) return;
+    setIsLoading(true);
+    setFeedUrl(await onGetFeedUrl(className || undefined, rotate));
+    setIsLoading(false);
+  };
+
+  const copyUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+    } catch (err) {
+      console.error("Clipboard write failed", err);
+      alert(feedUrl);
+    }
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-indigo-100 shadow-sm animate-fade-in space-y-3">
+      <div>
+        <h3 className="font-semibold text-indigo-700 flex items-center gap-2"><Rss size={16} /> Abonnement au calendrier</h3>
+        <p className="text-xs text-slate-500 mt-1">Ajoutez ce lien dans votre agenda (Google Agenda, Apple Calendrier, Outlook…) : les DS s'y mettent à jour automatiquement.</p>
+      </div>
+      <div className="flex flex-wrap gap-2 items-center">
+        {currentUser.role === UserRole.ELEVE ? (
+          <span className="text-sm text-slate-700 font-medium">{currentUser.classGroup ? `Classe ${currentUser.classGroup}` : "DS de toute l'école"}</span>
+        ) : (
+          <select
+            className="border p-2 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50"
+            value={className}
+            onChange={(e) => { setClassName(e.target.value); setFeedUrl(null); }}
+          >
+            <option value="">🏫 DS de toute l'école uniquement</option>
+            {classGroups.map(group => <option key={group.id} value={group.name}>🎓 {group.name}</option>)}
+          </select>
         )}
+        <button
+          type="button"
+          onClick={() => fetchUrl()}
+          disabled={isLoading}
+          className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          Obtenir le lien
+        </button>
       </div>
+      {feedUrl && (
+        <div className="flex flex-wrap gap-2 items-center">
+          <input readOnly value={feedUrl} onFocus={(e) => e.target.select()} className="flex-1 min-w-[16rem] border p-2 rounded-md text-xs font-mono bg-slate-50" />
+          <button type="button" onClick={copyUrl} className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors" title="Copier le lien">
+            <Copy size={16} />
+          </button>
+          <a href={feedUrl.replace(/^https?:/, 'webcal:')} className="text-sm text-indigo-600 hover:underline font-medium">S'abonner</a>
+          {can(currentUser, 'create', 'exam', { targetClass: className || undefined }) && (
+            <button type="button" onClick={() => fetchUrl(true)} className="flex items-center gap-1 text-xs text-slate-500 hover:text-red-600" title="Invalide l'ancien lien">
+              <RefreshCw size={12} /> Régénérer
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { Announcement, User, UserRole, ClassGroup } from '../types';
+import { can } from '../lib/permissions';
 import { Video, Trash2, Plus, Clock, AlertCircle, Megaphone, Users, Share2, Copy, Mail, Check, Pencil, MoreVertical } from 'lucide-react';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
@@ -33,7 +34,7 @@ export const InfoBoard: React.FC<InfoBoardProps> = ({ currentUser, announcements
   const shareMenuRef = useRef<HTMLDivElement>(null);
   const actionMenuRef = useRef<HTMLDivElement>(null);
 
-  const canEdit = [UserRole.ADMIN, UserRole.RESPONSABLE].includes(currentUser.role);
+  const canCreate = can(currentUser, 'create', 'announcement');
 
   // Close menus when clicking outside
   useEffect(() => {
@@ -135,7 +136,7 @@ export const InfoBoard: React.FC<InfoBoardProps> = ({ currentUser, announcements
           <h2 className="text-2xl font-bold text-slate-800">Infos & Annonces</h2>
           <p className="text-slate-500">Restez informé des dernières actualités</p>
         </div>
-        {canEdit && (
+        {canCreate && (
           <button
             onClick={() => { closeForm(); setIsFormOpen(!isFormOpen); }}
             className="flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-all shadow-sm"
@@ -157,9 +158,9 @@ export const InfoBoard: React.FC<InfoBoardProps> = ({ currentUser, announcements
                     value={targetClass}
                     onChange={(e) => setTargetClass(e.target.value)}
                  >
-                   {currentUser.role === UserRole.ADMIN && <option value="">🏫 Toute l'école</option>}
+                   {can(currentUser, 'create', 'announcement', { targetClass: undefined }) && <option value="">🏫 Toute l'école</option>}
                    {classGroups
-                     .filter(g => currentUser.role === UserRole.ADMIN || g.name === currentUser.classGroup)
+                     .filter(g => can(currentUser, 'create', 'announcement', { targetClass: g.name }))
                      .map(group => (
                        <option key={group.id} value={group.name}>🎓 {group.name}</option>
                    ))}
@@ -195,10 +196,7 @@ export const InfoBoard: React.FC<InfoBoardProps> = ({ currentUser, announcements
           const TitleIcon = ann.isUrgent ? AlertCircle : Megaphone;
           
           // Permission Checks
-          const isCreator = ann.authorId === currentUser.id;
-          const isAdmin = currentUser.role === UserRole.ADMIN;
-          const canManage = isAdmin || isCreator || 
-                            (currentUser.role === UserRole.RESPONSABLE && ann.targetClass === currentUser.classGroup);
+          const canManage = can(currentUser, 'update', 'announcement', ann) || can(currentUser, 'delete', 'announcement', ann);
 
           return (
             <div key={ann.id} className={`bg-white rounded-xl p-5 shadow-sm border ${ann.isUrgent ? 'border-orange-200 bg-orange-50/30' : 'border-slate-200'} transition-all hover:shadow-md relative group ${activeMenuId === ann.id ? 'z-50' : 'z-0'}`}>
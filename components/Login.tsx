@@ -1,23 +1,42 @@
-import React, { useState } from 'react';
-import { GraduationCap, Mail, Lock, AlertCircle, ShieldCheck, ArrowLeft, Send } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { GraduationCap, Mail, Lock, AlertCircle, ShieldCheck, ArrowLeft, Send, Loader2, KeyRound, CheckCircle } from 'lucide-react';
 
 interface LoginProps {
-  onLogin: (email: string, pass: string) => boolean;
+  onLogin: (email: string, pass: string) => Promise<boolean>;
+  onRequestReset: (email: string) => Promise<void>;
+  // When provided, the "choose new password" view is shown instead of the login form
+  onSetNewPassword?: (password: string) => Promise<boolean>;
+  onCancelNewPassword?: () => void;
+  newPasswordReason?: 'RESET_LINK' | 'FORCED';
+  notice?: string;
   logoUrl?: string;
 }
 
-type AuthView = 'LOGIN' | 'FORGOT_PASSWORD';
+type AuthView = 'LOGIN' | 'FORGOT_PASSWORD' | 'NEW_PASSWORD';
 
-export const Login: React.FC<LoginProps> = ({ onLogin, logoUrl }) => {
-  const [view, setView] = useState<AuthView>('LOGIN');
+const MIN_PASSWORD_LENGTH = 8;
+
+export const Login: React.FC<LoginProps> = ({ onLogin, onRequestReset, onSetNewPassword, onCancelNewPassword, newPasswordReason, notice, logoUrl }) => {
+  const [view, setView] = useState<AuthView>(onSetNewPassword ? 'NEW_PASSWORD' : 'LOGIN');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState('');
   const [resetSent, setResetSent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setView(onSetNewPassword ? 'NEW_PASSWORD' : 'LOGIN');
+    setPassword('');
+    setConfirmPassword('');
+    setError('');
+  }, [newPasswordReason]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const success = onLogin(email, password);
+    setIsSubmitting(true);
+    const success = await onLogin(email, password);
+    setIsSubmitting(false);
     if (!success) {
       setError('Identifiants incorrects. Veuillez réessayer.');
     } else {
@@ -25,11 +44,42 @@ export const Login: React.FC<LoginProps> = ({ onLogin, logoUrl }) => {
     }
   };
 
-  const handleResetRequest = (e: React.FormEvent) => {
+  const handleResetRequest = async (e: React.FormEvent) => {
     e.preventDefault();
-    setTimeout(() => {
+    setIsSubmitting(true);
+    try {
+      await onRequestReset(email);
       setResetSent(true);
-    }, 1000);
+      setError('');
+    } catch (err) {
+      console.error("Reset request failed", err);
+      setError("Impossible d'envoyer le lien pour le moment. Réessayez plus tard.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleNewPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onSetNewPassword) return;
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères.`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Les deux mots de passe ne correspondent pas.');
+      return;
+    }
+    setIsSubmitting(true);
+    const success = await onSetNewPassword(password);
+    setIsSubmitting(false);
+    if (!success) {
+      setError(newPasswordReason === 'RESET_LINK'
+        ? 'Ce lien est invalide ou a expiré. Demandez un nouveau lien.'
+        : 'Impossible de modifier le mot de passe. Réessayez.');
+    } else {
+      setError('');
+    }
   };
 
   return (
@@ -54,7 +104,76 @@ export const Login: React.FC<LoginProps> = ({ onLogin, logoUrl }) => {
           <p className="mt-2 text-sm text-slate-500 font-medium">Votre espace numérique d'apprentissage</p>
         </div>
 
-        {view === 'LOGIN' ? (
+        {notice && view === 'LOGIN' && (
+          <div className="rounded-xl bg-green-50 p-3 border border-green-100 flex items-start gap-3 animate-in slide-in-from-top-2">
+            <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm font-semibold text-green-700">{notice}</p>
+          </div>
+        )}
+
+        {view === 'NEW_PASSWORD' ? (
+          <div className="space-y-6 animate-in fade-in slide-in-from-right-4">
+            <div className="text-center">
+              <h3 className="text-lg font-bold text-slate-800">Nouveau mot de passe</h3>
+              <p className="text-sm text-slate-500 mt-1">
+                {newPasswordReason === 'FORCED'
+                  ? 'Votre mot de passe a été réinitialisé. Choisissez-en un nouveau pour continuer.'
+                  : 'Choisissez un nouveau mot de passe pour votre compte.'}
+              </p>
+            </div>
+            <form onSubmit={handleNewPassword} className="space-y-5">
+              {[
+                { id: 'new-password', label: 'Mot de passe', value: password, onChange: setPassword },
+                { id: 'confirm-password', label: 'Confirmation', value: confirmPassword, onChange: setConfirmPassword },
+              ].map(field => (
+                <div key={field.id}>
+                  <label htmlFor={field.id} className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">{field.label}</label>
+                  <div className="relative group">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <KeyRound className="h-5 w-5 text-slate-400 group-focus-within:text-indigo-600 transition-colors" />
+                    </div>
+                    <input
+                      type="password"
+                      id={field.id}
+                      autoComplete="new-password"
+                      className="block w-full pl-10 pr-3 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 focus:bg-white text-slate-900 text-sm placeholder-slate-400 transition-all outline-none font-medium"
+                      placeholder="••••••••"
+                      value={field.value}
+                      onChange={(e) => field.onChange(e.target.value)}
+                      required
+                    />
+                  </div>
+                </div>
+              ))}
+
+              {error && (
+                <div className="rounded-xl bg-red-50 p-3 border border-red-100 flex items-start gap-3 animate-in slide-in-from-top-2">
+                  <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm font-semibold text-red-700">{error}</p>
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full flex justify-center items-center gap-2 py-3 px-4 border border-transparent text-sm font-bold rounded-xl text-white bg-indigo-600 hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 disabled:opacity-70 disabled:cursor-not-allowed"
+              >
+                {isSubmitting && <Loader2 size={18} className="animate-spin" />}
+                Enregistrer le mot de passe
+              </button>
+            </form>
+
+            {onCancelNewPassword && (
+              <button
+                onClick={onCancelNewPassword}
+                className="w-full flex items-center justify-center gap-2 text-slate-500 hover:text-indigo-600 text-sm font-bold transition-colors py-2 hover:bg-slate-50 rounded-lg"
+              >
+                <ArrowLeft size={16} />
+                {newPasswordReason === 'FORCED' ? 'Se déconnecter' : 'Retour à la connexion'}
+              </button>
+            )}
+          </div>
+        ) : view === 'LOGIN' ? (
           <form onSubmit={handleSubmit} className="space-y-6 animate-in fade-in slide-in-from-right-4">
             <div className="space-y-4">
               <div>
@@ -112,8 +231,10 @@ export const Login: React.FC<LoginProps> = ({ onLogin, logoUrl }) => {
 
             <button
               type="submit"
-              className="w-full flex justify-center py-3.5 px-4 border border-transparent text-sm font-bold rounded-xl text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all shadow-lg shadow-indigo-200 hover:shadow-xl hover:-translate-y-0.5 active:translate-y-0"
+              disabled={isSubmitting}
+              className="w-full flex justify-center items-center gap-2 py-3.5 px-4 border border-transparent text-sm font-bold rounded-xl text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all shadow-lg shadow-indigo-200 hover:shadow-xl hover:-translate-y-0.5 active:translate-y-0 disabled:opacity-70 disabled:cursor-not-allowed"
             >
+              {isSubmitting && <Loader2 size={18} className="animate-spin" />}
               Se connecter
             </button>
           </form>
@@ -143,11 +264,18 @@ export const Login: React.FC<LoginProps> = ({ onLogin, logoUrl }) => {
                         />
                       </div>
                     </div>
+                    {error && (
+                      <div className="rounded-xl bg-red-50 p-3 border border-red-100 flex items-start gap-3 animate-in slide-in-from-top-2">
+                        <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+                        <p className="text-sm font-semibold text-red-700">{error}</p>
+                      </div>
+                    )}
                     <button
                       type="submit"
-                      className="w-full flex justify-center items-center gap-2 py-3 px-4 border border-transparent text-sm font-bold rounded-xl text-white bg-indigo-600 hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200"
+                      disabled={isSubmitting}
+                      className="w-full flex justify-center items-center gap-2 py-3 px-4 border border-transparent text-sm font-bold rounded-xl text-white bg-indigo-600 hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 disabled:opacity-70 disabled:cursor-not-allowed"
                     >
-                      <Send size={18} />
+                      {isSubmitting ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
                       Envoyer le lien
                     </button>
                  </form>
@@ -159,13 +287,13 @@ export const Login: React.FC<LoginProps> = ({ onLogin, logoUrl }) => {
                   </div>
                   <h3 className="text-green-800 font-bold text-lg">Email envoyé !</h3>
                   <p className="text-green-700 text-sm mt-2 px-6 font-medium">
-                    Vérifiez votre boîte de réception pour <strong>{email}</strong>.
+                    Si un compte existe pour <strong>{email}</strong>, un lien valable 30 minutes vient d'y être envoyé.
                   </p>
                </div>
              )}
 
              <button 
-                onClick={() => { setView('LOGIN'); setResetSent(false); }}
+                onClick={() => { setView('LOGIN'); setResetSent(false); setError(''); }}
                 className="w-full flex items-center justify-center gap-2 text-slate-500 hover:text-indigo-600 text-sm font-bold transition-colors mt-4 py-2 hover:bg-slate-50 rounded-lg"
              >
                <ArrowLeft size={16} />
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Poll, User } from '../types';
+import { computeScaleSummary } from '../lib/pollResults';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Gauge, MessageSquare, Eye, EyeOff } from 'lucide-react';
+
+// Result views shared by standalone polls (Polls.tsx) and survey questions (SurveyCard.tsx)
+
+// Share of the voters per option, as horizontal bars
+export const OptionResults: React.FC<{ poll: Poll; highlightIds?: string[] }> = ({ poll, highlightIds = [] }) => {
+  const voters = poll.voterIds.length;
+
+  return (
+    <div className="space-y-1.5">
+      {poll.options.map(opt => {
+        const percentage = voters > 0 ? Math.round((opt.votes / voters) * 100) : 0;
+        return (
+          <div key={opt.id} className={`relative overflow-hidden rounded-md border p-2 text-sm ${highlightIds.includes(opt.id) ? 'border-indigo-400' : 'border-slate-200'}`}>
+            <div className="absolute left-0 top-0 bottom-0 bg-indigo-100/60 transition-all duration-500" style={{ width: `${percentage}%` }}></div>
+            <div className="relative z-10 flex justify-between">
+              <span className="font-medium text-slate-700">{opt.text}</span>
+              <span className="text-xs font-bold text-slate-500">{percentage}% ({opt.votes})</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// Average and distribution of a rating scale
+export const ScaleResults: React.FC<{ poll: Poll }> = ({ poll }) => {
+  const { average, distribution, responses } = computeScaleSummary(poll);
+
+  return (
+    <div className="mt-2 p-3 rounded-lg bg-slate-50 border border-slate-100">
+      <p className="text-sm font-semibold text-slate-700 flex items-center gap-2 mb-2">
+        <Gauge size={16} className="text-indigo-500" />
+        {average !== null ? `Moyenne : ${average.toLocaleString('fr-FR')} / ${poll.scaleMax}` : 'Aucune note pour le moment'}
+        <span className="text-xs font-normal text-slate-400">({responses} note{responses > 1 ? 's' : ''})</span>
+      </p>
+      <div style={{ height: 120 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={distribution} margin={{ left: 0, right: 0, top: 4 }}>
+            <XAxis dataKey="value" tick={{ fontSize: 11 }} />
+            <YAxis allowDecimals={false} hide />
+            <Tooltip formatter={(value: number, _name, item) => [`${value} note${value > 1 ? 's' : ''} (${item.payload.percentage}%)`, 'Répartition']} />
+            <Bar dataKey="votes" fill="#818cf8" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+// Free-text answers; names are only shown to the poll managers of non-anonymous polls, and can be hidden (e.g. to project the list)
+export const TextAnswers: React.FC<{ poll: Poll; users: User[]; canSeeNames: boolean }> = ({ poll, users, canSeeNames }) => {
+  const [hideNames, setHideNames] = useState(false);
+  const showNames = canSeeNames && !hideNames;
+  const count = poll.textAnswers.length;
+
+  return (
+    <div className="p-3 rounded-lg bg-slate-50 border border-slate-100">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <MessageSquare size={16} className="text-indigo-500" /> {count} réponse{count > 1 ? 's' : ''}
+        </p>
+        {canSeeNames && (
+          <button
+            type="button"
+            onClick={() => setHideNames(!hideNames)}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-600"
+          >
+            {hideNames ? <Eye size={12} /> : <EyeOff size={12} />} {hideNames ? 'Afficher les noms' : 'Masquer les noms'}
+          </button>
+        )}
+      </div>
+      {count > 0 ? (
+        <ul className="max-h-64 overflow-y-auto space-y-2 pr-1">
+          {poll.textAnswers.map((a, idx) => (
+            <li key={a.userId || idx} className="bg-white border border-slate-100 rounded-md p-2 text-sm text-slate-700 whitespace-pre-wrap break-words">
+              {showNames && a.userId && (
+                <span className="block text-[11px] font-semibold text-slate-400 mb-0.5">{users.find(u => u.id === a.userId)?.name || 'Utilisateur inconnu'}</span>
+              )}
+              {a.answer}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-400">Aucune réponse pour le moment.</p>
+      )}
+    </div>
+  );
+};
@@ -1,20 +1,52 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Poll, User, UserRole, PollOption, ClassGroup } from '../types';
+import { Poll, PollType, User, UserRole, PollOption, ClassGroup, Quiz, QuizScore, Survey, SurveyAnswer, PollTemplate, TemplateScope } from '../types';
+import { can } from '../lib/permissions';
+import { countVoters, hasUserVoted, getMaxSelections, computeRankedResult, buildScaleOptions, SCALE_SIZES } from '../lib/pollResults';
+import { getPollStatus, areResultsSealed, formatCountdown, toDateTimeInputValue } from '../lib/pollSchedule';
+import { buildPollReport, buildPollCsv, downloadTextFile, pollExportFilename } from '../lib/pollExport';
+import { getQuizQuestions } from '../lib/quizScoring';
+import { getSurveyQuestions } from '../lib/surveys';
+import { PollDefinition, toPollDefinition, groupTemplatesByScope, TEMPLATE_SCOPE_LABELS } from '../lib/pollTemplates';
+import { QuizForm } from './QuizForm';
+import { QuizCard } from './QuizCard';
+import { SurveyForm, SurveyQuestionInput } from './SurveyForm';
+import { SurveyCard } from './SurveyCard';
+import { ScaleResults, TextAnswers } from './PollQuestionResults';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { Trash2, Plus, CheckCircle, Lock, Users, X, Edit2, Pencil, RefreshCw, MoreVertical } from 'lucide-react';
+import { Trash2, Plus, CheckCircle, Lock, Users, X, Edit2, Pencil, RefreshCw, MoreVertical, ListOrdered, CheckSquare, Trophy, Clock, CalendarClock, Download, Printer, UserCheck, BellRing, GraduationCap, MessageSquare, Gauge, Send, ClipboardList, Copy, BookmarkPlus } from 'lucide-react';
 
 interface PollsProps {
   currentUser: User;
   polls: Poll[];
+  quizzes: Quiz[];
+  quizScores: QuizScore[];
+  users: User[]; // Voter names and class sizes for the results exports
   classGroups: ClassGroup[];
-  onAdd: (poll: Omit<Poll, 'id' | 'createdById' | 'createdAt' | 'userVotes'>) => void;
+  onAdd: (poll: Omit<Poll, 'id' | 'createdById' | 'createdAt' | 'userVotes' | 'voterIds' | 'ballots' | 'textAnswers'>) => void;
   onUpdate: (poll: Poll) => void;
-  onVote: (pollId: string, optionId: string) => void;
+  onVote: (pollId: string, optionIds: string[]) => void;
+  onAnswerText: (pollId: string, answer: string) => void;
   onDelete: (pollId: string) => void;
+  onRemind: (pollId: string) => void; // Notify the class students who have not voted
+  onAddQuiz: (quiz: Omit<Quiz, 'id' | 'createdById' | 'createdAt'>, questions: { title: string; options: PollOption[] }[]) => void;
+  onDeleteQuiz: (quizId: string) => void;
+  surveys: Survey[];
+  onAddSurvey: (survey: Omit<Survey, 'id' | 'createdById' | 'createdAt' | 'respondentIds'>, questions: SurveyQuestionInput[]) => void;
+  onSubmitSurvey: (surveyId: string, answers: Record<string, SurveyAnswer>) => void;
+  onDeleteSurvey: (surveyId: string) => void;
+  pollTemplates: PollTemplate[];
+  onSaveTemplate: (template: Omit<PollTemplate, 'id' | 'createdById' | 'createdAt'>) => void;
+  onDeleteTemplate: (templateId: string) => void;
+  isLive?: boolean; // Results update in realtime
 }
 
-export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, onAdd, onUpdate, onVote, onDelete }) => {
+// Poll types whose options are written by the author (scale grades are generated, text polls have none)
+const hasChoiceOptions = (pollType: PollType) => pollType !== PollType.TEXT && pollType !== PollType.SCALE;
+
+export const Polls: React.FC<PollsProps> = ({ currentUser, polls, quizzes, quizScores, users, classGroups, onAdd, onUpdate, onVote, onAnswerText, onDelete, onRemind, onAddQuiz, onDeleteQuiz, surveys, onAddSurvey, onSubmitSurvey, onDeleteSurvey, pollTemplates, onSaveTemplate, onDeleteTemplate, isLive }) => {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [activeMenuId, setActiveMenuId] = useState<string | null>(null);
@@ -25,8 +57,38 @@ export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, o
   const [options, setOptions] = useState<string[]>(['', '']);
   const [isAnonymous, setIsAnonymous] = useState(false);
   const [targetClass, setTargetClass] = useState('');
+  const [pollType, setPollType] = useState<PollType>(PollType.SINGLE);
+  const [maxSelections, setMaxSelections] = useState(2);
+  const [scaleMax, setScaleMax] = useState(SCALE_SIZES[0]);
+  const [opensAt, setOpensAt] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [templateScope, setTemplateScope] = useState<TemplateScope>(TemplateScope.PERSONAL);
+
+  // Poll whose participation panel is open
+  const [participationPollId, setParticipationPollId] = useState<string | null>(null);
+
+  // Poll whose results report is rendered for printing
+  const [printPollId, setPrintPollId] = useState<string | null>(null);
+
+  // Clock driving the countdowns and the open/closed states
+  const [now, setNow] = useState(() => new Date());
+
+  // Ballots being composed for multiple choice and ranked polls (PollId -> OptionIds)
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+
+  // Answers being typed for free-text polls (PollId -> text)
+  const [textDrafts, setTextDrafts] = useState<Record<string, string>>({});
+
+  const [isQuizFormOpen, setIsQuizFormOpen] = useState(false);
+  const [isSurveyFormOpen, setIsSurveyFormOpen] = useState(false);
   
-  const canEdit = [UserRole.ADMIN, UserRole.RESPONSABLE].includes(currentUser.role);
+  const canCreate = can(currentUser, 'create', 'poll');
+  const canCreateQuiz = can(currentUser, 'create', 'quiz');
+  const canCreateSurvey = can(currentUser, 'create', 'survey');
+
+  // Quiz and survey questions are rendered inside their quiz / survey card
+  const standalonePolls = polls.filter(p => !p.quizId && !p.surveyId);
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -40,6 +102,21 @@ export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, o
     };
   }, []);
 
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 30000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Print once the report is rendered, then drop it
+  useEffect(() => {
+    if (!printPollId) return;
+    const reset = () => setPrintPollId(null);
+    window.addEventListener('afterprint', reset);
+    window.print();
+    return () => window.removeEventListener('afterprint', reset);
+  }, [printPollId]);
+
+
   const handleOptionChange = (index: number, value: string) => {
     const newOptions = [...options];
     newOptions[index] = value;
@@ -58,9 +135,14 @@ export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, o
   const handleEditPoll = (poll: Poll) => {
     setEditingId(poll.id);
     setTitle(poll.title);
-    setOptions(poll.options.map(o => o.text));
+    setOptions(hasChoiceOptions(poll.pollType) ? poll.options.map(o => o.text) : ['', '']);
     setIsAnonymous(poll.isAnonymous);
     setTargetClass(poll.targetClass || '');
+    setPollType(poll.pollType);
+    setMaxSelections(poll.maxSelections || 2);
+    setScaleMax(poll.scaleMax || SCALE_SIZES[0]);
+    setOpensAt(toDateTimeInputValue(new Date(poll.opensAt)));
+    setExpiresAt(toDateTimeInputValue(new Date(poll.expiresAt)));
     setIsFormOpen(true);
     setActiveMenuId(null);
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -72,53 +154,204 @@ export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, o
     setTitle('');
     setOptions(['', '']);
     setTargetClass('');
+    setPollType(PollType.SINGLE);
+    setMaxSelections(2);
+    setScaleMax(SCALE_SIZES[0]);
+    setOpensAt('');
+    setExpiresAt('');
+    setTemplateId('');
+  };
+
+  const openNewForm = () => {
+    closeForm();
+    // Opens now, closes in 7 days by default
+    const start = new Date();
+    setOpensAt(toDateTimeInputValue(start));
+    setExpiresAt(toDateTimeInputValue(new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000)));
+    setIsFormOpen(true);
+  };
+
+  // Prefills the creation form; options start again with zero votes
+  const applyDefinition = (definition: PollDefinition) => {
+    setTitle(definition.title);
+    setOptions(definition.options.length >= 2 ? definition.options : [...definition.options, '', ''].slice(0, 2));
+    setPollType(definition.pollType);
+    setMaxSelections(definition.maxSelections || 2);
+    setScaleMax(definition.scaleMax || SCALE_SIZES[0]);
+    setIsAnonymous(definition.isAnonymous);
+  };
+
+  const handleDuplicatePoll = (poll: Poll) => {
+    setIsQuizFormOpen(false);
+    setIsSurveyFormOpen(false);
+    openNewForm();
+    applyDefinition(toPollDefinition(poll));
+    if (can(currentUser, 'create', 'poll', { targetClass: poll.targetClass })) setTargetClass(poll.targetClass || '');
+    setActiveMenuId(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = pollTemplates.find(t => t.id === id);
+    if (template) applyDefinition(template);
+  };
+
+  const handleDeleteTemplate = (template: PollTemplate) => {
+    if (window.confirm(`Supprimer le modèle « ${template.title} » ?`)) {
+      onDeleteTemplate(template.id);
+      setTemplateId('');
+    }
+  };
+
+  const handleSaveFormAsTemplate = () => {
+    if (!title.trim()) {
+      alert("Saisissez la question avant d'enregistrer le modèle.");
+      return;
+    }
+    onSaveTemplate({
+      title: title.trim(),
+      options: hasChoiceOptions(pollType) ? options.filter(o => o.trim() !== '') : [],
+      pollType,
+      maxSelections: pollType === PollType.MULTIPLE ? maxSelections : undefined,
+      scaleMax: pollType === PollType.SCALE ? scaleMax : undefined,
+      isAnonymous,
+      scope: templateScope
+    });
+  };
+
+  const handleSavePollAsTemplate = (poll: Poll) => {
+    onSaveTemplate({ ...toPollDefinition(poll), scope: TemplateScope.PERSONAL });
+    setActiveMenuId(null);
+  };
+
+  const selectedTemplate = pollTemplates.find(t => t.id === templateId);
+  const canSaveTemplate = can(currentUser, 'create', 'pollTemplate');
+
+  const getDraft = (poll: Poll): string[] => drafts[poll.id] ?? poll.userVotes?.[currentUser.id] ?? [];
+
+  // Multiple choice: toggles the option. Ranked: click order is the order of preference, clicking again removes it.
+  const toggleDraftOption = (poll: Poll, optionId: string) => {
+    const draft = getDraft(poll);
+    let next = draft;
+    if (draft.includes(optionId)) next = draft.filter(id => id !== optionId);
+    else if (draft.length < getMaxSelections(poll)) next = [...draft, optionId];
+    setDrafts(prev => ({ ...prev, [poll.id]: next }));
+  };
+
+  // Anonymous votes are not linked to the account, so they cannot be changed: ask before casting
+  const castBallot = (poll: Poll, optionIds: string[]): boolean => {
+    if (poll.isAnonymous && !window.confirm("Ce vote est anonyme : il ne sera pas relié à votre compte et ne pourra plus être modifié. Confirmer ?")) {
+      return false;
+    }
+    onVote(poll.id, optionIds);
+    return true;
+  };
+
+  const submitDraft = (poll: Poll) => {
+    if (!castBallot(poll, getDraft(poll))) return;
+    setDrafts(prev => {
+      const { [poll.id]: _submitted, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Free-text answers can be edited until the poll closes, except anonymous ones
+  const submitTextAnswer = (poll: Poll) => {
+    const text = (textDrafts[poll.id] ?? '').trim();
+    if (!text) return;
+    if (poll.isAnonymous && !window.confirm("Cette réponse est anonyme : elle ne sera pas reliée à votre compte et ne pourra plus être modifiée. Confirmer ?")) {
+      return;
+    }
+    onAnswerText(poll.id, text);
+    setTextDrafts(prev => {
+      const { [poll.id]: _submitted, ...rest } = prev;
+      return rest;
+    });
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
+    const opensAtDate = new Date(opensAt);
+    const expiresAtDate = new Date(expiresAt);
+    if (expiresAtDate <= opensAtDate) {
+      alert("La date de clôture doit être postérieure à la date d'ouverture.");
+      return;
+    }
+
     if (editingId) {
        // Update existing poll
        const existingPoll = polls.find(p => p.id === editingId);
        if (existingPoll) {
-         // Map new text options to existing IDs if possible to preserve votes
-         const updatedOptions: PollOption[] = options
-            .filter(o => o.trim() !== '')
-            .map((text, idx) => {
-                const existingOpt = existingPoll.options[idx];
-                if (existingOpt) {
-                    return { ...existingOpt, text }; 
-                }
-                // New option
-                return { id: `opt-${Date.now()}-${idx}`, text, votes: 0 };
-            });
+         let updatedOptions: PollOption[] = [];
+         if (pollType === PollType.SCALE) {
+           updatedOptions = buildScaleOptions(scaleMax).map(o => existingPoll.options.find(e => e.id === o.id) || o);
+         } else if (hasChoiceOptions(pollType)) {
+           // Map new text options to existing IDs if possible to preserve votes
+           updatedOptions = options
+              .filter(o => o.trim() !== '')
+              .map((text, idx) => {
+                  const existingOpt = existingPoll.options[idx];
+                  if (existingOpt) {
+                      return { ...existingOpt, text }; 
+                  }
+                  // New option
+                  return { id: `opt-${Date.now()}-${idx}`, text, votes: 0 };
+              });
+         }
          
          onUpdate({
            ...existingPoll,
            title,
            options: updatedOptions,
+           pollType,
+           maxSelections: pollType === PollType.MULTIPLE ? Math.min(maxSelections, updatedOptions.length) : undefined,
+           scaleMax: pollType === PollType.SCALE ? scaleMax : undefined,
+           opensAt: opensAtDate,
+           expiresAt: expiresAtDate,
            isAnonymous,
            targetClass: targetClass || undefined
          });
        }
     } else {
         // Create new
-        const formattedOptions: PollOption[] = options
-        .filter(o => o.trim() !== '')
-        .map((text, idx) => ({ id: `opt-${Date.now()}-${idx}`, text, votes: 0 }));
+        const formattedOptions: PollOption[] = pollType === PollType.SCALE
+          ? buildScaleOptions(scaleMax)
+          : hasChoiceOptions(pollType)
+            ? options
+                .filter(o => o.trim() !== '')
+                .map((text, idx) => ({ id: `opt-${Date.now()}-${idx}`, text, votes: 0 }))
+            : [];
 
         onAdd({
           title,
           options: formattedOptions,
+          pollType,
+          maxSelections: pollType === PollType.MULTIPLE ? Math.min(maxSelections, formattedOptions.length) : undefined,
+          scaleMax: pollType === PollType.SCALE ? scaleMax : undefined,
           isAnonymous,
           targetClass: targetClass || undefined,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // Default 7 days
+          opensAt: opensAtDate,
+          expiresAt: expiresAtDate
         });
     }
 
     closeForm();
   };
 
+  const printPoll = polls.find(p => p.id === printPollId);
+
+  const handleExportCsv = (poll: Poll) => {
+    downloadTextFile(pollExportFilename(poll, 'csv'), buildPollCsv(poll, buildPollReport(poll, users)));
+    setActiveMenuId(null);
+  };
+
+  const handlePrintReport = (poll: Poll) => {
+    setActiveMenuId(null);
+    setPrintPollId(poll.id);
+  };
+
   const handleDelete = (id: string) => {
     // Stronger type definition for the button
     if (window.confirm("Voulez-vous vraiment supprimer ce sondage ? Cette action est irréversible et supprimera tous les votes.")) {
@@ -129,26 +362,83 @@ export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, o
 
   return (
     <div className="space-y-6">
-      <div className="flex justify-between items-center">
+      <div className="flex justify-between items-center print:hidden">
         <div>
-          <h2 className="text-2xl font-bold text-slate-800">Sondages & Quiz</h2>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-3">
+            Sondages & Quiz
+            {isLive && (
+              <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wide text-green-700 bg-green-50 border border-green-100 px-2 py-0.5 rounded-full" title="Résultats mis à jour en direct">
+                <span className="h-1.5 w-1.5 rounded-full bg-green-500 animate-pulse"></span> En direct
+              </span>
+            )}
+          </h2>
           <p className="text-slate-500">Participez à la vie de classe</p>
         </div>
-        {canEdit && (
-          <button
-            onClick={() => { closeForm(); setIsFormOpen(!isFormOpen); }}
-            className="flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-all shadow-sm"
-          >
-            <Plus size={18} />
-            <span className="hidden sm:inline">Nouveau Sondage</span>
-          </button>
-        )}
+        <div className="flex items-center gap-2">
+          {canCreateSurvey && (
+            <button
+              onClick={() => { closeForm(); setIsQuizFormOpen(false); setIsSurveyFormOpen(!isSurveyFormOpen); }}
+              className="flex items-center space-x-2 bg-white border border-teal-200 text-teal-700 hover:bg-teal-50 px-4 py-2 rounded-lg transition-all shadow-sm"
+            >
+              <ClipboardList size={18} />
+              <span className="hidden sm:inline">Nouveau Questionnaire</span>
+            </button>
+          )}
+          {canCreateQuiz && (
+            <button
+              onClick={() => { closeForm(); setIsSurveyFormOpen(false); setIsQuizFormOpen(!isQuizFormOpen); }}
+              className="flex items-center space-x-2 bg-white border border-indigo-200 text-indigo-700 hover:bg-indigo-50 px-4 py-2 rounded-lg transition-all shadow-sm"
+            >
+              <GraduationCap size={18} />
+              <span className="hidden sm:inline">Nouveau Quiz</span>
+            </button>
+          )}
+          {canCreate && (
+            <button
+              onClick={() => { setIsQuizFormOpen(false); setIsSurveyFormOpen(false); isFormOpen ? closeForm() : openNewForm(); }}
+              className="flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-all shadow-sm"
+            >
+              <Plus size={18} />
+              <span className="hidden sm:inline">Nouveau Sondage</span>
+            </button>
+          )}
+        </div>
       </div>
 
       {isFormOpen && (
-        <div className="bg-white p-6 rounded-xl border border-indigo-100 shadow-lg animate-fade-in">
+        <div className="bg-white p-6 rounded-xl border border-indigo-100 shadow-lg animate-fade-in print:hidden">
            <h3 className="font-semibold text-lg mb-4 text-indigo-700">{editingId ? 'Modifier le sondage' : 'Nouveau Sondage'}</h3>
           <form onSubmit={handleSubmit} className="space-y-4 relative">
+             {!editingId && pollTemplates.length > 0 && (
+               <div>
+                 <label className="text-sm font-semibold text-slate-700 block mb-1">Partir d'un modèle</label>
+                 <div className="flex gap-2">
+                   <select
+                     className="flex-1 border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50"
+                     value={templateId}
+                     onChange={(e) => handleTemplateChange(e.target.value)}
+                   >
+                     <option value="">Aucun (sondage vierge)</option>
+                     {groupTemplatesByScope(pollTemplates).map(([scope, templates]) => (
+                       <optgroup key={scope} label={TEMPLATE_SCOPE_LABELS[scope]}>
+                         {templates.map(template => <option key={template.id} value={template.id}>{template.title}</option>)}
+                       </optgroup>
+                     ))}
+                   </select>
+                   {selectedTemplate && can(currentUser, 'delete', 'pollTemplate', selectedTemplate) && (
+                     <button
+                       type="button"
+                       onClick={() => handleDeleteTemplate(selectedTemplate)}
+                       className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                       title="Supprimer ce modèle"
+                     >
+                       <Trash2 size={16} />
+                     </button>
+                   )}
+                 </div>
+               </div>
+             )}
+
              <div>
                <label className="text-sm font-semibold text-slate-700 block mb-1">Cible</label>
                <select 
@@ -156,9 +446,9 @@ export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, o
                   value={targetClass}
                   onChange={(e) => setTargetClass(e.target.value)}
                >
-                 {currentUser.role === UserRole.ADMIN && <option value="">🏫 Toute l'école</option>}
+                 {can(currentUser, 'create', 'poll', { targetClass: undefined }) && <option value="">🏫 Toute l'école</option>}
                  {classGroups
-                   .filter(g => currentUser.role === UserRole.ADMIN || g.name === currentUser.classGroup)
+                   .filter(g => can(currentUser, 'create', 'poll', { targetClass: g.name }))
                    .map(group => (
                      <option key={group.id} value={group.name}>🎓 {group.name}</option>
                  ))}
@@ -176,39 +466,127 @@ export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, o
               value={title}
               onChange={(e) => setTitle(e.target.value)}
             />
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-slate-700">Options de réponse</label>
-              {options.map((opt, idx) => (
-                <div key={idx} className="flex gap-2">
-                  <input
-                    type="text"
-                    required
-                    placeholder={`Option ${idx + 1}`}
-                    className="flex-1 border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
-                    value={opt}
-                    onChange={(e) => handleOptionChange(idx, e.target.value)}
-                  />
-                  {options.length > 2 && (
-                    <button 
-                      type="button" 
-                      onClick={() => removeOptionField(idx)}
-                      className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
-                      title="Supprimer cette option"
-                    >
-                      <X size={16} />
-                    </button>
+            {hasChoiceOptions(pollType) && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-700">Options de réponse</label>
+                {options.map((opt, idx) => (
+                  <div key={idx} className="flex gap-2">
+                    <input
+                      type="text"
+                      required
+                      placeholder={`Option ${idx + 1}`}
+                      className="flex-1 border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                      value={opt}
+                      onChange={(e) => handleOptionChange(idx, e.target.value)}
+                    />
+                    {options.length > 2 && (
+                      <button 
+                        type="button" 
+                        onClick={() => removeOptionField(idx)}
+                        className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                        title="Supprimer cette option"
+                      >
+                        <X size={16} />
+                      </button>
                   )}
                 </div>
               ))}
               <button type="button" onClick={addOptionField} className="text-sm text-indigo-600 hover:underline font-medium">+ Ajouter une option</button>
             </div>
-            
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-semibold text-slate-700 block mb-1">Type de vote</label>
+                <select
+                  className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50 disabled:opacity-60"
+                  value={pollType}
+                  onChange={(e) => setPollType(e.target.value as PollType)}
+                  disabled={!!editingId && polls.some(p => p.id === editingId && countVoters(p) > 0)}
+                  title={editingId ? "Le type ne peut plus être modifié après les premiers votes" : undefined}
+                >
+                  <option value={PollType.SINGLE}>Choix unique</option>
+                  <option value={PollType.MULTIPLE}>Choix multiple</option>
+                  <option value={PollType.RANKED}>Classement (vote préférentiel)</option>
+                  <option value={PollType.SCALE}>Échelle de notation</option>
+                  <option value={PollType.TEXT}>Réponse libre</option>
+                </select>
+              </div>
+              {pollType === PollType.SCALE && (
+                <div>
+                  <label className="text-sm font-semibold text-slate-700 block mb-1">Échelle</label>
+                  <select
+                    className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50 disabled:opacity-60"
+                    value={scaleMax}
+                    onChange={(e) => setScaleMax(Number(e.target.value))}
+                    disabled={!!editingId && polls.some(p => p.id === editingId && countVoters(p) > 0)}
+                  >
+                    {SCALE_SIZES.map(size => <option key={size} value={size}>De 1 à {size}</option>)}
+                  </select>
+                </div>
+              )}
+              {pollType === PollType.MULTIPLE && (
+                <div>
+                  <label className="text-sm font-semibold text-slate-700 block mb-1">Nombre de choix maximum</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={Math.max(1, options.length)}
+                    required
+                    className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none"
+                    value={maxSelections}
+                    onChange={(e) => setMaxSelections(Math.max(1, parseInt(e.target.value) || 1))}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-semibold text-slate-700 block mb-1">Ouverture du vote</label>
+                <input type="datetime-local" required className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none" value={opensAt} onChange={e => setOpensAt(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-sm font-semibold text-slate-700 block mb-1">Clôture du vote</label>
+                <input type="datetime-local" required className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} />
+              </div>
+            </div>
+
             <div className="flex items-center gap-2">
-               <input type="checkbox" id="anon" checked={isAnonymous} onChange={e => setIsAnonymous(e.target.checked)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+               <input
+                 type="checkbox"
+                 id="anon"
+                 checked={isAnonymous}
+                 onChange={e => setIsAnonymous(e.target.checked)}
+                 disabled={!!editingId && polls.some(p => p.id === editingId && countVoters(p) > 0)}
+                 className="rounded text-indigo-600 focus:ring-indigo-500 disabled:opacity-50"
+               />
                <label htmlFor="anon" className="text-sm text-slate-700 cursor-pointer">Vote anonyme</label>
+               <span className="text-xs text-slate-400">(les choix ne sont pas reliés aux comptes, même pour l'administration)</span>
             </div>
 
-            <div className="flex justify-end gap-2 pt-2 border-t border-slate-100">
+            <div className="flex flex-wrap justify-end items-center gap-2 pt-2 border-t border-slate-100">
+              {canSaveTemplate && (
+                <div className="flex items-center gap-2 mr-auto">
+                  {can(currentUser, 'create', 'pollTemplate', { scope: TemplateScope.SCHOOL }) && (
+                    <select
+                      className="border p-2 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50"
+                      value={templateScope}
+                      onChange={(e) => setTemplateScope(e.target.value as TemplateScope)}
+                    >
+                      <option value={TemplateScope.PERSONAL}>Modèle personnel</option>
+                      <option value={TemplateScope.SCHOOL}>Modèle de l'école</option>
+                    </select>
+                  )}
+                  <button
+                    type="button"
+                    onClick={handleSaveFormAsTemplate}
+                    className="flex items-center gap-1 px-3 py-2 text-sm text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                  >
+                    <BookmarkPlus size={16} /> Enregistrer comme modèle
+                  </button>
+                </div>
+              )}
               <button type="button" onClick={closeForm} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">Annuler</button>
               <button type="submit" className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 shadow-md transition-all transform hover:-translate-y-0.5">
                 {editingId ? 'Mettre à jour' : 'Créer'}
@@ -218,18 +596,75 @@ export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, o
         </div>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {polls.map((poll) => {
-          // New Vote Check: Check if current user ID exists in the map
-          const hasVoted = poll.userVotes && poll.userVotes[currentUser.id] !== undefined;
-          const currentVoteOptionId = poll.userVotes ? poll.userVotes[currentUser.id] : null;
-          
-          const totalVotes = poll.options.reduce((acc, curr) => acc + curr.votes, 0);
+      {isQuizFormOpen && (
+        <QuizForm
+          currentUser={currentUser}
+          classGroups={classGroups}
+          onSubmit={(quiz, questions) => { onAddQuiz(quiz, questions); setIsQuizFormOpen(false); }}
+          onCancel={() => setIsQuizFormOpen(false)}
+        />
+      )}
+
+      {isSurveyFormOpen && (
+        <SurveyForm
+          currentUser={currentUser}
+          classGroups={classGroups}
+          onSubmit={(survey, questions) => { onAddSurvey(survey, questions); setIsSurveyFormOpen(false); }}
+          onCancel={() => setIsSurveyFormOpen(false)}
+        />
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 print:hidden">
+        {surveys.map(survey => (
+          <SurveyCard
+            key={survey.id}
+            survey={survey}
+            questions={getSurveyQuestions(survey, polls)}
+            currentUser={currentUser}
+            users={users}
+            now={now}
+            onSubmit={onSubmitSurvey}
+            onDelete={onDeleteSurvey}
+          />
+        ))}
+        {quizzes.map(quiz => (
+          <QuizCard
+            key={quiz.id}
+            quiz={quiz}
+            questions={getQuizQuestions(quiz, polls)}
+            currentUser={currentUser}
+            users={users}
+            scores={quizScores}
+            now={now}
+            onAnswer={(questionId, optionId) => onVote(questionId, [optionId])}
+            onDelete={onDeleteQuiz}
+          />
+        ))}
+        {standalonePolls.map((poll) => {
+          // Vote Check: anonymous polls only tell whether the user voted, not for what
+          const savedBallot = poll.userVotes?.[currentUser.id] || [];
+          const hasVoted = hasUserVoted(poll, currentUser.id);
+          const isSingle = poll.pollType === PollType.SINGLE;
+          const isRanked = poll.pollType === PollType.RANKED;
+          const isText = poll.pollType === PollType.TEXT;
+          const isScale = poll.pollType === PollType.SCALE;
+          const usesDraft = poll.pollType === PollType.MULTIPLE || isRanked;
+          const selection = isSingle ? savedBallot : getDraft(poll);
+          const maxChoices = getMaxSelections(poll);
+          const isDraftSaved = selection.join(',') === savedBallot.join(',');
+
+          const totalVoters = countVoters(poll);
+
+          // Voting window: results are final once the poll is closed
+          const status = getPollStatus(poll, now);
+          const isOpen = status === 'OPEN';
+          const canVote = isOpen && !(poll.isAnonymous && hasVoted);
+          // Anonymous results stay sealed until the poll closes, for everyone including its managers
+          const isSealed = areResultsSealed(poll, now);
+          const showResults = !isSealed && (hasVoted || status === 'CLOSED');
           
           // Permission Checks
-          const canManage = currentUser.role === UserRole.ADMIN || 
-                            (currentUser.role === UserRole.RESPONSABLE && poll.targetClass === currentUser.classGroup) ||
-                            (poll.createdById === currentUser.id);
+          const canManage = can(currentUser, 'update', 'poll', poll) || can(currentUser, 'delete', 'poll', poll);
 
           return (
             <div key={poll.id} className={`bg-white rounded-xl p-5 shadow-sm border border-slate-200 flex flex-col hover:shadow-md transition-shadow relative ${activeMenuId === poll.id ? 'z-50' : 'z-0'}`}>
@@ -261,6 +696,46 @@ export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, o
                                 >
                                   <Pencil size={16} /> Modifier
                                 </button>
+                                {canCreate && (
+                                  <button 
+                                    onClick={(e) => { e.stopPropagation(); handleDuplicatePoll(poll); }}
+                                    className="w-full text-left px-4 py-3 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center gap-2 border-t border-slate-50"
+                                  >
+                                    <Copy size={16} /> Dupliquer
+                                  </button>
+                                )}
+                                {canSaveTemplate && (
+                                  <button 
+                                    onClick={(e) => { e.stopPropagation(); handleSavePollAsTemplate(poll); }}
+                                    className="w-full text-left px-4 py-3 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center gap-2"
+                                  >
+                                    <BookmarkPlus size={16} /> Enregistrer comme modèle
+                                  </button>
+                                )}
+                                {!poll.isAnonymous && poll.targetClass && (
+                                  <button 
+                                    onClick={(e) => { e.stopPropagation(); setParticipationPollId(participationPollId === poll.id ? null : poll.id); setActiveMenuId(null); }}
+                                    className="w-full text-left px-4 py-3 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center gap-2 border-t border-slate-50"
+                                  >
+                                    <UserCheck size={16} /> Participation
+                                  </button>
+                                )}
+                                {!isSealed && (
+                                  <>
+                                    <button 
+                                      onClick={(e) => { e.stopPropagation(); handleExportCsv(poll); }}
+                                      className="w-full text-left px-4 py-3 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center gap-2 border-t border-slate-50"
+                                    >
+                                      <Download size={16} /> Exporter (CSV)
+                                    </button>
+                                    <button 
+                                      onClick={(e) => { e.stopPropagation(); handlePrintReport(poll); }}
+                                      className="w-full text-left px-4 py-3 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center gap-2"
+                                    >
+                                      <Printer size={16} /> Imprimer / PDF
+                                    </button>
+                                  </>
+                                )}
                                 <button 
                                   onClick={(e) => { e.stopPropagation(); handleDelete(poll.id); }}
                                   className="w-full text-left px-4 py-3 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2 last:rounded-b-lg border-t border-slate-50"
@@ -273,71 +748,197 @@ export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, o
                      )}
                   </div>
                </div>
-               {poll.targetClass && (
-                 <div className="mb-3">
-                    <span className="text-[10px] bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
-                        <Users size={10} className="mr-1" /> {poll.targetClass}
-                    </span>
+               <div className="mb-3 flex flex-wrap gap-1.5">
+                    {poll.targetClass && (
+                      <span className="text-[10px] bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+                          <Users size={10} className="mr-1" /> {poll.targetClass}
+                      </span>
+                    )}
+                    {!isSingle && (
+                      <span className="text-[10px] bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+                          {isText ? <MessageSquare size={10} className="mr-1" /> : isScale ? <Gauge size={10} className="mr-1" /> : isRanked ? <ListOrdered size={10} className="mr-1" /> : <CheckSquare size={10} className="mr-1" />}
+                          {isText ? 'Réponse libre' : isScale ? `Note de 1 à ${poll.scaleMax}` : isRanked ? 'Classement' : `Jusqu'à ${maxChoices} choix`}
+                      </span>
+                    )}
+                    {status === 'UPCOMING' && (
+                      <span className="text-[10px] bg-sky-50 text-sky-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit" title={format(new Date(poll.opensAt), "d MMM yyyy 'à' HH:mm", { locale: fr })}>
+                          <CalendarClock size={10} className="mr-1" /> Ouvre dans {formatCountdown(poll.opensAt, now)}
+                      </span>
+                    )}
+                    {isOpen && (
+                      <span className="text-[10px] bg-amber-50 text-amber-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit" title={format(new Date(poll.expiresAt), "d MMM yyyy 'à' HH:mm", { locale: fr })}>
+                          <Clock size={10} className="mr-1" /> Clôture dans {formatCountdown(poll.expiresAt, now)}
+                      </span>
+                    )}
+                    {status === 'CLOSED' && (
+                      <span className="text-[10px] bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+                          <Lock size={10} className="mr-1" /> Clos · résultats définitifs
+                      </span>
+                    )}
                  </div>
-               )}
                
+               {/* Free-text answer */}
+               {isText && (
+                 <div className="flex-1 space-y-3">
+                    {canVote && (
+                      <div className="space-y-2">
+                        <textarea
+                          rows={3}
+                          maxLength={2000}
+                          placeholder="Votre réponse…"
+                          className="w-full border p-2 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                          value={textDrafts[poll.id] ?? poll.textAnswers.find(a => a.userId === currentUser.id)?.answer ?? ''}
+                          onChange={(e) => setTextDrafts(prev => ({ ...prev, [poll.id]: e.target.value }))}
+                        />
+                        <div className="flex justify-end">
+                          <button
+                            type="button"
+                            onClick={() => submitTextAnswer(poll)}
+                            disabled={!(textDrafts[poll.id] ?? '').trim()}
+                            className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                          >
+                            <Send size={14} /> {hasVoted ? 'Modifier ma réponse' : 'Envoyer'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    {!isSealed && (showResults || canManage) && <TextAnswers poll={poll} users={users} canSeeNames={canManage && !poll.isAnonymous} />}
+                 </div>
+               )}
+
+               {/* Rating scale */}
+               {isScale && (
+                 <div className="flex-1 space-y-2">
+                    <div className="flex flex-wrap gap-1.5">
+                      {poll.options.map(opt => {
+                        const isSelected = savedBallot.includes(opt.id);
+                        return (
+                          <button
+                            key={opt.id}
+                            type="button"
+                            onClick={() => castBallot(poll, [opt.id])}
+                            disabled={!canVote}
+                            className={`h-9 min-w-[2.25rem] px-2 rounded-lg border text-sm font-bold transition-all disabled:cursor-default ${
+                              isSelected
+                                ? 'border-indigo-500 bg-indigo-600 text-white'
+                                : canVote ? 'border-slate-200 text-slate-700 hover:border-indigo-300 hover:bg-slate-50' : 'border-slate-200 text-slate-500'
+                            }`}
+                          >
+                            {opt.text}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    <div className="flex justify-between text-[10px] text-slate-400">
+                      <span>Pas du tout d'accord</span>
+                      <span>Tout à fait d'accord</span>
+                    </div>
+                    {!isSealed && (showResults || canManage) && <ScaleResults poll={poll} />}
+                 </div>
+               )}
+
                {/* Voting Interface: Always visible, but styled differently if voted */}
-               <div className="space-y-2 flex-1 animate-in fade-in">
-                  {poll.options.map((opt) => {
-                    const isSelected = currentVoteOptionId === opt.id;
-                    const percentage = totalVotes > 0 ? Math.round((opt.votes / totalVotes) * 100) : 0;
+               {hasChoiceOptions(poll.pollType) && (
+                 <div className="space-y-2 flex-1 animate-in fade-in">
+                    {poll.options.map((opt) => {
+                      const isSelected = selection.includes(opt.id);
+                      const rank = selection.indexOf(opt.id) + 1;
+                      // Share of the voters who picked the option (ranked polls show the runoff below instead)
+                      const percentage = totalVoters > 0 ? Math.round((opt.votes / totalVoters) * 100) : 0;
+                      const showBar = showResults && !isRanked;
                     
-                    return (
-                      <button
-                        key={opt.id}
-                        type="button"
-                        onClick={() => onVote(poll.id, opt.id)}
-                        className={`w-full text-left p-3 rounded-lg border transition-all flex flex-col relative overflow-hidden group ${
-                          isSelected 
-                            ? 'border-indigo-500 bg-indigo-50' 
-                            : 'border-slate-200 hover:border-indigo-300 hover:bg-slate-50'
-                        }`}
-                      >
-                         {/* Background Bar for results (visible if voted) */}
-                         {hasVoted && (
-                            <div 
-                              className="absolute left-0 top-0 bottom-0 bg-indigo-100/50 transition-all duration-500" 
-                              style={{ width: `${percentage}%` }}
-                            ></div>
-                         )}
-
-                         <div className="flex justify-between items-center relative z-10 w-full">
-                            <span className={`font-medium ${isSelected ? 'text-indigo-700' : 'text-slate-700'}`}>
-                              {opt.text}
-                            </span>
-                            <div className="flex items-center gap-2">
-                               {hasVoted && (
-                                 <span className="text-xs font-bold text-slate-500">{percentage}%</span>
-                               )}
-                               {isSelected ? (
-                                  <CheckCircle size={20} className="text-indigo-600" />
-                               ) : (
-                                  <div className="h-5 w-5 rounded-full border-2 border-slate-300 group-hover:border-indigo-400"></div>
-                               )}
-                            </div>
-                         </div>
-                      </button>
-                    );
-                  })}
-               </div>
+                      return (
+                        <button
+                          key={opt.id}
+                          type="button"
+                          onClick={() => isSingle ? castBallot(poll, [opt.id]) : toggleDraftOption(poll, opt.id)}
+                          disabled={!canVote}
+                          className={`w-full text-left p-3 rounded-lg border transition-all flex flex-col relative overflow-hidden group disabled:cursor-default ${
+                            isSelected 
+                              ? 'border-indigo-500 bg-indigo-50' 
+                              : canVote ? 'border-slate-200 hover:border-indigo-300 hover:bg-slate-50' : 'border-slate-200'
+                          }`}
+                        >
+                           {/* Background Bar for results (visible if voted) */}
+                           {showBar && (
+                              <div 
+                                className="absolute left-0 top-0 bottom-0 bg-indigo-100/50 transition-all duration-500" 
+                                style={{ width: `${percentage}%` }}
+                              ></div>
+                           )}
+
+                           <div className="flex justify-between items-center relative z-10 w-full">
+                              <span className={`font-medium ${isSelected ? 'text-indigo-700' : 'text-slate-700'}`}>
+                                {opt.text}
+                              </span>
+                              <div className="flex items-center gap-2">
+                                 {showBar && (
+                                   <span className="text-xs font-bold text-slate-500">{percentage}%</span>
+                                 )}
+                                 {isRanked ? (
+                                    isSelected ? (
+                                      <span className="h-5 w-5 rounded-full bg-indigo-600 text-white text-[11px] font-bold flex items-center justify-center">{rank}</span>
+                                    ) : (
+                                      <div className="h-5 w-5 rounded-full border-2 border-dashed border-slate-300 group-hover:border-indigo-400"></div>
+                                    )
+                                 ) : isSelected ? (
+                                    <CheckCircle size={20} className="text-indigo-600" />
+                                 ) : (
+                                    <div className={`h-5 w-5 border-2 border-slate-300 group-hover:border-indigo-400 ${isSingle ? 'rounded-full' : 'rounded'}`}></div>
+                                 )}
+                              </div>
+                           </div>
+                        </button>
+                      );
+                    })}
+                 </div>
+               )}
+
+               {/* Ballot submission for multiple choice and ranked polls */}
+               {usesDraft && canVote && (
+                 <div className="mt-3 flex items-center justify-between gap-2">
+                    <span className="text-xs text-slate-500">
+                      {isRanked
+                        ? 'Cliquez les options dans votre ordre de préférence'
+                        : `${selection.length}/${maxChoices} choix`}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => submitDraft(poll)}
+                      disabled={selection.length === 0 || isDraftSaved}
+                      className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      {isRanked ? 'Valider mon classement' : 'Valider mon vote'}
+                    </button>
+                 </div>
+               )}
+
+               {isRanked && showResults && <RankedResults poll={poll} />}
+
+               {isSealed && (hasVoted || canManage) && (
+                 <p className="mt-3 text-xs text-slate-500 flex items-center gap-1.5">
+                   <Lock size={12} /> Résultats anonymes publiés à la clôture
+                 </p>
+               )}
+
+               {participationPollId === poll.id && canManage && (
+                 <ParticipationPanel poll={poll} users={users} canRemind={isOpen} onRemind={() => onRemind(poll.id)} onClose={() => setParticipationPollId(null)} />
+               )}
 
                <div className="mt-4 pt-3 border-t border-slate-100 flex justify-between items-center text-xs text-slate-500">
-                  <span className="font-semibold">{totalVotes} participant{totalVotes > 1 ? 's' : ''}</span>
+                  <span className="font-semibold">{totalVoters} participant{totalVoters > 1 ? 's' : ''}</span>
                   {hasVoted && (
                     <span className="text-indigo-600 font-medium flex items-center">
-                       <CheckCircle size={12} className="mr-1" /> Vote enregistré (modifiable)
+                       <CheckCircle size={12} className="mr-1" /> {isText
+                         ? (poll.isAnonymous ? 'Réponse anonyme enregistrée (définitive)' : isOpen ? 'Réponse enregistrée (modifiable)' : 'Réponse enregistrée')
+                         : (poll.isAnonymous ? 'Vote anonyme enregistré (définitif)' : isOpen ? 'Vote enregistré (modifiable)' : 'Vote enregistré')}
                     </span>
                   )}
                </div>
             </div>
           );
         })}
-        {polls.length === 0 && (
+        {standalonePolls.length === 0 && quizzes.length === 0 && surveys.length === 0 && (
           <div className="col-span-full py-12 text-center text-slate-400 border border-dashed border-slate-300 rounded-xl bg-slate-50">
              <div className="mx-auto bg-slate-100 p-3 rounded-full w-fit mb-3">
                <Users size={24} />
@@ -346,6 +947,182 @@ export const Polls: React.FC<PollsProps> = ({ currentUser, polls, classGroups, o
           </div>
         )}
       </div>
+
+      {/* --- PRINT ONLY VIEW (RESULTS REPORT) --- */}
+      {printPoll && <PollPrintReport poll={printPoll} users={users} author={currentUser} />}
+    </div>
+  );
+};
+
+// Instant-runoff outcome: final round chart and the eliminations of each round
+const RankedResults: React.FC<{ poll: Poll }> = ({ poll }) => {
+  const { rounds, winnerId } = computeRankedResult(poll);
+  const finalRound = rounds[rounds.length - 1];
+  if (!finalRound) return null;
+
+  const optionText = (id: string) => poll.options.find(o => o.id === id)?.text || '?';
+  const chartData = Object.entries(finalRound.counts).map(([id, votes]) => ({ id, name: optionText(id), votes }));
+
+  return (
+    <div className="mt-4 p-3 rounded-lg bg-slate-50 border border-slate-100">
+      <p className="text-sm font-semibold text-slate-700 flex items-center gap-2 mb-2">
+        <Trophy size={16} className="text-amber-500" />
+        {winnerId ? `Vainqueur : ${optionText(winnerId)}` : 'Égalité'}
+        <span className="text-xs font-normal text-slate-400">({rounds.length} tour{rounds.length > 1 ? 's' : ''})</span>
+      </p>
+      <div style={{ height: Math.max(80, chartData.length * 32) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" margin={{ left: 0, right: 16 }}>
+            <XAxis type="number" allowDecimals={false} hide />
+            <YAxis type="category" dataKey="name" width={100} tick={{ fontSize: 11 }} />
+            <Tooltip formatter={(value: number) => [`${value} voix`, 'Dernier tour']} />
+            <Bar dataKey="votes" radius={[0, 4, 4, 0]}>
+              {chartData.map(entry => (
+                <Cell key={entry.id} fill={entry.id === winnerId ? '#4f46e5' : '#c7d2fe'} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      {rounds.some(r => r.eliminated.length > 0) && (
+        <ul className="mt-2 space-y-0.5 text-xs text-slate-500">
+          {rounds.map((round, idx) => round.eliminated.length > 0 && (
+            <li key={idx}>Tour {idx + 1} : {round.eliminated.map(optionText).join(', ')} éliminé{round.eliminated.length > 1 ? 's' : ''}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Students of the targeted class split by whether they voted (non-anonymous class polls only)
+const ParticipationPanel: React.FC<{ poll: Poll; users: User[]; canRemind: boolean; onRemind: () => void; onClose: () => void }> = ({ poll, users, canRemind, onRemind, onClose }) => {
+  const students = users
+    .filter(u => u.role === UserRole.ELEVE && u.classGroup === poll.targetClass)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const voted = students.filter(u => hasUserVoted(poll, u.id));
+  const notVoted = students.filter(u => !hasUserVoted(poll, u.id));
+  const rate = students.length > 0 ? Math.round((voted.length / students.length) * 100) : 0;
+
+  return (
+    <div className="mt-4 p-3 rounded-lg bg-slate-50 border border-slate-100 animate-in fade-in">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-sm font-semibold text-slate-700">Participation {poll.targetClass} : {rate}%</p>
+        <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded" title="Fermer">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="w-full bg-slate-200 rounded-full h-2 mb-3 overflow-hidden">
+        <div className="bg-green-500 h-2 rounded-full transition-all duration-500" style={{ width: `${rate}%` }}></div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-xs">
+        <div>
+          <p className="font-bold text-green-700 mb-1">Ont voté ({voted.length})</p>
+          <ul className="space-y-0.5 text-slate-600 max-h-40 overflow-y-auto">
+            {voted.map(u => <li key={u.id}>{u.name}</li>)}
+          </ul>
+        </div>
+        <div>
+          <p className="font-bold text-orange-600 mb-1">N'ont pas voté ({notVoted.length})</p>
+          <ul className="space-y-0.5 text-slate-600 max-h-40 overflow-y-auto">
+            {notVoted.map(u => <li key={u.id}>{u.name}</li>)}
+          </ul>
+        </div>
+      </div>
+
+      {students.length === 0 && <p className="text-xs text-slate-400 mt-2">Aucun élève inscrit dans cette classe.</p>}
+
+      <button
+        type="button"
+        onClick={onRemind}
+        disabled={!canRemind || notVoted.length === 0}
+        className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm bg-white border border-orange-200 text-orange-700 rounded-lg hover:bg-orange-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <BellRing size={14} /> Relancer les non-votants
+      </button>
+    </div>
+  );
+};
+
+// Print-optimized results report (browser print dialog, "Enregistrer en PDF")
+const PollPrintReport: React.FC<{ poll: Poll; users: User[]; author: User }> = ({ poll, users, author }) => {
+  const report = buildPollReport(poll, users);
+  const isRanked = poll.pollType === PollType.RANKED;
+  const isText = poll.pollType === PollType.TEXT;
+  const isScale = poll.pollType === PollType.SCALE;
+
+  return (
+    <div className="hidden print:block">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Résultats du sondage : {poll.title}</h1>
+        <p className="text-sm text-gray-500">Généré le {new Date().toLocaleDateString('fr-FR')} par {author.name}</p>
+        <p className="text-sm mt-2">
+          Cible : <span className="font-semibold">{poll.targetClass || "Toute l'école"}</span>
+          {' · '}Vote du {format(new Date(poll.opensAt), 'd MMM yyyy HH:mm', { locale: fr })} au {format(new Date(poll.expiresAt), 'd MMM yyyy HH:mm', { locale: fr })}
+          {poll.isAnonymous && ' · Vote anonyme'}
+        </p>
+        <p className="text-sm">
+          Participation : <span className="font-semibold">{report.voters} votant{report.voters > 1 ? 's' : ''}</span>
+          {report.participationRate !== null && ` sur ${report.eligible} élève${report.eligible > 1 ? 's' : ''} (${report.participationRate}%)`}
+        </p>
+        {isRanked && (
+          <p className="text-sm">Vainqueur (vote préférentiel) : <span className="font-semibold">{report.winner || 'Égalité'}</span></p>
+        )}
+        {isScale && (
+          <p className="text-sm">Moyenne : <span className="font-semibold">{report.average != null ? `${report.average.toLocaleString('fr-FR')} / ${poll.scaleMax}` : '-'}</span></p>
+        )}
+      </div>
+
+      {isText && poll.isAnonymous && (
+        <ul className="mb-8 space-y-2">
+          {report.answers.map((answer, idx) => (
+            <li key={idx} className="border-b border-slate-300 py-2 text-sm whitespace-pre-wrap">{answer}</li>
+          ))}
+        </ul>
+      )}
+
+      {!isText && (
+        <table className="w-full text-left border-collapse mb-8">
+          <thead>
+            <tr className="border-b-2 border-slate-800">
+              <th className="py-2 text-sm font-bold text-slate-900">{isScale ? 'Note' : 'Option'}</th>
+              <th className="py-2 text-sm font-bold text-slate-900">{isRanked ? 'Premiers choix' : 'Votes'}</th>
+              <th className="py-2 text-sm font-bold text-slate-900">Pourcentage</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.options.map((o, idx) => (
+              <tr key={idx} className="border-b border-slate-300">
+                <td className="py-2 text-sm font-semibold">{o.text}</td>
+                <td className="py-2 text-sm">{o.votes}</td>
+                <td className="py-2 text-sm">{o.percentage}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {report.voterRows.length > 0 && (
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="border-b-2 border-slate-800">
+              <th className="py-2 text-sm font-bold text-slate-900">Votant</th>
+              <th className="py-2 text-sm font-bold text-slate-900">Classe</th>
+              <th className="py-2 text-sm font-bold text-slate-900">{isText ? 'Réponse' : isRanked ? 'Classement' : 'Choix'}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.voterRows.map((v, idx) => (
+              <tr key={idx} className="border-b border-slate-300">
+                <td className="py-2 text-sm">{v.name}</td>
+                <td className="py-2 text-sm">{v.classGroup}</td>
+                <td className="py-2 text-sm">{v.choices}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
     </div>
   );
 };
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { Poll, Quiz, QuizScore, User } from '../types';
+import { can } from '../lib/permissions';
+import { getPollStatus, formatCountdown } from '../lib/pollSchedule';
+import { hasUserVoted } from '../lib/pollResults';
+import { buildQuizScoreTable, hasAnswerKey } from '../lib/quizScoring';
+import { GraduationCap, Users, Clock, CalendarClock, Lock, CheckCircle, XCircle, Trash2, Table2, X } from 'lucide-react';
+
+interface QuizCardProps {
+  quiz: Quiz;
+  questions: Poll[]; // Ordered by position
+  currentUser: User;
+  users: User[];
+  scores: QuizScore[]; // Stored scores readable by the current user
+  now: Date;
+  onAnswer: (questionId: string, optionId: string) => void;
+  onDelete: (quizId: string) => void;
+}
+
+export const QuizCard: React.FC<QuizCardProps> = ({ quiz, questions, currentUser, users, scores, now, onAnswer, onDelete }) => {
+  const [showScores, setShowScores] = useState(false);
+
+  const status = getPollStatus(quiz, now);
+  const isOpen = status === 'OPEN';
+  const canManage = can(currentUser, 'update', 'quiz', quiz) || can(currentUser, 'delete', 'quiz', quiz);
+  const answeredCount = questions.filter(q => hasUserVoted(q, currentUser.id)).length;
+  const myScore = scores.find(s => s.quizId === quiz.id && s.userId === currentUser.id);
+
+  const handleDelete = () => {
+    if (window.confirm("Supprimer ce quiz ainsi que toutes les réponses et les scores ?")) {
+      onDelete(quiz.id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-5 shadow-sm border border-indigo-200 flex flex-col hover:shadow-md transition-shadow md:col-span-2">
+      <div className="flex justify-between items-start mb-2">
+        <h3 className="font-bold text-lg text-slate-800 leading-tight flex-1 mr-2 flex items-center gap-2">
+          <GraduationCap size={20} className="text-indigo-600" /> {quiz.title}
+        </h3>
+        {canManage && (
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={() => setShowScores(!showScores)}
+              className={`p-1.5 rounded transition-colors ${showScores ? 'bg-indigo-50 text-indigo-600' : 'text-slate-400 hover:text-indigo-600 hover:bg-slate-100'}`}
+              title="Tableau des scores"
+            >
+              <Table2 size={18} />
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+              title="Supprimer le quiz"
+            >
+              <Trash2 size={18} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="mb-3 flex flex-wrap gap-1.5">
+        {quiz.targetClass && (
+          <span className="text-[10px] bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+            <Users size={10} className="mr-1" /> {quiz.targetClass}
+          </span>
+        )}
+        <span className="text-[10px] bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+          {questions.length} question{questions.length > 1 ? 's' : ''}
+        </span>
+        {status === 'UPCOMING' && (
+          <span className="text-[10px] bg-sky-50 text-sky-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+            <CalendarClock size={10} className="mr-1" /> Ouvre dans {formatCountdown(quiz.opensAt, now)}
+          </span>
+        )}
+        {isOpen && (
+          <span className="text-[10px] bg-amber-50 text-amber-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+            <Clock size={10} className="mr-1" /> Clôture dans {formatCountdown(quiz.expiresAt, now)}
+          </span>
+        )}
+        {status === 'CLOSED' && (
+          <span className="text-[10px] bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+            <Lock size={10} className="mr-1" /> Clos · correction disponible
+          </span>
+        )}
+      </div>
+
+      {quiz.description && <p className="text-sm text-slate-600 mb-3">{quiz.description}</p>}
+
+      {showScores && canManage ? (
+        <QuizScoreTable quiz={quiz} questions={questions} users={users} scores={scores} onClose={() => setShowScores(false)} />
+      ) : (
+        <div className="space-y-4">
+          {questions.map((question, qIdx) => {
+            const myAnswer = question.userVotes?.[currentUser.id]?.[0];
+            const showCorrection = hasAnswerKey(question) && (status === 'CLOSED' || canManage);
+
+            return (
+              <div key={question.id}>
+                <p className="font-semibold text-slate-800 text-sm mb-2">
+                  <span className="text-indigo-600 mr-1">Q{qIdx + 1}.</span> {question.title}
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {question.options.map(opt => {
+                    const isSelected = myAnswer === opt.id;
+                    let style = isSelected ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-700';
+                    if (showCorrection && opt.isCorrect) style = 'border-green-500 bg-green-50 text-green-800';
+                    else if (showCorrection && isSelected) style = 'border-red-400 bg-red-50 text-red-700';
+
+                    return (
+                      <button
+                        key={opt.id}
+                        type="button"
+                        onClick={() => onAnswer(question.id, opt.id)}
+                        disabled={!isOpen}
+                        className={`text-left p-2.5 rounded-lg border text-sm font-medium transition-all flex justify-between items-center disabled:cursor-default ${style} ${isOpen ? 'hover:border-indigo-300' : ''}`}
+                      >
+                        <span>{opt.text}</span>
+                        {showCorrection && opt.isCorrect && <CheckCircle size={16} className="text-green-600 flex-shrink-0" />}
+                        {showCorrection && isSelected && !opt.isCorrect && <XCircle size={16} className="text-red-500 flex-shrink-0" />}
+                        {!showCorrection && isSelected && <CheckCircle size={16} className="text-indigo-600 flex-shrink-0" />}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="mt-4 pt-3 border-t border-slate-100 flex justify-between items-center text-xs text-slate-500">
+        <span className="font-semibold">{answeredCount}/{questions.length} réponse{answeredCount > 1 ? 's' : ''}</span>
+        {myScore && status === 'CLOSED' && (
+          <span className="text-indigo-700 font-bold text-sm">Score : {myScore.score}/{myScore.maxScore}</span>
+        )}
+        {isOpen && answeredCount > 0 && (
+          <span className="text-indigo-600 font-medium flex items-center">
+            <CheckCircle size={12} className="mr-1" /> Réponses modifiables jusqu'à la clôture
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Per-student and per-question results for the quiz managers
+const QuizScoreTable: React.FC<{ quiz: Quiz; questions: Poll[]; users: User[]; scores: QuizScore[]; onClose: () => void }> = ({ quiz, questions, users, scores, onClose }) => {
+  const { rows, questionSuccessRates } = buildQuizScoreTable(quiz, questions, users);
+
+  const renderCell = (answer: boolean | null | undefined) => {
+    if (answer === null) return <span className="text-slate-300">–</span>;
+    if (answer === undefined) return <span className="text-slate-400">?</span>;
+    return answer
+      ? <CheckCircle size={14} className="text-green-600 mx-auto" />
+      : <XCircle size={14} className="text-red-500 mx-auto" />;
+  };
+
+  return (
+    <div className="overflow-x-auto animate-in fade-in">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-sm font-semibold text-slate-700">Tableau des scores</p>
+        <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded" title="Fermer">
+          <X size={14} />
+        </button>
+      </div>
+      <table className="w-full text-left border-collapse text-xs">
+        <thead>
+          <tr className="border-b-2 border-slate-200">
+            <th className="py-2 pr-2 font-bold text-slate-700">Élève</th>
+            {questions.map((q, idx) => (
+              <th key={q.id} className="py-2 px-1 font-bold text-slate-700 text-center" title={q.title}>Q{idx + 1}</th>
+            ))}
+            <th className="py-2 pl-2 font-bold text-slate-700 text-right">Score</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const stored = scores.find(s => s.quizId === quiz.id && s.userId === row.user.id);
+            return (
+              <tr key={row.user.id} className="border-b border-slate-100">
+                <td className="py-1.5 pr-2 text-slate-700">{row.user.name}</td>
+                {row.answers.map((answer, idx) => (
+                  <td key={idx} className="py-1.5 px-1 text-center">{renderCell(answer)}</td>
+                ))}
+                <td className="py-1.5 pl-2 text-right font-bold text-slate-800">
+                  {row.answered > 0 ? `${stored?.score ?? row.correct}/${stored?.maxScore ?? questions.length}` : '–'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          <tr className="border-t-2 border-slate-200">
+            <td className="py-2 pr-2 font-semibold text-slate-500">Réussite</td>
+            {questionSuccessRates.map((rate, idx) => (
+              <td key={idx} className="py-2 px-1 text-center font-semibold text-slate-500">{rate === null ? '–' : `${rate}%`}</td>
+            ))}
+            <td></td>
+          </tr>
+        </tfoot>
+      </table>
+      {rows.length === 0 && <p className="text-xs text-slate-400 mt-2">Aucun élève concerné pour le moment.</p>}
+    </div>
+  );
+};
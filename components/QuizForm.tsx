@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { Quiz, PollOption, User, UserRole, ClassGroup } from '../types';
+import { can } from '../lib/permissions';
+import { toDateTimeInputValue } from '../lib/pollSchedule';
+import { getSessionToken } from '../lib/supabase';
+import { createGeneratorFromEnv, QuestionDifficulty, DIFFICULTY_LABELS, MAX_GENERATED_QUESTIONS } from '../services/questionGenerator';
+import { Plus, X, CheckCircle, Trash2, Sparkles, Loader2 } from 'lucide-react';
+
+interface QuizQuestionDraft {
+  title: string;
+  options: { text: string; isCorrect: boolean }[];
+  generatedBy?: string; // Provider label, until the teacher edits the question
+}
+
+const questionGenerator = createGeneratorFromEnv(getSessionToken);
+
+interface QuizFormProps {
+  currentUser: User;
+  classGroups: ClassGroup[];
+  onSubmit: (quiz: Omit<Quiz, 'id' | 'createdById' | 'createdAt'>, questions: { title: string; options: PollOption[] }[]) => void;
+  onCancel: () => void;
+}
+
+const emptyQuestion = (): QuizQuestionDraft => ({
+  title: '',
+  options: [{ text: '', isCorrect: true }, { text: '', isCorrect: false }]
+});
+
+export const QuizForm: React.FC<QuizFormProps> = ({ currentUser, classGroups, onSubmit, onCancel }) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [targetClass, setTargetClass] = useState(
+    can(currentUser, 'create', 'quiz', { targetClass: undefined }) ? '' : (currentUser.classGroup || '')
+  );
+  const [opensAt, setOpensAt] = useState(() => toDateTimeInputValue(new Date()));
+  const [expiresAt, setExpiresAt] = useState(() => toDateTimeInputValue(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)));
+  const [questions, setQuestions] = useState<QuizQuestionDraft[]>([emptyQuestion()]);
+
+  // Question generator panel
+  const [genTopic, setGenTopic] = useState('');
+  const [genDifficulty, setGenDifficulty] = useState<QuestionDifficulty>('moyen');
+  const [genCount, setGenCount] = useState(5);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Any edit counts as a review of a generated question
+  const updateQuestion = (index: number, changes: Partial<QuizQuestionDraft>) =>
+    setQuestions(prev => prev.map((q, i) => i === index ? { ...q, ...changes, generatedBy: undefined } : q));
+
+  const handleGenerate = async () => {
+    if (!genTopic.trim()) return;
+    setIsGenerating(true);
+    try {
+      const generated = await questionGenerator.generate({ topic: genTopic.trim(), difficulty: genDifficulty, count: genCount });
+      if (generated.length === 0) {
+        alert("Aucune question n'a pu être générée pour ce thème.");
+        return;
+      }
+      const drafts: QuizQuestionDraft[] = generated.map(g => ({
+        title: g.question,
+        options: g.options.map((text, idx) => ({ text, isCorrect: idx === g.correctIndex })),
+        generatedBy: questionGenerator.label
+      }));
+      // Replace the untouched starter question, append otherwise
+      setQuestions(prev => [...prev.filter(q => q.title.trim() !== '' || q.options.some(o => o.text.trim() !== '')), ...drafts]);
+    } catch (err: any) {
+      console.error("Question generation failed", err);
+      alert(`Erreur lors de la génération des questions: ${err.message}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const updateOption = (qIndex: number, oIndex: number, changes: Partial<QuizQuestionDraft['options'][number]>) =>
+    updateQuestion(qIndex, {
+      options: questions[qIndex].options.map((o, i) => i === oIndex ? { ...o, ...changes } : o)
+    });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const opensAtDate = new Date(opensAt);
+    const expiresAtDate = new Date(expiresAt);
+    if (expiresAtDate <= opensAtDate) {
+      alert("La date de clôture doit être postérieure à la date d'ouverture.");
+      return;
+    }
+
+    const cleaned = questions.map(q => ({ ...q, options: q.options.filter(o => o.text.trim() !== '') }));
+    const invalidIndex = cleaned.findIndex(q => q.options.length < 2 || !q.options.some(o => o.isCorrect));
+    if (invalidIndex !== -1) {
+      alert(`Question ${invalidIndex + 1} : il faut au moins deux réponses dont une correcte.`);
+      return;
+    }
+
+    const stamp = Date.now();
+    onSubmit(
+      {
+        title,
+        description: description.trim() || undefined,
+        targetClass: targetClass || undefined,
+        opensAt: opensAtDate,
+        expiresAt: expiresAtDate
+      },
+      cleaned.map((q, qIdx) => ({
+        title: q.title,
+        options: q.options.map((o, oIdx) => ({ id: `opt-${stamp}-${qIdx}-${oIdx}`, text: o.text, votes: 0, isCorrect: o.isCorrect }))
+      }))
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-indigo-100 shadow-lg animate-fade-in print:hidden">
+      <h3 className="font-semibold text-lg mb-4 text-indigo-700">Nouveau Quiz</h3>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="text-sm font-semibold text-slate-700 block mb-1">Cible</label>
+          <select
+            className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50"
+            value={targetClass}
+            onChange={(e) => setTargetClass(e.target.value)}
+          >
+            {can(currentUser, 'create', 'quiz', { targetClass: undefined }) && <option value="">🏫 Toute l'école</option>}
+            {classGroups
+              .filter(g => can(currentUser, 'create', 'quiz', { targetClass: g.name }))
+              .map(group => (
+                <option key={group.id} value={group.name}>🎓 {group.name}</option>
+            ))}
+            {!currentUser.classGroup && currentUser.role !== UserRole.ADMIN && (
+              <option value="" disabled>🚫 Aucune classe assignée à votre compte</option>
+            )}
+          </select>
+        </div>
+
+        <input
+          type="text"
+          required
+          placeholder="Titre du quiz"
+          className="w-full border p-2 rounded focus:ring-2 focus:ring-indigo-500 outline-none font-medium"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <textarea
+          placeholder="Consignes (optionnel)"
+          className="w-full border p-2 rounded focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+          rows={2}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="text-sm font-semibold text-slate-700 block mb-1">Ouverture</label>
+            <input type="datetime-local" required className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none" value={opensAt} onChange={e => setOpensAt(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm font-semibold text-slate-700 block mb-1">Clôture (correction visible ensuite)</label>
+            <input type="datetime-local" required className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="p-4 rounded-lg border border-dashed border-indigo-200 bg-indigo-50/50 space-y-2">
+          <p className="text-sm font-semibold text-indigo-700 flex items-center gap-1.5">
+            <Sparkles size={16} /> Générer des questions
+            <span className="text-xs font-normal text-slate-500">({questionGenerator.label})</span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              placeholder="Thème (ex : Histoire, Maths…)"
+              className="flex-1 min-w-[10rem] border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+              value={genTopic}
+              onChange={(e) => setGenTopic(e.target.value)}
+            />
+            <select
+              className="border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+              value={genDifficulty}
+              onChange={(e) => setGenDifficulty(e.target.value as QuestionDifficulty)}
+            >
+              {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map(level => (
+                <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={MAX_GENERATED_QUESTIONS}
+              className="w-20 border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+              value={genCount}
+              onChange={(e) => setGenCount(Math.min(MAX_GENERATED_QUESTIONS, Math.max(1, Number(e.target.value) || 1)))}
+              title="Nombre de questions"
+            />
+            <button
+              type="button"
+              onClick={handleGenerate}
+              disabled={isGenerating || !genTopic.trim()}
+              className="flex items-center gap-1.5 px-4 py-2 bg-indigo-600 text-white rounded text-sm hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} Générer
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">Les questions générées sont ajoutées ci-dessous : relisez-les et corrigez-les avant de créer le quiz.</p>
+        </div>
+
+        <div className="space-y-4">
+          {questions.map((question, qIdx) => (
+            <div key={qIdx} className={`p-4 rounded-lg border space-y-2 ${question.generatedBy ? 'border-amber-200 bg-amber-50/50' : 'border-slate-200 bg-slate-50'}`}>
+              {question.generatedBy && (
+                <span className="text-[10px] bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full font-bold inline-flex items-center w-fit" title={question.generatedBy}>
+                  <Sparkles size={10} className="mr-1" /> Générée · à relire
+                </span>
+              )}
+              <div className="flex gap-2 items-center">
+                <span className="text-xs font-bold text-indigo-600 w-6">Q{qIdx + 1}</span>
+                <input
+                  type="text"
+                  required
+                  placeholder="Énoncé de la question"
+                  className="flex-1 border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                  value={question.title}
+                  onChange={(e) => updateQuestion(qIdx, { title: e.target.value })}
+                />
+                {questions.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setQuestions(prev => prev.filter((_, i) => i !== qIdx))}
+                    className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                    title="Supprimer la question"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+
+              {question.options.map((option, oIdx) => (
+                <div key={oIdx} className="flex gap-2 items-center pl-8">
+                  <button
+                    type="button"
+                    onClick={() => updateOption(qIdx, oIdx, { isCorrect: !option.isCorrect })}
+                    className={`p-1 rounded transition-colors ${option.isCorrect ? 'text-green-600' : 'text-slate-300 hover:text-slate-500'}`}
+                    title={option.isCorrect ? 'Réponse correcte' : 'Marquer comme correcte'}
+                  >
+                    <CheckCircle size={18} />
+                  </button>
+                  <input
+                    type="text"
+                    required
+                    placeholder={`Réponse ${oIdx + 1}`}
+                    className="flex-1 border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                    value={option.text}
+                    onChange={(e) => updateOption(qIdx, oIdx, { text: e.target.value })}
+                  />
+                  {question.options.length > 2 && (
+                    <button
+                      type="button"
+                      onClick={() => updateQuestion(qIdx, { options: question.options.filter((_, i) => i !== oIdx) })}
+                      className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                      title="Supprimer cette réponse"
+                    >
+                      <X size={16} />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => updateQuestion(qIdx, { options: [...question.options, { text: '', isCorrect: false }] })}
+                className="ml-8 text-sm text-indigo-600 hover:underline font-medium"
+              >
+                + Ajouter une réponse
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setQuestions(prev => [...prev, emptyQuestion()])}
+            className="flex items-center gap-1 text-sm text-indigo-600 hover:underline font-medium"
+          >
+            <Plus size={14} /> Ajouter une question
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2 border-t border-slate-100">
+          <button type="button" onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">Annuler</button>
+          <button type="submit" className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 shadow-md transition-all transform hover:-translate-y-0.5">
+            Créer le quiz
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { Resource, User, UserRole, ClassGroup } from '../types';
+import { can } from '../lib/permissions';
 import { Book, Link as LinkIcon, FileText, Plus, Trash2, ExternalLink, Globe, Search, Users, Filter, Printer, Pencil, MoreVertical } from 'lucide-react';
 
 interface ResourcesProps {
@@ -29,7 +30,7 @@ export const Resources: React.FC<ResourcesProps> = ({ currentUser, resources, cl
   const [description, setDescription] = useState('');
   const [targetClass, setTargetClass] = useState('');
 
-  const canEdit = [UserRole.ADMIN, UserRole.RESPONSABLE].includes(currentUser.role);
+  const canCreate = can(currentUser, 'create', 'resource');
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -158,7 +159,7 @@ export const Resources: React.FC<ResourcesProps> = ({ currentUser, resources, cl
             <span className="hidden sm:inline">Imprimer / PDF</span>
           </button>
           
-          {canEdit && (
+          {canCreate && (
             <button
               onClick={() => { closeForm(); setIsFormOpen(!isFormOpen); }}
               className="flex-1 md:flex-none flex items-center justify-center space-x-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-all shadow-sm active:scale-95"
@@ -209,9 +210,9 @@ export const Resources: React.FC<ResourcesProps> = ({ currentUser, resources, cl
                   value={targetClass}
                   onChange={(e) => setTargetClass(e.target.value)}
                >
-                 {currentUser.role === UserRole.ADMIN && <option value="">🏫 Toute l'école</option>}
+                 {can(currentUser, 'create', 'resource', { targetClass: undefined }) && <option value="">🏫 Toute l'école</option>}
                  {classGroups
-                   .filter(g => currentUser.role === UserRole.ADMIN || g.name === currentUser.classGroup)
+                   .filter(g => can(currentUser, 'create', 'resource', { targetClass: g.name }))
                    .map(group => (
                      <option key={group.id} value={group.name}>🎓 {group.name}</option>
                  ))}
@@ -267,9 +268,7 @@ export const Resources: React.FC<ResourcesProps> = ({ currentUser, resources, cl
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 print:hidden">
         {filteredResources.map((res) => {
           // Permission Checks
-          const canManage = currentUser.role === UserRole.ADMIN || 
-                            (currentUser.role === UserRole.RESPONSABLE && res.targetClass === currentUser.classGroup) || 
-                            (res.createdById === currentUser.id);
+          const canManage = can(currentUser, 'update', 'resource', res) || can(currentUser, 'delete', 'resource', res);
 
           return (
             <div key={res.id} className={`bg-white rounded-xl shadow-sm border border-slate-200 hover:shadow-md transition-shadow flex flex-col relative ${activeMenuId === res.id ? 'z-50' : 'z-0'}`}>
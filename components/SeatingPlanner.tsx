@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { Exam, ExamSeat, Room, User } from '../types';
+import { SeatingOrder, SEATING_ORDER_LABELS, assignSeats, formatSeat, getBusyRoomIds, getTotalCapacity, getUsableSeats, suggestRooms, buildDoorLists } from '../lib/seating';
+import { LayoutGrid, Shuffle, Printer, DoorOpen, Save, X, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+
+export type SeatingPrintKind = 'PLAN' | 'DOOR';
+
+interface SeatingPlannerProps {
+  exam: Exam;
+  students: User[];
+  rooms: Room[];
+  exams: Exam[]; // To flag rooms taken by another exam at the same time
+  seats: ExamSeat[]; // Saved plan of this exam
+  onSave: (exam: Exam, seats: ExamSeat[]) => Promise<boolean>;
+  onPrint: (kind: SeatingPrintKind, seats: ExamSeat[]) => void;
+  onClose: () => void;
+}
+
+const shortName = (user?: User) => {
+  if (!user) return '';
+  const [first, ...rest] = user.name.split(' ');
+  return rest.length > 0 ? `${first} ${rest[rest.length - 1][0]}.` : first;
+};
+
+// Seating plan of an exam for its managers: room selection, placement preview, save and print
+export const SeatingPlanner: React.FC<SeatingPlannerProps> = ({ exam, students, rooms, exams, seats, onSave, onPrint, onClose }) => {
+  const [selectedRoomIds, setSelectedRoomIds] = useState<string[]>(() => {
+    const savedIds = Array.from(new Set(seats.map(s => s.roomId)));
+    return savedIds.length > 0 ? savedIds : suggestRooms(exam, rooms, students.length).map(r => r.id);
+  });
+  const [order, setOrder] = useState<SeatingOrder>('ALPHABETICAL');
+  const [draft, setDraft] = useState<ExamSeat[]>(seats);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedRooms = selectedRoomIds.map(id => rooms.find(r => r.id === id)).filter((r): r is Room => !!r);
+  const capacity = getTotalCapacity(selectedRooms);
+  const busyRoomIds = getBusyRoomIds(exam, rooms, exams);
+  const unseatedCount = students.filter(s => !draft.some(seat => seat.studentId === s.id)).length;
+
+  const toggleRoom = (id: string) =>
+    setSelectedRoomIds(prev => prev.includes(id) ? prev.filter(r => r !== id) : [...prev, id]);
+
+  const handleGenerate = () => {
+    const { seats: generated, unseated } = assignSeats(exam.id, students, selectedRooms, order);
+    setDraft(generated);
+    setIsDirty(true);
+    if (unseated.length > 0) {
+      alert(`${unseated.length} élève(s) sans place : ajoutez une salle pour répartir la classe.`);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await onSave(exam, draft);
+    setIsSaving(false);
+    if (saved) setIsDirty(false);
+  };
+
+  const draftRooms = rooms.filter(room => draft.some(s => s.roomId === room.id));
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-indigo-100 shadow-sm animate-fade-in space-y-4">
+      <div className="flex justify-between items-start gap-2">
+        <div>
+          <h3 className="font-semibold text-indigo-700 flex items-center gap-2"><LayoutGrid size={18} /> Plan de salle · {exam.subject}</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            {students.length} élève{students.length > 1 ? 's' : ''} · {capacity} place{capacity > 1 ? 's' : ''} dans les salles choisies
+          </p>
+        </div>
+        <button type="button" onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-lg" title="Fermer">
+          <X size={16} />
+        </button>
+      </div>
+
+      {rooms.length === 0 ? (
+        <p className="text-sm text-slate-400">Aucune salle configurée. Un administrateur peut en ajouter dans les paramètres.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {rooms.map(room => {
+            const isSelected = selectedRoomIds.includes(room.id);
+            const isBusy = busyRoomIds.includes(room.id);
+            return (
+              <button
+                key={room.id}
+                type="button"
+                onClick={() => toggleRoom(room.id)}
+                className={`px-3 py-1.5 rounded-lg border text-sm transition-colors ${isSelected ? 'bg-indigo-50 border-indigo-300 text-indigo-700 font-semibold' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                title={isBusy ? 'Occupée par un autre DS sur ce créneau' : undefined}
+              >
+                {isSelected && <span className="mr-1">{selectedRoomIds.indexOf(room.id) + 1}.</span>}
+                {room.name} <span className="text-xs font-normal text-slate-400">({room.capacity})</span>
+                {isBusy && <AlertTriangle size={12} className="inline ml-1 text-orange-500" />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {capacity < students.length && selectedRooms.length > 0 && (
+        <div className="p-3 rounded-lg border bg-orange-50 border-orange-200 text-orange-700 text-sm">
+          Capacité insuffisante : il manque {students.length - capacity} place{students.length - capacity > 1 ? 's' : ''}. Sélectionnez une autre salle pour répartir la classe.
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          className="border p-2 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50"
+          value={order}
+          onChange={(e) => setOrder(e.target.value as SeatingOrder)}
+        >
+          {(Object.keys(SEATING_ORDER_LABELS) as SeatingOrder[]).map(o => <option key={o} value={o}>{SEATING_ORDER_LABELS[o]}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={selectedRooms.length === 0 || students.length === 0}
+          className="flex items-center gap-2 px-4 py-2 text-sm bg-indigo-50 text-indigo-700 rounded-lg hover:bg-indigo-100 transition-colors disabled:opacity-50"
+        >
+          <Shuffle size={16} /> {draft.length > 0 ? 'Replacer les élèves' : 'Placer les élèves'}
+        </button>
+      </div>
+
+      {draftRooms.map(room => (
+        <RoomGrid key={room.id} room={room} seats={draft.filter(s => s.roomId === room.id)} students={students} />
+      ))}
+
+      {draft.length > 0 && unseatedCount > 0 && (
+        <p className="text-xs text-orange-600">{unseatedCount} élève{unseatedCount > 1 ? 's' : ''} sans place.</p>
+      )}
+
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onPrint('PLAN', draft)}
+            disabled={draft.length === 0}
+            className="flex items-center gap-1 px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-40"
+          >
+            <Printer size={16} /> Plan
+          </button>
+          <button
+            type="button"
+            onClick={() => onPrint('DOOR', draft)}
+            disabled={draft.length === 0}
+            className="flex items-center gap-1 px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-40"
+          >
+            <DoorOpen size={16} /> Listes de porte
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Save size={16} /> Enregistrer le plan
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Layout of one room seen from the board: used seats with their student, other seats greyed out
+const RoomGrid: React.FC<{ room: Room; seats: ExamSeat[]; students: User[]; printable?: boolean }> = ({ room, seats, students, printable }) => {
+  const usable = new Set(getUsableSeats(room).map(formatSeat));
+  return (
+    <div className={printable ? '' : 'overflow-x-auto'}>
+      <p className={`font-semibold mb-1 ${printable ? 'text-lg' : 'text-sm text-slate-700'}`}>Salle {room.name} · {seats.length}/{room.capacity}</p>
+      <div className={`text-center text-xs font-bold uppercase tracking-wide mb-2 py-1 rounded ${printable ? 'border border-slate-800' : 'bg-slate-100 text-slate-500'}`}>Tableau</div>
+      <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${room.seatsPerRow}, minmax(4.5rem, 1fr))` }}>
+        {Array.from({ length: room.rows * room.seatsPerRow }, (_, idx) => {
+          const position = { row: Math.floor(idx / room.seatsPerRow) + 1, seat: (idx % room.seatsPerRow) + 1 };
+          const label = formatSeat(position);
+          const seat = seats.find(s => s.row === position.row && s.seat === position.seat);
+          const student = seat ? students.find(u => u.id === seat.studentId) : undefined;
+          return (
+            <div
+              key={label}
+              className={`border rounded p-1 text-[10px] leading-tight min-h-[2.5rem] ${
+                student ? (printable ? 'border-slate-800' : 'border-indigo-200 bg-indigo-50 text-indigo-800') : usable.has(label) ? 'border-slate-300' : 'border-dashed border-slate-200 text-slate-300'
+              }`}
+            >
+              <span className="font-bold">{label}</span>
+              {student && <span className="block truncate">{shortName(student)}</span>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+// Print-optimized seating plans or door lists, one room per page (browser print dialog)
+export const SeatingPrint: React.FC<{ exam: Exam; kind: SeatingPrintKind; seats: ExamSeat[]; rooms: Room[]; users: User[] }> = ({ exam, kind, seats, rooms, users }) => {
+  const title = `DS ${exam.subject}${exam.targetClass ? ` · ${exam.targetClass}` : ''}`;
+  const when = `${format(new Date(exam.date), 'EEEE d MMMM yyyy', { locale: fr })} à ${exam.startTime} (${exam.durationMinutes} min)`;
+
+  return (
+    <div className="hidden print:block">
+      {buildDoorLists(seats, rooms, users).map(({ room, entries }) => (
+        <section key={room.id} className="break-after-page mb-8">
+          <h1 className="text-2xl font-bold">{kind === 'DOOR' ? `Salle ${room.name}` : title}</h1>
+          <p className="text-sm mb-4">{kind === 'DOOR' ? `${title} · ${when}` : when}</p>
+          {kind === 'PLAN' ? (
+            <RoomGrid room={room} seats={entries.map(e => e.seat)} students={entries.map(e => e.student)} printable />
+          ) : (
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b-2 border-slate-800">
+                  <th className="py-2 text-sm font-bold text-slate-900">Élève</th>
+                  <th className="py-2 text-sm font-bold text-slate-900">Classe</th>
+                  <th className="py-2 text-sm font-bold text-slate-900">Place</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(({ student, seat }) => (
+                  <tr key={student.id} className="border-b border-slate-300">
+                    <td className="py-1.5 text-sm">{student.name}</td>
+                    <td className="py-1.5 text-sm">{student.classGroup}</td>
+                    <td className="py-1.5 text-sm font-bold">{formatSeat(seat)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
-import { SchoolSettings, ClassGroup } from '../types';
-import { Building, Plus, Trash2, Save, Users, Settings as SettingsIcon, ArrowRight, Image } from 'lucide-react';
+import { SchoolSettings, ClassGroup, Room } from '../types';
+import { Building, Plus, Trash2, Save, Users, Settings as SettingsIcon, ArrowRight, Image, CalendarX, DoorOpen, Pencil, X } from 'lucide-react';
 
 interface SettingsProps {
   settings: SchoolSettings;
@@ -9,6 +9,10 @@ interface SettingsProps {
   onUpdateSettings: (settings: SchoolSettings) => void;
   onAddClass: (name: string) => void;
   onDeleteClass: (id: string) => void;
+  rooms: Room[];
+  onAddRoom: (room: Omit<Room, 'id'>) => void;
+  onUpdateRoom: (room: Room) => void;
+  onDeleteRoom: (id: string) => void;
   onNavigateToUsers?: () => void;
 }
 
@@ -18,12 +22,22 @@ export const Settings: React.FC<SettingsProps> = ({
   onUpdateSettings, 
   onAddClass, 
   onDeleteClass,
+  rooms,
+  onAddRoom,
+  onUpdateRoom,
+  onDeleteRoom,
   onNavigateToUsers
 }) => {
   const [schoolName, setSchoolName] = useState(settings.schoolName);
   const [logoUrl, setLogoUrl] = useState(settings.logoUrl || '');
   const [newClassName, setNewClassName] = useState('');
 
+  const [editingRoomId, setEditingRoomId] = useState<string | null>(null);
+  const [roomName, setRoomName] = useState('');
+  const [roomRows, setRoomRows] = useState(5);
+  const [roomSeatsPerRow, setRoomSeatsPerRow] = useState(6);
+  const [roomCapacity, setRoomCapacity] = useState(30);
+
   const handleSaveSettings = (e: React.FormEvent) => {
     e.preventDefault();
     onUpdateSettings({ ...settings, schoolName, logoUrl: logoUrl || undefined });
@@ -38,6 +52,36 @@ export const Settings: React.FC<SettingsProps> = ({
     }
   };
 
+  const resetRoomForm = () => {
+    setEditingRoomId(null);
+    setRoomName(''); setRoomRows(5); setRoomSeatsPerRow(6); setRoomCapacity(30);
+  };
+
+  const handleEditRoom = (room: Room) => {
+    setEditingRoomId(room.id);
+    setRoomName(room.name); setRoomRows(room.rows); setRoomSeatsPerRow(room.seatsPerRow); setRoomCapacity(room.capacity);
+  };
+
+  const handleSaveRoom = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!roomName.trim()) return;
+    if (roomCapacity > roomRows * roomSeatsPerRow) {
+      alert(`La capacité ne peut pas dépasser le nombre de places (${roomRows * roomSeatsPerRow}).`);
+      return;
+    }
+    const room = { name: roomName.trim(), rows: roomRows, seatsPerRow: roomSeatsPerRow, capacity: roomCapacity };
+    if (editingRoomId) onUpdateRoom({ ...room, id: editingRoomId });
+    else onAddRoom(room);
+    resetRoomForm();
+  };
+
+  const handleDeleteRoom = (room: Room) => {
+    if (window.confirm(`Supprimer la salle ${room.name} ? Les plans de salle qui l'utilisent seront effacés.`)) {
+      onDeleteRoom(room.id);
+      if (editingRoomId === room.id) resetRoomForm();
+    }
+  };
+
   return (
     <div className="space-y-8 pb-10">
       <div>
@@ -92,6 +136,27 @@ export const Settings: React.FC<SettingsProps> = ({
         </form>
       </div>
 
+      {/* Exam Scheduling */}
+      <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm animate-fade-in">
+        <div className="flex items-center gap-3 mb-4 text-indigo-700">
+           <CalendarX size={24} />
+           <h3 className="text-lg font-bold">Planification des DS</h3>
+        </div>
+        <div className="flex items-start gap-2 max-w-lg">
+          <input
+            type="checkbox"
+            id="block-exam-conflicts"
+            checked={!!settings.blockExamConflicts}
+            onChange={(e) => onUpdateSettings({ ...settings, blockExamConflicts: e.target.checked })}
+            className="mt-1 rounded text-indigo-600 focus:ring-indigo-500"
+          />
+          <label htmlFor="block-exam-conflicts" className="text-sm text-slate-700 cursor-pointer">
+            Bloquer les DS en conflit
+            <span className="block text-xs text-slate-400">Un DS ne peut pas être enregistré s'il chevauche un autre DS dans la même salle ou pour la même classe. Sinon, un simple avertissement est affiché.</span>
+          </label>
+        </div>
+      </div>
+
       {/* Class Groups Management */}
       <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm animate-fade-in delay-75">
         <div className="flex items-center gap-3 mb-4 text-indigo-700">
@@ -146,6 +211,80 @@ export const Settings: React.FC<SettingsProps> = ({
         </div>
       </div>
       
+      {/* Rooms Management */}
+      <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm animate-fade-in delay-100">
+        <div className="flex items-center gap-3 mb-4 text-indigo-700">
+           <DoorOpen size={24} />
+           <h3 className="text-lg font-bold">Salles d'examen</h3>
+        </div>
+        <p className="text-sm text-slate-500 mb-4">Disposition (rangs × places) et capacité en situation d'examen, utilisées pour les plans de salle des DS.</p>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <form onSubmit={handleSaveRoom} className="md:w-1/3 space-y-2">
+            <input
+              type="text"
+              required
+              value={roomName}
+              onChange={(e) => setRoomName(e.target.value)}
+              placeholder="Ex: B12"
+              className="w-full border p-2 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <div className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="number" required min={1} max={26} value={roomRows} onChange={(e) => setRoomRows(Number(e.target.value))} className="w-16 border p-2 rounded-lg" title="Rangs" />
+              <span>rangs ×</span>
+              <input type="number" required min={1} max={40} value={roomSeatsPerRow} onChange={(e) => setRoomSeatsPerRow(Number(e.target.value))} className="w-16 border p-2 rounded-lg" title="Places par rang" />
+              <span>places</span>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              Capacité examen
+              <input type="number" required min={1} max={roomRows * roomSeatsPerRow} value={roomCapacity} onChange={(e) => setRoomCapacity(Number(e.target.value))} className="w-20 border p-2 rounded-lg" />
+              <span className="text-xs text-slate-400">/ {roomRows * roomSeatsPerRow}</span>
+            </label>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={!roomName.trim()}
+                className="flex items-center gap-1 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-3 py-2 rounded-lg transition-colors text-sm"
+              >
+                {editingRoomId ? <><Save size={16} /> Modifier</> : <><Plus size={16} /> Ajouter</>}
+              </button>
+              {editingRoomId && (
+                <button type="button" onClick={resetRoomForm} className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg" title="Annuler">
+                  <X size={16} />
+                </button>
+              )}
+            </div>
+          </form>
+
+          <div className="flex-1">
+            {rooms.length === 0 ? (
+              <div className="p-4 bg-slate-50 rounded-lg border border-dashed text-center text-slate-400">
+                Aucune salle configurée.
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {rooms.map((room) => (
+                  <div key={room.id} className={`flex justify-between items-center bg-slate-50 border p-3 rounded-lg group hover:border-indigo-200 transition-all ${editingRoomId === room.id ? 'border-indigo-300' : 'border-slate-100'}`}>
+                    <div>
+                      <span className="font-medium text-slate-700">{room.name}</span>
+                      <span className="block text-xs text-slate-400">{room.rows} × {room.seatsPerRow} · {room.capacity} places</span>
+                    </div>
+                    <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={() => handleEditRoom(room)} className="text-slate-400 hover:text-indigo-600" title="Modifier">
+                        <Pencil size={16} />
+                      </button>
+                      <button onClick={() => handleDeleteRoom(room)} className="text-slate-400 hover:text-red-500" title="Supprimer">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
       {/* Workflow Navigation */}
       {onNavigateToUsers && (
         <div className="flex justify-end pt-4 border-t border-slate-200">
@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { Poll, PollType, Survey, SurveyAnswer, User, UserRole } from '../types';
+import { can } from '../lib/permissions';
+import { getPollStatus, areResultsSealed, formatCountdown } from '../lib/pollSchedule';
+import { getMaxSelections } from '../lib/pollResults';
+import { hasSubmittedSurvey, isQuestionAnswered, getSavedSurveyAnswers, getResponseRate } from '../lib/surveys';
+import { OptionResults, ScaleResults, TextAnswers } from './PollQuestionResults';
+import { ClipboardList, Users, Clock, CalendarClock, Lock, CheckCircle, Trash2, BarChart3, Pencil } from 'lucide-react';
+
+interface SurveyCardProps {
+  survey: Survey;
+  questions: Poll[]; // Ordered by position
+  currentUser: User;
+  users: User[];
+  now: Date;
+  onSubmit: (surveyId: string, answers: Record<string, SurveyAnswer>) => void;
+  onDelete: (surveyId: string) => void;
+}
+
+export const SurveyCard: React.FC<SurveyCardProps> = ({ survey, questions, currentUser, users, now, onSubmit, onDelete }) => {
+  const status = getPollStatus(survey, now);
+  const isOpen = status === 'OPEN';
+  const submitted = hasSubmittedSurvey(survey, currentUser.id);
+  const canManage = can(currentUser, 'update', 'survey', survey) || can(currentUser, 'delete', 'survey', survey);
+  // Anonymous submissions are final; identified ones may be sent again until the survey closes
+  const canAnswer = isOpen && can(currentUser, 'vote', 'survey', survey) && !(survey.isAnonymous && submitted);
+  // Anonymous results stay sealed until the survey closes, for everyone including its managers
+  const isSealed = areResultsSealed(survey, now);
+  const canSeeResults = !isSealed && (submitted || status === 'CLOSED' || canManage);
+
+  const [showForm, setShowForm] = useState(canAnswer && !submitted);
+  const [answers, setAnswers] = useState<Record<string, SurveyAnswer>>(() =>
+    survey.isAnonymous ? {} : getSavedSurveyAnswers(questions, currentUser.id)
+  );
+
+  const answeredCount = questions.filter(q => isQuestionAnswered(q, answers[q.id])).length;
+  const progress = questions.length > 0 ? Math.round((answeredCount / questions.length) * 100) : 0;
+  const isComplete = questions.length > 0 && answeredCount === questions.length;
+
+  const eligible = users.filter(u => u.role === UserRole.ELEVE && (!survey.targetClass || u.classGroup === survey.targetClass)).length;
+  const responseRate = getResponseRate(survey, eligible);
+
+  const setAnswer = (questionId: string, answer: SurveyAnswer) => setAnswers(prev => ({ ...prev, [questionId]: answer }));
+
+  const toggleOption = (question: Poll, optionId: string) => {
+    const selected = answers[question.id]?.optionIds || [];
+    if (question.pollType !== PollType.MULTIPLE) {
+      setAnswer(question.id, { optionIds: [optionId] });
+    } else if (selected.includes(optionId)) {
+      setAnswer(question.id, { optionIds: selected.filter(id => id !== optionId) });
+    } else if (selected.length < getMaxSelections(question)) {
+      setAnswer(question.id, { optionIds: [...selected, optionId] });
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!isComplete) return;
+    if (survey.isAnonymous && !window.confirm("Ce questionnaire est anonyme : vos réponses ne seront pas reliées à votre compte et ne pourront plus être modifiées. Confirmer l'envoi ?")) {
+      return;
+    }
+    onSubmit(survey.id, answers);
+    setShowForm(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm("Supprimer ce questionnaire ainsi que toutes ses réponses ?")) {
+      onDelete(survey.id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-5 shadow-sm border border-teal-200 flex flex-col hover:shadow-md transition-shadow md:col-span-2">
+      <div className="flex justify-between items-start mb-2">
+        <h3 className="font-bold text-lg text-slate-800 leading-tight flex-1 mr-2 flex items-center gap-2">
+          <ClipboardList size={20} className="text-teal-600" /> {survey.title}
+        </h3>
+        <div className="flex items-center gap-1">
+          {survey.isAnonymous && (
+            <div title="Questionnaire anonyme" className="p-1.5">
+              <Lock size={16} className="text-slate-400" />
+            </div>
+          )}
+          {canAnswer && canSeeResults && (
+            <button
+              type="button"
+              onClick={() => setShowForm(!showForm)}
+              className="p-1.5 text-slate-400 hover:text-teal-600 hover:bg-slate-100 rounded transition-colors"
+              title={showForm ? 'Voir les résultats' : submitted ? 'Modifier mes réponses' : 'Répondre'}
+            >
+              {showForm ? <BarChart3 size={18} /> : <Pencil size={18} />}
+            </button>
+          )}
+          {can(currentUser, 'delete', 'survey', survey) && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+              title="Supprimer le questionnaire"
+            >
+              <Trash2 size={18} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mb-3 flex flex-wrap gap-1.5">
+        {survey.targetClass && (
+          <span className="text-[10px] bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+            <Users size={10} className="mr-1" /> {survey.targetClass}
+          </span>
+        )}
+        <span className="text-[10px] bg-teal-50 text-teal-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+          {questions.length} question{questions.length > 1 ? 's' : ''}
+        </span>
+        {status === 'UPCOMING' && (
+          <span className="text-[10px] bg-sky-50 text-sky-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+            <CalendarClock size={10} className="mr-1" /> Ouvre dans {formatCountdown(survey.opensAt, now)}
+          </span>
+        )}
+        {isOpen && (
+          <span className="text-[10px] bg-amber-50 text-amber-700 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+            <Clock size={10} className="mr-1" /> Clôture dans {formatCountdown(survey.expiresAt, now)}
+          </span>
+        )}
+        {status === 'CLOSED' && (
+          <span className="text-[10px] bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full font-bold flex items-center w-fit">
+            <Lock size={10} className="mr-1" /> Clos · résultats définitifs
+          </span>
+        )}
+      </div>
+
+      {survey.description && <p className="text-sm text-slate-600 mb-3">{survey.description}</p>}
+
+      {showForm && canAnswer ? (
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between text-xs text-slate-500 mb-1">
+              <span>Progression</span>
+              <span className="font-semibold">{answeredCount}/{questions.length}</span>
+            </div>
+            <div className="w-full bg-slate-200 rounded-full h-2 overflow-hidden">
+              <div className="bg-teal-500 h-2 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+            </div>
+          </div>
+
+          {questions.map((question, qIdx) => {
+            const answer = answers[question.id];
+            const selected = answer?.optionIds || [];
+            return (
+              <div key={question.id} className={`p-3 rounded-lg border ${isQuestionAnswered(question, answer) ? 'border-teal-200 bg-teal-50/30' : 'border-slate-200'}`}>
+                <p className="font-semibold text-slate-800 text-sm mb-2">
+                  <span className="text-teal-600 mr-1">Q{qIdx + 1}.</span> {question.title}
+                  {question.pollType === PollType.MULTIPLE && (
+                    <span className="ml-2 text-xs font-normal text-slate-400">(jusqu'à {getMaxSelections(question)} choix)</span>
+                  )}
+                </p>
+
+                {question.pollType === PollType.TEXT && (
+                  <textarea
+                    rows={2}
+                    maxLength={2000}
+                    placeholder="Votre réponse…"
+                    className="w-full border p-2 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 outline-none"
+                    value={answer?.text || ''}
+                    onChange={(e) => setAnswer(question.id, { text: e.target.value })}
+                  />
+                )}
+
+                {question.pollType === PollType.SCALE && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {question.options.map(opt => (
+                      <button
+                        key={opt.id}
+                        type="button"
+                        onClick={() => toggleOption(question, opt.id)}
+                        className={`h-9 min-w-[2.25rem] px-2 rounded-lg border text-sm font-bold transition-all ${
+                          selected.includes(opt.id) ? 'border-teal-500 bg-teal-600 text-white' : 'border-slate-200 text-slate-700 hover:border-teal-300'
+                        }`}
+                      >
+                        {opt.text}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {(question.pollType === PollType.SINGLE || question.pollType === PollType.MULTIPLE) && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {question.options.map(opt => {
+                      const isSelected = selected.includes(opt.id);
+                      return (
+                        <button
+                          key={opt.id}
+                          type="button"
+                          onClick={() => toggleOption(question, opt.id)}
+                          className={`text-left p-2.5 rounded-lg border text-sm font-medium transition-all flex justify-between items-center ${
+                            isSelected ? 'border-teal-500 bg-teal-50 text-teal-800' : 'border-slate-200 text-slate-700 hover:border-teal-300'
+                          }`}
+                        >
+                          <span>{opt.text}</span>
+                          {isSelected ? (
+                            <CheckCircle size={16} className="text-teal-600 flex-shrink-0" />
+                          ) : (
+                            <div className={`h-4 w-4 border-2 border-slate-300 flex-shrink-0 ${question.pollType === PollType.SINGLE ? 'rounded-full' : 'rounded'}`}></div>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex justify-between items-center gap-2">
+            <span className="text-xs text-slate-500">{isComplete ? 'Toutes les questions sont remplies.' : 'Répondez à toutes les questions pour envoyer.'}</span>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={!isComplete}
+              className="px-4 py-2 text-sm bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {submitted ? 'Renvoyer mes réponses' : 'Envoyer mes réponses'}
+            </button>
+          </div>
+        </div>
+      ) : canSeeResults ? (
+        <div className="space-y-4">
+          {questions.map((question, qIdx) => (
+            <div key={question.id}>
+              <p className="font-semibold text-slate-800 text-sm mb-2">
+                <span className="text-teal-600 mr-1">Q{qIdx + 1}.</span> {question.title}
+              </p>
+              {question.pollType === PollType.TEXT ? (
+                <TextAnswers poll={question} users={users} canSeeNames={canManage && !survey.isAnonymous} />
+              ) : question.pollType === PollType.SCALE ? (
+                <ScaleResults poll={question} />
+              ) : (
+                <OptionResults poll={question} highlightIds={question.userVotes?.[currentUser.id]} />
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">
+          {status === 'UPCOMING'
+            ? 'Le questionnaire n\'est pas encore ouvert.'
+            : isSealed ? 'Résultats anonymes publiés à la clôture.' : 'Les résultats seront visibles après votre participation.'}
+        </p>
+      )}
+
+      <div className="mt-4 pt-3 border-t border-slate-100 flex justify-between items-center text-xs text-slate-500">
+        <span className="font-semibold">
+          {survey.respondentIds.length} réponse{survey.respondentIds.length > 1 ? 's' : ''}
+          {canManage && responseRate !== null && ` · ${responseRate}% des élèves`}
+        </span>
+        {submitted && (
+          <span className="text-teal-600 font-medium flex items-center">
+            <CheckCircle size={12} className="mr-1" /> {survey.isAnonymous ? 'Réponses anonymes envoyées (définitives)' : isOpen ? 'Réponses envoyées (modifiables)' : 'Réponses envoyées'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import { Poll, PollType, Survey, User, UserRole, ClassGroup } from '../types';
+import { can } from '../lib/permissions';
+import { toDateTimeInputValue } from '../lib/pollSchedule';
+import { buildScaleOptions, SCALE_SIZES } from '../lib/pollResults';
+import { SURVEY_QUESTION_TYPES } from '../lib/surveys';
+import { Plus, X, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+
+export type SurveyQuestionInput = Pick<Poll, 'title' | 'options' | 'pollType' | 'maxSelections' | 'scaleMax'>;
+
+interface SurveyQuestionDraft {
+  title: string;
+  pollType: PollType;
+  options: string[];
+  maxSelections: number;
+  scaleMax: number;
+}
+
+interface SurveyFormProps {
+  currentUser: User;
+  classGroups: ClassGroup[];
+  onSubmit: (survey: Omit<Survey, 'id' | 'createdById' | 'createdAt' | 'respondentIds'>, questions: SurveyQuestionInput[]) => void;
+  onCancel: () => void;
+}
+
+const QUESTION_TYPE_LABELS: Partial<Record<PollType, string>> = {
+  [PollType.SINGLE]: 'Choix unique',
+  [PollType.MULTIPLE]: 'Choix multiple',
+  [PollType.SCALE]: 'Échelle de notation',
+  [PollType.TEXT]: 'Réponse libre'
+};
+
+const emptyQuestion = (): SurveyQuestionDraft => ({
+  title: '',
+  pollType: PollType.SINGLE,
+  options: ['', ''],
+  maxSelections: 2,
+  scaleMax: SCALE_SIZES[0]
+});
+
+const hasOptions = (pollType: PollType) => pollType === PollType.SINGLE || pollType === PollType.MULTIPLE;
+
+export const SurveyForm: React.FC<SurveyFormProps> = ({ currentUser, classGroups, onSubmit, onCancel }) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [targetClass, setTargetClass] = useState(
+    can(currentUser, 'create', 'survey', { targetClass: undefined }) ? '' : (currentUser.classGroup || '')
+  );
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [opensAt, setOpensAt] = useState(() => toDateTimeInputValue(new Date()));
+  const [expiresAt, setExpiresAt] = useState(() => toDateTimeInputValue(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)));
+  const [questions, setQuestions] = useState<SurveyQuestionDraft[]>([emptyQuestion()]);
+
+  const updateQuestion = (index: number, changes: Partial<SurveyQuestionDraft>) =>
+    setQuestions(prev => prev.map((q, i) => i === index ? { ...q, ...changes } : q));
+
+  const moveQuestion = (index: number, offset: number) =>
+    setQuestions(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const opensAtDate = new Date(opensAt);
+    const expiresAtDate = new Date(expiresAt);
+    if (expiresAtDate <= opensAtDate) {
+      alert("La date de clôture doit être postérieure à la date d'ouverture.");
+      return;
+    }
+
+    const stamp = Date.now();
+    onSubmit(
+      {
+        title,
+        description: description.trim() || undefined,
+        targetClass: targetClass || undefined,
+        isAnonymous,
+        opensAt: opensAtDate,
+        expiresAt: expiresAtDate
+      },
+      questions.map((q, qIdx) => {
+        const options = q.pollType === PollType.SCALE
+          ? buildScaleOptions(q.scaleMax)
+          : hasOptions(q.pollType)
+            ? q.options.filter(o => o.trim() !== '').map((text, oIdx) => ({ id: `opt-${stamp}-${qIdx}-${oIdx}`, text, votes: 0 }))
+            : [];
+        return {
+          title: q.title,
+          pollType: q.pollType,
+          options,
+          maxSelections: q.pollType === PollType.MULTIPLE ? Math.min(q.maxSelections, options.length) : undefined,
+          scaleMax: q.pollType === PollType.SCALE ? q.scaleMax : undefined
+        };
+      })
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-indigo-100 shadow-lg animate-fade-in print:hidden">
+      <h3 className="font-semibold text-lg mb-4 text-indigo-700">Nouveau Questionnaire</h3>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="text-sm font-semibold text-slate-700 block mb-1">Cible</label>
+          <select
+            className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50"
+            value={targetClass}
+            onChange={(e) => setTargetClass(e.target.value)}
+          >
+            {can(currentUser, 'create', 'survey', { targetClass: undefined }) && <option value="">🏫 Toute l'école</option>}
+            {classGroups
+              .filter(g => can(currentUser, 'create', 'survey', { targetClass: g.name }))
+              .map(group => (
+                <option key={group.id} value={group.name}>🎓 {group.name}</option>
+            ))}
+            {!currentUser.classGroup && currentUser.role !== UserRole.ADMIN && (
+              <option value="" disabled>🚫 Aucune classe assignée à votre compte</option>
+            )}
+          </select>
+        </div>
+
+        <input
+          type="text"
+          required
+          placeholder="Titre du questionnaire"
+          className="w-full border p-2 rounded focus:ring-2 focus:ring-indigo-500 outline-none font-medium"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <textarea
+          placeholder="Présentation (optionnel)"
+          className="w-full border p-2 rounded focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+          rows={2}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="text-sm font-semibold text-slate-700 block mb-1">Ouverture</label>
+            <input type="datetime-local" required className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none" value={opensAt} onChange={e => setOpensAt(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm font-semibold text-slate-700 block mb-1">Clôture</label>
+            <input type="datetime-local" required className="w-full border p-2 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {questions.map((question, qIdx) => (
+            <div key={qIdx} className="p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-2">
+              <div className="flex gap-2 items-center">
+                <span className="text-xs font-bold text-indigo-600 w-6">Q{qIdx + 1}</span>
+                <input
+                  type="text"
+                  required
+                  placeholder="Intitulé de la question"
+                  className="flex-1 border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                  value={question.title}
+                  onChange={(e) => updateQuestion(qIdx, { title: e.target.value })}
+                />
+                <button
+                  type="button"
+                  onClick={() => moveQuestion(qIdx, -1)}
+                  disabled={qIdx === 0}
+                  className="p-1.5 text-slate-400 hover:text-indigo-600 rounded transition-colors disabled:opacity-30"
+                  title="Monter"
+                >
+                  <ArrowUp size={16} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveQuestion(qIdx, 1)}
+                  disabled={qIdx === questions.length - 1}
+                  className="p-1.5 text-slate-400 hover:text-indigo-600 rounded transition-colors disabled:opacity-30"
+                  title="Descendre"
+                >
+                  <ArrowDown size={16} />
+                </button>
+                {questions.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setQuestions(prev => prev.filter((_, i) => i !== qIdx))}
+                    className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                    title="Supprimer la question"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-2 pl-8">
+                <select
+                  className="border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                  value={question.pollType}
+                  onChange={(e) => updateQuestion(qIdx, { pollType: e.target.value as PollType })}
+                >
+                  {SURVEY_QUESTION_TYPES.map(type => <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>)}
+                </select>
+                {question.pollType === PollType.MULTIPLE && (
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    Jusqu'à
+                    <input
+                      type="number"
+                      min={1}
+                      max={Math.max(1, question.options.length)}
+                      className="w-16 border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                      value={question.maxSelections}
+                      onChange={(e) => updateQuestion(qIdx, { maxSelections: Math.max(1, parseInt(e.target.value) || 1) })}
+                    />
+                    choix
+                  </label>
+                )}
+                {question.pollType === PollType.SCALE && (
+                  <select
+                    className="border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                    value={question.scaleMax}
+                    onChange={(e) => updateQuestion(qIdx, { scaleMax: Number(e.target.value) })}
+                  >
+                    {SCALE_SIZES.map(size => <option key={size} value={size}>De 1 à {size}</option>)}
+                  </select>
+                )}
+              </div>
+
+              {hasOptions(question.pollType) && (
+                <div className="space-y-2 pl-8">
+                  {question.options.map((option, oIdx) => (
+                    <div key={oIdx} className="flex gap-2">
+                      <input
+                        type="text"
+                        required
+                        placeholder={`Option ${oIdx + 1}`}
+                        className="flex-1 border p-2 rounded text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                        value={option}
+                        onChange={(e) => updateQuestion(qIdx, { options: question.options.map((o, i) => i === oIdx ? e.target.value : o) })}
+                      />
+                      {question.options.length > 2 && (
+                        <button
+                          type="button"
+                          onClick={() => updateQuestion(qIdx, { options: question.options.filter((_, i) => i !== oIdx) })}
+                          className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                          title="Supprimer cette option"
+                        >
+                          <X size={16} />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => updateQuestion(qIdx, { options: [...question.options, ''] })}
+                    className="text-sm text-indigo-600 hover:underline font-medium"
+                  >
+                    + Ajouter une option
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setQuestions(prev => [...prev, emptyQuestion()])}
+            className="flex items-center gap-1 text-sm text-indigo-600 hover:underline font-medium"
+          >
+            <Plus size={14} /> Ajouter une question
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="survey-anon"
+            checked={isAnonymous}
+            onChange={e => setIsAnonymous(e.target.checked)}
+            className="rounded text-indigo-600 focus:ring-indigo-500"
+          />
+          <label htmlFor="survey-anon" className="text-sm text-slate-700 cursor-pointer">Questionnaire anonyme</label>
+          <span className="text-xs text-slate-400">(réponses non reliées aux comptes, envoi définitif)</span>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2 border-t border-slate-100">
+          <button type="button" onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">Annuler</button>
+          <button type="submit" className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 shadow-md transition-all transform hover:-translate-y-0.5">
+            Créer le questionnaire
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -1,13 +1,14 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { User, UserRole, ClassGroup } from '../types';
+import { generateTemporaryPassword } from '../lib/auth';
 import { Trash2, UserPlus, Shield, GraduationCap, User as UserIcon, Pencil, RotateCcw, Filter, MoreVertical } from 'lucide-react';
 
 interface UserManagementProps {
   users: User[];
   classGroups: ClassGroup[];
-  onAdd: (user: User) => void;
-  onUpdate: (user: User) => void;
+  onAdd: (user: User, password: string) => void;
+  onUpdate: (user: User, password?: string) => void;
   onDelete: (id: string) => void;
   onResetPassword: (id: string) => void;
 }
@@ -21,7 +22,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ users, classGrou
   
   const [newName, setNewName] = useState('');
   const [newEmail, setNewEmail] = useState('');
-  const [newPassword, setNewPassword] = useState('passer25');
+  const [newPassword, setNewPassword] = useState(() => generateTemporaryPassword());
   const [newRole, setNewRole] = useState<UserRole>(UserRole.ELEVE);
   const [newClassGroup, setNewClassGroup] = useState('');
 
@@ -51,19 +52,17 @@ export const UserManagement: React.FC<UserManagementProps> = ({ users, classGrou
         id: editingId,
         name: newName,
         email: newEmail,
-        password: newPassword,
         role: newRole,
         classGroup: newClassGroup || undefined
-      });
+      }, newPassword || undefined);
     } else {
       onAdd({
         id: typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : Date.now().toString(),
         name: newName,
         email: newEmail,
-        password: newPassword,
         role: newRole,
         classGroup: newClassGroup || undefined
-      });
+      }, newPassword);
     }
     closeForm();
   };
@@ -72,7 +71,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ users, classGrou
     setEditingId(user.id);
     setNewName(user.name);
     setNewEmail(user.email);
-    setNewPassword(user.password || '');
+    setNewPassword(''); // Stored passwords are hashed: leave empty to keep the current one
     setNewRole(user.role);
     setNewClassGroup(user.classGroup || '');
     setIsFormOpen(true);
@@ -86,13 +85,13 @@ export const UserManagement: React.FC<UserManagementProps> = ({ users, classGrou
     setEditingId(null);
     setNewName(''); 
     setNewEmail(''); 
-    setNewPassword('passer25');
+    setNewPassword(generateTemporaryPassword());
     setNewRole(UserRole.ELEVE);
     setNewClassGroup('');
   };
 
   const handleResetPassword = (user: User) => {
-    if (window.confirm(`Voulez-vous vraiment réinitialiser le mot de passe de "${user.name}" à "passer25" ?`)) {
+    if (window.confirm(`Voulez-vous vraiment réinitialiser le mot de passe de "${user.name}" ?\n\nUn mot de passe temporaire sera généré et l'utilisateur devra le changer à sa prochaine connexion.`)) {
       onResetPassword(user.id);
     }
     setActiveMenuId(null);
@@ -158,8 +157,8 @@ export const UserManagement: React.FC<UserManagementProps> = ({ users, classGrou
                <input required type="email" className="border p-2 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={newEmail} onChange={e => setNewEmail(e.target.value)} placeholder="email@ecole.com" />
             </div>
             <div className="flex flex-col space-y-1">
-               <label className="text-xs font-semibold text-slate-500">Mot de passe</label>
-               <input required type="text" className="border p-2 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={newPassword} onChange={e => setNewPassword(e.target.value)} placeholder="Définir mot de passe" />
+               <label className="text-xs font-semibold text-slate-500">{editingId ? 'Nouveau mot de passe' : 'Mot de passe temporaire'}</label>
+               <input required={!editingId} type="text" className="border p-2 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={newPassword} onChange={e => setNewPassword(e.target.value)} placeholder={editingId ? "Laisser vide pour conserver" : "Définir mot de passe"} />
             </div>
             
             <div className="flex flex-col space-y-1">
@@ -0,0 +1,186 @@
+import { User } from '../types';
+import { supabase, setSessionToken } from './supabase';
+import { mapUser } from './mappers';
+
+const SESSION_KEY = 'classpoll_session';
+const PBKDF2_ITERATIONS = 210000;
+
+export interface AuthSession {
+  token: string;
+  userId: string;
+  expiresAt: string; // ISO date
+}
+
+// --- Crypto helpers (WebCrypto) ---
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const generateSalt = () => toHex(crypto.getRandomValues(new Uint8Array(16)));
+
+// Temporary passwords handed out by admins (no ambiguous characters such as 0/O or 1/l)
+const TEMP_PASSWORD_ALPHABET = 'abcdefghjkmnpqrstuvwxyzABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const generateTemporaryPassword = (length = 10) =>
+  Array.from(crypto.getRandomValues(new Uint32Array(length)))
+    .map(n => TEMP_PASSWORD_ALPHABET[n % TEMP_PASSWORD_ALPHABET.length])
+    .join('');
+
+// Derives the password key sent to the database. The plaintext password never leaves the browser;
+// the database only stores a SHA-256 of this key.
+export const derivePasswordKey = async (password: string, salt: string, iterations: number): Promise<string> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations },
+    material,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+// --- Session storage ---
+
+const persistSession = (session: AuthSession) => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  setSessionToken(session.token);
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+  setSessionToken(null);
+};
+
+// Loads the stored session (if still valid) and attaches its token to outgoing requests.
+// The server re-validates the token in resolveSession().
+export const restoreSession = (): AuthSession | null => {
+  const stored = localStorage.getItem(SESSION_KEY);
+  if (!stored) return null;
+  try {
+    const session: AuthSession = JSON.parse(stored);
+    if (!session.token || new Date(session.expiresAt).getTime() <= Date.now()) {
+      clearSession();
+      return null;
+    }
+    setSessionToken(session.token);
+    return session;
+  } catch (e) {
+    console.error("Invalid session data", e);
+    clearSession();
+    return null;
+  }
+};
+
+// The profile row comes along: RLS hides it while a forced password change is pending
+export const resolveSession = async (): Promise<{ userId: string; mustChangePassword: boolean; profile: User | null } | null> => {
+  const { data, error } = await supabase.rpc('resolve_session');
+  if (error) throw error;
+  if (!data) return null;
+  return { userId: data.user_id, mustChangePassword: !!data.must_change_password, profile: data.user ? mapUser(data.user) : null };
+};
+
+// --- Authentication ---
+
+export const signIn = async (email: string, password: string): Promise<AuthSession | null> => {
+  const { data: params, error: paramsError } = await supabase.rpc('get_login_params', { p_email: email });
+  if (paramsError) throw paramsError;
+
+  // Accounts created before hashed credentials: verify the old password once and store its hash
+  if (params?.legacy) {
+    const salt = generateSalt();
+    const key = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS);
+    const { data: upgraded, error: upgradeError } = await supabase.rpc('upgrade_legacy_password', {
+      p_email: email,
+      p_password: password,
+      p_salt: salt,
+      p_iterations: PBKDF2_ITERATIONS,
+      p_password_key: key
+    });
+    if (upgradeError) throw upgradeError;
+    if (!upgraded) return null;
+    return signIn(email, password);
+  }
+
+  const key = await derivePasswordKey(password, params.salt, params.iterations);
+  const { data, error } = await supabase.rpc('create_session', { p_email: email, p_password_key: key });
+  if (error) throw error;
+  if (!data) return null;
+
+  const session: AuthSession = { token: data.token, userId: data.user_id, expiresAt: data.expires_at };
+  persistSession(session);
+  return session;
+};
+
+export const signOut = async () => {
+  try {
+    const { error } = await supabase.rpc('revoke_session');
+    if (error) throw error;
+  } catch (err) {
+    console.error("Failed to revoke session", err);
+  } finally {
+    clearSession();
+  }
+};
+
+// Admins can set any password (optionally forcing a change at next login); other users only their own.
+export const setUserPassword = async (userId: string, password: string, options: { mustChange?: boolean } = {}) => {
+  const salt = generateSalt();
+  const key = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS);
+  const { error } = await supabase.rpc('set_user_password', {
+    p_user_id: userId,
+    p_salt: salt,
+    p_iterations: PBKDF2_ITERATIONS,
+    p_password_key: key,
+    p_must_change: !!options.mustChange
+  });
+  if (error) throw error;
+};
+
+// --- Password reset ---
+
+// Queues a reset mail if the account exists. Never reveals whether it does.
+export const requestPasswordReset = async (email: string) => {
+  const { error } = await supabase.rpc('request_password_reset', { p_email: email });
+  if (error) throw error;
+};
+
+// Reset links look like https://app/?reset=<token>
+export const getResetTokenFromUrl = (): string | null => new URLSearchParams(window.location.search).get('reset');
+
+export const clearResetTokenFromUrl = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete('reset');
+  window.history.replaceState(null, '', url.toString());
+};
+
+// Returns false when the token is unknown, expired or already used.
+export const resetPasswordWithToken = async (token: string, password: string): Promise<boolean> => {
+  const salt = generateSalt();
+  const key = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS);
+  const { data, error } = await supabase.rpc('reset_password_with_token', {
+    p_token: token,
+    p_salt: salt,
+    p_iterations: PBKDF2_ITERATIONS,
+    p_password_key: key
+  });
+  if (error) throw error;
+  return !!data;
+};
+
+// Creates the first admin account. Returns false once any user exists.
+export const bootstrapAdmin = async (admin: { id: string; name: string; email: string }, password: string): Promise<boolean> => {
+  const { data: needed, error: checkError } = await supabase.rpc('needs_bootstrap');
+  if (checkError) throw checkError;
+  if (!needed) return false;
+
+  const salt = generateSalt();
+  const key = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS);
+  const { error } = await supabase.rpc('bootstrap_admin', {
+    p_id: admin.id,
+    p_name: admin.name,
+    p_email: admin.email,
+    p_salt: salt,
+    p_iterations: PBKDF2_ITERATIONS,
+    p_password_key: key
+  });
+  if (error) throw error;
+  return true;
+};
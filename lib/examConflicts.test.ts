@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Exam } from '../types';
+import { findExamConflicts, getConflictReasons } from './examConflicts';
+
+const exam = (id: string, overrides: Partial<Exam> = {}): Exam => ({
+  id,
+  subject: 'Maths',
+  date: new Date('2026-11-16T00:00:00.000Z'),
+  startTime: '08:00',
+  durationMinutes: 120,
+  room: 'B12',
+  targetClass: 'Terminale A',
+  createdById: 'u-admin',
+  ...overrides
+});
+
+describe('getConflictReasons', () => {
+  it('reports a shared room and a shared class of overlapping slots', () => {
+    expect(getConflictReasons(exam('a'), exam('b', { startTime: '09:30', room: ' b12 ' }))).toEqual(['ROOM', 'CLASS']);
+    expect(getConflictReasons(exam('a'), exam('b', { startTime: '09:00', targetClass: 'Terminale B' }))).toEqual(['ROOM']);
+  });
+
+  it('lets an exam start when the previous one ends', () => {
+    expect(getConflictReasons(exam('a'), exam('b', { startTime: '10:00' }))).toEqual([]);
+    expect(getConflictReasons(exam('a'), exam('b', { date: new Date('2026-11-17T00:00:00.000Z') }))).toEqual([]);
+  });
+
+  it('treats a school-wide exam as concerning every class', () => {
+    expect(getConflictReasons(exam('a', { targetClass: undefined }), exam('b', { room: 'C3', targetClass: 'Terminale B' }))).toEqual(['CLASS']);
+  });
+
+  it('never lets two exams without a room share one', () => {
+    expect(getConflictReasons(exam('a', { room: '' }), exam('b', { room: ' ', targetClass: 'Terminale B' }))).toEqual([]);
+  });
+
+  it('compares slots crossing midnight with the next day', () => {
+    const evening = exam('a', { startTime: '23:00' });
+    expect(getConflictReasons(evening, exam('b', { date: new Date('2026-11-17T00:00:00.000Z'), startTime: '00:30' }))).toEqual(['ROOM', 'CLASS']);
+  });
+});
+
+describe('findExamConflicts', () => {
+  it('lists the exams clashing with any slot, oldest first, ignoring the replaced ones', () => {
+    const exams = [
+      exam('later', { date: new Date('2026-11-23T00:00:00.000Z') }),
+      exam('replaced'),
+      exam('other-room', { room: 'C3', targetClass: 'Terminale B' }),
+      exam('first')
+    ];
+    const slots = [exam('new'), exam('new-2', { date: new Date('2026-11-23T00:00:00.000Z'), room: 'C3' })];
+
+    const conflicts = findExamConflicts(slots, exams, ['replaced']);
+
+    expect(conflicts.map(c => c.exam.id)).toEqual(['first', 'later']);
+    expect(conflicts[1].reasons).toEqual(['CLASS']);
+  });
+});
@@ -0,0 +1,54 @@
+import { Exam } from '../types';
+import { toDateKey } from './examSeries';
+
+// Two exams conflict when their time slots overlap and they share a room or a class
+// (a school-wide exam concerns every class). Mirrors the guard_exam_conflicts trigger.
+
+export type ConflictReason = 'ROOM' | 'CLASS';
+
+export interface ExamConflict {
+  exam: Exam;
+  reasons: ConflictReason[];
+}
+
+export type ExamSlot = Pick<Exam, 'date' | 'startTime' | 'durationMinutes' | 'room' | 'targetClass'>;
+
+export const CONFLICT_LABELS: Record<ConflictReason, string> = {
+  ROOM: 'même salle',
+  CLASS: 'même classe'
+};
+
+// Minutes since the epoch, so slots crossing midnight still compare correctly
+const getSlotMinutes = (slot: Pick<ExamSlot, 'date' | 'startTime' | 'durationMinutes'>): [number, number] => {
+  const [hours, minutes] = slot.startTime.split(':').map(Number);
+  const start = Date.parse(`${toDateKey(slot.date)}T00:00:00Z`) / 60000 + (hours || 0) * 60 + (minutes || 0);
+  return [start, start + Math.max(0, slot.durationMinutes)];
+};
+
+const normalizeRoom = (room: string) => room.trim().toLowerCase();
+
+export const slotsOverlap = (a: Pick<ExamSlot, 'date' | 'startTime' | 'durationMinutes'>, b: Pick<ExamSlot, 'date' | 'startTime' | 'durationMinutes'>) => {
+  const [aStart, aEnd] = getSlotMinutes(a);
+  const [bStart, bEnd] = getSlotMinutes(b);
+  return aStart < bEnd && bStart < aEnd;
+};
+
+export const getConflictReasons = (a: ExamSlot, b: ExamSlot): ConflictReason[] => {
+  if (!slotsOverlap(a, b)) return [];
+
+  const reasons: ConflictReason[] = [];
+  if (normalizeRoom(a.room) && normalizeRoom(a.room) === normalizeRoom(b.room)) reasons.push('ROOM');
+  if (!a.targetClass || !b.targetClass || a.targetClass === b.targetClass) reasons.push('CLASS');
+  return reasons;
+};
+
+// Existing exams conflicting with any of the slots being saved, ignoring the exams they replace
+export const findExamConflicts = (slots: ExamSlot[], exams: Exam[], ignoreIds: string[] = []): ExamConflict[] =>
+  exams
+    .filter(exam => !ignoreIds.includes(exam.id))
+    .map(exam => ({
+      exam,
+      reasons: Array.from(new Set(slots.flatMap(slot => getConflictReasons(slot, exam))))
+    }))
+    .filter(conflict => conflict.reasons.length > 0)
+    .sort((a, b) => new Date(a.exam.date).getTime() - new Date(b.exam.date).getTime());
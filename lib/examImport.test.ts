@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { ClassGroup, Exam, User, UserRole } from '../types';
+import { mapImportColumns, parseExamImport } from './examImport';
+
+const admin: User = { id: 'u-admin', name: 'Admin', email: 'admin@ecole.fr', role: UserRole.ADMIN };
+const responsable: User = { id: 'u-resp', name: 'Resp', email: 'resp@ecole.fr', role: UserRole.RESPONSABLE, classGroup: 'Terminale A' };
+const classGroups: ClassGroup[] = [{ id: 'c-ta', name: 'Terminale A' }, { id: 'c-tb', name: 'Terminale B' }];
+
+const HEADER = ['Matière', 'Date', 'Heure', 'Durée', 'Salle', 'Classe', 'Notes'];
+
+describe('mapImportColumns', () => {
+  it('matches headers without accents, case or punctuation', () => {
+    const { columns, missing } = mapImportColumns(['SALLE', 'matiere', 'Heure de début', 'Durée (min)', 'Jour']);
+    expect(columns).toEqual({ room: 0, subject: 1, startTime: 2, durationMinutes: 3, date: 4 });
+    expect(missing).toEqual([]);
+  });
+
+  it('lists the required columns that are missing', () => {
+    expect(mapImportColumns(['Matière', 'Classe']).missing).toEqual(['Date', 'Heure', 'Durée', 'Salle']);
+  });
+});
+
+describe('parseExamImport', () => {
+  it('accepts the usual date, time and duration formats', () => {
+    const { rows, missingColumns } = parseExamImport([
+      HEADER,
+      ['Mathématiques', '16/11/2026', '8h', '2h', 'B12', 'terminale a', 'Chapitres 1 à 4'],
+      ['Physique', '2026-11-17', '14:30', '1h30', 'Labo', "Toute l'école", ''],
+      ['Anglais', '46344', '0.375', '90 min', 'C3', '', '']
+    ], classGroups, [], admin);
+
+    expect(missingColumns).toEqual([]);
+    expect(rows.map(r => r.errors)).toEqual([[], [], []]);
+    expect(rows[0].exam).toMatchObject({ startTime: '08:00', durationMinutes: 120, targetClass: 'Terminale A', notes: 'Chapitres 1 à 4' });
+    expect(rows[0].exam?.date.toISOString()).toBe('2026-11-16T00:00:00.000Z');
+    expect(rows[1].exam).toMatchObject({ startTime: '14:30', durationMinutes: 90, targetClass: undefined, notes: undefined });
+    expect(rows[2].exam).toMatchObject({ startTime: '09:00', durationMinutes: 90 });
+    expect(rows[2].exam?.date.toISOString()).toBe('2026-11-18T00:00:00.000Z');
+  });
+
+  it('reports every problem of a row with its line number', () => {
+    const { rows } = parseExamImport([
+      HEADER,
+      ['', '31/02/2026', '25:00', '0', '', 'Seconde Z', '']
+    ], classGroups, [], admin);
+
+    expect(rows[0].line).toBe(2);
+    expect(rows[0].exam).toBeUndefined();
+    expect(rows[0].errors).toEqual([
+      'Matière manquante',
+      'Date invalide « 31/02/2026 » (attendu JJ/MM/AAAA)',
+      'Heure invalide « 25:00 » (attendu HH:MM)',
+      'Durée invalide « 0 » (en minutes)',
+      'Salle manquante',
+      'Classe inconnue « Seconde Z »'
+    ]);
+  });
+
+  it('reads only plausible Excel serials as dates', () => {
+    const { rows } = parseExamImport([
+      HEADER,
+      ['Maths', '20261116', '08:00', '60', 'B12', '', ''],
+      ['Maths', '73051', '08:00', '60', 'B12', '', '']
+    ], classGroups, [], admin);
+
+    expect(rows.map(r => r.errors[0])).toEqual([
+      'Date invalide « 20261116 » (attendu JJ/MM/AAAA)',
+      'Date invalide « 73051 » (attendu JJ/MM/AAAA)'
+    ]);
+  });
+
+  it('numbers rows as in the sheet, blank rows included', () => {
+    const { rows } = parseExamImport([
+      [],
+      HEADER,
+      ['Maths', '16/11/2026', '08:00', '60', 'B12', '', ''],
+      [],
+      ['', '', '', '', '', '', ''],
+      ['Physique', '16/11/2026', '08:00', '60', 'B12', '', '']
+    ], classGroups, [], admin);
+
+    expect(rows.map(r => r.line)).toEqual([3, 6]);
+    expect(rows[1].conflicts.map(c => c.exam.id)).toEqual(['import-line-3']);
+  });
+
+  it('refuses classes the importer may not plan for', () => {
+    const { rows } = parseExamImport([
+      HEADER,
+      ['Maths', '16/11/2026', '08:00', '60', 'B12', 'Terminale A', ''],
+      ['Maths', '16/11/2026', '10:00', '60', 'B12', 'Terminale B', ''],
+      ['Maths', '16/11/2026', '14:00', '60', 'B12', '', '']
+    ], classGroups, [], responsable);
+
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[1].errors).toEqual(['Vous ne pouvez pas planifier de DS pour Terminale B']);
+    expect(rows[2].errors).toEqual(["Vous ne pouvez pas planifier de DS pour toute l'école"]);
+  });
+
+  it('flags conflicts with existing exams and with earlier rows of the file', () => {
+    const existing: Exam = {
+      id: 'e1', subject: 'Histoire', date: new Date('2026-11-16T00:00:00.000Z'), startTime: '08:00',
+      durationMinutes: 120, room: 'B12', targetClass: 'Terminale B', createdById: admin.id
+    };
+    const { rows } = parseExamImport([
+      HEADER,
+      ['Maths', '16/11/2026', '09:00', '60', 'b12', 'Terminale A', ''],
+      ['Physique', '16/11/2026', '11:00', '60', 'Labo', 'Terminale A', ''],
+      ['Chimie', '16/11/2026', '11:30', '60', 'C3', 'Terminale A', '']
+    ], classGroups, [existing], admin);
+
+    expect(rows[0].conflicts).toHaveLength(1);
+    expect(rows[0].conflicts[0].exam.id).toBe('e1');
+    expect(rows[1].conflicts).toEqual([]);
+    expect(rows[2].conflicts.map(c => c.exam.id)).toEqual(['import-line-3']);
+  });
+
+  it('stops at the header when required columns are missing', () => {
+    expect(parseExamImport([['Matière', 'Date'], ['Maths', '16/11/2026']], classGroups, [], admin)).toEqual({
+      rows: [],
+      missingColumns: ['Heure', 'Durée', 'Salle']
+    });
+  });
+});
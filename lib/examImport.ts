@@ -0,0 +1,172 @@
+import { ClassGroup, Exam, User } from '../types';
+import { can } from './permissions';
+import { fromExcelSerial } from './spreadsheet';
+import { ExamConflict, findExamConflicts } from './examConflicts';
+
+// Exam timetable import: maps spreadsheet columns by their header, validates every row and
+// reports conflicts with the existing exams and with the previous rows of the file.
+
+export type ImportedExam = Omit<Exam, 'id' | 'createdById'>;
+
+export interface ExamImportRow {
+  line: number; // Row number in the sheet, blank rows included
+  exam?: ImportedExam; // Only when the row is valid
+  errors: string[];
+  conflicts: ExamConflict[];
+}
+
+type ImportField = 'subject' | 'date' | 'startTime' | 'durationMinutes' | 'room' | 'targetClass' | 'notes';
+
+// Accepted headers, compared without accents, case or punctuation
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  subject: ['matiere', 'subject', 'discipline', 'epreuve'],
+  date: ['date', 'jour'],
+  startTime: ['heure', 'debut', 'heure de debut', 'horaire', 'start', 'start time'],
+  durationMinutes: ['duree', 'duree min', 'duree minutes', 'duration'],
+  room: ['salle', 'room'],
+  targetClass: ['classe', 'class', 'groupe'],
+  notes: ['notes', 'remarques', 'commentaire', 'commentaires']
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['subject', 'date', 'startTime', 'durationMinutes', 'room'];
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  subject: 'Matière',
+  date: 'Date',
+  startTime: 'Heure',
+  durationMinutes: 'Durée',
+  room: 'Salle',
+  targetClass: 'Classe',
+  notes: 'Notes'
+};
+
+// Values meaning "school-wide" in the class column
+const SCHOOL_WIDE_VALUES = ['', 'toute l ecole', 'tous', 'toutes', 'ecole', 'all'];
+
+export const IMPORT_TEMPLATE_CSV =
+  'Matière;Date;Heure;Durée;Salle;Classe;Notes\r\n' +
+  'Mathématiques;16/11/2026;08:00;120;B12;Terminale A;Chapitres 1 à 4\r\n';
+
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Excel serials of 2000-01-01 and 2099-12-31: other numbers are not dates (e.g. 20261116)
+const MIN_DATE_SERIAL = 36526;
+const MAX_DATE_SERIAL = 73050;
+
+// 2026-11-16, 16/11/2026, 16-11-26 or an Excel serial
+const parseDate = (value: string): Date | null => {
+  const text = value.trim();
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text);
+  if (match) return validDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(text);
+  if (match) {
+    const year = Number(match[3]) < 100 ? 2000 + Number(match[3]) : Number(match[3]);
+    return validDate(year, Number(match[2]), Number(match[1]));
+  }
+  const serial = /^\d+(\.\d+)?$/.test(text) ? Number(text) : NaN;
+  if (serial >= MIN_DATE_SERIAL && Math.floor(serial) <= MAX_DATE_SERIAL) return fromExcelSerial(serial).date;
+  return null;
+};
+
+const validDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+};
+
+// 8:00, 08h30, 8h or an Excel time fraction
+const parseTime = (value: string): string | null => {
+  const text = value.trim().toLowerCase();
+  const match = /^(\d{1,2})\s*[:h]\s*(\d{2})?$/.exec(text);
+  if (match) {
+    const hours = Number(match[1]);
+    const minutes = Number(match[2] || 0);
+    return hours < 24 && minutes < 60 ? `${pad(hours)}:${pad(minutes)}` : null;
+  }
+  if (/^0?\.\d+$/.test(text)) {
+    const minutes = fromExcelSerial(Number(text)).minutes;
+    return `${pad(Math.floor(minutes / 60) % 24)}:${pad(minutes % 60)}`;
+  }
+  return null;
+};
+
+// 120, "120 min", "2h", "1h30"
+const parseDuration = (value: string): number | null => {
+  const text = value.trim().toLowerCase().replace(/\s+/g, '');
+  let match = /^(\d+)(min)?$/.exec(text);
+  if (match) return Number(match[1]);
+  match = /^(\d+)h(\d{2})?$/.exec(text);
+  if (match) return Number(match[1]) * 60 + Number(match[2] || 0);
+  return null;
+};
+
+// Column index of each field, from the header row
+export const mapImportColumns = (header: string[]): { columns: Partial<Record<ImportField, number>>; missing: string[] } => {
+  const columns: Partial<Record<ImportField, number>> = {};
+  header.forEach((cell, index) => {
+    const key = normalize(cell);
+    const field = (Object.keys(HEADER_ALIASES) as ImportField[]).find(f => HEADER_ALIASES[f].includes(key));
+    if (field && columns[field] === undefined) columns[field] = index;
+  });
+  const missing = REQUIRED_FIELDS.filter(f => columns[f] === undefined).map(f => FIELD_LABELS[f]);
+  return { columns, missing };
+};
+
+export const parseExamImport = (
+  rows: string[][],
+  classGroups: ClassGroup[],
+  existingExams: Exam[],
+  currentUser: User
+): { rows: ExamImportRow[]; missingColumns: string[] } => {
+  // Blank rows are skipped but still counted, so line numbers match the sheet
+  const lines = rows.map((cells, index) => ({ cells, line: index + 1 })).filter(({ cells }) => cells.some(c => c.trim() !== ''));
+  const [header, ...dataRows] = lines;
+  const { columns, missing } = mapImportColumns(header?.cells || []);
+  if (missing.length > 0) return { rows: [], missingColumns: missing };
+
+  const accepted: Exam[] = [];
+  const parsed = dataRows.map(({ cells, line }): ExamImportRow => {
+    const cell = (field: ImportField) => {
+      const column = columns[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const subject = cell('subject');
+    if (!subject) errors.push('Matière manquante');
+
+    const date = parseDate(cell('date'));
+    if (!date) errors.push(`Date invalide « ${cell('date')} » (attendu JJ/MM/AAAA)`);
+
+    const startTime = parseTime(cell('startTime'));
+    if (!startTime) errors.push(`Heure invalide « ${cell('startTime')} » (attendu HH:MM)`);
+
+    const durationMinutes = parseDuration(cell('durationMinutes'));
+    if (!durationMinutes || durationMinutes <= 0 || durationMinutes > 720) errors.push(`Durée invalide « ${cell('durationMinutes')} » (en minutes)`);
+
+    const room = cell('room');
+    if (!room) errors.push('Salle manquante');
+
+    const classValue = cell('targetClass');
+    const classGroup = classGroups.find(g => normalize(g.name) === normalize(classValue));
+    const isSchoolWide = SCHOOL_WIDE_VALUES.includes(normalize(classValue));
+    if (!classGroup && !isSchoolWide) errors.push(`Classe inconnue « ${classValue} »`);
+    const targetClass = classGroup?.name;
+    if ((classGroup || isSchoolWide) && !can(currentUser, 'create', 'exam', { targetClass })) {
+      errors.push(`Vous ne pouvez pas planifier de DS pour ${targetClass || "toute l'école"}`);
+    }
+
+    if (errors.length > 0 || !date || !startTime || !durationMinutes) {
+      return { line, errors, conflicts: [] };
+    }
+
+    const exam: ImportedExam = { subject, date, startTime, durationMinutes, room, targetClass, notes: cell('notes') || undefined };
+    const conflicts = findExamConflicts([exam], [...existingExams, ...accepted]);
+    accepted.push({ ...exam, id: `import-line-${line}`, createdById: currentUser.id });
+    return { line, exam, errors, conflicts };
+  });
+
+  return { rows: parsed, missingColumns: [] };
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { RecurrenceFrequency } from '../types';
+import { countRuleOccurrences, generateOccurrenceDates, MAX_SERIES_OCCURRENCES, shiftDays, toDateKey } from './examSeries';
+
+const day = (key: string) => new Date(`${key}T00:00:00.000Z`);
+
+const rule = (overrides: Partial<Parameters<typeof countRuleOccurrences>[0]> = {}) => ({
+  frequency: RecurrenceFrequency.WEEKLY,
+  startsOn: day('2026-09-07'),
+  until: day('2026-10-05'),
+  exceptionDates: [] as string[],
+  ...overrides
+});
+
+describe('countRuleOccurrences', () => {
+  it('counts every step up to the last day inclusive', () => {
+    expect(countRuleOccurrences(rule())).toBe(5);
+    expect(countRuleOccurrences(rule({ until: day('2026-10-04') }))).toBe(4);
+    expect(countRuleOccurrences(rule({ frequency: RecurrenceFrequency.BIWEEKLY }))).toBe(3);
+  });
+
+  it('skips exceptions that fall on an occurrence only', () => {
+    expect(countRuleOccurrences(rule({ exceptionDates: ['2026-09-14', '2026-09-15', '2026-12-07'] }))).toBe(4);
+  });
+
+  it('is zero when the rule ends before it starts', () => {
+    expect(countRuleOccurrences(rule({ until: day('2026-09-06') }))).toBe(0);
+  });
+
+  it('matches the generated dates below the cap', () => {
+    const withExceptions = rule({ until: day('2027-01-25'), exceptionDates: ['2026-10-26', '2026-12-28'] });
+    expect(countRuleOccurrences(withExceptions)).toBe(generateOccurrenceDates(withExceptions).length);
+  });
+
+  it('keeps counting past the cap the generator stops at', () => {
+    const long = rule({ until: shiftDays(day('2026-09-07'), 7 * MAX_SERIES_OCCURRENCES) });
+    expect(generateOccurrenceDates(long)).toHaveLength(MAX_SERIES_OCCURRENCES);
+    expect(countRuleOccurrences(long)).toBe(MAX_SERIES_OCCURRENCES + 1);
+  });
+});
+
+describe('generateOccurrenceDates', () => {
+  it('stays on the same UTC day across daylight saving changes', () => {
+    const dates = generateOccurrenceDates(rule({ startsOn: day('2026-10-19'), until: day('2026-11-09') }));
+    expect(dates.map(toDateKey)).toEqual(['2026-10-19', '2026-10-26', '2026-11-02', '2026-11-09']);
+  });
+});
@@ -0,0 +1,59 @@
+import { Exam, ExamSeries, RecurrenceFrequency } from '../types';
+
+// Exam dates are UTC midnights (from <input type="date">): shifts are done in whole UTC days
+// so daylight saving changes never move an occurrence to another day.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_SERIES_OCCURRENCES = 60;
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  [RecurrenceFrequency.WEEKLY]: 'Chaque semaine',
+  [RecurrenceFrequency.BIWEEKLY]: 'Toutes les deux semaines'
+};
+
+const INTERVAL_DAYS: Record<RecurrenceFrequency, number> = {
+  [RecurrenceFrequency.WEEKLY]: 7,
+  [RecurrenceFrequency.BIWEEKLY]: 14
+};
+
+export const toDateKey = (date: Date): string => new Date(date).toISOString().split('T')[0];
+
+export const shiftDays = (date: Date, days: number): Date => new Date(new Date(date).getTime() + days * DAY_MS);
+
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+
+// Occurrence dates of the rule, exceptions excluded
+export const generateOccurrenceDates = (
+  rule: Pick<ExamSeries, 'frequency' | 'startsOn' | 'until' | 'exceptionDates'>
+): Date[] => {
+  const dates: Date[] = [];
+  const step = INTERVAL_DAYS[rule.frequency];
+  for (let date = new Date(rule.startsOn); date <= rule.until && dates.length < MAX_SERIES_OCCURRENCES; date = shiftDays(date, step)) {
+    if (!rule.exceptionDates.includes(toDateKey(date))) dates.push(date);
+  }
+  return dates;
+};
+
+// Counts occurrences without the cap, to warn before a rule gets truncated
+export const countRuleOccurrences = (rule: Pick<ExamSeries, 'frequency' | 'startsOn' | 'until' | 'exceptionDates'>): number => {
+  if (rule.until < rule.startsOn) return 0;
+  const total = Math.floor(daysBetween(rule.startsOn, rule.until) / INTERVAL_DAYS[rule.frequency]) + 1;
+  const skipped = rule.exceptionDates.filter(key => {
+    const offset = daysBetween(rule.startsOn, new Date(key));
+    return offset >= 0 && new Date(key) <= rule.until && offset % INTERVAL_DAYS[rule.frequency] === 0;
+  }).length;
+  return total - skipped;
+};
+
+export const getSeriesOccurrences = (seriesId: string, exams: Exam[]): Exam[] =>
+  exams
+    .filter(e => e.seriesId === seriesId)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+// Occurrences from the given one onwards ("this and all future occurrences")
+export const getFutureOccurrences = (occurrence: Exam, exams: Exam[]): Exam[] =>
+  occurrence.seriesId
+    ? getSeriesOccurrences(occurrence.seriesId, exams).filter(e => new Date(e.date) >= new Date(occurrence.date))
+    : [occurrence];
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Exam, ExamGrade } from '../types';
+import { computeGradeStats, computeWeightedAverage } from './grades';
+
+const grade = (studentId: string, score: number | undefined, examId = 'e1'): ExamGrade => ({
+  examId,
+  studentId,
+  score,
+  isAbsent: score === undefined,
+  updatedAt: new Date('2026-11-16T10:00:00.000Z')
+});
+
+const exam = (id: string, overrides: Partial<Exam> = {}): Exam => ({
+  id,
+  subject: 'Maths',
+  date: new Date('2026-11-16T00:00:00.000Z'),
+  startTime: '08:00',
+  durationMinutes: 60,
+  room: 'B12',
+  createdById: 'u-admin',
+  ...overrides
+});
+
+describe('computeGradeStats', () => {
+  it('summarises the marks and leaves absences out', () => {
+    const stats = computeGradeStats([grade('a', 12), grade('b', 8), grade('c', 15.5), grade('d', undefined), grade('e', 20)], 20);
+    expect(stats).toMatchObject({ count: 4, absent: 1, mean: 13.88, median: 13.75, min: 8, max: 20 });
+  });
+
+  it('takes the middle mark of an odd count as median', () => {
+    expect(computeGradeStats([grade('a', 3), grade('b', 9), grade('c', 4)], 10).median).toBe(4);
+  });
+
+  it('spreads marks over ten ranges of the scale, the top mark in the last one', () => {
+    const { distribution } = computeGradeStats([grade('a', 0), grade('b', 1.9), grade('c', 2), grade('d', 20)], 20);
+    expect(distribution).toHaveLength(10);
+    expect(distribution[0]).toEqual({ label: '0-2', count: 2 });
+    expect(distribution[1].count).toBe(1);
+    expect(distribution[9]).toEqual({ label: '18-20', count: 1 });
+  });
+
+  it('has no statistics without marks', () => {
+    expect(computeGradeStats([grade('a', undefined)], 20)).toMatchObject({ count: 0, absent: 1, mean: null, median: null, min: null, max: null });
+  });
+});
+
+describe('computeWeightedAverage', () => {
+  it('brings every mark back to 20 before applying the coefficients', () => {
+    const exams = [exam('e1'), exam('e2', { maxScore: 10, coefficient: 2 }), exam('e3', { maxScore: 40, coefficient: 0.5 })];
+    const grades = [grade('a', 10, 'e1'), grade('a', 8, 'e2'), grade('a', 30, 'e3'), grade('b', 20, 'e1')];
+    // (10 * 1 + 16 * 2 + 15 * 0.5) / 3.5
+    expect(computeWeightedAverage('a', grades, exams)).toBe(14.14);
+  });
+
+  it('ignores absences and marks of unknown exams', () => {
+    const grades = [grade('a', 12, 'e1'), grade('a', undefined, 'e2'), grade('a', 2, 'deleted')];
+    expect(computeWeightedAverage('a', grades, [exam('e1'), exam('e2')])).toBe(12);
+    expect(computeWeightedAverage('b', grades, [exam('e1')])).toBeNull();
+  });
+});
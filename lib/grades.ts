@@ -0,0 +1,109 @@
+import { Exam, ExamGrade, User, UserRole } from '../types';
+import { toCsvLine } from './pollExport';
+import { format } from 'date-fns';
+
+// Exam grades: who is graded, class statistics, weighted averages and the CSV export.
+// Averages across exams are brought back to 20 before applying the coefficients.
+
+export const DEFAULT_MAX_SCORE = 20;
+export const DEFAULT_COEFFICIENT = 1;
+
+const DISTRIBUTION_BUCKETS = 10;
+
+export const getMaxScore = (exam: Pick<Exam, 'maxScore'>) => exam.maxScore ?? DEFAULT_MAX_SCORE;
+export const getCoefficient = (exam: Pick<Exam, 'coefficient'>) => exam.coefficient ?? DEFAULT_COEFFICIENT;
+
+export const formatScore = (value: number) => value.toLocaleString('fr-FR', { maximumFractionDigits: 2 });
+
+// Students of the exam's class (all students for school-wide exams) plus anyone already graded
+export const getExamStudents = (exam: Exam, users: User[], grades: ExamGrade[]): User[] => {
+  const gradedIds = new Set(grades.filter(g => g.examId === exam.id).map(g => g.studentId));
+  return users
+    .filter(u => gradedIds.has(u.id) || (u.role === UserRole.ELEVE && (!exam.targetClass || u.classGroup === exam.targetClass)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export interface GradeStats {
+  count: number; // Marks entered (absences excluded)
+  absent: number;
+  mean: number | null;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+  distribution: { label: string; count: number }[]; // Ten equal ranges of the scale
+}
+
+export const computeGradeStats = (grades: ExamGrade[], maxScore: number): GradeStats => {
+  const scores = grades.filter(g => g.score !== undefined).map(g => g.score as number).sort((a, b) => a - b);
+  const count = scores.length;
+  const middle = Math.floor(count / 2);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const width = maxScore / DISTRIBUTION_BUCKETS;
+  const distribution = Array.from({ length: DISTRIBUTION_BUCKETS }, (_, idx) => ({
+    label: `${formatScore(round(idx * width))}-${formatScore(round((idx + 1) * width))}`,
+    count: 0
+  }));
+  // The top of the scale falls in the last range
+  scores.forEach(score => distribution[Math.min(DISTRIBUTION_BUCKETS - 1, Math.floor(score / width))].count++);
+
+  return {
+    count,
+    absent: grades.filter(g => g.isAbsent).length,
+    mean: count > 0 ? round(scores.reduce((sum, s) => sum + s, 0) / count) : null,
+    median: count > 0 ? round(count % 2 ? scores[middle] : (scores[middle - 1] + scores[middle]) / 2) : null,
+    min: count > 0 ? scores[0] : null,
+    max: count > 0 ? scores[count - 1] : null,
+    distribution
+  };
+};
+
+// Coefficient-weighted average out of 20 of a student's marks (absences and ungraded exams are left out)
+export const computeWeightedAverage = (studentId: string, grades: ExamGrade[], exams: Exam[]): number | null => {
+  let total = 0;
+  let weights = 0;
+  grades.forEach(grade => {
+    const exam = exams.find(e => e.id === grade.examId);
+    if (grade.studentId !== studentId || grade.score === undefined || !exam) return;
+    total += (grade.score / getMaxScore(exam)) * DEFAULT_MAX_SCORE * getCoefficient(exam);
+    weights += getCoefficient(exam);
+  });
+  return weights > 0 ? Math.round((total / weights) * 100) / 100 : null;
+};
+
+export const buildGradesCsv = (exam: Exam, students: User[], grades: ExamGrade[]): string => {
+  const maxScore = getMaxScore(exam);
+  const examGrades = grades.filter(g => g.examId === exam.id);
+  const stats = computeGradeStats(examGrades, maxScore);
+  const stat = (value: number | null) => value !== null ? formatScore(value) : '-';
+
+  const lines = [
+    toCsvLine(['DS', exam.subject]),
+    toCsvLine(['Date', format(new Date(exam.date), 'dd/MM/yyyy')]),
+    toCsvLine(['Classe', exam.targetClass || "Toute l'école"]),
+    toCsvLine(['Barème', maxScore]),
+    toCsvLine(['Coefficient', formatScore(getCoefficient(exam))]),
+    toCsvLine(['Moyenne', stat(stats.mean)]),
+    toCsvLine(['Médiane', stat(stats.median)]),
+    toCsvLine(['Minimum', stat(stats.min)]),
+    toCsvLine(['Maximum', stat(stats.max)]),
+    '',
+    toCsvLine(['Élève', 'Classe', 'Note', 'Sur 20', 'Absent', 'Commentaire'])
+  ];
+  students.forEach(student => {
+    const grade = examGrades.find(g => g.studentId === student.id);
+    lines.push(toCsvLine([
+      student.name,
+      student.classGroup || '',
+      grade?.score !== undefined ? formatScore(grade.score) : '',
+      grade?.score !== undefined ? formatScore(Math.round((grade.score / maxScore) * DEFAULT_MAX_SCORE * 100) / 100) : '',
+      grade?.isAbsent ? 'oui' : '',
+      grade?.comment || ''
+    ]));
+  });
+
+  return '\uFEFF' + lines.join('\r\n');
+};
+
+export const gradesExportFilename = (exam: Exam) =>
+  `notes-${exam.subject.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'ds'}-${format(new Date(exam.date), 'yyyy-MM-dd')}.csv`;
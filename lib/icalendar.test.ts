@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Exam } from '../types';
+import { buildExamCalendar, buildFeedUrl, calendarFilename } from './icalendar';
+
+const exam = (id: string, overrides: Partial<Exam> = {}): Exam => ({
+  id,
+  subject: 'Maths',
+  date: new Date('2026-11-16T00:00:00.000Z'),
+  startTime: '8:30',
+  durationMinutes: 120,
+  room: 'B12',
+  targetClass: 'Terminale A',
+  createdById: 'u-admin',
+  ...overrides
+});
+
+const STAMP = new Date('2026-10-19T12:00:00.000Z');
+
+describe('buildExamCalendar', () => {
+  it('writes exams in school local time, oldest first', () => {
+    const ics = buildExamCalendar([exam('b', { date: new Date('2026-11-23T00:00:00.000Z') }), exam('a')], 'DS Terminale A', STAMP);
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines.filter(l => l.startsWith('UID:'))).toEqual(['UID:exam-a@classpoll', 'UID:exam-b@classpoll']);
+    expect(lines).toContain('DTSTART;TZID=Europe/Paris:20261116T083000');
+    expect(lines).toContain('DTSTAMP:20261019T120000Z');
+    expect(lines).toContain('DURATION:PT120M');
+    expect(lines).toContain('SUMMARY:DS Maths (Terminale A)');
+  });
+
+  it('escapes text values and leaves out empty notes', () => {
+    const ics = buildExamCalendar([exam('a', { room: 'B12, étage 1', notes: 'Chapitres 1; 2\nCalculatrice' })], 'DS', STAMP);
+    expect(ics).toContain('LOCATION:Salle B12\\, étage 1\r\n');
+    expect(ics).toContain('DESCRIPTION:Chapitres 1\\; 2\\nCalculatrice\r\n');
+    expect(buildExamCalendar([exam('a')], 'DS', STAMP)).not.toContain('DESCRIPTION');
+  });
+
+  it('folds long lines at 75 octets without splitting a character', () => {
+    const ics = buildExamCalendar([exam('a', { notes: 'é'.repeat(100) })], 'DS', STAMP);
+    const folded = ics.split('\r\n').filter(l => l.startsWith('DESCRIPTION:') || l.startsWith(' '));
+    const encoder = new TextEncoder();
+
+    expect(folded.length).toBeGreaterThan(1);
+    folded.forEach(l => expect(encoder.encode(l).length).toBeLessThanOrEqual(75));
+    expect(folded.map((l, idx) => (idx === 0 ? l : l.slice(1))).join('')).toBe(`DESCRIPTION:${'é'.repeat(100)}`);
+  });
+});
+
+describe('calendarFilename', () => {
+  it('keeps plain letters and digits', () => {
+    expect(calendarFilename('DS Première S2')).toBe('ds-premiere-s2.ics');
+    expect(calendarFilename('***')).toBe('ds.ics');
+  });
+});
+
+describe('buildFeedUrl', () => {
+  it('appends the feed path to the base URL', () => {
+    expect(buildFeedUrl('https://ecole.fr/', 'abc')).toBe('https://ecole.fr/feeds/abc.ics');
+  });
+});
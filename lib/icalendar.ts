@@ -0,0 +1,95 @@
+import { Exam } from '../types';
+import { toDateKey } from './examSeries';
+
+// RFC 5545 export of exams, shared by the app (.ics downloads) and server/calendarFeed.ts (subscriptions).
+// Exam times are local school times: events use TZID with the VTIMEZONE below, so calendars convert them.
+
+export const SCHOOL_TIMEZONE = 'Europe/Paris';
+
+const PRODID = '-//ClassPoll+//Devoirs surveilles//FR';
+
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${SCHOOL_TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'TZNAME:CEST',
+  'DTSTART:19700329T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'TZNAME:CET',
+  'DTSTART:19701025T030000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+];
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets, never inside a UTF-8 sequence
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toUtcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const toLocalStamp = (exam: Exam) => {
+  const [hours, minutes] = exam.startTime.split(':');
+  return `${toDateKey(exam.date).replace(/-/g, '')}T${hours.padStart(2, '0')}${(minutes || '00').padStart(2, '0')}00`;
+};
+
+const buildEvent = (exam: Exam, stamp: Date): string[] => [
+  'BEGIN:VEVENT',
+  `UID:exam-${exam.id}@classpoll`,
+  `DTSTAMP:${toUtcStamp(stamp)}`,
+  `DTSTART;TZID=${SCHOOL_TIMEZONE}:${toLocalStamp(exam)}`,
+  `DURATION:PT${Math.max(1, exam.durationMinutes)}M`,
+  `SUMMARY:${escapeText(`DS ${exam.subject}${exam.targetClass ? ` (${exam.targetClass})` : ''}`)}`,
+  `LOCATION:${escapeText(`Salle ${exam.room}`)}`,
+  ...(exam.notes ? [`DESCRIPTION:${escapeText(exam.notes)}`] : []),
+  'CATEGORIES:DS',
+  'END:VEVENT'
+];
+
+export const buildExamCalendar = (exams: Exam[], calendarName: string, stamp = new Date()): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${SCHOOL_TIMEZONE}`,
+    ...VTIMEZONE,
+    ...[...exams]
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .flatMap(exam => buildEvent(exam, stamp)),
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+
+export const calendarFilename = (name: string) =>
+  `${name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'ds'}.ics`;
+
+// Subscription URL served by server/calendarFeed.ts
+export const buildFeedUrl = (baseUrl: string, token: string) => `${baseUrl.replace(/\/$/, '')}/feeds/${token}.ics`;
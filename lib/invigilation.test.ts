@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Exam, User, UserRole } from '../types';
+import { buildRotaCsv, findInvigilatorClashes, getDoubleBookedIds, getDuties } from './invigilation';
+
+const exam = (id: string, overrides: Partial<Exam> = {}): Exam => ({
+  id,
+  subject: 'Maths',
+  date: new Date('2026-11-16T00:00:00.000Z'),
+  startTime: '08:00',
+  durationMinutes: 120,
+  room: 'B12',
+  targetClass: 'Terminale A',
+  createdById: 'u-admin',
+  ...overrides
+});
+
+const users: User[] = [
+  { id: 'u-marie', name: 'Marie', email: 'marie@ecole.fr', role: UserRole.RESPONSABLE, classGroup: 'Terminale A' },
+  { id: 'u-admin', name: 'Admin', email: 'admin@ecole.fr', role: UserRole.ADMIN }
+];
+
+// e1 and e2 overlap, e3 is in the afternoon
+const exams = [
+  exam('e1'),
+  exam('e2', { subject: 'Physique', startTime: '09:00', room: 'Labo', targetClass: 'Terminale B' }),
+  exam('e3', { subject: 'Anglais', startTime: '14:00' })
+];
+
+const invigilators = [
+  { examId: 'e1', userId: 'u-marie' },
+  { examId: 'e1', userId: 'u-admin' },
+  { examId: 'e2', userId: 'u-marie' },
+  { examId: 'e3', userId: 'u-admin' }
+];
+
+describe('findInvigilatorClashes', () => {
+  it('finds the overlapping exams the user already supervises', () => {
+    expect(findInvigilatorClashes(exams[0], 'u-marie', exams, invigilators).map(e => e.id)).toEqual(['e2']);
+    expect(findInvigilatorClashes(exams[0], 'u-admin', exams, invigilators)).toEqual([]);
+  });
+});
+
+describe('getDoubleBookedIds', () => {
+  it('keeps the invigilators of the exam busy elsewhere at the same time', () => {
+    expect(getDoubleBookedIds(exams[0], exams, invigilators)).toEqual(['u-marie']);
+    expect(getDoubleBookedIds(exams[2], exams, invigilators)).toEqual([]);
+  });
+});
+
+describe('getDuties', () => {
+  it('lists the exams supervised by the user from the given day, in order', () => {
+    const later = exam('e4', { date: new Date('2026-11-17T00:00:00.000Z'), startTime: '08:00' });
+    const duties = getDuties('u-admin', [later, ...exams], [...invigilators, { examId: 'e4', userId: 'u-admin' }], new Date(2026, 10, 16));
+    expect(duties.map(e => e.id)).toEqual(['e1', 'e3', 'e4']);
+    expect(getDuties('u-admin', exams, invigilators, new Date(2026, 10, 17))).toEqual([]);
+  });
+
+  it('keeps the exams of the day whatever the time and timezone of the given date', () => {
+    expect(getDuties('u-admin', exams, invigilators, new Date(2026, 10, 16, 23, 30)).map(e => e.id)).toEqual(['e1', 'e3']);
+  });
+});
+
+describe('buildRotaCsv', () => {
+  it('writes one line per exam in order, invigilators by name', () => {
+    const csv = buildRotaCsv([exams[2], exams[0]], invigilators, users);
+    expect(csv.split('\r\n')).toEqual([
+      '\uFEFFDate;Heure;Durée (min);Matière;Classe;Salle;Surveillants',
+      '16/11/2026;08:00;120;Maths;Terminale A;B12;Admin, Marie',
+      '16/11/2026;14:00;120;Anglais;Terminale A;B12;Admin'
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import { Exam, ExamInvigilator, User, UserRole } from '../types';
+import { slotsOverlap } from './examConflicts';
+import { toDateKey } from './examSeries';
+import { toCsvLine } from './pollExport';
+import { format } from 'date-fns';
+
+// Invigilation duties: staff assigned to exams, double bookings and the supervision rota.
+// Mirrors the checks of save_exam_invigilators (staff only, no overlapping duties).
+
+export const isStaffMember = (user: User) => user.role === UserRole.ADMIN || user.role === UserRole.RESPONSABLE;
+
+export const getStaffMembers = (users: User[]): User[] =>
+  users.filter(isStaffMember).sort((a, b) => a.name.localeCompare(b.name));
+
+export const getInvigilators = (examId: string, invigilators: ExamInvigilator[], users: User[]): User[] =>
+  invigilators
+    .filter(i => i.examId === examId)
+    .map(i => users.find(u => u.id === i.userId))
+    .filter((u): u is User => !!u)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+// Other exams the user already supervises during this one
+export const findInvigilatorClashes = (exam: Exam, userId: string, exams: Exam[], invigilators: ExamInvigilator[]): Exam[] =>
+  exams
+    .filter(other => other.id !== exam.id && slotsOverlap(exam, other))
+    .filter(other => invigilators.some(i => i.examId === other.id && i.userId === userId))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+// Invigilators of the exam who are double-booked
+export const getDoubleBookedIds = (exam: Exam, exams: Exam[], invigilators: ExamInvigilator[]): string[] =>
+  invigilators
+    .filter(i => i.examId === exam.id)
+    .map(i => i.userId)
+    .filter(userId => findInvigilatorClashes(exam, userId, exams, invigilators).length > 0);
+
+// Exams supervised by the user, from the local day of the given date on (exam dates are UTC midnights)
+export const getDuties = (userId: string, exams: Exam[], invigilators: ExamInvigilator[], from: Date): Exam[] => {
+  const fromKey = format(from, 'yyyy-MM-dd');
+  return exams
+    .filter(exam => toDateKey(exam.date) >= fromKey && invigilators.some(i => i.examId === exam.id && i.userId === userId))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || a.startTime.localeCompare(b.startTime));
+};
+
+// One line per exam in chronological order, invigilators joined in the last column
+export const buildRotaCsv = (exams: Exam[], invigilators: ExamInvigilator[], users: User[]): string => {
+  const sorted = [...exams].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || a.startTime.localeCompare(b.startTime));
+  const lines = [toCsvLine(['Date', 'Heure', 'Durée (min)', 'Matière', 'Classe', 'Salle', 'Surveillants'])];
+  sorted.forEach(exam => {
+    lines.push(toCsvLine([
+      format(new Date(exam.date), 'dd/MM/yyyy'),
+      exam.startTime,
+      exam.durationMinutes,
+      exam.subject,
+      exam.targetClass || "Toute l'école",
+      exam.room,
+      getInvigilators(exam.id, invigilators, users).map(u => u.name).join(', ')
+    ]));
+  });
+  return '\uFEFF' + lines.join('\r\n');
+};
+
+export const rotaExportFilename = (date: Date = new Date()) => `surveillances-${format(date, 'yyyy-MM-dd')}.csv`;
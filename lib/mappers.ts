@@ -0,0 +1,240 @@
+import { User, Announcement, Exam, ExamGrade, ExamSeries, Poll, PollOption, PollTextAnswer, PollType, PollReminder, PollTemplate, Quiz, QuizScore, Survey, Resource, ClassGroup, Room, ExamSeat, ExamInvigilator, RevisionCheck } from '../types';
+import { tallyOptions } from './pollResults';
+
+// Map DB snake_case rows to the CamelCase models
+
+export const mapUser = (u: any): User => ({
+  ...u,
+  classGroup: u.class_group
+});
+
+export const mapAnnouncement = (a: any): Announcement => ({
+  ...a,
+  meetLink: a.meet_link,
+  isUrgent: a.is_urgent,
+  authorId: a.author_id,
+  authorName: a.author_name,
+  targetClass: a.target_class,
+  date: new Date(a.date)
+});
+
+export const mapExam = (e: any): Exam => ({
+  ...e,
+  startTime: e.start_time,
+  durationMinutes: e.duration_minutes,
+  createdById: e.created_by_id,
+  targetClass: e.target_class,
+  date: new Date(e.date),
+  seriesId: e.series_id ?? undefined,
+  maxScore: e.max_score != null ? Number(e.max_score) : undefined,
+  coefficient: e.coefficient != null ? Number(e.coefficient) : undefined,
+  syllabus: Array.isArray(e.syllabus) ? e.syllabus : [],
+  resourceIds: e.resource_ids || []
+});
+
+export const mapRevisionCheck = (r: any): RevisionCheck => ({
+  examId: r.exam_id,
+  userId: r.user_id,
+  topicId: r.topic_id
+});
+
+export const mapExamGrade = (g: any): ExamGrade => ({
+  examId: g.exam_id,
+  studentId: g.student_id,
+  score: g.score != null ? Number(g.score) : undefined,
+  isAbsent: !!g.is_absent,
+  comment: g.comment ?? undefined,
+  gradedById: g.graded_by_id ?? undefined,
+  updatedAt: new Date(g.updated_at)
+});
+
+export const mapExamSeries = (s: any): ExamSeries => ({
+  id: s.id,
+  subject: s.subject,
+  startTime: s.start_time,
+  durationMinutes: s.duration_minutes,
+  room: s.room,
+  notes: s.notes ?? undefined,
+  targetClass: s.target_class ?? undefined,
+  frequency: s.frequency,
+  startsOn: new Date(s.starts_on),
+  until: new Date(s.until),
+  exceptionDates: s.exception_dates || [],
+  createdById: s.created_by_id,
+  createdAt: new Date(s.created_at)
+});
+
+// Polls are read together with their votes; option counts are derived from them
+export const POLL_COLUMNS = '*, poll_votes(user_id, option_id, rank), poll_participants(user_id), anonymous_tallies(choices, votes), poll_answer_keys(correct_option_ids), poll_text_answers(user_id, answer, updated_at), anonymous_text_answers(answer)';
+
+export const mapPoll = (p: any): Poll => {
+  const { poll_votes, poll_participants, anonymous_tallies, poll_answer_keys, poll_text_answers, anonymous_text_answers, ...row } = p;
+  const pollType: PollType = row.poll_type || PollType.SINGLE;
+
+  // Legacy rows may still hold a UserId -> OptionId map (old array format is ignored).
+  // It is moved to poll_votes by fetchData; until then both sources are merged.
+  const votesMap: Record<string, string[]> = {};
+  if (row.voted_user_ids && !Array.isArray(row.voted_user_ids)) {
+      Object.entries(row.voted_user_ids).forEach(([userId, optionId]) => {
+          votesMap[userId] = [optionId as string];
+      });
+  }
+
+  const ballots: Record<string, any[]> = {};
+  (poll_votes || []).forEach((v: any) => {
+      (ballots[v.user_id] = ballots[v.user_id] || []).push(v);
+  });
+  Object.entries(ballots).forEach(([userId, rows]) => {
+      votesMap[userId] = rows.sort((a, b) => a.rank - b.rank).map(v => v.option_id);
+  });
+
+  // Anonymous polls: participants and aggregated tallies are unlinked, so no user -> choice map is exposed
+  let userVotes = votesMap;
+  let voterIds = Object.keys(votesMap);
+  let unlinkedBallots = Object.values(votesMap);
+  if (row.is_anonymous) {
+      userVotes = {};
+      voterIds = Array.from(new Set([...voterIds, ...(poll_participants || []).map((v: any) => v.user_id)]));
+      (anonymous_tallies || []).forEach((t: any) => {
+          for (let i = 0; i < t.votes; i++) unlinkedBallots.push(t.choices);
+      });
+  }
+
+  // Free-text answers: anonymous ones are sorted alphabetically so their order does not hint at who wrote them
+  let textAnswers: PollTextAnswer[];
+  if (row.is_anonymous) {
+      textAnswers = (anonymous_text_answers || [])
+        .map((a: any) => ({ answer: a.answer }))
+        .sort((a: PollTextAnswer, b: PollTextAnswer) => a.answer.localeCompare(b.answer));
+  } else {
+      const identified = (poll_text_answers || [])
+        .map((a: any) => ({ userId: a.user_id as string, answer: a.answer as string, updatedAt: new Date(a.updated_at) }))
+        .sort((a: { updatedAt: Date }, b: { updatedAt: Date }) => a.updatedAt.getTime() - b.updatedAt.getTime());
+      voterIds = Array.from(new Set([...voterIds, ...identified.map((a: { userId: string }) => a.userId)]));
+      textAnswers = identified;
+  }
+
+  // Quiz answer key, only readable by managers until the question closes (one-to-one embed: object or array)
+  const answerKey = Array.isArray(poll_answer_keys) ? poll_answer_keys[0] : poll_answer_keys;
+  const correctIds: string[] | undefined = answerKey?.correct_option_ids;
+  const options = tallyOptions(row.options || [], unlinkedBallots, pollType).map(o => {
+      const { isCorrect: _stored, ...option } = o;
+      return correctIds ? { ...option, isCorrect: correctIds.includes(o.id) } : option;
+  });
+
+  return {
+    ...row,
+    pollType,
+    maxSelections: row.max_selections ?? undefined,
+    scaleMax: row.scale_max ?? undefined,
+    isAnonymous: row.is_anonymous,
+    createdAt: new Date(row.created_at),
+    opensAt: new Date(row.opens_at || row.created_at),
+    expiresAt: new Date(row.expires_at),
+    createdById: row.created_by_id,
+    userVotes,
+    voterIds,
+    ballots: unlinkedBallots,
+    textAnswers,
+    targetClass: row.target_class,
+    quizId: row.quiz_id ?? undefined,
+    quizPosition: row.quiz_position ?? undefined,
+    surveyId: row.survey_id ?? undefined,
+    surveyPosition: row.survey_position ?? undefined,
+    options
+  };
+};
+
+// Options as stored on the polls row: quiz answers live in poll_answer_keys, never in the readable JSON
+export const toPollOptionsRow = (options: PollOption[]) =>
+  options.map(({ isCorrect: _isCorrect, ...option }) => option);
+
+export const hasLegacyVotes = (p: any): boolean =>
+  !!p.voted_user_ids && !Array.isArray(p.voted_user_ids) && Object.keys(p.voted_user_ids).length > 0;
+
+export const SURVEY_COLUMNS = '*, survey_submissions(user_id)';
+
+export const mapSurvey = (s: any): Survey => ({
+  id: s.id,
+  title: s.title,
+  description: s.description ?? undefined,
+  targetClass: s.target_class ?? undefined,
+  isAnonymous: s.is_anonymous,
+  opensAt: new Date(s.opens_at || s.created_at),
+  expiresAt: new Date(s.expires_at),
+  createdById: s.created_by_id,
+  createdAt: new Date(s.created_at),
+  respondentIds: (s.survey_submissions || []).map((r: any) => r.user_id)
+});
+
+export const mapQuiz = (q: any): Quiz => ({
+  id: q.id,
+  title: q.title,
+  description: q.description ?? undefined,
+  targetClass: q.target_class ?? undefined,
+  opensAt: new Date(q.opens_at || q.created_at),
+  expiresAt: new Date(q.expires_at),
+  createdById: q.created_by_id,
+  createdAt: new Date(q.created_at)
+});
+
+export const mapQuizScore = (s: any): QuizScore => ({
+  quizId: s.quiz_id,
+  userId: s.user_id,
+  score: s.score,
+  maxScore: s.max_score
+});
+
+export const mapPollReminder = (r: any): PollReminder => ({
+  id: r.id,
+  pollId: r.poll_id,
+  userId: r.user_id,
+  sentById: r.sent_by_id,
+  createdAt: new Date(r.created_at)
+});
+
+export const mapPollTemplate = (t: any): PollTemplate => ({
+  id: t.id,
+  title: t.title,
+  options: Array.isArray(t.options) ? t.options : [],
+  pollType: t.poll_type,
+  maxSelections: t.max_selections ?? undefined,
+  scaleMax: t.scale_max ?? undefined,
+  isAnonymous: t.is_anonymous,
+  scope: t.scope,
+  createdById: t.created_by_id ?? undefined,
+  createdAt: new Date(t.created_at)
+});
+
+export const mapResource = (r: any): Resource => ({
+  ...r,
+  targetClass: r.target_class,
+  createdAt: new Date(r.created_at),
+  createdById: r.created_by_id
+});
+
+export const mapClassGroup = (c: any): ClassGroup => ({
+  id: c.id,
+  name: c.name
+});
+
+export const mapRoom = (r: any): Room => ({
+  id: r.id,
+  name: r.name,
+  rows: r.rows,
+  seatsPerRow: r.seats_per_row,
+  capacity: r.capacity
+});
+
+export const mapExamSeat = (s: any): ExamSeat => ({
+  examId: s.exam_id,
+  studentId: s.student_id,
+  roomId: s.room_id,
+  row: s.row_number,
+  seat: s.seat_number
+});
+
+export const mapExamInvigilator = (i: any): ExamInvigilator => ({
+  examId: i.exam_id,
+  userId: i.user_id
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { TemplateScope, User, UserRole } from '../types';
+import { can } from './permissions';
+
+const admin: User = { id: 'u-admin', name: 'Admin', email: 'admin@ecole.fr', role: UserRole.ADMIN };
+const responsable: User = { id: 'u-resp', name: 'Resp', email: 'resp@ecole.fr', role: UserRole.RESPONSABLE, classGroup: 'Terminale A' };
+const student: User = { id: 'u-eleve', name: 'Élève', email: 'eleve@ecole.fr', role: UserRole.ELEVE, classGroup: 'Terminale A' };
+
+describe('can', () => {
+  it('refuses everything without a user', () => {
+    expect(can(null, 'view', 'poll', {})).toBe(false);
+    expect(can(undefined, 'view', 'classGroup')).toBe(false);
+  });
+
+  it('shows students school-wide items and those of their own class only', () => {
+    expect(can(student, 'view', 'exam', {})).toBe(true);
+    expect(can(student, 'view', 'exam', { targetClass: 'Terminale A' })).toBe(true);
+    expect(can(student, 'view', 'exam', { targetClass: 'Terminale B' })).toBe(false);
+    expect(can(responsable, 'view', 'exam', { targetClass: 'Terminale B' })).toBe(true);
+  });
+
+  it('lets responsables create for their own class only', () => {
+    expect(can(responsable, 'create', 'poll')).toBe(true);
+    expect(can(responsable, 'create', 'poll', { targetClass: 'Terminale A' })).toBe(true);
+    expect(can(responsable, 'create', 'poll', { targetClass: 'Terminale B' })).toBe(false);
+    expect(can(responsable, 'create', 'poll', {})).toBe(false);
+    expect(can(admin, 'create', 'poll', {})).toBe(true);
+    expect(can(student, 'create', 'poll')).toBe(false);
+  });
+
+  it('lets the creator or the responsable of the class manage an item', () => {
+    const otherClassPoll = { targetClass: 'Terminale B', createdById: responsable.id };
+    expect(can(responsable, 'update', 'poll', otherClassPoll)).toBe(true);
+    expect(can(responsable, 'delete', 'poll', { targetClass: 'Terminale A', createdById: 'someone' })).toBe(true);
+    expect(can(responsable, 'delete', 'poll', { targetClass: 'Terminale B', createdById: 'someone' })).toBe(false);
+    expect(can(responsable, 'update', 'announcement', { authorId: responsable.id })).toBe(true);
+    expect(can(responsable, 'update', 'poll')).toBe(false);
+    expect(can(student, 'update', 'poll', { targetClass: 'Terminale A', createdById: 'someone' })).toBe(false);
+  });
+
+  it('only lets people vote on polls and surveys they can see', () => {
+    expect(can(student, 'vote', 'poll', { targetClass: 'Terminale A' })).toBe(true);
+    expect(can(student, 'vote', 'poll', { targetClass: 'Terminale B' })).toBe(false);
+    expect(can(student, 'vote', 'survey', { targetClass: 'Terminale B' })).toBe(false);
+    expect(can(student, 'vote', 'exam', {})).toBe(false);
+    expect(can(admin, 'vote', 'poll', {})).toBe(true);
+    expect(can(admin, 'vote', 'resource', {})).toBe(false);
+  });
+
+  it('keeps account and school management to admins', () => {
+    expect(can(student, 'view', 'user', { id: student.id })).toBe(true);
+    expect(can(student, 'view', 'user', { id: admin.id })).toBe(false);
+    expect(can(responsable, 'update', 'user', { id: student.id })).toBe(false);
+    expect(can(admin, 'delete', 'user', { id: student.id })).toBe(true);
+    expect(can(student, 'view', 'settings')).toBe(true);
+    expect(can(responsable, 'update', 'settings')).toBe(false);
+    expect(can(admin, 'update', 'settings')).toBe(true);
+    expect(can(responsable, 'create', 'room')).toBe(false);
+  });
+
+  it('leaves school-wide templates to admins and personal ones to their author', () => {
+    expect(can(student, 'view', 'pollTemplate')).toBe(false);
+    expect(can(responsable, 'create', 'pollTemplate', { scope: TemplateScope.PERSONAL })).toBe(true);
+    expect(can(responsable, 'create', 'pollTemplate', { scope: TemplateScope.SCHOOL })).toBe(false);
+    expect(can(responsable, 'delete', 'pollTemplate', { createdById: responsable.id })).toBe(true);
+    expect(can(responsable, 'delete', 'pollTemplate', { createdById: admin.id })).toBe(false);
+    expect(can(admin, 'delete', 'pollTemplate', { createdById: responsable.id })).toBe(true);
+  });
+});
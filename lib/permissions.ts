@@ -0,0 +1,105 @@
+import { User, UserRole, Announcement, Exam, ExamSeries, Poll, PollTemplate, TemplateScope, Quiz, Survey, Resource, ClassGroup, Room, SchoolSettings } from '../types';
+
+// Single source of truth for "who may do what". Components use it to show actions,
+// App.tsx mutations use it to refuse forbidden writes.
+
+export type PermissionAction = 'view' | 'create' | 'update' | 'delete' | 'vote';
+
+interface PermissionTargets {
+  announcement: Announcement;
+  exam: Exam;
+  examSeries: ExamSeries;
+  poll: Poll;
+  quiz: Quiz;
+  survey: Survey;
+  pollTemplate: PollTemplate;
+  resource: Resource;
+  user: User;
+  classGroup: ClassGroup;
+  room: Room;
+  settings: SchoolSettings;
+}
+
+export type PermissionResource = keyof PermissionTargets;
+
+export type PermissionTarget<R extends PermissionResource> = Partial<PermissionTargets[R]>;
+
+type ClassScopedResource = 'announcement' | 'exam' | 'examSeries' | 'poll' | 'quiz' | 'survey' | 'resource';
+
+const CLASS_SCOPED: PermissionResource[] = ['announcement', 'exam', 'examSeries', 'poll', 'quiz', 'survey', 'resource'];
+
+const isStaff = (user: User) => user.role === UserRole.ADMIN || user.role === UserRole.RESPONSABLE;
+
+const ownerOf = (resource: ClassScopedResource, item: Partial<PermissionTargets[ClassScopedResource]>): string | undefined =>
+  resource === 'announcement'
+    ? (item as Partial<Announcement>).authorId
+    : (item as Partial<Exam | ExamSeries | Poll | Quiz | Survey | Resource>).createdById;
+
+// Class-scoped content (announcements, exams and exam series, polls, quizzes, surveys, resources):
+// - view/vote: staff see everything, students only school-wide items and their own class
+// - create: admins anywhere; responsables only for their own class
+// - update/delete: admins, the creator, or the responsable of the targeted class
+const canOnClassScoped = (
+  user: User,
+  action: PermissionAction,
+  resource: ClassScopedResource,
+  item?: Partial<PermissionTargets[ClassScopedResource]>
+): boolean => {
+  if (user.role === UserRole.ADMIN) return action !== 'vote' || resource === 'poll' || resource === 'survey';
+
+  const targetClass = item?.targetClass;
+  const isOwnClass = !!user.classGroup && targetClass === user.classGroup;
+
+  switch (action) {
+    case 'view':
+      return isStaff(user) || !targetClass || isOwnClass;
+    case 'vote':
+      return (resource === 'poll' || resource === 'survey') && (isStaff(user) || !targetClass || isOwnClass);
+    case 'create':
+      // Without a target we only answer "may this user create anything at all?"
+      if (!item) return user.role === UserRole.RESPONSABLE;
+      return user.role === UserRole.RESPONSABLE && isOwnClass;
+    case 'update':
+    case 'delete':
+      if (!item) return false;
+      return (!!ownerOf(resource, item) && ownerOf(resource, item) === user.id) ||
+             (user.role === UserRole.RESPONSABLE && isOwnClass);
+  }
+};
+
+export const can = <R extends PermissionResource>(
+  user: User | null | undefined,
+  action: PermissionAction,
+  resource: R,
+  item?: PermissionTarget<R>
+): boolean => {
+  if (!user) return false;
+
+  if (CLASS_SCOPED.includes(resource)) {
+    return canOnClassScoped(user, action, resource as ClassScopedResource, item as Partial<PermissionTargets[ClassScopedResource]>);
+  }
+
+  switch (resource) {
+    case 'classGroup':
+    case 'room':
+      // School structure: visible to everyone, managed by admins
+      return action === 'view' || user.role === UserRole.ADMIN;
+    case 'user':
+      // Everyone may read their own profile; account management is admin-only
+      if (action === 'view' && item && (item as Partial<User>).id === user.id) return true;
+      return user.role === UserRole.ADMIN && action !== 'vote';
+    case 'settings':
+      return action === 'view' || (action === 'update' && user.role === UserRole.ADMIN);
+    case 'pollTemplate': {
+      // Staff use templates; school-wide ones are managed by admins, personal ones by their author
+      if (!isStaff(user)) return false;
+      const template = item as Partial<PollTemplate> | undefined;
+      if (action === 'view') return true;
+      if (action === 'create') return template?.scope !== TemplateScope.SCHOOL || user.role === UserRole.ADMIN;
+      if (action === 'delete') return user.role === UserRole.ADMIN || (!!template?.createdById && template.createdById === user.id);
+      return false;
+    }
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { toCsvLine } from './pollExport';
+
+describe('toCsvLine', () => {
+  it('quotes cells holding separators, quotes or line breaks', () => {
+    expect(toCsvLine(['Sondage', 'Sortie; "musée"', 'ligne 1\nligne 2', 12])).toBe('Sondage;"Sortie; ""musée""";"ligne 1\nligne 2";12');
+  });
+
+  it('neutralises text that a spreadsheet would run as a formula', () => {
+    expect(toCsvLine(['=HYPERLINK("http://x")', '+33 6', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd'])).toBe(
+      `"'=HYPERLINK(""http://x"")";"'+33 6";"'-2+3";"'@SUM(A1)";"'\tcmd";"'\rcmd"`
+    );
+  });
+
+  it('leaves numbers untouched, negative ones included', () => {
+    expect(toCsvLine([-2, 0, 3.5])).toBe('-2;0;3.5');
+  });
+});
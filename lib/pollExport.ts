@@ -0,0 +1,125 @@
+import { Poll, PollType, User, UserRole } from '../types';
+import { countVoters, computeRankedResult, computeScaleSummary } from './pollResults';
+
+// Results report shared by the CSV export and the printable report in Polls.tsx
+
+export interface PollReportOption {
+  text: string;
+  votes: number;
+  percentage: number; // Share of the voters
+}
+
+export interface PollReportVoter {
+  name: string;
+  classGroup: string;
+  choices: string; // Ranked choices are joined in order of preference, the answer itself for text polls
+}
+
+export interface PollReport {
+  options: PollReportOption[];
+  voters: number;
+  eligible: number; // Students of the target class (whole school without one)
+  participationRate: number | null; // null without eligible students
+  winner?: string; // Ranked polls: instant-runoff winner, undefined on a tie
+  average?: number | null; // Scale polls: mean grade, null without votes
+  answers: string[]; // Text polls: the answers without their authors
+  voterRows: PollReportVoter[]; // Empty for anonymous polls
+}
+
+export const buildPollReport = (poll: Poll, users: User[]): PollReport => {
+  const voters = countVoters(poll);
+  const optionText = (id: string) => poll.options.find(o => o.id === id)?.text || '?';
+
+  const eligible = users.filter(u =>
+    u.role === UserRole.ELEVE && (!poll.targetClass || u.classGroup === poll.targetClass)
+  ).length;
+
+  const isText = poll.pollType === PollType.TEXT;
+  const toVoterRow = (userId: string, choices: string): PollReportVoter => {
+    const user = users.find(u => u.id === userId);
+    return { name: user?.name || 'Utilisateur inconnu', classGroup: user?.classGroup || '', choices };
+  };
+
+  const voterRows = poll.isAnonymous ? [] : (isText
+    ? poll.textAnswers.flatMap(a => a.userId ? [toVoterRow(a.userId, a.answer)] : [])
+    : Object.entries(poll.userVotes || {}).map(([userId, optionIds]) =>
+        toVoterRow(userId, optionIds.map(optionText).join(poll.pollType === PollType.RANKED ? ' > ' : ', '))
+      )
+  ).sort((a, b) => a.name.localeCompare(b.name));
+
+  let winner: string | undefined;
+  if (poll.pollType === PollType.RANKED) {
+    const { winnerId } = computeRankedResult(poll);
+    winner = winnerId ? optionText(winnerId) : undefined;
+  }
+
+  return {
+    options: poll.options.map(o => ({
+      text: o.text,
+      votes: o.votes,
+      percentage: voters > 0 ? Math.round((o.votes / voters) * 100) : 0
+    })),
+    voters,
+    eligible,
+    participationRate: eligible > 0 ? Math.round((voters / eligible) * 100) : null,
+    winner,
+    average: poll.pollType === PollType.SCALE ? computeScaleSummary(poll).average : undefined,
+    answers: isText ? poll.textAnswers.map(a => a.answer) : [],
+    voterRows
+  };
+};
+
+// Semicolon separated with a BOM: opens directly in a French Excel.
+// Text starting like a formula (titles, names and answers are user input) is neutralised with a leading quote.
+export const toCsvLine = (cells: (string | number)[]) =>
+  cells.map(cell => {
+    if (typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell)) return `"'${cell.replace(/"/g, '""')}"`;
+    const value = String(cell);
+    return /[";\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }).join(';');
+
+export const buildPollCsv = (poll: Poll, report: PollReport): string => {
+  const isRanked = poll.pollType === PollType.RANKED;
+  const isText = poll.pollType === PollType.TEXT;
+  const isScale = poll.pollType === PollType.SCALE;
+  const lines = [
+    toCsvLine(['Sondage', poll.title]),
+    toCsvLine(['Cible', poll.targetClass || "Toute l'école"]),
+    toCsvLine(['Participants', report.voters]),
+    toCsvLine(['Participation', report.participationRate !== null ? `${report.participationRate}% (${report.voters}/${report.eligible})` : '-']),
+    ...(isRanked ? [toCsvLine(['Vainqueur (vote préférentiel)', report.winner || 'Égalité'])] : []),
+    ...(isScale ? [toCsvLine(['Moyenne', report.average != null ? `${String(report.average).replace('.', ',')}/${poll.scaleMax}` : '-'])] : [])
+  ];
+
+  if (!isText) {
+    lines.push(
+      '',
+      toCsvLine([isScale ? 'Note' : 'Option', isRanked ? 'Premiers choix' : 'Votes', 'Pourcentage']),
+      ...report.options.map(o => toCsvLine([o.text, o.votes, `${o.percentage}%`]))
+    );
+  } else if (poll.isAnonymous) {
+    lines.push('', toCsvLine(['Réponse']), ...report.answers.map(a => toCsvLine([a])));
+  }
+
+  if (!poll.isAnonymous) {
+    lines.push('', toCsvLine(['Votant', 'Classe', isText ? 'Réponse' : isRanked ? 'Classement' : 'Choix']));
+    report.voterRows.forEach(v => lines.push(toCsvLine([v.name, v.classGroup, v.choices])));
+  }
+
+  return '\uFEFF' + lines.join('\r\n');
+};
+
+export const downloadTextFile = (filename: string, content: string, mimeType = 'text/csv;charset=utf-8') => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// File-system safe name from the poll title
+export const pollExportFilename = (poll: Poll, extension: string) =>
+  `sondage-${poll.title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || poll.id}.${extension}`;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { instantRunoff } from './pollResults';
+
+describe('instantRunoff', () => {
+  it('elects an option with a first-round majority', () => {
+    const result = instantRunoff([['a', 'b'], ['a'], ['b', 'a']], ['a', 'b', 'c']);
+    expect(result.winnerId).toBe('a');
+    expect(result.rounds).toHaveLength(1);
+    expect(result.rounds[0].counts).toEqual({ a: 2, b: 1, c: 0 });
+  });
+
+  it('transfers the ballots of eliminated options to the next preference', () => {
+    const ballots = [['a'], ['a'], ['b'], ['b'], ['c', 'b']];
+    const result = instantRunoff(ballots, ['a', 'b', 'c']);
+    expect(result.rounds[0].eliminated).toEqual(['c']);
+    expect(result.rounds[1].counts).toEqual({ a: 2, b: 3 });
+    expect(result.winnerId).toBe('b');
+  });
+
+  it('eliminates every option tied for last place at once', () => {
+    const result = instantRunoff([['a'], ['a'], ['b'], ['b'], ['c'], ['d']], ['a', 'b', 'c', 'd']);
+    expect(result.rounds[0].eliminated).toEqual(['c', 'd']);
+    expect(result.rounds[1].counts).toEqual({ a: 2, b: 2 });
+  });
+
+  it('counts ballots left without any remaining option as exhausted', () => {
+    const ballots = [['a'], ['a'], ['b'], ['b'], ['c']];
+    const result = instantRunoff(ballots, ['a', 'b', 'c']);
+    expect(result.rounds[1].exhausted).toBe(1);
+  });
+
+  it('reports a tie between all remaining options', () => {
+    const result = instantRunoff([['a'], ['b']], ['a', 'b']);
+    expect(result.winnerId).toBeNull();
+    expect(result.rounds[0].eliminated).toEqual([]);
+  });
+
+  it('has no winner without ballots', () => {
+    const result = instantRunoff([], ['a', 'b']);
+    expect(result.winnerId).toBeNull();
+    expect(result.rounds).toEqual([{ counts: { a: 0, b: 0 }, eliminated: [], exhausted: 0 }]);
+  });
+});
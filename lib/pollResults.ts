@@ -0,0 +1,138 @@
+import { Poll, PollOption, PollType } from '../types';
+
+// Result computation for every poll type. Ballots are the option ids chosen by one voter,
+// in order of preference for ranked polls.
+
+// Selections per option; ranked polls only count first choices here (see instantRunoff for the outcome)
+export const tallyOptions = (options: PollOption[], ballots: string[][], pollType: PollType): PollOption[] => {
+  const counts: Record<string, number> = {};
+  ballots.forEach(ballot => {
+    const counted = pollType === PollType.RANKED ? ballot.slice(0, 1) : ballot;
+    counted.forEach(optionId => {
+      counts[optionId] = (counts[optionId] || 0) + 1;
+    });
+  });
+  return options.map(o => ({ ...o, votes: counts[o.id] || 0 }));
+};
+
+export const countVoters = (poll: Poll): number => (poll.voterIds || []).length;
+
+// Local copy of the poll with the user's ballot applied (optimistic updates; the server stays authoritative).
+// Anonymous ballots are added unlinked, identified ones replace the user's previous ballot.
+export const withBallot = (poll: Poll, userId: string, optionIds: string[]): Poll => {
+  if (poll.isAnonymous) {
+    const ballots = [...poll.ballots, optionIds];
+    return {
+      ...poll,
+      voterIds: [...poll.voterIds, userId],
+      ballots,
+      options: tallyOptions(poll.options, ballots, poll.pollType)
+    };
+  }
+  const userVotes = { ...(poll.userVotes || {}), [userId]: optionIds };
+  const ballots = Object.values(userVotes);
+  return {
+    ...poll,
+    userVotes,
+    voterIds: Array.from(new Set([...poll.voterIds, ...Object.keys(userVotes)])),
+    ballots,
+    options: tallyOptions(poll.options, ballots, poll.pollType)
+  };
+};
+
+export const withTextAnswer = (poll: Poll, userId: string, answer: string): Poll => ({
+  ...poll,
+  voterIds: Array.from(new Set([...poll.voterIds, userId])),
+  textAnswers: poll.isAnonymous
+    ? [...poll.textAnswers, { answer }]
+    : [...poll.textAnswers.filter(a => a.userId !== userId), { userId, answer, updatedAt: new Date() }]
+});
+
+export const hasUserVoted = (poll: Poll, userId: string): boolean => (poll.voterIds || []).includes(userId);
+
+// Most options a voter may select (ranked ballots may order every option)
+export const getMaxSelections = (poll: Pick<Poll, 'pollType' | 'maxSelections' | 'options'>): number => {
+  if (poll.pollType === PollType.SINGLE || poll.pollType === PollType.SCALE) return 1;
+  if (poll.pollType === PollType.MULTIPLE && poll.maxSelections) return Math.min(poll.maxSelections, poll.options.length);
+  return poll.options.length;
+};
+
+export interface RunoffRound {
+  counts: Record<string, number>; // Votes of the options still in the race
+  eliminated: string[];
+  exhausted: number; // Ballots without any remaining option
+}
+
+export interface RunoffResult {
+  rounds: RunoffRound[];
+  winnerId: string | null; // null on a tie between all remaining options or without ballots
+}
+
+// Instant-runoff: each ballot counts for its highest-ranked remaining option; an option with
+// a majority of the active ballots wins, otherwise all options tied for last place are eliminated.
+export const instantRunoff = (ballots: string[][], optionIds: string[]): RunoffResult => {
+  const rounds: RunoffRound[] = [];
+  let remaining = [...optionIds];
+
+  while (remaining.length > 0) {
+    const counts: Record<string, number> = {};
+    remaining.forEach(id => { counts[id] = 0; });
+
+    let exhausted = 0;
+    ballots.forEach(ballot => {
+      const choice = ballot.find(id => id in counts);
+      if (choice) counts[choice] += 1;
+      else exhausted += 1;
+    });
+
+    const active = ballots.length - exhausted;
+    if (active === 0) {
+      rounds.push({ counts, eliminated: [], exhausted });
+      return { rounds, winnerId: null };
+    }
+
+    const leader = remaining.reduce((best, id) => (counts[id] > counts[best] ? id : best));
+    if (counts[leader] * 2 > active || remaining.length === 1) {
+      rounds.push({ counts, eliminated: [], exhausted });
+      return { rounds, winnerId: leader };
+    }
+
+    const lowest = Math.min(...remaining.map(id => counts[id]));
+    const eliminated = remaining.filter(id => counts[id] === lowest);
+    rounds.push({ counts, eliminated: eliminated.length === remaining.length ? [] : eliminated, exhausted });
+    if (eliminated.length === remaining.length) return { rounds, winnerId: null };
+
+    remaining = remaining.filter(id => !eliminated.includes(id));
+  }
+
+  return { rounds, winnerId: null };
+};
+
+export const computeRankedResult = (poll: Poll): RunoffResult =>
+  instantRunoff(poll.ballots || [], poll.options.map(o => o.id));
+
+export const SCALE_SIZES = [5, 10];
+
+// Grades of a rating scale as options; stable ids keep the votes when the poll is edited
+export const buildScaleOptions = (scaleMax: number): PollOption[] =>
+  Array.from({ length: scaleMax }, (_, idx) => ({ id: `scale-${idx + 1}`, text: String(idx + 1), votes: 0 }));
+
+export interface ScaleSummary {
+  average: number | null; // null without votes, rounded to one decimal
+  distribution: { value: number; votes: number; percentage: number }[];
+  responses: number;
+}
+
+export const computeScaleSummary = (poll: Poll): ScaleSummary => {
+  const responses = poll.options.reduce((sum, o) => sum + o.votes, 0);
+  const total = poll.options.reduce((sum, o) => sum + Number(o.text) * o.votes, 0);
+  return {
+    average: responses > 0 ? Math.round((total / responses) * 10) / 10 : null,
+    distribution: poll.options.map(o => ({
+      value: Number(o.text),
+      votes: o.votes,
+      percentage: responses > 0 ? Math.round((o.votes / responses) * 100) : 0
+    })),
+    responses
+  };
+};
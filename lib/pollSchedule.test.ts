@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { areResultsSealed, formatCountdown, getPollStatus, isPollOpen } from './pollSchedule';
+
+const schedule = {
+  opensAt: new Date('2026-11-16T08:00:00.000Z'),
+  expiresAt: new Date('2026-11-18T08:00:00.000Z')
+};
+
+describe('getPollStatus', () => {
+  it('opens at opensAt and closes at expiresAt', () => {
+    expect(getPollStatus(schedule, new Date('2026-11-16T07:59:59.000Z'))).toBe('UPCOMING');
+    expect(getPollStatus(schedule, new Date('2026-11-16T08:00:00.000Z'))).toBe('OPEN');
+    expect(getPollStatus(schedule, new Date('2026-11-18T07:59:59.000Z'))).toBe('OPEN');
+    expect(getPollStatus(schedule, new Date('2026-11-18T08:00:00.000Z'))).toBe('CLOSED');
+  });
+
+  it('only lets people vote while the poll is open', () => {
+    expect(isPollOpen(schedule, new Date('2026-11-17T12:00:00.000Z'))).toBe(true);
+    expect(isPollOpen(schedule, new Date('2026-11-19T12:00:00.000Z'))).toBe(false);
+  });
+});
+
+describe('areResultsSealed', () => {
+  it('seals anonymous results until the poll closes', () => {
+    const anonymous = { ...schedule, isAnonymous: true };
+    expect(areResultsSealed(anonymous, new Date('2026-11-17T12:00:00.000Z'))).toBe(true);
+    expect(areResultsSealed(anonymous, new Date('2026-11-18T08:00:00.000Z'))).toBe(false);
+    expect(areResultsSealed({ ...schedule, isAnonymous: false }, new Date('2026-11-17T12:00:00.000Z'))).toBe(false);
+  });
+});
+
+describe('formatCountdown', () => {
+  const now = new Date('2026-11-16T08:00:00.000Z');
+  const inMinutes = (minutes: number) => new Date(now.getTime() + minutes * 60000);
+
+  it('keeps the two largest units', () => {
+    expect(formatCountdown(inMinutes(2 * 24 * 60 + 5 * 60 + 30), now)).toBe('2 j 5 h');
+    expect(formatCountdown(inMinutes(3 * 60 + 12), now)).toBe('3 h 12 min');
+    expect(formatCountdown(inMinutes(45), now)).toBe('45 min');
+  });
+
+  it('shows the last minute and past dates as less than a minute', () => {
+    expect(formatCountdown(new Date(now.getTime() + 59000), now)).toBe('< 1 min');
+    expect(formatCountdown(inMinutes(-10), now)).toBe('< 1 min');
+  });
+});
@@ -0,0 +1,35 @@
+import { format } from 'date-fns';
+import { Poll } from '../types';
+
+// Voting window of a poll: open from opensAt (inclusive) until expiresAt (exclusive).
+// The cast_vote RPC enforces the same window server-side.
+
+export type PollStatus = 'UPCOMING' | 'OPEN' | 'CLOSED';
+
+export const getPollStatus = (poll: Pick<Poll, 'opensAt' | 'expiresAt'>, now: Date = new Date()): PollStatus => {
+  if (now.getTime() < new Date(poll.opensAt).getTime()) return 'UPCOMING';
+  if (now.getTime() >= new Date(poll.expiresAt).getTime()) return 'CLOSED';
+  return 'OPEN';
+};
+
+export const isPollOpen = (poll: Pick<Poll, 'opensAt' | 'expiresAt'>, now: Date = new Date()): boolean =>
+  getPollStatus(poll, now) === 'OPEN';
+
+// Anonymous results are only served once the poll is closed (see anonymous_tallies_select)
+export const areResultsSealed = (poll: Pick<Poll, 'isAnonymous' | 'opensAt' | 'expiresAt'>, now: Date = new Date()): boolean =>
+  poll.isAnonymous && getPollStatus(poll, now) !== 'CLOSED';
+
+// Compact French countdown: "2 j 5 h", "3 h 12 min", "45 min", "< 1 min"
+export const formatCountdown = (target: Date, now: Date = new Date()): string => {
+  const totalMinutes = Math.floor((new Date(target).getTime() - now.getTime()) / 60000);
+  if (totalMinutes < 1) return '< 1 min';
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days} j ${hours} h`;
+  if (hours > 0) return `${hours} h ${minutes} min`;
+  return `${minutes} min`;
+};
+
+// datetime-local inputs work in local time (YYYY-MM-DDTHH:mm)
+export const toDateTimeInputValue = (date: Date): string => format(date, "yyyy-MM-dd'T'HH:mm");
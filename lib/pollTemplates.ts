@@ -0,0 +1,25 @@
+import { Poll, PollTemplate, PollType, TemplateScope } from '../types';
+
+// Templates and duplicates carry a poll's definition only: no ids, votes, window or target.
+
+export type PollDefinition = Pick<PollTemplate, 'title' | 'options' | 'pollType' | 'maxSelections' | 'scaleMax' | 'isAnonymous'>;
+
+export const TEMPLATE_SCOPE_LABELS: Record<TemplateScope, string> = {
+  [TemplateScope.SCHOOL]: "Modèles de l'école",
+  [TemplateScope.PERSONAL]: 'Mes modèles'
+};
+
+// Scale grades are rebuilt from scaleMax and text polls have no options, so only written options are kept
+export const toPollDefinition = (poll: Poll): PollDefinition => ({
+  title: poll.title,
+  options: poll.pollType === PollType.SCALE || poll.pollType === PollType.TEXT ? [] : poll.options.map(o => o.text),
+  pollType: poll.pollType,
+  maxSelections: poll.pollType === PollType.MULTIPLE ? poll.maxSelections : undefined,
+  scaleMax: poll.pollType === PollType.SCALE ? poll.scaleMax : undefined,
+  isAnonymous: poll.isAnonymous
+});
+
+export const groupTemplatesByScope = (templates: PollTemplate[]): [TemplateScope, PollTemplate[]][] =>
+  [TemplateScope.SCHOOL, TemplateScope.PERSONAL]
+    .map(scope => [scope, templates.filter(t => t.scope === scope)] as [TemplateScope, PollTemplate[]])
+    .filter(([, list]) => list.length > 0);
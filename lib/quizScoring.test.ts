@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Poll, PollType, Quiz, User, UserRole } from '../types';
+import { buildQuizScoreTable, getQuizQuestions, isAnswerCorrect } from './quizScoring';
+
+const quiz: Quiz = {
+  id: 'q1',
+  title: 'Vocabulaire',
+  targetClass: 'Terminale A',
+  opensAt: new Date('2026-11-16T08:00:00.000Z'),
+  expiresAt: new Date('2026-11-16T09:00:00.000Z'),
+  createdById: 'u-resp',
+  createdAt: new Date('2026-11-15T08:00:00.000Z')
+};
+
+const student = (id: string, name: string, classGroup = 'Terminale A'): User => ({
+  id, name, email: `${id}@ecole.fr`, role: UserRole.ELEVE, classGroup
+});
+
+// Options a (correct) and b; the answer key is left out with withKey = false
+const question = (id: string, quizPosition: number, userVotes: Record<string, string[]>, withKey = true): Poll => ({
+  id,
+  title: id,
+  options: [
+    { id: `${id}-a`, text: 'A', votes: 0, ...(withKey ? { isCorrect: true } : {}) },
+    { id: `${id}-b`, text: 'B', votes: 0, ...(withKey ? { isCorrect: false } : {}) }
+  ],
+  pollType: PollType.QUIZ,
+  isAnonymous: false,
+  createdAt: quiz.createdAt,
+  opensAt: quiz.opensAt,
+  expiresAt: quiz.expiresAt,
+  createdById: quiz.createdById,
+  userVotes,
+  voterIds: Object.keys(userVotes),
+  ballots: [],
+  textAnswers: [],
+  targetClass: quiz.targetClass,
+  quizId: quiz.id,
+  quizPosition
+});
+
+describe('getQuizQuestions', () => {
+  it('keeps the questions of the quiz in their order', () => {
+    const other = { ...question('x', 0, {}), quizId: 'q2' };
+    expect(getQuizQuestions(quiz, [question('q1-2', 2, {}), other, question('q1-1', 1, {})]).map(q => q.id)).toEqual(['q1-1', 'q1-2']);
+  });
+});
+
+describe('isAnswerCorrect', () => {
+  it('checks the answer against the key', () => {
+    const q = question('q', 1, { alice: ['q-a'], bob: ['q-b'] });
+    expect(isAnswerCorrect(q, 'alice')).toBe(true);
+    expect(isAnswerCorrect(q, 'bob')).toBe(false);
+  });
+
+  it('tells a missing answer from an unknown key', () => {
+    expect(isAnswerCorrect(question('q', 1, {}), 'alice')).toBeNull();
+    expect(isAnswerCorrect(question('q', 1, { alice: ['q-a'] }, false), 'alice')).toBeUndefined();
+  });
+});
+
+describe('buildQuizScoreTable', () => {
+  it('lists the students of the class and anyone who answered, with the success rate per question', () => {
+    const users = [student('bob', 'Bob'), student('alice', 'Alice'), student('zoe', 'Zoé', 'Terminale B'), student('carl', 'Carl', 'Terminale B')];
+    const questions = [
+      question('q1', 1, { alice: ['q1-a'], bob: ['q1-b'], zoe: ['q1-a'] }),
+      question('q2', 2, { alice: ['q2-a'] })
+    ];
+
+    const { rows, questionSuccessRates } = buildQuizScoreTable(quiz, questions, users);
+
+    expect(rows.map(r => [r.user.id, r.correct, r.answered])).toEqual([['alice', 2, 2], ['bob', 0, 1], ['zoe', 1, 1]]);
+    expect(rows[1].answers).toEqual([false, null]);
+    expect(questionSuccessRates).toEqual([67, 100]);
+  });
+
+  it('has no success rate for a question nobody answered', () => {
+    expect(buildQuizScoreTable(quiz, [question('q1', 1, {})], [student('alice', 'Alice')]).questionSuccessRates).toEqual([null]);
+  });
+});
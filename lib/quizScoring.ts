@@ -0,0 +1,56 @@
+import { Poll, Quiz, User, UserRole } from '../types';
+
+// Client-side view of quiz answers. The authoritative scores are computed by the database (quiz_scores);
+// correct answers are only known here when the answer key is readable (managers, or closed questions).
+
+export const getQuizQuestions = (quiz: Quiz, polls: Poll[]): Poll[] =>
+  polls
+    .filter(p => p.quizId === quiz.id)
+    .sort((a, b) => (a.quizPosition ?? 0) - (b.quizPosition ?? 0));
+
+export const hasAnswerKey = (question: Poll): boolean => question.options.some(o => o.isCorrect !== undefined);
+
+// true / false once the answer key is known, undefined otherwise, null without an answer
+export const isAnswerCorrect = (question: Poll, userId: string): boolean | null | undefined => {
+  const answer = question.userVotes?.[userId]?.[0];
+  if (!answer) return null;
+  if (!hasAnswerKey(question)) return undefined;
+  return !!question.options.find(o => o.id === answer)?.isCorrect;
+};
+
+export interface QuizStudentRow {
+  user: User;
+  answers: (boolean | null | undefined)[]; // One per question, see isAnswerCorrect
+  correct: number;
+  answered: number;
+}
+
+export interface QuizScoreTable {
+  rows: QuizStudentRow[];
+  questionSuccessRates: (number | null)[]; // % of correct answers among the students who answered
+}
+
+// Students of the quiz's class (all students for school-wide quizzes) plus anyone who answered
+export const buildQuizScoreTable = (quiz: Quiz, questions: Poll[], users: User[]): QuizScoreTable => {
+  const answeredIds = new Set(questions.flatMap(q => q.voterIds));
+  const students = users
+    .filter(u => answeredIds.has(u.id) || (u.role === UserRole.ELEVE && (!quiz.targetClass || u.classGroup === quiz.targetClass)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const rows = students.map(user => {
+    const answers = questions.map(q => isAnswerCorrect(q, user.id));
+    return {
+      user,
+      answers,
+      correct: answers.filter(a => a === true).length,
+      answered: answers.filter(a => a !== null).length
+    };
+  });
+
+  const questionSuccessRates = questions.map((_, idx) => {
+    const graded = rows.map(r => r.answers[idx]).filter((a): a is boolean => typeof a === 'boolean');
+    return graded.length > 0 ? Math.round((graded.filter(Boolean).length / graded.length) * 100) : null;
+  });
+
+  return { rows, questionSuccessRates };
+};
@@ -0,0 +1,34 @@
+import { supabase } from './supabase';
+
+// The database broadcasts which row changed, never its content (see the notify_row_change trigger).
+// Subscribers reload the row through the regular, RLS-protected queries.
+
+export type RealtimeTable = 'announcements' | 'exams' | 'exam_series' | 'exam_grades' | 'polls' | 'poll_reminders' | 'quizzes' | 'surveys' | 'resources' | 'class_groups' | 'rooms' | 'exam_seats' | 'exam_invigilators';
+
+export interface RowChange {
+  table: RealtimeTable;
+  id: string;
+  event: 'INSERT' | 'UPDATE' | 'DELETE';
+}
+
+export type RealtimeStatus = 'CONNECTING' | 'LIVE' | 'OFFLINE';
+
+const CHANGES_TOPIC = 'classpoll:changes';
+
+export const subscribeToChanges = (
+  onChange: (change: RowChange) => void,
+  onStatus?: (status: RealtimeStatus) => void
+): (() => void) => {
+  onStatus?.('CONNECTING');
+  const channel = supabase
+    .channel(CHANGES_TOPIC)
+    .on('broadcast', { event: 'row_change' }, ({ payload }) => onChange(payload as RowChange))
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') onStatus?.('LIVE');
+      else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') onStatus?.('OFFLINE');
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
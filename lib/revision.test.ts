@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Exam, Resource } from '../types';
+import { getLinkableResources, getLinkedResources, getRevisionProgress, parseSyllabus, syllabusToText } from './revision';
+
+const exam: Exam = {
+  id: 'e1',
+  subject: 'Histoire',
+  date: new Date('2026-11-16T00:00:00.000Z'),
+  startTime: '08:00',
+  durationMinutes: 120,
+  room: 'B12',
+  targetClass: 'Terminale A',
+  createdById: 'u-resp',
+  syllabus: [{ id: 't1', title: 'La guerre froide' }, { id: 't2', title: 'La décolonisation' }, { id: 't3', title: "L'Europe" }],
+  resourceIds: ['r2', 'deleted', 'r1']
+};
+
+const resource = (id: string, title: string, subject: string, targetClass?: string): Resource => ({
+  id, title, type: 'LINK', content: `https://ecole.fr/${id}`, subject, targetClass, createdAt: new Date('2026-10-01T00:00:00.000Z')
+});
+
+describe('getRevisionProgress', () => {
+  it('counts the chapters ticked by the user on this exam', () => {
+    const checks = [
+      { examId: 'e1', userId: 'alice', topicId: 't1' },
+      { examId: 'e1', userId: 'alice', topicId: 't3' },
+      { examId: 'e1', userId: 'bob', topicId: 't2' },
+      { examId: 'e2', userId: 'alice', topicId: 't2' }
+    ];
+    expect(getRevisionProgress(exam, checks, 'alice')).toEqual({ done: 2, total: 3, percent: 67 });
+  });
+
+  it('has no progress without a syllabus', () => {
+    expect(getRevisionProgress({ ...exam, syllabus: [] }, [], 'alice')).toBeNull();
+  });
+});
+
+describe('parseSyllabus', () => {
+  it('keeps one chapter per non-empty line, and the ids of the chapters already known', () => {
+    const topics = parseSyllabus('  La guerre froide \n\nLa Ve République\nLa guerre froide\n', exam.syllabus);
+    expect(topics.map(t => t.title)).toEqual(['La guerre froide', 'La Ve République']);
+    expect(topics[0].id).toBe('t1');
+    expect(topics[1].id).toMatch(/^topic-/);
+    expect(syllabusToText(topics)).toBe('La guerre froide\nLa Ve République');
+  });
+});
+
+describe('getLinkableResources', () => {
+  it('offers the resources every viewer of the exam can open, same subject first', () => {
+    const resources = [
+      resource('r1', 'Atlas', 'Géographie'),
+      resource('r2', 'Frise', ' histoire '),
+      resource('r3', 'Cours', 'Histoire', 'Terminale B'),
+      resource('r4', 'Annales', 'Histoire', 'Terminale A')
+    ];
+    expect(getLinkableResources(exam, resources).map(r => r.id)).toEqual(['r4', 'r2', 'r1']);
+  });
+});
+
+describe('getLinkedResources', () => {
+  it('keeps the order of the exam and skips deleted resources', () => {
+    const resources = [resource('r1', 'Atlas', 'Géographie'), resource('r2', 'Frise', 'Histoire')];
+    expect(getLinkedResources(exam, resources).map(r => r.id)).toEqual(['r2', 'r1']);
+  });
+});
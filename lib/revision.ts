@@ -0,0 +1,45 @@
+import { Exam, Resource, RevisionCheck, SyllabusTopic } from '../types';
+
+// Revision checklists: the chapters of an exam, the resources linked to it and each user's progress.
+
+export interface RevisionProgress {
+  done: number;
+  total: number;
+  percent: number;
+}
+
+export const isTopicRevised = (checks: RevisionCheck[], examId: string, topicId: string, userId: string) =>
+  checks.some(c => c.examId === examId && c.topicId === topicId && c.userId === userId);
+
+// null when the exam has no syllabus
+export const getRevisionProgress = (exam: Exam, checks: RevisionCheck[], userId: string): RevisionProgress | null => {
+  const topics = exam.syllabus || [];
+  if (topics.length === 0) return null;
+  const done = topics.filter(t => isTopicRevised(checks, exam.id, t.id, userId)).length;
+  return { done, total: topics.length, percent: Math.round((done / topics.length) * 100) };
+};
+
+// One chapter per line; chapters kept from the previous syllabus keep their id, and so the ticks on them
+export const parseSyllabus = (text: string, previous: SyllabusTopic[] = []): SyllabusTopic[] => {
+  const stamp = Date.now();
+  const titles = Array.from(new Set(text.split('\n').map(line => line.trim()).filter(Boolean)));
+  return titles.map((title, idx) => ({
+    id: previous.find(t => t.title === title)?.id ?? `topic-${stamp}-${idx}`,
+    title
+  }));
+};
+
+export const syllabusToText = (syllabus: SyllabusTopic[] = []) => syllabus.map(t => t.title).join('\n');
+
+// Resources every viewer of the exam can open (school-wide, or the exam's class), same subject first
+export const getLinkableResources = (exam: Pick<Exam, 'subject' | 'targetClass'>, resources: Resource[]): Resource[] => {
+  const subject = exam.subject.trim().toLowerCase();
+  const matches = (r: Resource) => r.subject.trim().toLowerCase() === subject;
+  return resources
+    .filter(r => !r.targetClass || r.targetClass === exam.targetClass)
+    .sort((a, b) => Number(matches(b)) - Number(matches(a)) || a.title.localeCompare(b.title));
+};
+
+// Deleted resources are skipped
+export const getLinkedResources = (exam: Exam, resources: Resource[]): Resource[] =>
+  (exam.resourceIds || []).map(id => resources.find(r => r.id === id)).filter((r): r is Resource => !!r);
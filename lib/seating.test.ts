@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Exam, Room, User, UserRole } from '../types';
+import { assignSeats, buildDoorLists, formatSeat, getBusyRoomIds, getUsableSeats, suggestRooms } from './seating';
+
+const room = (id: string, name: string, rows: number, seatsPerRow: number, capacity = rows * seatsPerRow): Room => ({
+  id, name, rows, seatsPerRow, capacity
+});
+
+const student = (id: string, name: string): User => ({
+  id, name, email: `${id}@ecole.fr`, role: UserRole.ELEVE, classGroup: 'Terminale A'
+});
+
+const exam = (id: string, overrides: Partial<Exam> = {}): Exam => ({
+  id,
+  subject: 'Maths',
+  date: new Date('2026-11-16T00:00:00.000Z'),
+  startTime: '08:00',
+  durationMinutes: 120,
+  room: 'B12',
+  targetClass: 'Terminale A',
+  createdById: 'u-admin',
+  ...overrides
+});
+
+describe('formatSeat', () => {
+  it('names the row with a letter', () => {
+    expect(formatSeat({ row: 2, seat: 4 })).toBe('B4');
+  });
+});
+
+describe('getUsableSeats', () => {
+  it('uses every seat of a full room row by row', () => {
+    expect(getUsableSeats(room('r', 'B12', 2, 2)).map(formatSeat)).toEqual(['A1', 'A2', 'B1', 'B2']);
+  });
+
+  it('spreads a lower capacity over the layout', () => {
+    expect(getUsableSeats(room('r', 'B12', 2, 4, 4)).map(formatSeat)).toEqual(['A1', 'A3', 'B1', 'B3']);
+  });
+});
+
+describe('assignSeats', () => {
+  const rooms = [room('r1', 'B12', 1, 2), room('r2', 'C3', 1, 1)];
+  const students = [student('c', 'Chloé'), student('a', 'Adam'), student('d', 'David'), student('b', 'Bea')];
+
+  it('fills the rooms in order and returns those left without a seat', () => {
+    const { seats, unseated } = assignSeats('e1', students, rooms, 'ALPHABETICAL');
+    expect(seats).toEqual([
+      { examId: 'e1', studentId: 'a', roomId: 'r1', row: 1, seat: 1 },
+      { examId: 'e1', studentId: 'b', roomId: 'r1', row: 1, seat: 2 },
+      { examId: 'e1', studentId: 'c', roomId: 'r2', row: 1, seat: 1 }
+    ]);
+    expect(unseated.map(s => s.id)).toEqual(['d']);
+  });
+
+  it('shuffles with the given random source', () => {
+    const { seats } = assignSeats('e1', students, [room('r1', 'B12', 2, 2)], 'RANDOM', () => 0);
+    expect(seats.map(s => s.studentId)).toEqual(['a', 'd', 'b', 'c']);
+  });
+});
+
+describe('suggestRooms', () => {
+  const rooms = [room('small', 'C3', 1, 5), room('main', 'B12', 2, 10), room('big', 'Amphi', 4, 10)];
+
+  it('starts with the room of the exam and adds the largest ones as needed', () => {
+    expect(suggestRooms(exam('e1', { room: 'b12' }), rooms, 15).map(r => r.id)).toEqual(['main']);
+    expect(suggestRooms(exam('e1'), rooms, 30).map(r => r.id)).toEqual(['main', 'big']);
+    expect(suggestRooms(exam('e1', { room: 'Gymnase' }), rooms, 45).map(r => r.id)).toEqual(['big', 'main']);
+  });
+});
+
+describe('getBusyRoomIds', () => {
+  it('finds the other rooms used by an overlapping exam', () => {
+    const rooms = [room('main', 'B12', 2, 10), room('c3', 'C3', 1, 5), room('amphi', 'Amphi', 4, 10)];
+    const exams = [exam('e1'), exam('e2', { room: 'c3', targetClass: 'Terminale B' }), exam('e3', { room: 'Amphi', startTime: '14:00' })];
+    expect(getBusyRoomIds(exams[0], rooms, exams)).toEqual(['c3']);
+  });
+});
+
+describe('buildDoorLists', () => {
+  it('lists the students of each used room by name', () => {
+    const rooms = [room('r1', 'B12', 1, 2), room('r2', 'C3', 1, 1), room('r3', 'Amphi', 1, 1)];
+    const users = [student('a', 'Adam'), student('b', 'Bea')];
+    const seats = [
+      { examId: 'e1', studentId: 'b', roomId: 'r1', row: 1, seat: 1 },
+      { examId: 'e1', studentId: 'a', roomId: 'r1', row: 1, seat: 2 },
+      { examId: 'e1', studentId: 'gone', roomId: 'r2', row: 1, seat: 1 }
+    ];
+
+    const lists = buildDoorLists(seats, rooms, users);
+
+    expect(lists.map(l => l.room.id)).toEqual(['r1']);
+    expect(lists[0].entries.map(e => [e.student.name, formatSeat(e.seat)])).toEqual([['Adam', 'A2'], ['Bea', 'A1']]);
+  });
+});
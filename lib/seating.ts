@@ -0,0 +1,97 @@
+import { Exam, ExamSeat, Room, User } from '../types';
+import { findExamConflicts } from './examConflicts';
+
+// Seating plans: students are placed room after room on the usable seats of each layout.
+// Mirrors the checks of save_exam_seating (seats inside the layout, one student per seat, room capacity).
+
+export type SeatingOrder = 'ALPHABETICAL' | 'RANDOM';
+
+export const SEATING_ORDER_LABELS: Record<SeatingOrder, string> = {
+  ALPHABETICAL: 'Ordre alphabétique',
+  RANDOM: 'Aléatoire'
+};
+
+export type SeatPosition = Pick<ExamSeat, 'row' | 'seat'>;
+
+// "B4": row letter from the front, seat number from the left
+export const formatSeat = (position: SeatPosition) => `${String.fromCharCode(64 + position.row)}${position.seat}`;
+
+// With a capacity below the layout, the used seats are spread evenly (e.g. one out of two)
+export const getUsableSeats = (room: Room): SeatPosition[] => {
+  const total = room.rows * room.seatsPerRow;
+  const used = Math.min(room.capacity, total);
+  return Array.from({ length: used }, (_, idx) => {
+    const index = Math.floor((idx * total) / used);
+    return { row: Math.floor(index / room.seatsPerRow) + 1, seat: (index % room.seatsPerRow) + 1 };
+  });
+};
+
+export const getTotalCapacity = (rooms: Room[]) => rooms.reduce((sum, room) => sum + room.capacity, 0);
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Fills the rooms in the given order; students beyond the total capacity are returned unseated
+export const assignSeats = (
+  examId: string,
+  students: User[],
+  rooms: Room[],
+  order: SeatingOrder,
+  random: () => number = Math.random
+): { seats: ExamSeat[]; unseated: User[] } => {
+  const queue = order === 'RANDOM'
+    ? shuffle(students, random)
+    : [...students].sort((a, b) => a.name.localeCompare(b.name));
+
+  const seats: ExamSeat[] = [];
+  rooms.forEach(room => {
+    getUsableSeats(room).forEach(position => {
+      const student = queue.shift();
+      if (student) seats.push({ examId, studentId: student.id, roomId: room.id, ...position });
+    });
+  });
+  return { seats, unseated: queue };
+};
+
+// Room of the exam first, then the largest ones until everybody has a seat
+export const suggestRooms = (exam: Exam, rooms: Room[], studentCount: number): Room[] => {
+  const main = rooms.find(r => r.name.trim().toLowerCase() === exam.room.trim().toLowerCase());
+  const others = rooms.filter(r => r !== main).sort((a, b) => b.capacity - a.capacity);
+  const selected: Room[] = main ? [main] : [];
+  for (const room of others) {
+    if (getTotalCapacity(selected) >= studentCount) break;
+    selected.push(room);
+  }
+  return selected;
+};
+
+// Rooms already taken by another exam during this one
+export const getBusyRoomIds = (exam: Exam, rooms: Room[], exams: Exam[]): string[] =>
+  rooms
+    .filter(room => room.name.trim().toLowerCase() !== exam.room.trim().toLowerCase())
+    .filter(room => findExamConflicts([{ ...exam, room: room.name }], exams, [exam.id]).some(c => c.reasons.includes('ROOM')))
+    .map(room => room.id);
+
+export interface DoorListEntry {
+  student: User;
+  seat: ExamSeat;
+}
+
+// Per room, students sorted by name: the list pinned on the door
+export const buildDoorLists = (seats: ExamSeat[], rooms: Room[], users: User[]): { room: Room; entries: DoorListEntry[] }[] =>
+  rooms
+    .map(room => ({
+      room,
+      entries: seats
+        .filter(s => s.roomId === room.id)
+        .map(seat => ({ seat, student: users.find(u => u.id === seat.studentId) }))
+        .filter((entry): entry is DoorListEntry => !!entry.student)
+        .sort((a, b) => a.student.name.localeCompare(b.student.name))
+    }))
+    .filter(list => list.entries.length > 0);
@@ -0,0 +1,117 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { fromExcelSerial, parseCsv, parseXlsx } from './spreadsheet';
+
+// Zip archive with stored (uncompressed) entries: the reader ignores CRCs
+const buildZip = (files: Record<string, string>): ArrayBuffer => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centrals.length, true);
+  endView.setUint16(10, centrals.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  [...locals, ...centrals, end].forEach(part => {
+    archive.set(part, position);
+    position += part.length;
+  });
+  return archive.buffer;
+};
+
+const WORKBOOK = {
+  'xl/workbook.xml':
+    '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="DS" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels':
+    '<Relationships><Relationship Id="rId1" Target="worksheets/planning.xml"/></Relationships>',
+  'xl/sharedStrings.xml': '<sst><si><t>Matière</t></si><si><r><t>Mathé</t></r><r><t>matiques</t></r></si></sst>',
+  'xl/worksheets/planning.xml':
+    '<worksheet><sheetData>' +
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>Date</t></is></c></row>' +
+    '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="C2"><v>46342</v></c></row>' +
+    '<row r="3"><c r="A3"><v></v></c></row>' +
+    '<row r="5"><c r="A5" t="inlineStr"><is><t>Fin</t></is></c></row>' +
+    '</sheetData></worksheet>'
+};
+
+describe('parseCsv', () => {
+  it('detects the semicolons of a French Excel export and drops the BOM', () => {
+    expect(parseCsv('\uFEFFMatière;Date\r\nMaths;16/11/2026\r\n')).toEqual([['Matière', 'Date'], ['Maths', '16/11/2026']]);
+  });
+
+  it('falls back to commas and tabs', () => {
+    expect(parseCsv('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps delimiters, line breaks and escaped quotes inside quoted cells', () => {
+    expect(parseCsv('Notes;Salle\n"Chapitres 1; 2\net ""bonus""";B12\n')).toEqual([
+      ['Notes', 'Salle'],
+      ['Chapitres 1; 2\net "bonus"', 'B12']
+    ]);
+  });
+
+  it('keeps blank rows, without cells, so rows stay at their line', () => {
+    expect(parseCsv('a;b\n;\n\n1;2\n')).toEqual([['a', 'b'], [], [], ['1', '2']]);
+  });
+});
+
+describe('parseXlsx', () => {
+  it('reads the first sheet through the workbook relationships, each row at its position', async () => {
+    expect(await parseXlsx(buildZip(WORKBOOK))).toEqual([
+      ['Matière', 'Date'],
+      ['Mathématiques', '', '46342'],
+      [],
+      [],
+      ['Fin']
+    ]);
+  });
+
+  it('refuses files that are not zip archives', async () => {
+    await expect(parseXlsx(new TextEncoder().encode('Matière;Date').buffer)).rejects.toThrow('Fichier XLSX illisible');
+  });
+});
+
+describe('fromExcelSerial', () => {
+  it('splits a serial into its UTC day and minutes', () => {
+    const { date, minutes } = fromExcelSerial(46342.5);
+    expect(date.toISOString()).toBe('2026-11-16T00:00:00.000Z');
+    expect(minutes).toBe(12 * 60);
+  });
+});
@@ -0,0 +1,160 @@
+// Reads the first sheet of a CSV or XLSX file as rows of cell texts (browser only).
+// XLSX files are zip archives of XML parts: the few parts we need are inflated with DecompressionStream.
+// Numbers are returned as written in the sheet, so dates and times stay Excel serials (see fromExcelSerial).
+// Blank rows are kept (without cells) so row positions match the line numbers of the sheet.
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Delimiter guessed from the first line: French Excel writes ";" separated CSV
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  return [';', ',', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+};
+
+export const parseCsv = (input: string): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.map(r => (r.some(c => c.trim() !== '') ? r : []));
+};
+
+// --- XLSX ---
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Entries of a zip archive by path, inflated lazily
+const readZip = (buffer: ArrayBuffer): Map<string, () => Promise<Uint8Array>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Fichier XLSX illisible (archive invalide).");
+
+  const entries = new Map<string, () => Promise<Uint8Array>>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("Fichier XLSX illisible (répertoire invalide).");
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data);
+      throw new Error(`Compression XLSX non prise en charge (${method}).`);
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readXml = async (entries: Map<string, () => Promise<Uint8Array>>, path: string): Promise<Document | null> => {
+  const entry = entries.get(path);
+  if (!entry) return null;
+  return new DOMParser().parseFromString(new TextDecoder().decode(await entry()), 'application/xml');
+};
+
+// "C12" -> 2
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/[0-9]/g, '');
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const entries = readZip(buffer);
+
+  // First sheet of the workbook, through its relationship
+  const workbook = await readXml(entries, 'xl/workbook.xml');
+  const rels = await readXml(entries, 'xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id');
+  const target = Array.from(rels?.getElementsByTagName('Relationship') || [])
+    .find(rel => rel.getAttribute('Id') === relId)?.getAttribute('Target');
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+  const sheet = await readXml(entries, sheetPath);
+  if (!sheet) throw new Error("Aucune feuille trouvée dans le fichier XLSX.");
+
+  const sharedStrings = Array.from((await readXml(entries, 'xl/sharedStrings.xml'))?.getElementsByTagName('si') || [])
+    .map(si => Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''));
+
+  const rows: string[][] = [];
+  Array.from(sheet.getElementsByTagName('row')).forEach(rowNode => {
+    // Rows without any cell are left out of the sheet: r gives the position of the others
+    const rowNumber = Number(rowNode.getAttribute('r')) || rows.length + 1;
+    while (rows.length < rowNumber - 1) rows.push([]);
+    const row: string[] = [];
+    Array.from(rowNode.getElementsByTagName('c')).forEach((cellNode, position) => {
+      const ref = cellNode.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cellNode.getAttribute('t');
+      const value = cellNode.getElementsByTagName('v')[0]?.textContent ?? '';
+      row[index] = type === 's'
+        ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr'
+          ? Array.from(cellNode.getElementsByTagName('t')).map(t => t.textContent || '').join('')
+          : value;
+    });
+    rows.push(Array.from(row, cell => cell ?? ''));
+  });
+  return rows.map(r => (r.some(c => c.trim() !== '') ? r : []));
+};
+
+export const readSpreadsheet = async (file: File): Promise<string[][]> =>
+  /\.xlsx$/i.test(file.name) ? parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+
+// Excel stores dates as days since 1899-12-30 and times as fractions of a day
+export const fromExcelSerial = (serial: number): { date: Date; minutes: number } => {
+  const days = Math.floor(serial);
+  return {
+    date: new Date(Date.UTC(1899, 11, 30) + days * 24 * 60 * 60 * 1000),
+    minutes: Math.round((serial - days) * 24 * 60)
+  };
+};
@@ -0,0 +1,38 @@
+import { Poll, PollType, Survey, SurveyAnswer } from '../types';
+import { getMaxSelections } from './pollResults';
+
+// Surveys group ordered polls answered in one submission (submit_survey RPC).
+
+export const SURVEY_QUESTION_TYPES = [PollType.SINGLE, PollType.MULTIPLE, PollType.SCALE, PollType.TEXT];
+
+export const getSurveyQuestions = (survey: Survey, polls: Poll[]): Poll[] =>
+  polls
+    .filter(p => p.surveyId === survey.id)
+    .sort((a, b) => (a.surveyPosition ?? 0) - (b.surveyPosition ?? 0));
+
+export const hasSubmittedSurvey = (survey: Survey, userId: string): boolean => survey.respondentIds.includes(userId);
+
+export const isQuestionAnswered = (question: Poll, answer?: SurveyAnswer): boolean => {
+  if (!answer) return false;
+  if (question.pollType === PollType.TEXT) return !!answer.text?.trim();
+  const count = answer.optionIds?.length || 0;
+  return count >= 1 && count <= getMaxSelections(question);
+};
+
+// The user's saved answers, to prefill a non-anonymous survey being edited
+export const getSavedSurveyAnswers = (questions: Poll[], userId: string): Record<string, SurveyAnswer> => {
+  const answers: Record<string, SurveyAnswer> = {};
+  questions.forEach(q => {
+    if (q.pollType === PollType.TEXT) {
+      const saved = q.textAnswers.find(a => a.userId === userId);
+      if (saved) answers[q.id] = { text: saved.answer };
+    } else if (q.userVotes?.[userId]) {
+      answers[q.id] = { optionIds: q.userVotes[userId] };
+    }
+  });
+  return answers;
+};
+
+// Share of the eligible respondents who submitted, null without eligible students
+export const getResponseRate = (survey: Survey, eligible: number): number | null =>
+  eligible > 0 ? Math.round((survey.respondentIds.length / eligible) * 100) : null;
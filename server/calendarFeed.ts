@@ -0,0 +1,67 @@
+// Serves the per-class exam calendars that phones and calendar apps subscribe to.
+// Usage: SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... [CALENDAR_FEED_PORT=8787] npm run calendar:feed
+// GET /feeds/<token>.ics -> the exams of the token's class (and the school-wide ones)
+import { createServer } from 'node:http';
+import { createClient } from '@supabase/supabase-js';
+import { mapExam } from '../lib/mappers';
+import { buildExamCalendar } from '../lib/icalendar';
+
+const FEED_PATH = /^\/feeds\/([a-f0-9]{16,128})\.ics$/;
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing environment variable ${name}`);
+  return value;
+};
+
+const port = Number(process.env.CALENDAR_FEED_PORT || 8787);
+
+const supabase = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+  auth: { persistSession: false }
+});
+
+// null when the token is unknown (rotated or mistyped)
+const renderFeed = async (token: string): Promise<string | null> => {
+  const { data: feed, error: feedError } = await supabase.from('calendar_feeds').select('class_name').eq('token', token).maybeSingle();
+  if (feedError) throw feedError;
+  if (!feed) return null;
+
+  const className: string = feed.class_name;
+  const query = supabase.from('exams').select('*');
+  const { data: exams, error } = className
+    ? await query.or(`target_class.is.null,target_class.eq."${className}"`)
+    : await query.is('target_class', null);
+  if (error) throw error;
+
+  const { data: settings } = await supabase.from('school_settings').select('school_name').maybeSingle();
+  const schoolName = settings?.school_name || 'ClassPoll+';
+  return buildExamCalendar((exams || []).map(mapExam), `DS ${className || schoolName}`);
+};
+
+const server = createServer(async (req, res) => {
+  const match = req.method === 'GET' ? FEED_PATH.exec(new URL(req.url || '/', 'http://localhost').pathname) : null;
+  if (!match) {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Not found');
+    return;
+  }
+
+  try {
+    const calendar = await renderFeed(match[1]);
+    if (!calendar) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Unknown feed');
+      return;
+    }
+    res.writeHead(200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="ds.ics"',
+      'Cache-Control': 'private, max-age=900'
+    }).end(calendar);
+  } catch (err) {
+    console.error(`Feed ${match[1].slice(0, 6)}… failed`, err);
+    res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Feed unavailable');
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Calendar feed listening on http://localhost:${port}/feeds/<token>.ics`);
+});
@@ -0,0 +1,37 @@
+import { QuestionGenerator, QuestionRequest, DIFFICULTY_LABELS, sanitizeQuestions } from '../services/questionGenerator';
+
+const DEFAULT_MODEL = 'gemini-1.5-flash';
+
+const buildPrompt = ({ topic, difficulty, count }: QuestionRequest) =>
+  `Rédige ${count} questions de quiz à choix unique en français sur le thème « ${topic} », ` +
+  `niveau ${DIFFICULTY_LABELS[difficulty].toLowerCase()}, pour des élèves. ` +
+  `Chaque question a 4 réponses dont une seule correcte. ` +
+  `Réponds uniquement avec un tableau JSON d'objets { "question": string, "options": string[], "correctIndex": number }.`;
+
+// Gemini REST API (generateContent) asked for a JSON answer. Server-side only: the key travels in the URL
+export const createGeminiGenerator = (apiKey: string, model: string = DEFAULT_MODEL): QuestionGenerator => ({
+  label: `Gemini (${model})`,
+  generate: async (request) => {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${encodeURIComponent(apiKey)}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{ parts: [{ text: buildPrompt(request) }] }],
+          generationConfig: { responseMimeType: 'application/json', temperature: 0.7 }
+        })
+      }
+    );
+    if (!response.ok) {
+      throw new Error(`Gemini API responded ${response.status}: ${await response.text()}`);
+    }
+
+    const payload = await response.json();
+    const text: string | undefined = payload?.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) throw new Error('Réponse vide du modèle.');
+
+    const parsed = JSON.parse(text);
+    return sanitizeQuestions(Array.isArray(parsed) ? parsed : []).slice(0, request.count);
+  }
+});
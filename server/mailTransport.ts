@@ -0,0 +1,56 @@
+import { appendFile } from 'node:fs/promises';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+// Development stand-in: prints the mail to the terminal
+export const createConsoleTransport = (): MailTransport => ({
+  send: async (message) => {
+    console.log(`\n--- MAIL to ${message.to} ---\nSubject: ${message.subject}\n\n${message.text}\n--- END MAIL ---\n`);
+  }
+});
+
+// Development stand-in: appends the mail to a local file (one block per mail)
+export const createFileTransport = (path: string): MailTransport => ({
+  send: async (message) => {
+    const block = `=== ${new Date().toISOString()} ===\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n\n`;
+    await appendFile(path, block, 'utf8');
+  }
+});
+
+// Production: POSTs the mail as JSON to an HTTP mail API (provider webhook, relay...)
+export const createWebhookTransport = (url: string, apiKey?: string): MailTransport => ({
+  send: async (message) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify(message)
+    });
+    if (!response.ok) {
+      throw new Error(`Mail API responded ${response.status}: ${await response.text()}`);
+    }
+  }
+});
+
+// MAIL_TRANSPORT=console (default) | file | webhook
+export const createTransportFromEnv = (env: NodeJS.ProcessEnv = process.env): MailTransport => {
+  switch (env.MAIL_TRANSPORT) {
+    case 'file':
+      return createFileTransport(env.MAIL_FILE || 'mail-outbox.log');
+    case 'webhook':
+      if (!env.MAIL_WEBHOOK_URL) throw new Error('MAIL_WEBHOOK_URL is required for the webhook transport');
+      return createWebhookTransport(env.MAIL_WEBHOOK_URL, env.MAIL_WEBHOOK_KEY);
+    default:
+      return createConsoleTransport();
+  }
+};
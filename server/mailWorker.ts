@@ -0,0 +1,98 @@
+// Delivers the mails queued in the mail_outbox table.
+// Usage: SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... APP_URL=https://... npm run mail:worker [-- --once]
+import { createClient } from '@supabase/supabase-js';
+import { createTransportFromEnv, MailMessage } from './mailTransport';
+
+const POLL_INTERVAL_MS = 10000;
+const BATCH_SIZE = 20;
+// Failed mails are retried after 1 min, 2 min, 4 min… and left aside after MAX_ATTEMPTS failures
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 60000;
+
+interface OutboxRow {
+  id: number;
+  recipient: string;
+  template: string;
+  payload: Record<string, any>;
+  attempts: number;
+}
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing environment variable ${name}`);
+  return value;
+};
+
+const appUrl = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+
+const renderMail = (row: OutboxRow): MailMessage => {
+  switch (row.template) {
+    case 'password_reset': {
+      const expires = new Date(row.payload.expires_at).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' });
+      return {
+        to: row.recipient,
+        subject: 'Réinitialisation de votre mot de passe',
+        text: `Bonjour ${row.payload.name},\n\n` +
+          `Pour choisir un nouveau mot de passe, ouvrez ce lien (valable une seule fois, jusqu'à ${expires}) :\n` +
+          `${appUrl}/?reset=${row.payload.token}\n\n` +
+          `Si vous n'êtes pas à l'origine de cette demande, ignorez ce message.`
+      };
+    }
+    default:
+      throw new Error(`Unknown mail template "${row.template}"`);
+  }
+};
+
+const supabase = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+  auth: { persistSession: false }
+});
+const transport = createTransportFromEnv();
+
+const deliverPending = async () => {
+  const { data, error } = await supabase
+    .from('mail_outbox')
+    .select('id, recipient, template, payload, attempts')
+    .is('sent_at', null)
+    .lt('attempts', MAX_ATTEMPTS)
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at')
+    .limit(BATCH_SIZE);
+  if (error) throw error;
+
+  for (const row of (data || []) as OutboxRow[]) {
+    try {
+      await transport.send(renderMail(row));
+      // The payload may hold secrets (reset tokens): drop it once delivered
+      await supabase.from('mail_outbox').update({ sent_at: new Date().toISOString(), payload: {}, last_error: null }).eq('id', row.id);
+    } catch (err: any) {
+      const attempts = row.attempts + 1;
+      console.error(attempts >= MAX_ATTEMPTS ? `Mail ${row.id} failed ${attempts} times, giving up` : `Mail ${row.id} failed`, err);
+      await supabase.from('mail_outbox').update({
+        last_error: String(err?.message || err),
+        attempts,
+        next_attempt_at: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString()
+      }).eq('id', row.id);
+    }
+  }
+};
+
+const run = async () => {
+  if (process.argv.includes('--once')) {
+    await deliverPending();
+    return;
+  }
+  console.log(`Mail worker started (every ${POLL_INTERVAL_MS / 1000}s)`);
+  for (;;) {
+    try {
+      await deliverPending();
+    } catch (err) {
+      console.error('Outbox polling failed', err);
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+};
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,98 @@
+// Drafts quiz questions with Gemini for the quiz form, so the API key never reaches the browsers.
+// Usage: SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... GEMINI_API_KEY=... [GEMINI_MODEL=...]
+//        [QUESTION_SERVER_PORT=8788] [APP_URL=...] npm run questions:server
+// POST /questions { topic, difficulty, count } with the x-session-token header of a staff member
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createClient } from '@supabase/supabase-js';
+import { createGeminiGenerator } from './geminiGenerator';
+import { DIFFICULTY_LABELS, MAX_GENERATED_QUESTIONS, QuestionDifficulty, QuestionRequest } from '../services/questionGenerator';
+
+const MAX_BODY_BYTES = 4096;
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing environment variable ${name}`);
+  return value;
+};
+
+const port = Number(process.env.QUESTION_SERVER_PORT || 8788);
+const generator = createGeminiGenerator(requireEnv('GEMINI_API_KEY'), process.env.GEMINI_MODEL || undefined);
+
+const supabase = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+  auth: { persistSession: false }
+});
+
+// Only staff may spend the API quota: the session is resolved like the app does (resolve_session)
+const isStaffSession = async (token: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('resolve_session').setHeader('x-session-token', token);
+  if (error) throw error;
+  return !!data && !data.must_change_password && ['ADMIN', 'RESPONSABLE'].includes(data.user?.role);
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) reject(new Error('Request body too large'));
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+// null when the body is not a valid question request
+const parseRequest = (body: string): QuestionRequest | null => {
+  try {
+    const { topic, difficulty, count } = JSON.parse(body);
+    if (typeof topic !== 'string' || !topic.trim() || topic.length > 200) return null;
+    if (!(difficulty in DIFFICULTY_LABELS)) return null;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_GENERATED_QUESTIONS) return null;
+    return { topic: topic.trim(), difficulty: difficulty as QuestionDifficulty, count };
+  } catch {
+    return null;
+  }
+};
+
+const send = (res: ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' }).end(JSON.stringify(payload));
+};
+
+const server = createServer(async (req, res) => {
+  // The app is served from another origin (vite, static hosting)
+  res.setHeader('Access-Control-Allow-Origin', process.env.APP_URL || '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, x-session-token');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (req.method !== 'POST' || new URL(req.url || '/', 'http://localhost').pathname !== '/questions') {
+    send(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  try {
+    const token = req.headers['x-session-token'];
+    if (typeof token !== 'string' || !(await isStaffSession(token))) {
+      send(res, 403, { error: 'Action non autorisée' });
+      return;
+    }
+
+    const request = parseRequest(await readBody(req));
+    if (!request) {
+      send(res, 400, { error: 'Demande invalide' });
+      return;
+    }
+
+    send(res, 200, { questions: await generator.generate(request) });
+  } catch (err) {
+    console.error('Question generation failed', err);
+    send(res, 502, { error: 'Génération indisponible' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`${generator.label} question server listening on http://localhost:${port}/questions`);
+});
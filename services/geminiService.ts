@@ -1,7 +1,24 @@
-// This service is currently unused as AI features have been disabled.
-// Keeping file structure for potential future re-integration.
+import { QuestionGenerator, sanitizeQuestions } from './questionGenerator';
 
-export const generateQuizQuestion = async (topic: string, difficulty: string): Promise<{ question: string; options: string[] } | null> => {
-  console.log("AI Feature disabled");
-  return null;
-};
+// Remote provider: Gemini is called by server/questionServer.ts, which holds the API key and only
+// answers staff sessions (getSessionToken returns the token of the logged-in user)
+export const createGeminiGenerator = (serverUrl: string, getSessionToken: () => string | null): QuestionGenerator => ({
+  label: 'Gemini',
+  generate: async (request) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const token = getSessionToken();
+    if (token) headers['x-session-token'] = token;
+
+    const response = await fetch(`${serverUrl.replace(/\/$/, '')}/questions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(request)
+    });
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(payload?.error || `Le serveur de questions a répondu ${response.status}`);
+    }
+
+    return sanitizeQuestions(Array.isArray(payload?.questions) ? payload.questions : []).slice(0, request.count);
+  }
+});
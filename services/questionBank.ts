@@ -0,0 +1,179 @@
+import { QuestionGenerator, QuestionDifficulty, GeneratedQuestion, QuestionRequest } from './questionGenerator';
+
+// Offline provider: curated questions per subject plus arithmetic templates.
+// Deterministic: the same request always yields the same questions in the same order.
+
+interface BankEntry {
+  difficulty: QuestionDifficulty;
+  question: string;
+  answer: string;
+  distractors: string[];
+}
+
+interface BankTheme {
+  name: string;
+  keywords: string[]; // Matched against the normalized topic
+  entries: BankEntry[];
+}
+
+const THEMES: BankTheme[] = [
+  {
+    name: 'Histoire',
+    keywords: ['histoire', 'historique', 'guerre', 'revolution'],
+    entries: [
+      { difficulty: 'facile', question: 'En quelle année a eu lieu la prise de la Bastille ?', answer: '1789', distractors: ['1515', '1815', '1914'] },
+      { difficulty: 'facile', question: 'Qui a été sacré empereur des Français en 1804 ?', answer: 'Napoléon Bonaparte', distractors: ['Louis XIV', 'Charlemagne', 'Louis XVI'] },
+      { difficulty: 'facile', question: 'En quelle année a pris fin la Seconde Guerre mondiale ?', answer: '1945', distractors: ['1918', '1939', '1950'] },
+      { difficulty: 'moyen', question: "Quel traité a mis fin à la Première Guerre mondiale avec l'Allemagne ?", answer: 'Le traité de Versailles', distractors: ['Le traité de Rome', 'Le traité de Maastricht', 'Le traité de Westphalie'] },
+      { difficulty: 'moyen', question: 'Quel roi de France était surnommé le Roi-Soleil ?', answer: 'Louis XIV', distractors: ['Louis XIII', 'François Ier', 'Henri IV'] },
+      { difficulty: 'moyen', question: 'En quelle année le mur de Berlin est-il tombé ?', answer: '1989', distractors: ['1961', '1975', '1991'] },
+      { difficulty: 'difficile', question: "Quel édit, signé en 1598, accorde la liberté de culte aux protestants ?", answer: "L'édit de Nantes", distractors: ["L'édit de Fontainebleau", "L'ordonnance de Villers-Cotterêts", "L'édit de Saint-Germain"] },
+      { difficulty: 'difficile', question: 'En quelle année la Ve République a-t-elle été instaurée ?', answer: '1958', distractors: ['1946', '1962', '1968'] }
+    ]
+  },
+  {
+    name: 'Géographie',
+    keywords: ['geographie', 'geo', 'pays', 'capitale', 'continent'],
+    entries: [
+      { difficulty: 'facile', question: "Quelle est la capitale de l'Italie ?", answer: 'Rome', distractors: ['Milan', 'Naples', 'Turin'] },
+      { difficulty: 'facile', question: 'Quel est le plus grand océan du monde ?', answer: "L'océan Pacifique", distractors: ["L'océan Atlantique", "L'océan Indien", "L'océan Arctique"] },
+      { difficulty: 'facile', question: 'Quel est le plus long fleuve de France ?', answer: 'La Loire', distractors: ['La Seine', 'Le Rhône', 'La Garonne'] },
+      { difficulty: 'moyen', question: 'Quelle est la capitale du Canada ?', answer: 'Ottawa', distractors: ['Toronto', 'Montréal', 'Vancouver'] },
+      { difficulty: 'moyen', question: "Quel est le plus haut sommet d'Europe occidentale ?", answer: 'Le mont Blanc', distractors: ['Le Cervin', 'Le mont Rose', "L'Etna"] },
+      { difficulty: 'moyen', question: 'Sur quel continent se trouve le désert du Sahara ?', answer: 'Afrique', distractors: ['Asie', 'Amérique du Sud', 'Océanie'] },
+      { difficulty: 'difficile', question: "Quelle est la capitale de l'Australie ?", answer: 'Canberra', distractors: ['Sydney', 'Melbourne', 'Perth'] },
+      { difficulty: 'difficile', question: 'Quel pays compte le plus de fuseaux horaires (territoires inclus) ?', answer: 'La France', distractors: ['La Russie', 'Les États-Unis', 'La Chine'] }
+    ]
+  },
+  {
+    name: 'Français',
+    keywords: ['francais', 'grammaire', 'conjugaison', 'orthographe', 'litterature'],
+    entries: [
+      { difficulty: 'facile', question: 'Quelle est la nature du mot « rapidement » ?', answer: 'Un adverbe', distractors: ['Un adjectif', 'Un verbe', 'Un nom'] },
+      { difficulty: 'facile', question: 'Quel est le participe passé du verbe « prendre » ?', answer: 'Pris', distractors: ['Prendu', 'Prit', 'Prené'] },
+      { difficulty: 'facile', question: 'Qui a écrit « Les Misérables » ?', answer: 'Victor Hugo', distractors: ['Émile Zola', 'Gustave Flaubert', 'Honoré de Balzac'] },
+      { difficulty: 'moyen', question: 'Quelle figure de style compare à l\'aide d\'un outil de comparaison ?', answer: 'La comparaison', distractors: ['La métaphore', 'La litote', "L'oxymore"] },
+      { difficulty: 'moyen', question: 'Quel est le passé simple de « ils venir » ?', answer: 'Ils vinrent', distractors: ['Ils venirent', 'Ils vinssent', 'Ils venaient'] },
+      { difficulty: 'moyen', question: 'Qui a écrit « Le Cid » ?', answer: 'Pierre Corneille', distractors: ['Jean Racine', 'Molière', 'Voltaire'] },
+      { difficulty: 'difficile', question: 'Combien de syllabes compte un alexandrin ?', answer: '12', distractors: ['10', '8', '14'] },
+      { difficulty: 'difficile', question: 'Quelle figure de style associe deux termes contradictoires ?', answer: "L'oxymore", distractors: ["L'anaphore", "L'hyperbole", 'La métonymie'] }
+    ]
+  },
+  {
+    name: 'Sciences',
+    keywords: ['science', 'sciences', 'svt', 'physique', 'chimie', 'biologie'],
+    entries: [
+      { difficulty: 'facile', question: "À quelle température l'eau pure bout-elle au niveau de la mer ?", answer: '100 °C', distractors: ['90 °C', '0 °C', '120 °C'] },
+      { difficulty: 'facile', question: 'Quelle planète est la plus proche du Soleil ?', answer: 'Mercure', distractors: ['Vénus', 'Mars', 'La Terre'] },
+      { difficulty: 'facile', question: 'Quel organe pompe le sang dans le corps humain ?', answer: 'Le cœur', distractors: ['Les poumons', 'Le foie', 'Les reins'] },
+      { difficulty: 'moyen', question: "Quelle est la formule chimique de l'eau ?", answer: 'H₂O', distractors: ['CO₂', 'O₂', 'H₂O₂'] },
+      { difficulty: 'moyen', question: 'Quel gaz les plantes absorbent-elles lors de la photosynthèse ?', answer: 'Le dioxyde de carbone', distractors: ["L'oxygène", "L'azote", "L'hydrogène"] },
+      { difficulty: 'moyen', question: "Quelle est l'unité de mesure de la force ?", answer: 'Le newton', distractors: ['Le joule', 'Le watt', 'Le pascal'] },
+      { difficulty: 'difficile', question: 'Combien de chromosomes compte une cellule humaine non sexuelle ?', answer: '46', distractors: ['23', '44', '48'] },
+      { difficulty: 'difficile', question: 'Quelle est la vitesse approximative de la lumière dans le vide ?', answer: '300 000 km/s', distractors: ['30 000 km/s', '3 000 km/s', '3 000 000 km/s'] }
+    ]
+  },
+  {
+    name: 'Anglais',
+    keywords: ['anglais', 'english'],
+    entries: [
+      { difficulty: 'facile', question: 'Comment dit-on « pomme » en anglais ?', answer: 'Apple', distractors: ['Pear', 'Orange', 'Peach'] },
+      { difficulty: 'facile', question: 'Quel est le pluriel de « child » ?', answer: 'Children', distractors: ['Childs', 'Childes', 'Childrens'] },
+      { difficulty: 'moyen', question: 'Quel est le prétérit de « to go » ?', answer: 'Went', distractors: ['Goed', 'Gone', 'Going'] },
+      { difficulty: 'moyen', question: 'Complétez : « She ___ to school every day. »', answer: 'goes', distractors: ['go', 'going', 'gone'] },
+      { difficulty: 'difficile', question: 'Quel est le participe passé de « to seek » ?', answer: 'Sought', distractors: ['Seeked', 'Sighted', 'Saught'] },
+      { difficulty: 'difficile', question: 'Complétez : « If I ___ you, I would study harder. »', answer: 'were', distractors: ['am', 'be', 'was being'] }
+    ]
+  }
+];
+
+const MATH_KEYWORDS = ['math', 'maths', 'mathematiques', 'calcul', 'arithmetique'];
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+
+// Small seeded PRNG (mulberry32) so shuffles are reproducible
+const createRandom = (seedText: string) => {
+  let seed = 0;
+  for (let i = 0; i < seedText.length; i++) seed = (Math.imul(31, seed) + seedText.charCodeAt(i)) | 0;
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const toQuestion = (question: string, answer: string, distractors: string[], random: () => number): GeneratedQuestion => {
+  const options = shuffle([answer, ...distractors], random);
+  return { question, options, correctIndex: options.indexOf(answer) };
+};
+
+const ARITHMETIC_RANGES: Record<QuestionDifficulty, { max: number; operators: string[] }> = {
+  facile: { max: 20, operators: ['+', '-'] },
+  moyen: { max: 12, operators: ['+', '-', '×'] },
+  difficile: { max: 25, operators: ['×', '÷'] }
+};
+
+const arithmeticQuestion = (difficulty: QuestionDifficulty, random: () => number): GeneratedQuestion => {
+  const { max, operators } = ARITHMETIC_RANGES[difficulty];
+  const pick = () => 2 + Math.floor(random() * (max - 1));
+  const operator = operators[Math.floor(random() * operators.length)];
+  let a = pick();
+  const b = pick();
+  let answer: number;
+  switch (operator) {
+    case '+': answer = a + b; break;
+    case '-': a = a + b; answer = a - b; break; // Keeps the result positive
+    case '×': answer = a * b; break;
+    default: a = a * b; answer = a / b; // Exact division
+  }
+  const distractors = new Set<number>();
+  for (const delta of shuffle([1, -1, 2, -2, 10, -10], random)) {
+    if (distractors.size === 3) break;
+    if (answer + delta >= 0) distractors.add(answer + delta);
+  }
+  return toQuestion(`Combien font ${a} ${operator} ${b} ?`, String(answer), [...distractors].map(String), random);
+};
+
+const findTheme = (topic: string): BankTheme | undefined => {
+  const words = normalize(topic).split(/[^a-z]+/);
+  return THEMES.find(theme => theme.keywords.some(k => words.includes(k)));
+};
+
+export const AVAILABLE_TOPICS = [...THEMES.map(t => t.name), 'Mathématiques'];
+
+const generateFromBank = ({ topic, difficulty, count }: QuestionRequest): GeneratedQuestion[] => {
+  const random = createRandom(`${normalize(topic)}|${difficulty}|${count}`);
+  const words = normalize(topic).split(/[^a-z]+/);
+
+  if (MATH_KEYWORDS.some(k => words.includes(k))) {
+    return Array.from({ length: count }, () => arithmeticQuestion(difficulty, random));
+  }
+
+  const theme = findTheme(topic);
+  if (!theme) {
+    throw new Error(`Aucune question hors ligne pour « ${topic} ». Thèmes disponibles : ${AVAILABLE_TOPICS.join(', ')}.`);
+  }
+
+  // Requested difficulty first, then the neighbouring levels when the bank runs short
+  const sameLevel = shuffle(theme.entries.filter(e => e.difficulty === difficulty), random);
+  const otherLevels = shuffle(theme.entries.filter(e => e.difficulty !== difficulty), random);
+  return [...sameLevel, ...otherLevels]
+    .slice(0, count)
+    .map(entry => toQuestion(entry.question, entry.answer, entry.distractors, random));
+};
+
+export const createLocalGenerator = (): QuestionGenerator => ({
+  label: 'Banque de questions locale',
+  generate: async (request) => generateFromBank(request)
+});
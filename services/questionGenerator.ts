@@ -0,0 +1,50 @@
+import { createLocalGenerator } from './questionBank';
+import { createGeminiGenerator } from './geminiService';
+
+export type QuestionDifficulty = 'facile' | 'moyen' | 'difficile';
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  facile: 'Facile',
+  moyen: 'Moyen',
+  difficile: 'Difficile'
+};
+
+export interface QuestionRequest {
+  topic: string;
+  difficulty: QuestionDifficulty;
+  count: number;
+}
+
+export interface GeneratedQuestion {
+  question: string;
+  options: string[];
+  correctIndex: number;
+}
+
+export interface QuestionGenerator {
+  label: string; // Shown to the teacher next to the generated questions
+  generate: (request: QuestionRequest) => Promise<GeneratedQuestion[]>;
+}
+
+export const MAX_GENERATED_QUESTIONS = 10;
+
+// Drops malformed questions (remote models do not always follow the requested format)
+export const sanitizeQuestions = (questions: unknown[]): GeneratedQuestion[] =>
+  questions.flatMap((item): GeneratedQuestion[] => {
+    const q = item as Partial<GeneratedQuestion> | null;
+    if (!q || typeof q.question !== 'string' || !Array.isArray(q.options)) return [];
+    const options = q.options.filter((o): o is string => typeof o === 'string' && o.trim() !== '').map(o => o.trim());
+    if (options.length < 2 || options.length !== q.options.length) return [];
+    if (typeof q.correctIndex !== 'number' || !Number.isInteger(q.correctIndex) || !options[q.correctIndex]) return [];
+    return [{ question: q.question.trim(), options, correctIndex: q.correctIndex }];
+  });
+
+// QUESTION_GENERATOR=local (default) | gemini (through the question server, see QUESTION_SERVER_URL)
+export const createGeneratorFromEnv = (getSessionToken: () => string | null): QuestionGenerator => {
+  switch (process.env.QUESTION_GENERATOR) {
+    case 'gemini':
+      return createGeminiGenerator(process.env.QUESTION_SERVER_URL || 'http://localhost:8788', getSessionToken);
+    default:
+      return createLocalGenerator();
+  }
+};
@@ -0,0 +1,187 @@
+-- Hashed credentials and server-side sessions.
+-- Passwords are derived client-side with PBKDF2 (lib/auth.ts); only a SHA-256 of the derived key is stored.
+-- Plaintext passwords in users.password are upgraded on the user's next login, then cleared.
+
+-- On Supabase pgcrypto already lives in the extensions schema: the functions calling digest() or
+-- gen_random_bytes() put it on their search_path.
+create extension if not exists pgcrypto;
+
+create table if not exists public.user_credentials (
+  user_id text primary key references public.users(id) on delete cascade,
+  password_hash text not null,
+  salt text not null,
+  iterations integer not null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.sessions (
+  token_hash text primary key,
+  user_id text not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+-- Credentials and sessions are only reachable through the functions below
+alter table public.user_credentials enable row level security;
+alter table public.sessions enable row level security;
+revoke all on public.user_credentials from anon, authenticated;
+revoke all on public.sessions from anon, authenticated;
+
+-- The clients must no longer read or write the legacy password column
+revoke select, insert, update on public.users from anon, authenticated;
+grant select (id, name, email, role, avatar, class_group) on public.users to anon, authenticated;
+grant insert (id, name, email, role, avatar, class_group) on public.users to anon, authenticated;
+grant update (name, email, role, avatar, class_group) on public.users to anon, authenticated;
+
+-- Resolves the caller from the x-session-token request header
+create or replace function public.current_app_user_id() returns text
+language sql stable security definer set search_path = public, extensions as $$
+  select s.user_id
+  from public.sessions s
+  where s.token_hash = encode(digest(coalesce(current_setting('request.headers', true)::json->>'x-session-token', ''), 'sha256'), 'hex')
+    and s.expires_at > now()
+$$;
+
+create or replace function public.current_app_user_role() returns text
+language sql stable security definer set search_path = public as $$
+  select role from public.users where id = public.current_app_user_id()
+$$;
+
+-- Accounts are managed by admins only: role and email decide access rights and where reset links go
+alter table public.users enable row level security;
+drop policy if exists users_select on public.users;
+drop policy if exists users_admin_insert on public.users;
+drop policy if exists users_admin_update on public.users;
+drop policy if exists users_admin_delete on public.users;
+create policy users_select on public.users for select using (true);
+create policy users_admin_insert on public.users for insert with check (public.current_app_user_role() = 'ADMIN');
+create policy users_admin_update on public.users for update
+  using (public.current_app_user_role() = 'ADMIN') with check (public.current_app_user_role() = 'ADMIN');
+create policy users_admin_delete on public.users for delete using (public.current_app_user_role() = 'ADMIN');
+
+create or replace function public.resolve_session() returns text
+language sql stable security definer set search_path = public as $$
+  select public.current_app_user_id()
+$$;
+
+create or replace function public.get_login_params(p_email text) returns json
+language plpgsql stable security definer set search_path = public, extensions as $$
+declare
+  v_user public.users%rowtype;
+  v_cred public.user_credentials%rowtype;
+begin
+  select * into v_user from public.users where lower(email) = lower(p_email);
+  if found then
+    select * into v_cred from public.user_credentials where user_id = v_user.id;
+    if found then
+      return json_build_object('salt', v_cred.salt, 'iterations', v_cred.iterations, 'legacy', false);
+    end if;
+    if v_user.password is not null then
+      return json_build_object('salt', null, 'iterations', null, 'legacy', true);
+    end if;
+  end if;
+  -- Unknown accounts get a stable fake salt so the response does not reveal which emails exist
+  return json_build_object(
+    'salt', substr(encode(digest('classpoll:' || lower(p_email), 'sha256'), 'hex'), 1, 32),
+    'iterations', 210000,
+    'legacy', false
+  );
+end $$;
+
+create or replace function public.upgrade_legacy_password(
+  p_email text, p_password text, p_salt text, p_iterations integer, p_password_key text
+) returns boolean
+language plpgsql volatile security definer set search_path = public, extensions as $$
+declare
+  v_user_id text;
+begin
+  select id into v_user_id from public.users
+  where lower(email) = lower(p_email) and password is not null and password = p_password
+    and not exists (select 1 from public.user_credentials c where c.user_id = users.id);
+  if v_user_id is null then
+    return false;
+  end if;
+
+  insert into public.user_credentials (user_id, password_hash, salt, iterations)
+  values (v_user_id, encode(digest(p_password_key, 'sha256'), 'hex'), p_salt, p_iterations);
+  update public.users set password = null where id = v_user_id;
+  return true;
+end $$;
+
+create or replace function public.create_session(p_email text, p_password_key text) returns json
+language plpgsql volatile security definer set search_path = public, extensions as $$
+declare
+  v_user_id text;
+  v_token text;
+  v_expires timestamptz := now() + interval '12 hours';
+begin
+  select c.user_id into v_user_id
+  from public.user_credentials c
+  join public.users u on u.id = c.user_id
+  where lower(u.email) = lower(p_email)
+    and c.password_hash = encode(digest(p_password_key, 'sha256'), 'hex');
+  if v_user_id is null then
+    return null;
+  end if;
+
+  delete from public.sessions where expires_at <= now();
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+  insert into public.sessions (token_hash, user_id, expires_at)
+  values (encode(digest(v_token, 'sha256'), 'hex'), v_user_id, v_expires);
+
+  return json_build_object('token', v_token, 'user_id', v_user_id, 'expires_at', v_expires);
+end $$;
+
+create or replace function public.revoke_session() returns void
+language sql volatile security definer set search_path = public, extensions as $$
+  delete from public.sessions
+  where token_hash = encode(digest(coalesce(current_setting('request.headers', true)::json->>'x-session-token', ''), 'sha256'), 'hex')
+$$;
+
+create or replace function public.set_user_password(
+  p_user_id text, p_salt text, p_iterations integer, p_password_key text
+) returns void
+language plpgsql volatile security definer set search_path = public, extensions as $$
+declare
+  v_caller text := public.current_app_user_id();
+begin
+  if v_caller is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+  if v_caller <> p_user_id and not exists (select 1 from public.users where id = v_caller and role = 'ADMIN') then
+    raise exception 'Permission refusée' using errcode = '42501';
+  end if;
+
+  insert into public.user_credentials (user_id, password_hash, salt, iterations, updated_at)
+  values (p_user_id, encode(digest(p_password_key, 'sha256'), 'hex'), p_salt, p_iterations, now())
+  on conflict (user_id) do update
+    set password_hash = excluded.password_hash, salt = excluded.salt, iterations = excluded.iterations, updated_at = now();
+  update public.users set password = null where id = p_user_id;
+
+  -- Changing a password signs the account out everywhere else
+  delete from public.sessions
+  where user_id = p_user_id
+    and token_hash <> encode(digest(coalesce(current_setting('request.headers', true)::json->>'x-session-token', ''), 'sha256'), 'hex');
+end $$;
+
+create or replace function public.bootstrap_admin(
+  p_id text, p_name text, p_email text, p_salt text, p_iterations integer, p_password_key text
+) returns void
+language plpgsql volatile security definer set search_path = public, extensions as $$
+begin
+  if exists (select 1 from public.users) then
+    raise exception 'Un administrateur existe déjà' using errcode = '42501';
+  end if;
+  insert into public.users (id, name, email, role) values (p_id, p_name, p_email, 'ADMIN');
+  insert into public.user_credentials (user_id, password_hash, salt, iterations)
+  values (p_id, encode(digest(p_password_key, 'sha256'), 'hex'), p_salt, p_iterations);
+end $$;
+
+grant execute on function public.resolve_session() to anon, authenticated;
+grant execute on function public.get_login_params(text) to anon, authenticated;
+grant execute on function public.upgrade_legacy_password(text, text, text, integer, text) to anon, authenticated;
+grant execute on function public.create_session(text, text) to anon, authenticated;
+grant execute on function public.revoke_session() to anon, authenticated;
+grant execute on function public.set_user_password(text, text, integer, text) to anon, authenticated;
+grant execute on function public.bootstrap_admin(text, text, text, text, integer, text) to anon, authenticated;
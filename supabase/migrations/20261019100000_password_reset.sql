@@ -0,0 +1,201 @@
+-- Password reset tokens, outgoing mail queue and forced password change.
+-- Mails are rendered and delivered by the mail worker (server/mailWorker.ts).
+
+alter table public.user_credentials add column if not exists must_change_password boolean not null default false;
+
+create table if not exists public.password_reset_tokens (
+  token_hash text primary key,
+  user_id text not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  used_at timestamptz
+);
+
+create table if not exists public.mail_outbox (
+  id bigint generated always as identity primary key,
+  recipient text not null,
+  template text not null,
+  payload jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz,
+  last_error text,
+  attempts integer not null default 0, -- Failed deliveries; the worker gives up after a few
+  next_attempt_at timestamptz not null default now() -- Retries back off exponentially
+);
+
+alter table public.password_reset_tokens enable row level security;
+alter table public.mail_outbox enable row level security;
+revoke all on public.password_reset_tokens from anon, authenticated;
+revoke all on public.mail_outbox from anon, authenticated;
+
+-- Any valid session, including one that must first choose a new password
+create or replace function public.current_session_user_id() returns text
+language sql stable security definer set search_path = public, extensions as $$
+  select s.user_id
+  from public.sessions s
+  where s.token_hash = encode(digest(coalesce(current_setting('request.headers', true)::json->>'x-session-token', ''), 'sha256'), 'hex')
+    and s.expires_at > now()
+$$;
+
+-- Until a forced password change is done the session identifies nobody: RLS and the functions
+-- checking the caller refuse everything but set_user_password
+create or replace function public.current_app_user_id() returns text
+language sql stable security definer set search_path = public as $$
+  select s.user_id
+  from (select public.current_session_user_id() as user_id) s
+  where not exists (
+    select 1 from public.user_credentials c where c.user_id = s.user_id and c.must_change_password
+  )
+$$;
+
+-- resolve_session now also reports whether the user must choose a new password, with the profile
+-- the client cannot read yet in that case
+drop function if exists public.resolve_session();
+create function public.resolve_session() returns json
+language sql stable security definer set search_path = public as $$
+  select json_build_object(
+    'user_id', u.id,
+    'must_change_password', coalesce(c.must_change_password, false),
+    'user', json_build_object('id', u.id, 'name', u.name, 'email', u.email, 'role', u.role, 'avatar', u.avatar, 'class_group', u.class_group)
+  )
+  from public.users u
+  left join public.user_credentials c on c.user_id = u.id
+  where u.id = public.current_session_user_id()
+$$;
+
+create or replace function public.create_session(p_email text, p_password_key text) returns json
+language plpgsql volatile security definer set search_path = public, extensions as $$
+declare
+  v_user_id text;
+  v_must_change boolean;
+  v_token text;
+  v_expires timestamptz := now() + interval '12 hours';
+begin
+  select c.user_id, c.must_change_password into v_user_id, v_must_change
+  from public.user_credentials c
+  join public.users u on u.id = c.user_id
+  where lower(u.email) = lower(p_email)
+    and c.password_hash = encode(digest(p_password_key, 'sha256'), 'hex');
+  if v_user_id is null then
+    return null;
+  end if;
+
+  delete from public.sessions where expires_at <= now();
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+  insert into public.sessions (token_hash, user_id, expires_at)
+  values (encode(digest(v_token, 'sha256'), 'hex'), v_user_id, v_expires);
+
+  return json_build_object('token', v_token, 'user_id', v_user_id, 'expires_at', v_expires, 'must_change_password', v_must_change);
+end $$;
+
+-- Admins setting another user's password can force a change at next login
+drop function if exists public.set_user_password(text, text, integer, text);
+create function public.set_user_password(
+  p_user_id text, p_salt text, p_iterations integer, p_password_key text, p_must_change boolean default false
+) returns void
+language plpgsql volatile security definer set search_path = public, extensions as $$
+declare
+  v_caller text := public.current_session_user_id();
+  v_must_change boolean := false;
+begin
+  if v_caller is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+  if v_caller <> p_user_id then
+    if not exists (select 1 from public.users where id = v_caller and role = 'ADMIN') then
+      raise exception 'Permission refusée' using errcode = '42501';
+    end if;
+    v_must_change := coalesce(p_must_change, false);
+  end if;
+
+  insert into public.user_credentials (user_id, password_hash, salt, iterations, must_change_password, updated_at)
+  values (p_user_id, encode(digest(p_password_key, 'sha256'), 'hex'), p_salt, p_iterations, v_must_change, now())
+  on conflict (user_id) do update
+    set password_hash = excluded.password_hash, salt = excluded.salt, iterations = excluded.iterations,
+        must_change_password = excluded.must_change_password, updated_at = now();
+  update public.users set password = null where id = p_user_id;
+
+  -- Changing a password signs the account out everywhere else
+  delete from public.sessions
+  where user_id = p_user_id
+    and token_hash <> encode(digest(coalesce(current_setting('request.headers', true)::json->>'x-session-token', ''), 'sha256'), 'hex');
+end $$;
+
+-- Always succeeds from the caller's point of view so it cannot be used to probe accounts
+create or replace function public.request_password_reset(p_email text) returns void
+language plpgsql volatile security definer set search_path = public, extensions as $$
+declare
+  v_user public.users%rowtype;
+  v_token text;
+  v_expires timestamptz := now() + interval '30 minutes';
+begin
+  select * into v_user from public.users where lower(email) = lower(p_email);
+  if not found then
+    return;
+  end if;
+
+  -- At most one reset mail per minute and per account
+  if exists (
+    select 1 from public.password_reset_tokens
+    where user_id = v_user.id and created_at > now() - interval '1 minute'
+  ) then
+    return;
+  end if;
+
+  -- Only the latest link stays valid
+  update public.password_reset_tokens set used_at = now() where user_id = v_user.id and used_at is null;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+  insert into public.password_reset_tokens (token_hash, user_id, expires_at)
+  values (encode(digest(v_token, 'sha256'), 'hex'), v_user.id, v_expires);
+
+  insert into public.mail_outbox (recipient, template, payload)
+  values (v_user.email, 'password_reset', json_build_object('name', v_user.name, 'token', v_token, 'expires_at', v_expires)::jsonb);
+end $$;
+
+create or replace function public.reset_password_with_token(
+  p_token text, p_salt text, p_iterations integer, p_password_key text
+) returns boolean
+language plpgsql volatile security definer set search_path = public, extensions as $$
+declare
+  v_user_id text;
+begin
+  update public.password_reset_tokens
+  set used_at = now()
+  where token_hash = encode(digest(p_token, 'sha256'), 'hex')
+    and used_at is null
+    and expires_at > now()
+  returning user_id into v_user_id;
+  if v_user_id is null then
+    return false;
+  end if;
+
+  insert into public.user_credentials (user_id, password_hash, salt, iterations, must_change_password, updated_at)
+  values (v_user_id, encode(digest(p_password_key, 'sha256'), 'hex'), p_salt, p_iterations, false, now())
+  on conflict (user_id) do update
+    set password_hash = excluded.password_hash, salt = excluded.salt, iterations = excluded.iterations,
+        must_change_password = false, updated_at = now();
+  update public.users set password = null where id = v_user_id;
+  delete from public.sessions where user_id = v_user_id;
+  return true;
+end $$;
+
+-- The bootstrap admin password is well known: it must be changed at first login
+create or replace function public.bootstrap_admin(
+  p_id text, p_name text, p_email text, p_salt text, p_iterations integer, p_password_key text
+) returns void
+language plpgsql volatile security definer set search_path = public, extensions as $$
+begin
+  if exists (select 1 from public.users) then
+    raise exception 'Un administrateur existe déjà' using errcode = '42501';
+  end if;
+  insert into public.users (id, name, email, role) values (p_id, p_name, p_email, 'ADMIN');
+  insert into public.user_credentials (user_id, password_hash, salt, iterations, must_change_password)
+  values (p_id, encode(digest(p_password_key, 'sha256'), 'hex'), p_salt, p_iterations, true);
+end $$;
+
+grant execute on function public.resolve_session() to anon, authenticated;
+grant execute on function public.set_user_password(text, text, integer, text, boolean) to anon, authenticated;
+grant execute on function public.request_password_reset(text) to anon, authenticated;
+grant execute on function public.reset_password_with_token(text, text, integer, text) to anon, authenticated;
@@ -0,0 +1,134 @@
+-- Row-level security: rows are only served to the users allowed to see them.
+-- The rules mirror lib/permissions.ts; the caller is resolved from the session token (current_app_user_id()).
+
+create or replace function public.current_app_user_role() returns text
+language sql stable security definer set search_path = public as $$
+  select role from public.users where id = public.current_app_user_id()
+$$;
+
+create or replace function public.current_app_user_class() returns text
+language sql stable security definer set search_path = public as $$
+  select class_group from public.users where id = public.current_app_user_id()
+$$;
+
+-- view / vote: staff see everything, students school-wide rows and their own class
+create or replace function public.can_view_class(p_target_class text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select case
+    when public.current_app_user_id() is null then false
+    when public.current_app_user_role() in ('ADMIN', 'RESPONSABLE') then true
+    else p_target_class is null or p_target_class = public.current_app_user_class()
+  end
+$$;
+
+-- create (and retarget): admins anywhere, responsables only for their own class
+create or replace function public.can_create_in_class(p_target_class text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select case public.current_app_user_role()
+    when 'ADMIN' then true
+    when 'RESPONSABLE' then p_target_class is not null and p_target_class = public.current_app_user_class()
+    else false
+  end
+$$;
+
+-- update / delete: admins, the creator, or the responsable of the targeted class
+create or replace function public.can_manage_row(p_target_class text, p_owner_id text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select public.current_app_user_role() = 'ADMIN'
+    or (p_owner_id is not null and p_owner_id = public.current_app_user_id())
+    or (public.current_app_user_role() = 'RESPONSABLE' and p_target_class is not null and p_target_class = public.current_app_user_class())
+$$;
+
+create or replace function public.needs_bootstrap() returns boolean
+language sql stable security definer set search_path = public as $$
+  select not exists (select 1 from public.users)
+$$;
+
+grant execute on function public.needs_bootstrap() to anon, authenticated;
+
+-- Announcements
+alter table public.announcements enable row level security;
+drop policy if exists announcements_select on public.announcements;
+drop policy if exists announcements_insert on public.announcements;
+drop policy if exists announcements_update on public.announcements;
+drop policy if exists announcements_delete on public.announcements;
+create policy announcements_select on public.announcements for select using (public.can_view_class(target_class));
+create policy announcements_insert on public.announcements for insert
+  with check (public.can_create_in_class(target_class) and author_id = public.current_app_user_id());
+create policy announcements_update on public.announcements for update
+  using (public.can_manage_row(target_class, author_id)) with check (public.can_create_in_class(target_class));
+create policy announcements_delete on public.announcements for delete using (public.can_manage_row(target_class, author_id));
+
+-- Exams
+alter table public.exams enable row level security;
+drop policy if exists exams_select on public.exams;
+drop policy if exists exams_insert on public.exams;
+drop policy if exists exams_update on public.exams;
+drop policy if exists exams_delete on public.exams;
+create policy exams_select on public.exams for select using (public.can_view_class(target_class));
+create policy exams_insert on public.exams for insert
+  with check (public.can_create_in_class(target_class) and created_by_id = public.current_app_user_id());
+create policy exams_update on public.exams for update
+  using (public.can_manage_row(target_class, created_by_id)) with check (public.can_create_in_class(target_class));
+create policy exams_delete on public.exams for delete using (public.can_manage_row(target_class, created_by_id));
+
+-- Polls
+alter table public.polls enable row level security;
+drop policy if exists polls_select on public.polls;
+drop policy if exists polls_insert on public.polls;
+drop policy if exists polls_update on public.polls;
+drop policy if exists polls_vote on public.polls;
+drop policy if exists polls_delete on public.polls;
+create policy polls_select on public.polls for select using (public.can_view_class(target_class));
+create policy polls_insert on public.polls for insert
+  with check (public.can_create_in_class(target_class) and created_by_id = public.current_app_user_id());
+create policy polls_update on public.polls for update
+  using (public.can_manage_row(target_class, created_by_id)) with check (public.can_create_in_class(target_class));
+-- Votes are still written to the polls row itself, so every viewer needs update rights on it
+create policy polls_vote on public.polls for update
+  using (public.can_view_class(target_class)) with check (public.can_view_class(target_class));
+create policy polls_delete on public.polls for delete using (public.can_manage_row(target_class, created_by_id));
+
+-- Resources
+alter table public.resources enable row level security;
+drop policy if exists resources_select on public.resources;
+drop policy if exists resources_insert on public.resources;
+drop policy if exists resources_update on public.resources;
+drop policy if exists resources_delete on public.resources;
+create policy resources_select on public.resources for select using (public.can_view_class(target_class));
+create policy resources_insert on public.resources for insert
+  with check (public.can_create_in_class(target_class) and created_by_id = public.current_app_user_id());
+create policy resources_update on public.resources for update
+  using (public.can_manage_row(target_class, created_by_id)) with check (public.can_create_in_class(target_class));
+create policy resources_delete on public.resources for delete using (public.can_manage_row(target_class, created_by_id));
+
+-- Users: admins manage everyone. Staff see everyone too (participation, non-voters and names in reports
+-- cover school-wide items); students see themselves and the members of their class
+alter table public.users enable row level security;
+drop policy if exists users_select on public.users;
+drop policy if exists users_admin_insert on public.users;
+drop policy if exists users_admin_update on public.users;
+drop policy if exists users_admin_delete on public.users;
+create policy users_select on public.users for select using (
+  id = public.current_app_user_id()
+  or public.current_app_user_role() in ('ADMIN', 'RESPONSABLE')
+  or (class_group is not null and class_group = public.current_app_user_class())
+);
+create policy users_admin_insert on public.users for insert with check (public.current_app_user_role() = 'ADMIN');
+create policy users_admin_update on public.users for update using (public.current_app_user_role() = 'ADMIN');
+create policy users_admin_delete on public.users for delete using (public.current_app_user_role() = 'ADMIN');
+
+-- Classes and school settings are public (login page), writable by admins
+alter table public.class_groups enable row level security;
+drop policy if exists class_groups_select on public.class_groups;
+drop policy if exists class_groups_admin_write on public.class_groups;
+create policy class_groups_select on public.class_groups for select using (true);
+create policy class_groups_admin_write on public.class_groups for all
+  using (public.current_app_user_role() = 'ADMIN') with check (public.current_app_user_role() = 'ADMIN');
+
+alter table public.school_settings enable row level security;
+drop policy if exists school_settings_select on public.school_settings;
+drop policy if exists school_settings_admin_write on public.school_settings;
+create policy school_settings_select on public.school_settings for select using (true);
+create policy school_settings_admin_write on public.school_settings for all
+  using (public.current_app_user_role() = 'ADMIN') with check (public.current_app_user_role() = 'ADMIN');
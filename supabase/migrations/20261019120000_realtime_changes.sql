@@ -0,0 +1,40 @@
+-- Realtime change signals (lib/realtime.ts).
+-- Sessions are not Supabase Auth JWTs, so Realtime cannot apply our RLS policies to postgres_changes.
+-- Instead each change broadcasts only { table, id, event } on a public topic and clients reload
+-- the row through the RLS-protected REST API.
+
+create or replace function public.notify_row_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  perform realtime.send(
+    jsonb_build_object(
+      'table', tg_table_name,
+      'id', case when tg_op = 'DELETE' then old.id else new.id end,
+      'event', tg_op
+    ),
+    'row_change',
+    'classpoll:changes',
+    false
+  );
+  return null;
+end $$;
+
+drop trigger if exists announcements_notify_change on public.announcements;
+create trigger announcements_notify_change after insert or update or delete on public.announcements
+  for each row execute function public.notify_row_change();
+
+drop trigger if exists exams_notify_change on public.exams;
+create trigger exams_notify_change after insert or update or delete on public.exams
+  for each row execute function public.notify_row_change();
+
+drop trigger if exists polls_notify_change on public.polls;
+create trigger polls_notify_change after insert or update or delete on public.polls
+  for each row execute function public.notify_row_change();
+
+drop trigger if exists resources_notify_change on public.resources;
+create trigger resources_notify_change after insert or update or delete on public.resources
+  for each row execute function public.notify_row_change();
+
+drop trigger if exists class_groups_notify_change on public.class_groups;
+create trigger class_groups_notify_change after insert or update or delete on public.class_groups
+  for each row execute function public.notify_row_change();
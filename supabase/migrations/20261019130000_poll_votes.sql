@@ -0,0 +1,91 @@
+-- One row per (poll, user): concurrent votes can no longer overwrite each other.
+-- Option counts are derived from this table when polls are read (lib/mappers.ts).
+
+create table if not exists public.poll_votes (
+  poll_id text not null references public.polls(id) on delete cascade,
+  user_id text not null references public.users(id) on delete cascade,
+  option_id text not null,
+  voted_at timestamptz not null default now(),
+  primary key (poll_id, user_id)
+);
+
+alter table public.poll_votes enable row level security;
+revoke insert, update, delete on public.poll_votes from anon, authenticated;
+grant select on public.poll_votes to anon, authenticated;
+
+drop policy if exists poll_votes_select on public.poll_votes;
+create policy poll_votes_select on public.poll_votes for select using (
+  exists (select 1 from public.polls p where p.id = poll_id and public.can_view_class(p.target_class))
+);
+
+-- Votes no longer touch the polls row
+drop policy if exists polls_vote on public.polls;
+alter table public.polls alter column voted_user_ids set default '{}'::jsonb;
+
+create or replace function public.cast_vote(p_poll_id text, p_option_id text) returns void
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user_id text := public.current_app_user_id();
+  v_poll public.polls%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+
+  select * into v_poll from public.polls where id = p_poll_id;
+  if not found or not public.can_view_class(v_poll.target_class) then
+    raise exception 'Sondage introuvable' using errcode = 'P0002';
+  end if;
+  if not exists (select 1 from jsonb_array_elements(v_poll.options) o where o->>'id' = p_option_id) then
+    raise exception 'Option invalide' using errcode = '22023';
+  end if;
+
+  insert into public.poll_votes (poll_id, user_id, option_id)
+  values (p_poll_id, v_user_id, p_option_id)
+  on conflict (poll_id, user_id) do update set option_id = excluded.option_id, voted_at = now();
+end $$;
+
+-- Moves the legacy polls.voted_user_ids map (UserId -> OptionId) into poll_votes. Idempotent.
+create or replace function public.migrate_legacy_votes(p_poll_ids text[]) returns void
+language plpgsql volatile security definer set search_path = public as $$
+begin
+  insert into public.poll_votes (poll_id, user_id, option_id)
+  select p.id, v.key, v.value
+  from public.polls p
+  cross join lateral jsonb_each_text(p.voted_user_ids) v
+  where p.id = any(p_poll_ids)
+    and jsonb_typeof(p.voted_user_ids) = 'object'
+    and public.can_view_class(p.target_class)
+    and exists (select 1 from public.users u where u.id = v.key)
+  on conflict (poll_id, user_id) do nothing;
+
+  update public.polls
+  set voted_user_ids = '{}'::jsonb
+  where id = any(p_poll_ids)
+    and jsonb_typeof(voted_user_ids) = 'object'
+    and public.can_view_class(target_class);
+end $$;
+
+grant execute on function public.cast_vote(text, text) to anon, authenticated;
+grant execute on function public.migrate_legacy_votes(text[]) to anon, authenticated;
+
+-- A vote is a change of its poll for realtime subscribers
+create or replace function public.notify_poll_vote_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  perform realtime.send(
+    jsonb_build_object(
+      'table', 'polls',
+      'id', case when tg_op = 'DELETE' then old.poll_id else new.poll_id end,
+      'event', 'UPDATE'
+    ),
+    'row_change',
+    'classpoll:changes',
+    false
+  );
+  return null;
+end $$;
+
+drop trigger if exists poll_votes_notify_change on public.poll_votes;
+create trigger poll_votes_notify_change after insert or update or delete on public.poll_votes
+  for each row execute function public.notify_poll_vote_change();
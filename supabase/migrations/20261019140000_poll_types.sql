@@ -0,0 +1,85 @@
+-- Poll types: single choice, multiple choice (up to max_selections) and ranked ballots.
+-- A ballot is now one poll_votes row per chosen option, rank giving the order of preference.
+
+alter table public.polls add column if not exists poll_type text not null default 'SINGLE';
+alter table public.polls add column if not exists max_selections integer;
+alter table public.polls drop constraint if exists polls_poll_type_check;
+alter table public.polls add constraint polls_poll_type_check check (poll_type in ('SINGLE', 'MULTIPLE', 'RANKED'));
+alter table public.polls drop constraint if exists polls_max_selections_check;
+alter table public.polls add constraint polls_max_selections_check check (max_selections is null or max_selections >= 1);
+
+alter table public.poll_votes add column if not exists rank smallint not null default 1;
+alter table public.poll_votes drop constraint if exists poll_votes_pkey;
+alter table public.poll_votes add primary key (poll_id, user_id, option_id);
+alter table public.poll_votes drop constraint if exists poll_votes_rank_key;
+alter table public.poll_votes add constraint poll_votes_rank_key unique (poll_id, user_id, rank);
+
+drop function if exists public.cast_vote(text, text);
+
+-- Replaces the caller's whole ballot. p_option_ids is in order of preference for ranked polls.
+create or replace function public.cast_vote(p_poll_id text, p_option_ids text[]) returns void
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user_id text := public.current_app_user_id();
+  v_poll public.polls%rowtype;
+  v_count integer := coalesce(array_length(p_option_ids, 1), 0);
+  v_max integer;
+begin
+  if v_user_id is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+
+  select * into v_poll from public.polls where id = p_poll_id;
+  if not found or not public.can_view_class(v_poll.target_class) then
+    raise exception 'Sondage introuvable' using errcode = 'P0002';
+  end if;
+
+  v_max := case v_poll.poll_type
+    when 'SINGLE' then 1
+    when 'MULTIPLE' then coalesce(v_poll.max_selections, jsonb_array_length(v_poll.options))
+    else jsonb_array_length(v_poll.options)
+  end;
+  if v_count < 1 or v_count > v_max then
+    raise exception 'Nombre de choix invalide (1 à %)', v_max using errcode = '22023';
+  end if;
+  if (select count(distinct o) from unnest(p_option_ids) o) <> v_count then
+    raise exception 'Option choisie plusieurs fois' using errcode = '22023';
+  end if;
+  if exists (
+    select 1 from unnest(p_option_ids) o
+    where not exists (select 1 from jsonb_array_elements(v_poll.options) opt where opt->>'id' = o)
+  ) then
+    raise exception 'Option invalide' using errcode = '22023';
+  end if;
+
+  -- Serialize concurrent submissions of the same ballot
+  perform pg_advisory_xact_lock(hashtext(p_poll_id || ':' || v_user_id));
+
+  delete from public.poll_votes where poll_id = p_poll_id and user_id = v_user_id;
+  insert into public.poll_votes (poll_id, user_id, option_id, rank)
+  select p_poll_id, v_user_id, o.option_id, o.ord
+  from unnest(p_option_ids) with ordinality as o(option_id, ord);
+end $$;
+
+-- Same as before, without the (poll_id, user_id) conflict target that no longer exists
+create or replace function public.migrate_legacy_votes(p_poll_ids text[]) returns void
+language plpgsql volatile security definer set search_path = public as $$
+begin
+  insert into public.poll_votes (poll_id, user_id, option_id)
+  select p.id, v.key, v.value
+  from public.polls p
+  cross join lateral jsonb_each_text(p.voted_user_ids) v
+  where p.id = any(p_poll_ids)
+    and jsonb_typeof(p.voted_user_ids) = 'object'
+    and public.can_view_class(p.target_class)
+    and exists (select 1 from public.users u where u.id = v.key)
+    and not exists (select 1 from public.poll_votes pv where pv.poll_id = p.id and pv.user_id = v.key);
+
+  update public.polls
+  set voted_user_ids = '{}'::jsonb
+  where id = any(p_poll_ids)
+    and jsonb_typeof(voted_user_ids) = 'object'
+    and public.can_view_class(target_class);
+end $$;
+
+grant execute on function public.cast_vote(text, text[]) to anon, authenticated;
@@ -0,0 +1,56 @@
+-- Voting windows: polls accept votes from opens_at (defaults to created_at) until expires_at (lib/pollSchedule.ts).
+
+alter table public.polls add column if not exists opens_at timestamptz;
+alter table public.polls drop constraint if exists polls_window_check;
+alter table public.polls add constraint polls_window_check check (opens_at is null or opens_at < expires_at);
+
+-- Replaces the caller's whole ballot. p_option_ids is in order of preference for ranked polls.
+create or replace function public.cast_vote(p_poll_id text, p_option_ids text[]) returns void
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user_id text := public.current_app_user_id();
+  v_poll public.polls%rowtype;
+  v_count integer := coalesce(array_length(p_option_ids, 1), 0);
+  v_max integer;
+begin
+  if v_user_id is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+
+  select * into v_poll from public.polls where id = p_poll_id;
+  if not found or not public.can_view_class(v_poll.target_class) then
+    raise exception 'Sondage introuvable' using errcode = 'P0002';
+  end if;
+  if now() < coalesce(v_poll.opens_at, v_poll.created_at) then
+    raise exception 'Le sondage n''est pas encore ouvert' using errcode = '55000';
+  end if;
+  if now() >= v_poll.expires_at then
+    raise exception 'Le sondage est clos' using errcode = '55000';
+  end if;
+
+  v_max := case v_poll.poll_type
+    when 'SINGLE' then 1
+    when 'MULTIPLE' then coalesce(v_poll.max_selections, jsonb_array_length(v_poll.options))
+    else jsonb_array_length(v_poll.options)
+  end;
+  if v_count < 1 or v_count > v_max then
+    raise exception 'Nombre de choix invalide (1 à %)', v_max using errcode = '22023';
+  end if;
+  if (select count(distinct o) from unnest(p_option_ids) o) <> v_count then
+    raise exception 'Option choisie plusieurs fois' using errcode = '22023';
+  end if;
+  if exists (
+    select 1 from unnest(p_option_ids) o
+    where not exists (select 1 from jsonb_array_elements(v_poll.options) opt where opt->>'id' = o)
+  ) then
+    raise exception 'Option invalide' using errcode = '22023';
+  end if;
+
+  -- Serialize concurrent submissions of the same ballot
+  perform pg_advisory_xact_lock(hashtext(p_poll_id || ':' || v_user_id));
+
+  delete from public.poll_votes where poll_id = p_poll_id and user_id = v_user_id;
+  insert into public.poll_votes (poll_id, user_id, option_id, rank)
+  select p_poll_id, v_user_id, o.option_id, o.ord
+  from unnest(p_option_ids) with ordinality as o(option_id, ord);
+end $$;
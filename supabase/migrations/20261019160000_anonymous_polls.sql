@@ -0,0 +1,194 @@
+-- Truly anonymous polls: who voted (poll_participants) is stored apart from what was voted (anonymous_tallies),
+-- and tallies are aggregated counts without any user reference, so votes cannot be linked back to voters.
+-- Anonymous votes are therefore final. Non-anonymous polls keep using poll_votes.
+
+create table if not exists public.poll_participants (
+  poll_id text not null references public.polls(id) on delete cascade,
+  user_id text not null references public.users(id) on delete cascade,
+  primary key (poll_id, user_id)
+);
+
+-- One row per option (single / multiple choice) or per distinct ranking (ranked polls)
+create table if not exists public.anonymous_tallies (
+  poll_id text not null references public.polls(id) on delete cascade,
+  choices text[] not null,
+  votes integer not null default 0,
+  primary key (poll_id, choices)
+);
+
+alter table public.poll_participants enable row level security;
+alter table public.anonymous_tallies enable row level security;
+revoke insert, update, delete on public.poll_participants, public.anonymous_tallies from anon, authenticated;
+grant select on public.poll_participants, public.anonymous_tallies to anon, authenticated;
+
+drop policy if exists poll_participants_select on public.poll_participants;
+create policy poll_participants_select on public.poll_participants for select using (
+  exists (select 1 from public.polls p where p.id = poll_id and public.can_view_class(p.target_class))
+);
+drop policy if exists anonymous_tallies_select on public.anonymous_tallies;
+-- Tallies are only served once the poll is closed: watching them move between two reloads would
+-- otherwise tell what the voter who just joined poll_participants chose
+create policy anonymous_tallies_select on public.anonymous_tallies for select using (
+  exists (
+    select 1 from public.polls p
+    where p.id = poll_id and public.can_view_class(p.target_class) and p.expires_at <= now()
+  )
+);
+
+-- Records an anonymous ballot. Every tally row of the poll is rewritten, so they all carry the same
+-- transaction id (xmin) and row metadata cannot tell which choice this voter made.
+create or replace function public.record_anonymous_ballot(p_poll public.polls, p_option_ids text[]) returns void
+language plpgsql volatile security definer set search_path = public as $$
+begin
+  if p_poll.poll_type = 'RANKED' then
+    insert into public.anonymous_tallies (poll_id, choices) values (p_poll.id, p_option_ids)
+    on conflict do nothing;
+  else
+    insert into public.anonymous_tallies (poll_id, choices)
+    select p_poll.id, array[opt->>'id'] from jsonb_array_elements(p_poll.options) opt
+    on conflict do nothing;
+  end if;
+
+  update public.anonymous_tallies
+  set votes = votes + case
+    when p_poll.poll_type = 'RANKED' then (choices = p_option_ids)::int
+    else (choices[1] = any(p_option_ids))::int
+  end
+  where poll_id = p_poll.id;
+end $$;
+
+revoke execute on function public.record_anonymous_ballot(public.polls, text[]) from public, anon, authenticated;
+
+-- Existing anonymous polls: move their identified votes into participants + tallies
+do $$
+declare
+  v_poll public.polls%rowtype;
+  v_ballot record;
+begin
+  for v_poll in select * from public.polls where is_anonymous loop
+    for v_ballot in
+      select user_id, array_agg(option_id order by rank) as option_ids
+      from public.poll_votes where poll_id = v_poll.id group by user_id
+    loop
+      insert into public.poll_participants (poll_id, user_id) values (v_poll.id, v_ballot.user_id)
+      on conflict do nothing;
+      perform public.record_anonymous_ballot(v_poll, v_ballot.option_ids);
+    end loop;
+    delete from public.poll_votes where poll_id = v_poll.id;
+  end loop;
+end $$;
+
+create or replace function public.cast_vote(p_poll_id text, p_option_ids text[]) returns void
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user_id text := public.current_app_user_id();
+  v_poll public.polls%rowtype;
+  v_count integer := coalesce(array_length(p_option_ids, 1), 0);
+  v_max integer;
+begin
+  if v_user_id is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+
+  select * into v_poll from public.polls where id = p_poll_id;
+  if not found or not public.can_view_class(v_poll.target_class) then
+    raise exception 'Sondage introuvable' using errcode = 'P0002';
+  end if;
+  if now() < coalesce(v_poll.opens_at, v_poll.created_at) then
+    raise exception 'Le sondage n''est pas encore ouvert' using errcode = '55000';
+  end if;
+  if now() >= v_poll.expires_at then
+    raise exception 'Le sondage est clos' using errcode = '55000';
+  end if;
+
+  v_max := case v_poll.poll_type
+    when 'SINGLE' then 1
+    when 'MULTIPLE' then coalesce(v_poll.max_selections, jsonb_array_length(v_poll.options))
+    else jsonb_array_length(v_poll.options)
+  end;
+  if v_count < 1 or v_count > v_max then
+    raise exception 'Nombre de choix invalide (1 à %)', v_max using errcode = '22023';
+  end if;
+  if (select count(distinct o) from unnest(p_option_ids) o) <> v_count then
+    raise exception 'Option choisie plusieurs fois' using errcode = '22023';
+  end if;
+  if exists (
+    select 1 from unnest(p_option_ids) o
+    where not exists (select 1 from jsonb_array_elements(v_poll.options) opt where opt->>'id' = o)
+  ) then
+    raise exception 'Option invalide' using errcode = '22023';
+  end if;
+
+  if v_poll.is_anonymous then
+    insert into public.poll_participants (poll_id, user_id) values (p_poll_id, v_user_id)
+    on conflict do nothing;
+    if not found then
+      raise exception 'Vous avez déjà voté (vote anonyme définitif)' using errcode = '23505';
+    end if;
+    perform public.record_anonymous_ballot(v_poll, p_option_ids);
+    return;
+  end if;
+
+  -- Serialize concurrent submissions of the same ballot
+  perform pg_advisory_xact_lock(hashtext(p_poll_id || ':' || v_user_id));
+
+  delete from public.poll_votes where poll_id = p_poll_id and user_id = v_user_id;
+  insert into public.poll_votes (poll_id, user_id, option_id, rank)
+  select p_poll_id, v_user_id, o.option_id, o.ord
+  from unnest(p_option_ids) with ordinality as o(option_id, ord);
+end $$;
+
+create or replace function public.migrate_legacy_votes(p_poll_ids text[]) returns void
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_poll public.polls%rowtype;
+  v_vote record;
+begin
+  -- Locked so that concurrent calls cannot count the same legacy map twice
+  for v_poll in
+    select * from public.polls
+    where id = any(p_poll_ids)
+      and jsonb_typeof(voted_user_ids) = 'object'
+      and public.can_view_class(target_class)
+    for update
+  loop
+    for v_vote in
+      select v.key as user_id, v.value as option_id
+      from jsonb_each_text(v_poll.voted_user_ids) v
+      where exists (select 1 from public.users u where u.id = v.key)
+    loop
+      if v_poll.is_anonymous then
+        insert into public.poll_participants (poll_id, user_id) values (v_poll.id, v_vote.user_id)
+        on conflict do nothing;
+        if found then
+          perform public.record_anonymous_ballot(v_poll, array[v_vote.option_id]);
+        end if;
+      elsif not exists (select 1 from public.poll_votes pv where pv.poll_id = v_poll.id and pv.user_id = v_vote.user_id) then
+        insert into public.poll_votes (poll_id, user_id, option_id) values (v_poll.id, v_vote.user_id, v_vote.option_id);
+      end if;
+    end loop;
+
+    update public.polls set voted_user_ids = '{}'::jsonb where id = v_poll.id;
+  end loop;
+end $$;
+
+-- Switching anonymity once votes exist would either expose identified votes or lose anonymous ones
+create or replace function public.lock_poll_anonymity() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if new.is_anonymous is distinct from old.is_anonymous and (
+    exists (select 1 from public.poll_votes where poll_id = old.id)
+    or exists (select 1 from public.poll_participants where poll_id = old.id)
+    or (jsonb_typeof(old.voted_user_ids) = 'object' and old.voted_user_ids <> '{}'::jsonb)
+  ) then
+    raise exception 'L''anonymat ne peut plus être modifié après les premiers votes' using errcode = '55000';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists polls_lock_anonymity on public.polls;
+create trigger polls_lock_anonymity before update on public.polls
+  for each row execute function public.lock_poll_anonymity();
+
+-- Anonymous ballots are not broadcast: a signal per ballot would pin down who just voted
+drop trigger if exists poll_participants_notify_change on public.poll_participants;
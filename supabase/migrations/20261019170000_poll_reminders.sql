@@ -0,0 +1,58 @@
+-- Reminders sent to the students of a class who have not voted on a poll yet.
+-- They surface as notifications for the reminded student (App.tsx).
+
+create table if not exists public.poll_reminders (
+  id text primary key default gen_random_uuid()::text,
+  poll_id text not null references public.polls(id) on delete cascade,
+  user_id text not null references public.users(id) on delete cascade,
+  sent_by_id text references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists poll_reminders_user_idx on public.poll_reminders (user_id);
+
+alter table public.poll_reminders enable row level security;
+revoke insert, update, delete on public.poll_reminders from anon, authenticated;
+grant select on public.poll_reminders to anon, authenticated;
+
+-- The reminded student, and whoever may manage the poll
+drop policy if exists poll_reminders_select on public.poll_reminders;
+create policy poll_reminders_select on public.poll_reminders for select using (
+  user_id = public.current_app_user_id()
+  or exists (select 1 from public.polls p where p.id = poll_id and public.can_manage_row(p.target_class, p.created_by_id))
+);
+
+-- Reminds the students of the poll's class without a vote; returns how many were reminded
+create or replace function public.remind_poll_non_voters(p_poll_id text) returns integer
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_poll public.polls%rowtype;
+  v_count integer;
+begin
+  select * into v_poll from public.polls where id = p_poll_id;
+  if not found or not public.can_manage_row(v_poll.target_class, v_poll.created_by_id) then
+    raise exception 'Action non autorisée' using errcode = '42501';
+  end if;
+  if v_poll.is_anonymous or v_poll.target_class is null then
+    raise exception 'Les rappels ne concernent que les sondages nominatifs d''une classe' using errcode = '22023';
+  end if;
+  if now() >= v_poll.expires_at then
+    raise exception 'Le sondage est clos' using errcode = '55000';
+  end if;
+
+  insert into public.poll_reminders (poll_id, user_id, sent_by_id)
+  select v_poll.id, u.id, public.current_app_user_id()
+  from public.users u
+  where u.role = 'ELEVE'
+    and u.class_group = v_poll.target_class
+    and not exists (select 1 from public.poll_votes pv where pv.poll_id = v_poll.id and pv.user_id = u.id);
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end $$;
+
+grant execute on function public.remind_poll_non_voters(text) to anon, authenticated;
+
+drop trigger if exists poll_reminders_notify_change on public.poll_reminders;
+create trigger poll_reminders_notify_change after insert or update or delete on public.poll_reminders
+  for each row execute function public.notify_row_change();
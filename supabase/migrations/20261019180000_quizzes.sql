@@ -0,0 +1,235 @@
+-- Quizzes: a quiz groups QUIZ polls (its questions). Correct answers live in poll_answer_keys, which students
+-- can only read once the question is closed; scores are computed server-side into quiz_scores.
+
+create table if not exists public.quizzes (
+  id text primary key,
+  title text not null,
+  description text,
+  target_class text,
+  opens_at timestamptz,
+  expires_at timestamptz not null,
+  created_by_id text references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.quizzes enable row level security;
+drop policy if exists quizzes_select on public.quizzes;
+drop policy if exists quizzes_insert on public.quizzes;
+drop policy if exists quizzes_update on public.quizzes;
+drop policy if exists quizzes_delete on public.quizzes;
+create policy quizzes_select on public.quizzes for select using (public.can_view_class(target_class));
+create policy quizzes_insert on public.quizzes for insert
+  with check (public.can_create_in_class(target_class) and created_by_id = public.current_app_user_id());
+create policy quizzes_update on public.quizzes for update
+  using (public.can_manage_row(target_class, created_by_id)) with check (public.can_create_in_class(target_class));
+create policy quizzes_delete on public.quizzes for delete using (public.can_manage_row(target_class, created_by_id));
+
+alter table public.polls add column if not exists quiz_id text references public.quizzes(id) on delete cascade;
+alter table public.polls add column if not exists quiz_position integer;
+alter table public.polls drop constraint if exists polls_poll_type_check;
+alter table public.polls add constraint polls_poll_type_check check (poll_type in ('SINGLE', 'MULTIPLE', 'RANKED', 'QUIZ'));
+-- Scores need to know who answered
+alter table public.polls drop constraint if exists polls_quiz_not_anonymous;
+alter table public.polls add constraint polls_quiz_not_anonymous check (poll_type <> 'QUIZ' or not is_anonymous);
+
+create table if not exists public.poll_answer_keys (
+  poll_id text primary key references public.polls(id) on delete cascade,
+  correct_option_ids text[] not null
+);
+
+alter table public.poll_answer_keys enable row level security;
+drop policy if exists poll_answer_keys_select on public.poll_answer_keys;
+drop policy if exists poll_answer_keys_write on public.poll_answer_keys;
+create policy poll_answer_keys_select on public.poll_answer_keys for select using (
+  exists (
+    select 1 from public.polls p where p.id = poll_id and (
+      public.can_manage_row(p.target_class, p.created_by_id)
+      or (public.can_view_class(p.target_class) and now() >= p.expires_at)
+    )
+  )
+);
+create policy poll_answer_keys_write on public.poll_answer_keys for all
+  using (exists (select 1 from public.polls p where p.id = poll_id and public.can_manage_row(p.target_class, p.created_by_id)))
+  with check (exists (select 1 from public.polls p where p.id = poll_id and public.can_manage_row(p.target_class, p.created_by_id)));
+
+create table if not exists public.quiz_scores (
+  quiz_id text not null references public.quizzes(id) on delete cascade,
+  user_id text not null references public.users(id) on delete cascade,
+  score integer not null,
+  max_score integer not null,
+  updated_at timestamptz not null default now(),
+  primary key (quiz_id, user_id)
+);
+
+alter table public.quiz_scores enable row level security;
+revoke insert, update, delete on public.quiz_scores from anon, authenticated;
+grant select on public.quiz_scores to anon, authenticated;
+
+-- Students see their own score once the quiz is closed (earlier it would reveal the answers)
+-- While a quiz is open its answers are private: students only see their own, its managers all of them
+drop policy if exists poll_votes_select on public.poll_votes;
+create policy poll_votes_select on public.poll_votes for select using (
+  exists (
+    select 1 from public.polls p
+    left join public.quizzes q on q.id = p.quiz_id
+    where p.id = poll_id and public.can_view_class(p.target_class) and (
+      p.quiz_id is null
+      or user_id = public.current_app_user_id()
+      or now() >= q.expires_at
+      or public.can_manage_row(q.target_class, q.created_by_id)
+    )
+  )
+);
+
+drop policy if exists quiz_scores_select on public.quiz_scores;
+create policy quiz_scores_select on public.quiz_scores for select using (
+  exists (
+    select 1 from public.quizzes q where q.id = quiz_id and (
+      public.can_manage_row(q.target_class, q.created_by_id)
+      or (user_id = public.current_app_user_id() and now() >= q.expires_at)
+    )
+  )
+);
+
+create or replace function public.refresh_quiz_score(p_quiz_id text, p_user_id text) returns void
+language plpgsql volatile security definer set search_path = public as $$
+begin
+  insert into public.quiz_scores (quiz_id, user_id, score, max_score, updated_at)
+  select
+    p_quiz_id,
+    p_user_id,
+    count(*) filter (where exists (
+      select 1 from public.poll_votes pv
+      join public.poll_answer_keys k on k.poll_id = pv.poll_id
+      where pv.poll_id = p.id and pv.user_id = p_user_id and pv.option_id = any(k.correct_option_ids)
+    )),
+    count(*),
+    now()
+  from public.polls p
+  where p.quiz_id = p_quiz_id
+  on conflict (quiz_id, user_id) do update
+    set score = excluded.score, max_score = excluded.max_score, updated_at = excluded.updated_at;
+end $$;
+
+revoke execute on function public.refresh_quiz_score(text, text) from public, anon, authenticated;
+
+-- Answering a quiz question updates the student's score
+create or replace function public.refresh_quiz_score_on_vote() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_poll_id text;
+  v_user_id text;
+  v_quiz_id text;
+begin
+  if tg_op = 'DELETE' then
+    v_poll_id := old.poll_id;
+    v_user_id := old.user_id;
+  else
+    v_poll_id := new.poll_id;
+    v_user_id := new.user_id;
+  end if;
+
+  select quiz_id into v_quiz_id from public.polls where id = v_poll_id;
+  if v_quiz_id is not null then
+    perform public.refresh_quiz_score(v_quiz_id, v_user_id);
+  end if;
+  return null;
+end $$;
+
+drop trigger if exists poll_votes_refresh_quiz_score on public.poll_votes;
+create trigger poll_votes_refresh_quiz_score after insert or update or delete on public.poll_votes
+  for each row execute function public.refresh_quiz_score_on_vote();
+
+-- A corrected answer key re-scores everyone who answered the quiz
+create or replace function public.refresh_quiz_scores_on_key_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_quiz_id text;
+  v_user_id text;
+begin
+  select quiz_id into v_quiz_id from public.polls
+  where id = case when tg_op = 'DELETE' then old.poll_id else new.poll_id end;
+  if v_quiz_id is null then
+    return null;
+  end if;
+  for v_user_id in
+    select distinct pv.user_id from public.poll_votes pv join public.polls p on p.id = pv.poll_id where p.quiz_id = v_quiz_id
+  loop
+    perform public.refresh_quiz_score(v_quiz_id, v_user_id);
+  end loop;
+  return null;
+end $$;
+
+drop trigger if exists poll_answer_keys_refresh_scores on public.poll_answer_keys;
+create trigger poll_answer_keys_refresh_scores after insert or update or delete on public.poll_answer_keys
+  for each row execute function public.refresh_quiz_scores_on_key_change();
+
+create or replace function public.cast_vote(p_poll_id text, p_option_ids text[]) returns void
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user_id text := public.current_app_user_id();
+  v_poll public.polls%rowtype;
+  v_count integer := coalesce(array_length(p_option_ids, 1), 0);
+  v_max integer;
+begin
+  if v_user_id is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+
+  select * into v_poll from public.polls where id = p_poll_id;
+  if not found or not public.can_view_class(v_poll.target_class) then
+    raise exception 'Sondage introuvable' using errcode = 'P0002';
+  end if;
+  if now() < coalesce(v_poll.opens_at, v_poll.created_at) then
+    raise exception 'Le sondage n''est pas encore ouvert' using errcode = '55000';
+  end if;
+  if now() >= v_poll.expires_at then
+    raise exception 'Le sondage est clos' using errcode = '55000';
+  end if;
+
+  v_max := case v_poll.poll_type
+    when 'SINGLE' then 1
+    when 'QUIZ' then 1
+    when 'MULTIPLE' then coalesce(v_poll.max_selections, jsonb_array_length(v_poll.options))
+    else jsonb_array_length(v_poll.options)
+  end;
+  if v_count < 1 or v_count > v_max then
+    raise exception 'Nombre de choix invalide (1 à %)', v_max using errcode = '22023';
+  end if;
+  if (select count(distinct o) from unnest(p_option_ids) o) <> v_count then
+    raise exception 'Option choisie plusieurs fois' using errcode = '22023';
+  end if;
+  if exists (
+    select 1 from unnest(p_option_ids) o
+    where not exists (select 1 from jsonb_array_elements(v_poll.options) opt where opt->>'id' = o)
+  ) then
+    raise exception 'Option invalide' using errcode = '22023';
+  end if;
+
+  if v_poll.is_anonymous then
+    insert into public.poll_participants (poll_id, user_id) values (p_poll_id, v_user_id)
+    on conflict do nothing;
+    if not found then
+      raise exception 'Vous avez déjà voté (vote anonyme définitif)' using errcode = '23505';
+    end if;
+    perform public.record_anonymous_ballot(v_poll, p_option_ids);
+    return;
+  end if;
+
+  -- Serialize concurrent submissions of the same ballot
+  perform pg_advisory_xact_lock(hashtext(p_poll_id || ':' || v_user_id));
+
+  delete from public.poll_votes where poll_id = p_poll_id and user_id = v_user_id;
+  insert into public.poll_votes (poll_id, user_id, option_id, rank)
+  select p_poll_id, v_user_id, o.option_id, o.ord
+  from unnest(p_option_ids) with ordinality as o(option_id, ord);
+end $$;
+
+drop trigger if exists quizzes_notify_change on public.quizzes;
+create trigger quizzes_notify_change after insert or update or delete on public.quizzes
+  for each row execute function public.notify_row_change();
+
+-- Answer keys are part of their poll for realtime subscribers
+drop trigger if exists poll_answer_keys_notify_change on public.poll_answer_keys;
+create trigger poll_answer_keys_notify_change after insert or update or delete on public.poll_answer_keys
+  for each row execute function public.notify_poll_vote_change();
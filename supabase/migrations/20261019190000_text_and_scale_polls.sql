@@ -0,0 +1,207 @@
+-- Free-text and rating-scale polls.
+-- SCALE polls store their grades 1..scale_max as regular options, so votes, anonymity and exports work unchanged.
+-- TEXT polls store open answers: one editable answer per user in poll_text_answers, or unlinked rows in
+-- anonymous_text_answers for anonymous polls (participation is tracked in poll_participants, as for votes).
+
+alter table public.polls add column if not exists scale_max integer;
+
+alter table public.polls drop constraint if exists polls_poll_type_check;
+alter table public.polls add constraint polls_poll_type_check check (poll_type in ('SINGLE', 'MULTIPLE', 'RANKED', 'QUIZ', 'TEXT', 'SCALE'));
+alter table public.polls drop constraint if exists polls_scale_max_check;
+alter table public.polls add constraint polls_scale_max_check check (
+  (poll_type = 'SCALE' and scale_max in (5, 10)) or (poll_type <> 'SCALE' and scale_max is null)
+);
+
+create table if not exists public.poll_text_answers (
+  poll_id text not null references public.polls(id) on delete cascade,
+  user_id text not null references public.users(id) on delete cascade,
+  answer text not null check (char_length(answer) between 1 and 2000),
+  updated_at timestamptz not null default now(),
+  primary key (poll_id, user_id)
+);
+
+create table if not exists public.anonymous_text_answers (
+  id text primary key default gen_random_uuid()::text,
+  poll_id text not null references public.polls(id) on delete cascade,
+  answer text not null check (char_length(answer) between 1 and 2000)
+);
+
+create index if not exists anonymous_text_answers_poll_idx on public.anonymous_text_answers (poll_id);
+
+alter table public.poll_text_answers enable row level security;
+alter table public.anonymous_text_answers enable row level security;
+revoke insert, update, delete on public.poll_text_answers, public.anonymous_text_answers from anon, authenticated;
+grant select on public.poll_text_answers, public.anonymous_text_answers to anon, authenticated;
+
+drop policy if exists poll_text_answers_select on public.poll_text_answers;
+create policy poll_text_answers_select on public.poll_text_answers for select using (
+  exists (select 1 from public.polls p where p.id = poll_id and public.can_view_class(p.target_class))
+);
+drop policy if exists anonymous_text_answers_select on public.anonymous_text_answers;
+-- Like the anonymous tallies, anonymous answers are only served once the poll is closed
+create policy anonymous_text_answers_select on public.anonymous_text_answers for select using (
+  exists (
+    select 1 from public.polls p
+    where p.id = poll_id and public.can_view_class(p.target_class) and p.expires_at <= now()
+  )
+);
+
+create or replace function public.submit_text_answer(p_poll_id text, p_answer text) returns void
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user_id text := public.current_app_user_id();
+  v_poll public.polls%rowtype;
+  v_answer text := btrim(coalesce(p_answer, ''));
+begin
+  if v_user_id is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+
+  select * into v_poll from public.polls where id = p_poll_id;
+  if not found or not public.can_view_class(v_poll.target_class) then
+    raise exception 'Sondage introuvable' using errcode = 'P0002';
+  end if;
+  if v_poll.poll_type <> 'TEXT' then
+    raise exception 'Ce sondage n''attend pas de réponse libre' using errcode = '22023';
+  end if;
+  if now() < coalesce(v_poll.opens_at, v_poll.created_at) then
+    raise exception 'Le sondage n''est pas encore ouvert' using errcode = '55000';
+  end if;
+  if now() >= v_poll.expires_at then
+    raise exception 'Le sondage est clos' using errcode = '55000';
+  end if;
+  if char_length(v_answer) not between 1 and 2000 then
+    raise exception 'La réponse doit contenir entre 1 et 2000 caractères' using errcode = '22023';
+  end if;
+
+  if v_poll.is_anonymous then
+    insert into public.poll_participants (poll_id, user_id) values (p_poll_id, v_user_id)
+    on conflict do nothing;
+    if not found then
+      raise exception 'Vous avez déjà répondu (réponse anonyme définitive)' using errcode = '23505';
+    end if;
+    insert into public.anonymous_text_answers (poll_id, answer) values (p_poll_id, v_answer);
+    -- Same trick as the anonymous tallies: every answer row gets this transaction id (xmin)
+    update public.anonymous_text_answers set answer = answer where poll_id = p_poll_id;
+    return;
+  end if;
+
+  insert into public.poll_text_answers (poll_id, user_id, answer) values (p_poll_id, v_user_id, v_answer)
+  on conflict (poll_id, user_id) do update set answer = excluded.answer, updated_at = now();
+end $$;
+
+grant execute on function public.submit_text_answer(text, text) to anon, authenticated;
+
+create or replace function public.cast_vote(p_poll_id text, p_option_ids text[]) returns void
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user_id text := public.current_app_user_id();
+  v_poll public.polls%rowtype;
+  v_count integer := coalesce(array_length(p_option_ids, 1), 0);
+  v_max integer;
+begin
+  if v_user_id is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+
+  select * into v_poll from public.polls where id = p_poll_id;
+  if not found or not public.can_view_class(v_poll.target_class) then
+    raise exception 'Sondage introuvable' using errcode = 'P0002';
+  end if;
+  if v_poll.poll_type = 'TEXT' then
+    raise exception 'Ce sondage attend une réponse libre' using errcode = '22023';
+  end if;
+  if now() < coalesce(v_poll.opens_at, v_poll.created_at) then
+    raise exception 'Le sondage n''est pas encore ouvert' using errcode = '55000';
+  end if;
+  if now() >= v_poll.expires_at then
+    raise exception 'Le sondage est clos' using errcode = '55000';
+  end if;
+
+  v_max := case v_poll.poll_type
+    when 'SINGLE' then 1
+    when 'QUIZ' then 1
+    when 'SCALE' then 1
+    when 'MULTIPLE' then coalesce(v_poll.max_selections, jsonb_array_length(v_poll.options))
+    else jsonb_array_length(v_poll.options)
+  end;
+  if v_count < 1 or v_count > v_max then
+    raise exception 'Nombre de choix invalide (1 à %)', v_max using errcode = '22023';
+  end if;
+  if (select count(distinct o) from unnest(p_option_ids) o) <> v_count then
+    raise exception 'Option choisie plusieurs fois' using errcode = '22023';
+  end if;
+  if exists (
+    select 1 from unnest(p_option_ids) o
+    where not exists (select 1 from jsonb_array_elements(v_poll.options) opt where opt->>'id' = o)
+  ) then
+    raise exception 'Option invalide' using errcode = '22023';
+  end if;
+
+  if v_poll.is_anonymous then
+    insert into public.poll_participants (poll_id, user_id) values (p_poll_id, v_user_id)
+    on conflict do nothing;
+    if not found then
+      raise exception 'Vous avez déjà voté (vote anonyme définitif)' using errcode = '23505';
+    end if;
+    perform public.record_anonymous_ballot(v_poll, p_option_ids);
+    return;
+  end if;
+
+  -- Serialize concurrent submissions of the same ballot
+  perform pg_advisory_xact_lock(hashtext(p_poll_id || ':' || v_user_id));
+
+  delete from public.poll_votes where poll_id = p_poll_id and user_id = v_user_id;
+  insert into public.poll_votes (poll_id, user_id, option_id, rank)
+  select p_poll_id, v_user_id, o.option_id, o.ord
+  from unnest(p_option_ids) with ordinality as o(option_id, ord);
+end $$;
+
+create or replace function public.lock_poll_anonymity() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if new.is_anonymous is distinct from old.is_anonymous and (
+    exists (select 1 from public.poll_votes where poll_id = old.id)
+    or exists (select 1 from public.poll_participants where poll_id = old.id)
+    or exists (select 1 from public.poll_text_answers where poll_id = old.id)
+    or (jsonb_typeof(old.voted_user_ids) = 'object' and old.voted_user_ids <> '{}'::jsonb)
+  ) then
+    raise exception 'L''anonymat ne peut plus être modifié après les premiers votes' using errcode = '55000';
+  end if;
+  return new;
+end $$;
+
+-- Text answers count as votes for the reminders
+create or replace function public.remind_poll_non_voters(p_poll_id text) returns integer
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_poll public.polls%rowtype;
+  v_count integer;
+begin
+  select * into v_poll from public.polls where id = p_poll_id;
+  if not found or not public.can_manage_row(v_poll.target_class, v_poll.created_by_id) then
+    raise exception 'Action non autorisée' using errcode = '42501';
+  end if;
+  if v_poll.is_anonymous or v_poll.target_class is null then
+    raise exception 'Les rappels ne concernent que les sondages nominatifs d''une classe' using errcode = '22023';
+  end if;
+  if now() >= v_poll.expires_at then
+    raise exception 'Le sondage est clos' using errcode = '55000';
+  end if;
+
+  insert into public.poll_reminders (poll_id, user_id, sent_by_id)
+  select v_poll.id, u.id, public.current_app_user_id()
+  from public.users u
+  where u.role = 'ELEVE'
+    and u.class_group = v_poll.target_class
+    and not exists (select 1 from public.poll_votes pv where pv.poll_id = v_poll.id and pv.user_id = u.id)
+    and not exists (select 1 from public.poll_text_answers ta where ta.poll_id = v_poll.id and ta.user_id = u.id);
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end $$;
+
+-- Anonymous answers reach realtime subscribers through the participants table
+drop trigger if exists poll_text_answers_notify_change on public.poll_text_answers;
+create trigger poll_text_answers_notify_change after insert or update or delete on public.poll_text_answers
+  for each row execute function public.notify_poll_vote_change();
@@ -0,0 +1,158 @@
+-- Surveys: a survey groups ordered polls (its questions, of any type) that are answered in one submission.
+-- Questions copy the survey's target class, anonymity and window. submit_survey records every answer in one
+-- transaction through cast_vote / submit_text_answer; answering a survey question on its own is refused.
+
+create table if not exists public.surveys (
+  id text primary key,
+  title text not null,
+  description text,
+  target_class text,
+  is_anonymous boolean not null default false,
+  opens_at timestamptz,
+  expires_at timestamptz not null,
+  created_by_id text references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.surveys enable row level security;
+drop policy if exists surveys_select on public.surveys;
+drop policy if exists surveys_insert on public.surveys;
+drop policy if exists surveys_update on public.surveys;
+drop policy if exists surveys_delete on public.surveys;
+create policy surveys_select on public.surveys for select using (public.can_view_class(target_class));
+create policy surveys_insert on public.surveys for insert
+  with check (public.can_create_in_class(target_class) and created_by_id = public.current_app_user_id());
+create policy surveys_update on public.surveys for update
+  using (public.can_manage_row(target_class, created_by_id)) with check (public.can_create_in_class(target_class));
+create policy surveys_delete on public.surveys for delete using (public.can_manage_row(target_class, created_by_id));
+
+alter table public.polls add column if not exists survey_id text references public.surveys(id) on delete cascade;
+alter table public.polls add column if not exists survey_position integer;
+alter table public.polls drop constraint if exists polls_single_group;
+alter table public.polls add constraint polls_single_group check (quiz_id is null or survey_id is null);
+
+-- Who submitted (for anonymous surveys too, like poll_participants)
+create table if not exists public.survey_submissions (
+  survey_id text not null references public.surveys(id) on delete cascade,
+  user_id text not null references public.users(id) on delete cascade,
+  submitted_at timestamptz not null default now(),
+  primary key (survey_id, user_id)
+);
+
+alter table public.survey_submissions enable row level security;
+revoke insert, update, delete on public.survey_submissions from anon, authenticated;
+grant select on public.survey_submissions to anon, authenticated;
+
+drop policy if exists survey_submissions_select on public.survey_submissions;
+create policy survey_submissions_select on public.survey_submissions for select using (
+  exists (select 1 from public.surveys s where s.id = survey_id and public.can_view_class(s.target_class))
+);
+
+-- p_answers: { "<poll id>": { "optionIds": [...] } | { "text": "..." } }, one entry per question
+create or replace function public.submit_survey(p_survey_id text, p_answers jsonb) returns void
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user_id text := public.current_app_user_id();
+  v_survey public.surveys%rowtype;
+  v_question public.polls%rowtype;
+  v_answer jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+
+  select * into v_survey from public.surveys where id = p_survey_id;
+  if not found or not public.can_view_class(v_survey.target_class) then
+    raise exception 'Questionnaire introuvable' using errcode = 'P0002';
+  end if;
+  if now() < coalesce(v_survey.opens_at, v_survey.created_at) then
+    raise exception 'Le questionnaire n''est pas encore ouvert' using errcode = '55000';
+  end if;
+  if now() >= v_survey.expires_at then
+    raise exception 'Le questionnaire est clos' using errcode = '55000';
+  end if;
+
+  if v_survey.is_anonymous then
+    insert into public.survey_submissions (survey_id, user_id) values (p_survey_id, v_user_id)
+    on conflict do nothing;
+    if not found then
+      raise exception 'Vous avez déjà répondu (questionnaire anonyme définitif)' using errcode = '23505';
+    end if;
+  else
+    insert into public.survey_submissions (survey_id, user_id) values (p_survey_id, v_user_id)
+    on conflict (survey_id, user_id) do update set submitted_at = now();
+  end if;
+
+  perform set_config('app.survey_submission', p_survey_id, true);
+
+  for v_question in select * from public.polls where survey_id = p_survey_id order by survey_position loop
+    v_answer := p_answers -> v_question.id;
+    if v_answer is null then
+      raise exception 'Réponse manquante : %', v_question.title using errcode = '22023';
+    end if;
+    if v_question.poll_type = 'TEXT' then
+      perform public.submit_text_answer(v_question.id, v_answer ->> 'text');
+    else
+      perform public.cast_vote(v_question.id, array(select jsonb_array_elements_text(coalesce(v_answer -> 'optionIds', '[]'::jsonb))));
+    end if;
+  end loop;
+
+  perform set_config('app.survey_submission', '', true);
+end $$;
+
+grant execute on function public.submit_survey(text, jsonb) to anon, authenticated;
+
+-- Survey questions only accept answers written by submit_survey
+create or replace function public.guard_survey_answer() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_survey_id text;
+begin
+  select survey_id into v_survey_id from public.polls where id = new.poll_id;
+  if v_survey_id is not null and current_setting('app.survey_submission', true) is distinct from v_survey_id then
+    raise exception 'Les questions d''un questionnaire se soumettent ensemble' using errcode = '22023';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists poll_votes_guard_survey on public.poll_votes;
+create trigger poll_votes_guard_survey before insert or update on public.poll_votes
+  for each row execute function public.guard_survey_answer();
+drop trigger if exists poll_participants_guard_survey on public.poll_participants;
+create trigger poll_participants_guard_survey before insert or update on public.poll_participants
+  for each row execute function public.guard_survey_answer();
+drop trigger if exists poll_text_answers_guard_survey on public.poll_text_answers;
+create trigger poll_text_answers_guard_survey before insert or update on public.poll_text_answers
+  for each row execute function public.guard_survey_answer();
+
+-- Submissions to anonymous surveys are not broadcast: a signal per submission would pin down who just answered
+create or replace function public.notify_survey_submission_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if exists (
+    select 1 from public.surveys
+    where id = case when tg_op = 'DELETE' then old.survey_id else new.survey_id end and is_anonymous
+  ) then
+    return null;
+  end if;
+
+  perform realtime.send(
+    jsonb_build_object(
+      'table', 'surveys',
+      'id', case when tg_op = 'DELETE' then old.survey_id else new.survey_id end,
+      'event', 'UPDATE'
+    ),
+    'row_change',
+    'classpoll:changes',
+    false
+  );
+  return null;
+end $$;
+
+drop trigger if exists surveys_notify_change on public.surveys;
+create trigger surveys_notify_change after insert or update or delete on public.surveys
+  for each row execute function public.notify_row_change();
+
+drop trigger if exists survey_submissions_notify_change on public.survey_submissions;
+create trigger survey_submissions_notify_change after insert or update or delete on public.survey_submissions
+  for each row execute function public.notify_survey_submission_change();
@@ -0,0 +1,43 @@
+-- Reusable poll templates: school-wide ones (managed by admins) and personal ones (visible to their author).
+-- Only the poll staff (admins, responsables) use them. Options are stored as plain texts; ids are generated
+-- when a poll is created from the template.
+
+create table if not exists public.poll_templates (
+  id text primary key default gen_random_uuid()::text,
+  title text not null,
+  options jsonb not null default '[]'::jsonb,
+  poll_type text not null default 'SINGLE' check (poll_type in ('SINGLE', 'MULTIPLE', 'RANKED', 'TEXT', 'SCALE')),
+  max_selections integer check (max_selections is null or max_selections >= 1),
+  scale_max integer check (scale_max is null or scale_max in (5, 10)),
+  is_anonymous boolean not null default false,
+  scope text not null default 'PERSONAL' check (scope in ('SCHOOL', 'PERSONAL')),
+  created_by_id text references public.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.poll_templates enable row level security;
+drop policy if exists poll_templates_select on public.poll_templates;
+drop policy if exists poll_templates_insert on public.poll_templates;
+drop policy if exists poll_templates_delete on public.poll_templates;
+create policy poll_templates_select on public.poll_templates for select using (
+  (scope = 'SCHOOL' and public.current_app_user_role() in ('ADMIN', 'RESPONSABLE'))
+  or created_by_id = public.current_app_user_id()
+);
+create policy poll_templates_insert on public.poll_templates for insert with check (
+  created_by_id = public.current_app_user_id()
+  and case scope
+    when 'SCHOOL' then public.current_app_user_role() = 'ADMIN'
+    else public.current_app_user_role() in ('ADMIN', 'RESPONSABLE')
+  end
+);
+create policy poll_templates_delete on public.poll_templates for delete using (
+  public.current_app_user_role() = 'ADMIN' or created_by_id = public.current_app_user_id()
+);
+
+-- Starter templates for the recurring questions
+insert into public.poll_templates (id, title, options, poll_type, scale_max, scope)
+values
+  ('template-next-test-date', 'Date du prochain DS ?', '["Lundi", "Mardi", "Mercredi", "Jeudi", "Vendredi"]'::jsonb, 'SINGLE', null, 'SCHOOL'),
+  ('template-course-satisfaction', 'Satisfaction du cours', '[]'::jsonb, 'SCALE', 5, 'SCHOOL'),
+  ('template-course-feedback', 'Qu''est-ce qui pourrait améliorer le cours ?', '[]'::jsonb, 'TEXT', null, 'SCHOOL')
+on conflict (id) do nothing;
@@ -0,0 +1,39 @@
+-- Recurring exams: a series stores the recurrence rule (weekly or biweekly until a date, minus exception dates)
+-- and the shared fields. Its occurrences are regular exams rows generated once, so each can still be edited alone.
+
+create table if not exists public.exam_series (
+  id text primary key,
+  subject text not null,
+  start_time text not null,
+  duration_minutes integer not null,
+  room text not null,
+  notes text,
+  target_class text,
+  frequency text not null check (frequency in ('WEEKLY', 'BIWEEKLY')),
+  starts_on date not null,
+  until date not null,
+  exception_dates date[] not null default '{}',
+  created_by_id text references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  constraint exam_series_window check (until >= starts_on)
+);
+
+alter table public.exam_series enable row level security;
+drop policy if exists exam_series_select on public.exam_series;
+drop policy if exists exam_series_insert on public.exam_series;
+drop policy if exists exam_series_update on public.exam_series;
+drop policy if exists exam_series_delete on public.exam_series;
+create policy exam_series_select on public.exam_series for select using (public.can_view_class(target_class));
+create policy exam_series_insert on public.exam_series for insert
+  with check (public.can_create_in_class(target_class) and created_by_id = public.current_app_user_id());
+create policy exam_series_update on public.exam_series for update
+  using (public.can_manage_row(target_class, created_by_id)) with check (public.can_create_in_class(target_class));
+create policy exam_series_delete on public.exam_series for delete using (public.can_manage_row(target_class, created_by_id));
+
+-- Occurrences go away with their series
+alter table public.exams add column if not exists series_id text references public.exam_series(id) on delete cascade;
+create index if not exists exams_series_id_idx on public.exams (series_id);
+
+drop trigger if exists exam_series_notify_change on public.exam_series;
+create trigger exam_series_notify_change after insert or update or delete on public.exam_series
+  for each row execute function public.notify_row_change();
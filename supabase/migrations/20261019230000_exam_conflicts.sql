@@ -0,0 +1,54 @@
+-- Exam scheduling conflicts: two exams overlap in time and share a room (an empty room matches none, as in
+-- lib/examConflicts.ts), or a class (school-wide exams concern every class). The form always warns; when admins enable block_exam_conflicts, conflicting
+-- writes are refused here as well.
+
+alter table public.school_settings add column if not exists block_exam_conflicts boolean not null default false;
+
+create or replace function public.guard_exam_conflicts() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_start timestamp;
+  v_end timestamp;
+  v_conflict public.exams%rowtype;
+begin
+  if not coalesce((select block_exam_conflicts from public.school_settings where id = 'config'), false) then
+    return new;
+  end if;
+  -- Only a new slot, room or class can create a conflict
+  if tg_op = 'UPDATE' and (new.date, new.start_time, new.duration_minutes, new.room, new.target_class)
+     is not distinct from (old.date, old.start_time, old.duration_minutes, old.room, old.target_class) then
+    return new;
+  end if;
+
+  v_start := (new.date::timestamptz at time zone 'UTC')::date + new.start_time::time;
+  v_end := v_start + make_interval(mins => new.duration_minutes);
+
+  select e.* into v_conflict
+  from public.exams e
+  where e.id <> new.id
+    and (e.date::timestamptz at time zone 'UTC')::date + e.start_time::time < v_end
+    and (e.date::timestamptz at time zone 'UTC')::date + e.start_time::time + make_interval(mins => e.duration_minutes) > v_start
+    and (
+      (trim(new.room) <> '' and lower(trim(e.room)) = lower(trim(new.room)))
+      or e.target_class is null
+      or new.target_class is null
+      or e.target_class = new.target_class
+    )
+  order by e.date, e.start_time
+  limit 1;
+
+  if found then
+    raise exception 'Conflit avec « % » le % à % (salle %, %)',
+      v_conflict.subject,
+      to_char((v_conflict.date::timestamptz at time zone 'UTC')::date, 'DD/MM/YYYY'),
+      v_conflict.start_time,
+      v_conflict.room,
+      coalesce(v_conflict.target_class, 'toute l''école')
+      using errcode = '23P01';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists exams_guard_conflicts on public.exams;
+create trigger exams_guard_conflicts before insert or update on public.exams
+  for each row execute function public.guard_exam_conflicts();
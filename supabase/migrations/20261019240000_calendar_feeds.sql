@@ -0,0 +1,50 @@
+-- Calendar subscription feeds: one stable secret token per class ('' = school-wide exams only).
+-- server/calendarFeed.ts resolves the token with the service role and serves the class exams as .ics.
+-- Tokens are only handed out through the functions below, to users who may see the class.
+
+create table if not exists public.calendar_feeds (
+  class_name text primary key,
+  token text not null unique default encode(gen_random_bytes(24), 'hex'),
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+revoke all on public.calendar_feeds from anon, authenticated;
+
+create or replace function public.get_calendar_feed_token(p_class text) returns text
+language plpgsql volatile security definer set search_path = public, extensions as $$
+declare
+  v_class text := coalesce(p_class, '');
+  v_token text;
+begin
+  if public.current_app_user_id() is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+  if v_class <> '' and not public.can_view_class(v_class) then
+    raise exception 'Classe non autorisée' using errcode = '42501';
+  end if;
+
+  insert into public.calendar_feeds (class_name) values (v_class) on conflict (class_name) do nothing;
+  select token into v_token from public.calendar_feeds where class_name = v_class;
+  return v_token;
+end $$;
+
+-- Invalidates a leaked URL: subscribers must subscribe again with the new one
+create or replace function public.rotate_calendar_feed_token(p_class text) returns text
+language plpgsql volatile security definer set search_path = public, extensions as $$
+declare
+  v_class text := coalesce(p_class, '');
+  v_token text;
+begin
+  if not public.can_create_in_class(nullif(v_class, '')) then
+    raise exception 'Action non autorisée' using errcode = '42501';
+  end if;
+
+  insert into public.calendar_feeds (class_name) values (v_class)
+  on conflict (class_name) do update set token = encode(gen_random_bytes(24), 'hex'), created_at = now()
+  returning token into v_token;
+  return v_token;
+end $$;
+
+grant execute on function public.get_calendar_feed_token(text) to anon, authenticated;
+grant execute on function public.rotate_calendar_feed_token(text) to anon, authenticated;
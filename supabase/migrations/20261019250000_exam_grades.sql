@@ -0,0 +1,118 @@
+-- Exam grades: one mark per student of the exam's class (every student for school-wide exams).
+-- The exam carries its scale (max_score) and its weight in averages (coefficient).
+-- Exam managers enter and read every mark; students only read their own.
+
+alter table public.exams add column if not exists max_score numeric(6,2) not null default 20;
+alter table public.exams add column if not exists coefficient numeric(5,2) not null default 1;
+alter table public.exams drop constraint if exists exams_grading_scale;
+alter table public.exams add constraint exams_grading_scale check (max_score > 0 and coefficient > 0);
+
+create table if not exists public.exam_grades (
+  exam_id text not null references public.exams(id) on delete cascade,
+  student_id text not null references public.users(id) on delete cascade,
+  score numeric(6,2) check (score >= 0),
+  is_absent boolean not null default false,
+  comment text,
+  graded_by_id text references public.users(id) on delete set null,
+  updated_at timestamptz not null default now(),
+  primary key (exam_id, student_id),
+  constraint exam_grades_absent_without_score check (not (is_absent and score is not null))
+);
+
+alter table public.exam_grades enable row level security;
+drop policy if exists exam_grades_select on public.exam_grades;
+drop policy if exists exam_grades_insert on public.exam_grades;
+drop policy if exists exam_grades_update on public.exam_grades;
+drop policy if exists exam_grades_delete on public.exam_grades;
+create policy exam_grades_select on public.exam_grades for select using (
+  exists (
+    select 1 from public.exams e where e.id = exam_id and (
+      public.can_manage_row(e.target_class, e.created_by_id)
+      or (student_id = public.current_app_user_id() and public.can_view_class(e.target_class))
+    )
+  )
+);
+create policy exam_grades_insert on public.exam_grades for insert with check (
+  graded_by_id = public.current_app_user_id()
+  and exists (select 1 from public.exams e where e.id = exam_id and public.can_manage_row(e.target_class, e.created_by_id))
+);
+create policy exam_grades_update on public.exam_grades for update
+  using (exists (select 1 from public.exams e where e.id = exam_id and public.can_manage_row(e.target_class, e.created_by_id)))
+  with check (graded_by_id = public.current_app_user_id());
+create policy exam_grades_delete on public.exam_grades for delete
+  using (exists (select 1 from public.exams e where e.id = exam_id and public.can_manage_row(e.target_class, e.created_by_id)));
+
+-- Marks only go to students concerned by the exam, within its scale
+create or replace function public.guard_exam_grade() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_exam public.exams%rowtype;
+  v_student public.users%rowtype;
+begin
+  select * into v_exam from public.exams where id = new.exam_id;
+  select * into v_student from public.users where id = new.student_id;
+  if v_student.role is distinct from 'ELEVE'
+    or (v_exam.target_class is not null and v_student.class_group is distinct from v_exam.target_class) then
+    raise exception 'Cet élève n''est pas concerné par ce DS' using errcode = '22023';
+  end if;
+  if new.score > v_exam.max_score then
+    raise exception 'Note supérieure au barème (%)', v_exam.max_score using errcode = '22023';
+  end if;
+  new.updated_at := now();
+  return new;
+end $$;
+
+drop trigger if exists exam_grades_guard on public.exam_grades;
+create trigger exam_grades_guard before insert or update on public.exam_grades
+  for each row execute function public.guard_exam_grade();
+
+-- The scale cannot shrink below a mark already given (the mark would exceed it)
+create or replace function public.guard_exam_max_score() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_highest numeric;
+begin
+  select max(score) into v_highest from public.exam_grades where exam_id = new.id;
+  if v_highest > new.max_score then
+    raise exception 'Barème inférieur à une note déjà saisie (%)', v_highest using errcode = '22023';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists exams_guard_max_score on public.exams;
+create trigger exams_guard_max_score before update of max_score on public.exams
+  for each row when (new.max_score < old.max_score) execute function public.guard_exam_max_score();
+
+-- Rows keyed by exam (grades, and any table with an exam_id but no id of its own): subscribers reload
+-- the rows of the exam for the table that changed. One signal per exam and statement, as saving a whole
+-- grade sheet must not send one per row. Triggers pass the rows as the changed_rows transition table.
+create or replace function public.notify_exam_rows_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_exam_id text;
+begin
+  for v_exam_id in select distinct exam_id from changed_rows loop
+    perform realtime.send(
+      jsonb_build_object('table', tg_table_name, 'id', v_exam_id, 'event', 'UPDATE'),
+      'row_change',
+      'classpoll:changes',
+      false
+    );
+  end loop;
+  return null;
+end $$;
+
+-- Transition tables allow a single event per trigger
+drop trigger if exists exam_grades_notify_change on public.exam_grades;
+drop trigger if exists exam_grades_notify_insert on public.exam_grades;
+drop trigger if exists exam_grades_notify_update on public.exam_grades;
+drop trigger if exists exam_grades_notify_delete on public.exam_grades;
+create trigger exam_grades_notify_insert after insert on public.exam_grades
+  referencing new table as changed_rows for each statement execute function public.notify_exam_rows_change();
+create trigger exam_grades_notify_update after update on public.exam_grades
+  referencing new table as changed_rows for each statement execute function public.notify_exam_rows_change();
+create trigger exam_grades_notify_delete after delete on public.exam_grades
+  referencing old table as changed_rows for each statement execute function public.notify_exam_rows_change();
+
+-- Replaced by notify_exam_rows_change
+drop function if exists public.notify_exam_grade_change();
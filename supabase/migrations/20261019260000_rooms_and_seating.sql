@@ -0,0 +1,133 @@
+-- Rooms (layout and exam capacity) and exam seating plans.
+-- exams.room stays free text: a room is matched by its name. A seating plan may spread an exam's
+-- students over several rooms; save_exam_seating replaces an exam's plan in one transaction.
+
+create table if not exists public.rooms (
+  id text primary key,
+  name text not null unique,
+  rows integer not null check (rows between 1 and 26),
+  seats_per_row integer not null check (seats_per_row between 1 and 40),
+  capacity integer not null,
+  created_at timestamptz not null default now(),
+  constraint rooms_capacity_fits_layout check (capacity between 1 and rows * seats_per_row)
+);
+
+alter table public.rooms enable row level security;
+drop policy if exists rooms_select on public.rooms;
+drop policy if exists rooms_admin_write on public.rooms;
+create policy rooms_select on public.rooms for select using (public.current_app_user_id() is not null);
+create policy rooms_admin_write on public.rooms for all
+  using (public.current_app_user_role() = 'ADMIN') with check (public.current_app_user_role() = 'ADMIN');
+
+drop trigger if exists rooms_notify_change on public.rooms;
+create trigger rooms_notify_change after insert or update or delete on public.rooms
+  for each row execute function public.notify_row_change();
+
+create table if not exists public.exam_seats (
+  exam_id text not null references public.exams(id) on delete cascade,
+  student_id text not null references public.users(id) on delete cascade,
+  room_id text not null references public.rooms(id) on delete cascade,
+  row_number integer not null,
+  seat_number integer not null,
+  primary key (exam_id, student_id),
+  unique (exam_id, room_id, row_number, seat_number)
+);
+
+alter table public.exam_seats enable row level security;
+revoke insert, update, delete on public.exam_seats from anon, authenticated;
+grant select on public.exam_seats to anon, authenticated;
+
+-- Exam managers see the whole plan, students their own seat
+drop policy if exists exam_seats_select on public.exam_seats;
+create policy exam_seats_select on public.exam_seats for select using (
+  exists (
+    select 1 from public.exams e where e.id = exam_id and (
+      public.can_manage_row(e.target_class, e.created_by_id)
+      or (student_id = public.current_app_user_id() and public.can_view_class(e.target_class))
+    )
+  )
+);
+
+-- p_seats: [{ "studentId": "...", "roomId": "...", "row": 1, "seat": 1 }, ...]
+create or replace function public.save_exam_seating(p_exam_id text, p_seats jsonb) returns void
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_exam public.exams%rowtype;
+  v_seat jsonb;
+  v_room public.rooms%rowtype;
+  v_student public.users%rowtype;
+begin
+  if public.current_app_user_id() is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+
+  select * into v_exam from public.exams where id = p_exam_id;
+  if not found then
+    raise exception 'DS introuvable' using errcode = 'P0002';
+  end if;
+  if not public.can_manage_row(v_exam.target_class, v_exam.created_by_id) then
+    raise exception 'Action non autorisée' using errcode = '42501';
+  end if;
+
+  delete from public.exam_seats where exam_id = p_exam_id;
+
+  for v_seat in select * from jsonb_array_elements(coalesce(p_seats, '[]'::jsonb)) loop
+    select * into v_room from public.rooms where id = v_seat ->> 'roomId';
+    if not found then
+      raise exception 'Salle introuvable' using errcode = 'P0002';
+    end if;
+    if (v_seat ->> 'row')::integer not between 1 and v_room.rows
+      or (v_seat ->> 'seat')::integer not between 1 and v_room.seats_per_row then
+      raise exception 'Place hors du plan de la salle %', v_room.name using errcode = '22023';
+    end if;
+
+    select * into v_student from public.users where id = v_seat ->> 'studentId';
+    if v_student.role is distinct from 'ELEVE'
+      or (v_exam.target_class is not null and v_student.class_group is distinct from v_exam.target_class) then
+      raise exception 'Un élève n''est pas concerné par ce DS' using errcode = '22023';
+    end if;
+  end loop;
+
+  -- Same rules as lib/seating.ts: one seat per student, one student per seat, rooms up to their capacity
+  if (select count(distinct s."studentId") < count(*)
+      from jsonb_to_recordset(coalesce(p_seats, '[]'::jsonb)) as s("studentId" text)) then
+    raise exception 'Un élève est placé deux fois' using errcode = '23505';
+  end if;
+  if exists (
+    select 1 from jsonb_to_recordset(coalesce(p_seats, '[]'::jsonb)) as s("roomId" text, "row" integer, "seat" integer)
+    group by s."roomId", s."row", s."seat" having count(*) > 1
+  ) then
+    raise exception 'Deux élèves sont placés à la même place' using errcode = '23505';
+  end if;
+  select r.* into v_room
+  from public.rooms r
+  join jsonb_to_recordset(coalesce(p_seats, '[]'::jsonb)) as s("roomId" text) on s."roomId" = r.id
+  group by r.id
+  having count(*) > r.capacity
+  limit 1;
+  if found then
+    raise exception 'Capacité de la salle % dépassée (% places)', v_room.name, v_room.capacity using errcode = '22023';
+  end if;
+
+  -- One statement for the whole plan: subscribers get a single signal
+  insert into public.exam_seats (exam_id, student_id, room_id, row_number, seat_number)
+  select p_exam_id, s."studentId", s."roomId", s."row", s."seat"
+  from jsonb_to_recordset(coalesce(p_seats, '[]'::jsonb)) as s("studentId" text, "roomId" text, "row" integer, "seat" integer);
+end $$;
+
+grant execute on function public.save_exam_seating(text, jsonb) to anon, authenticated;
+
+-- One signal per exam and statement (notify_exam_rows_change, see the exam grades migration)
+drop trigger if exists exam_seats_notify_change on public.exam_seats;
+drop trigger if exists exam_seats_notify_insert on public.exam_seats;
+drop trigger if exists exam_seats_notify_update on public.exam_seats;
+drop trigger if exists exam_seats_notify_delete on public.exam_seats;
+create trigger exam_seats_notify_insert after insert on public.exam_seats
+  referencing new table as changed_rows for each statement execute function public.notify_exam_rows_change();
+create trigger exam_seats_notify_update after update on public.exam_seats
+  referencing new table as changed_rows for each statement execute function public.notify_exam_rows_change();
+create trigger exam_seats_notify_delete after delete on public.exam_seats
+  referencing old table as changed_rows for each statement execute function public.notify_exam_rows_change();
+
+-- Replaced by notify_exam_rows_change
+drop function if exists public.notify_exam_seat_change();
@@ -0,0 +1,24 @@
+-- Revision checklists: an exam lists the chapters it covers (syllabus, [{ "id", "title" }]) and links
+-- resources. Each user ticks off the chapters they revised; ticks are private to their author.
+
+alter table public.exams add column if not exists syllabus jsonb not null default '[]'::jsonb;
+alter table public.exams add column if not exists resource_ids text[] not null default '{}';
+
+create table if not exists public.exam_revisions (
+  exam_id text not null references public.exams(id) on delete cascade,
+  user_id text not null references public.users(id) on delete cascade,
+  topic_id text not null,
+  revised_at timestamptz not null default now(),
+  primary key (exam_id, user_id, topic_id)
+);
+
+alter table public.exam_revisions enable row level security;
+drop policy if exists exam_revisions_select on public.exam_revisions;
+drop policy if exists exam_revisions_insert on public.exam_revisions;
+drop policy if exists exam_revisions_delete on public.exam_revisions;
+create policy exam_revisions_select on public.exam_revisions for select using (user_id = public.current_app_user_id());
+create policy exam_revisions_insert on public.exam_revisions for insert with check (
+  user_id = public.current_app_user_id()
+  and exists (select 1 from public.exams e where e.id = exam_id and public.can_view_class(e.target_class))
+);
+create policy exam_revisions_delete on public.exam_revisions for delete using (user_id = public.current_app_user_id());
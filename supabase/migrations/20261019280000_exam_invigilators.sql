@@ -0,0 +1,100 @@
+-- Invigilators: staff members (responsables, admins) supervising an exam. Someone supervising two
+-- overlapping exams is double-booked: the form always warns, and save_exam_invigilators refuses it
+-- when block_exam_conflicts is enabled, like room and class conflicts.
+
+create table if not exists public.exam_invigilators (
+  exam_id text not null references public.exams(id) on delete cascade,
+  user_id text not null references public.users(id) on delete cascade,
+  assigned_at timestamptz not null default now(),
+  primary key (exam_id, user_id)
+);
+
+alter table public.exam_invigilators enable row level security;
+revoke insert, update, delete on public.exam_invigilators from anon, authenticated;
+grant select on public.exam_invigilators to anon, authenticated;
+
+-- Staff see every assignment (double bookings span classes), students none
+drop policy if exists exam_invigilators_select on public.exam_invigilators;
+create policy exam_invigilators_select on public.exam_invigilators for select using (
+  public.current_app_user_role() in ('ADMIN', 'RESPONSABLE')
+);
+
+-- Replaces the invigilators of an exam in one transaction
+create or replace function public.save_exam_invigilators(p_exam_id text, p_user_ids text[]) returns void
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_exam public.exams%rowtype;
+  v_user public.users%rowtype;
+  v_user_id text;
+  v_start timestamp;
+  v_end timestamp;
+  v_conflict public.exams%rowtype;
+  v_block boolean;
+begin
+  if public.current_app_user_id() is null then
+    raise exception 'Session invalide' using errcode = '28000';
+  end if;
+
+  select * into v_exam from public.exams where id = p_exam_id;
+  if not found then
+    raise exception 'DS introuvable' using errcode = 'P0002';
+  end if;
+  if not public.can_manage_row(v_exam.target_class, v_exam.created_by_id) then
+    raise exception 'Action non autorisée' using errcode = '42501';
+  end if;
+
+  v_block := coalesce((select block_exam_conflicts from public.school_settings where id = 'config'), false);
+  v_start := (v_exam.date::timestamptz at time zone 'UTC')::date + v_exam.start_time::time;
+  v_end := v_start + make_interval(mins => v_exam.duration_minutes);
+
+  delete from public.exam_invigilators where exam_id = p_exam_id;
+
+  for v_user_id in select distinct unnest(coalesce(p_user_ids, '{}')) loop
+    select * into v_user from public.users where id = v_user_id;
+    if not found or v_user.role not in ('ADMIN', 'RESPONSABLE') then
+      raise exception 'Un surveillant doit être responsable ou administrateur' using errcode = '22023';
+    end if;
+
+    if v_block then
+      select e.* into v_conflict
+      from public.exam_invigilators i
+      join public.exams e on e.id = i.exam_id
+      where i.user_id = v_user.id
+        and e.id <> p_exam_id
+        and (e.date::timestamptz at time zone 'UTC')::date + e.start_time::time < v_end
+        and (e.date::timestamptz at time zone 'UTC')::date + e.start_time::time + make_interval(mins => e.duration_minutes) > v_start
+      order by e.date, e.start_time
+      limit 1;
+
+      if found then
+        raise exception '% surveille déjà « % » le % à %',
+          v_user.name,
+          v_conflict.subject,
+          to_char((v_conflict.date::timestamptz at time zone 'UTC')::date, 'DD/MM/YYYY'),
+          v_conflict.start_time
+          using errcode = '23P01';
+      end if;
+    end if;
+  end loop;
+
+  -- One statement for the whole list: subscribers get a single signal
+  insert into public.exam_invigilators (exam_id, user_id)
+  select distinct p_exam_id, unnest(coalesce(p_user_ids, '{}'));
+end $$;
+
+grant execute on function public.save_exam_invigilators(text, text[]) to anon, authenticated;
+
+-- Subscribers reload the invigilators of the exam: the grades migration defines notify_exam_rows_change
+drop trigger if exists exam_invigilators_notify_change on public.exam_invigilators;
+drop trigger if exists exam_invigilators_notify_insert on public.exam_invigilators;
+drop trigger if exists exam_invigilators_notify_update on public.exam_invigilators;
+drop trigger if exists exam_invigilators_notify_delete on public.exam_invigilators;
+create trigger exam_invigilators_notify_insert after insert on public.exam_invigilators
+  referencing new table as changed_rows for each statement execute function public.notify_exam_rows_change();
+create trigger exam_invigilators_notify_update after update on public.exam_invigilators
+  referencing new table as changed_rows for each statement execute function public.notify_exam_rows_change();
+create trigger exam_invigilators_notify_delete after delete on public.exam_invigilators
+  referencing old table as changed_rows for each statement execute function public.notify_exam_rows_change();
+
+-- Former invigilator-only notifier
+drop function if exists public.notify_exam_invigilator_change();
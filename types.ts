@@ -10,7 +10,6 @@ export interface User {
   name: string;
   email: string;
   role: UserRole;
-  password?: string; // Added password for authentication
   avatar?: string;
   classGroup?: string; // e.g., "Terminale A"
 }
@@ -37,12 +36,70 @@ export interface Exam {
   notes?: string;
   createdById: string;
   targetClass?: string; // If undefined/null, visible to all
+  seriesId?: string; // Occurrence of a recurring exam
+  maxScore?: number; // Grading scale, 20 by default
+  coefficient?: number; // Weight in averages, 1 by default
+  syllabus?: SyllabusTopic[]; // Chapters covered, ticked off by students as they revise
+  resourceIds?: string[]; // Linked revision resources
+}
+
+export interface SyllabusTopic {
+  id: string;
+  title: string;
+}
+
+export interface RevisionCheck {
+  examId: string;
+  userId: string;
+  topicId: string;
+}
+
+export interface ExamGrade {
+  examId: string;
+  studentId: string;
+  score?: number; // Out of the exam's maxScore; undefined when absent or not graded yet
+  isAbsent: boolean;
+  comment?: string;
+  gradedById?: string;
+  updatedAt: Date;
+}
+
+export enum RecurrenceFrequency {
+  WEEKLY = 'WEEKLY',
+  BIWEEKLY = 'BIWEEKLY'
+}
+
+// Recurrence rule and shared fields of a recurring exam; its occurrences are regular exams
+export interface ExamSeries {
+  id: string;
+  subject: string;
+  startTime: string; // HH:mm
+  durationMinutes: number;
+  room: string;
+  notes?: string;
+  targetClass?: string;
+  frequency: RecurrenceFrequency;
+  startsOn: Date;
+  until: Date; // Last possible occurrence (inclusive)
+  exceptionDates: string[]; // YYYY-MM-DD, skipped
+  createdById: string;
+  createdAt: Date;
+}
+
+export enum PollType {
+  SINGLE = 'SINGLE',     // One option
+  MULTIPLE = 'MULTIPLE', // Up to maxSelections options
+  RANKED = 'RANKED',     // Options in order of preference (instant-runoff tally)
+  QUIZ = 'QUIZ',         // Quiz question: one answer, scored against the correct options
+  TEXT = 'TEXT',         // Open-ended text answer, no options
+  SCALE = 'SCALE'        // Rating 1..scaleMax, each grade stored as an option
 }
 
 export interface PollOption {
   id: string;
   text: string;
-  votes: number;
+  votes: number; // Selections (first choices for ranked polls)
+  isCorrect?: boolean; // Quiz questions: only known to managers, and to everyone once the question is closed
 }
 
 export interface Poll {
@@ -50,12 +107,93 @@ export interface Poll {
   title: string;
   description?: string;
   options: PollOption[];
+  pollType: PollType;
+  maxSelections?: number; // MULTIPLE only
+  scaleMax?: number; // SCALE only: 5 or 10
   isAnonymous: boolean;
   createdAt: Date;
-  expiresAt: Date;
+  opensAt: Date; // Voting opens (defaults to createdAt)
+  expiresAt: Date; // Voting closes, results become final
   createdById: string;
-  userVotes: Record<string, string>; // Map UserId -> OptionId (Tracks WHO voted for WHAT)
+  userVotes: Record<string, string[]>; // Map UserId -> OptionIds (in order of preference for ranked polls), always empty for anonymous polls
+  voterIds: string[]; // Users who voted
+  ballots: string[][]; // Unlinked ballots the results are computed from (one per selection for anonymous multiple choice polls)
+  textAnswers: PollTextAnswer[]; // TEXT only
   targetClass?: string; // If undefined/null, visible to all
+  quizId?: string; // Quiz questions belong to a quiz
+  quizPosition?: number;
+  surveyId?: string; // Survey questions belong to a survey
+  surveyPosition?: number;
+}
+
+export enum TemplateScope {
+  SCHOOL = 'SCHOOL',     // Shared with all staff, managed by admins
+  PERSONAL = 'PERSONAL'  // Only visible to its author
+}
+
+// Reusable poll definition: option texts only, ids and votes are created with each poll
+export interface PollTemplate {
+  id: string;
+  title: string;
+  options: string[];
+  pollType: PollType;
+  maxSelections?: number;
+  scaleMax?: number;
+  isAnonymous: boolean;
+  scope: TemplateScope;
+  createdById?: string;
+  createdAt: Date;
+}
+
+export interface PollTextAnswer {
+  userId?: string; // Omitted for anonymous polls
+  answer: string;
+  updatedAt?: Date;
+}
+
+export interface Survey {
+  id: string;
+  title: string;
+  description?: string;
+  targetClass?: string;
+  isAnonymous: boolean; // Copied to every question
+  opensAt: Date;
+  expiresAt: Date;
+  createdById: string;
+  createdAt: Date;
+  respondentIds: string[]; // Users who submitted the survey
+}
+
+// Answer to one survey question: options for choice and scale questions, text for free-text ones
+export interface SurveyAnswer {
+  optionIds?: string[];
+  text?: string;
+}
+
+export interface Quiz {
+  id: string;
+  title: string;
+  description?: string;
+  targetClass?: string;
+  opensAt: Date;
+  expiresAt: Date;
+  createdById: string;
+  createdAt: Date;
+}
+
+export interface QuizScore {
+  quizId: string;
+  userId: string;
+  score: number; // Correct answers
+  maxScore: number; // Questions in the quiz
+}
+
+export interface PollReminder {
+  id: string;
+  pollId: string;
+  userId: string; // Reminded student
+  sentById?: string;
+  createdAt: Date;
 }
 
 export interface Resource {
@@ -85,9 +223,32 @@ export interface SchoolSettings {
   schoolName: string;
   themeColor: string;
   logoUrl?: string;
+  blockExamConflicts?: boolean; // Refuse exams overlapping another one in the same room or class
 }
 
 export interface ClassGroup {
   id: string;
   name: string;
 }
+
+export interface Room {
+  id: string;
+  name: string; // Matched against Exam.room
+  rows: number; // From the front (A, B, C…)
+  seatsPerRow: number;
+  capacity: number; // Seats used during exams, spread over the layout (≤ rows × seatsPerRow)
+}
+
+export interface ExamSeat {
+  examId: string;
+  studentId: string;
+  roomId: string;
+  row: number; // 1-based
+  seat: number; // 1-based, from the left
+}
+
+// Staff member (responsable or admin) supervising an exam
+export interface ExamInvigilator {
+  examId: string;
+  userId: string;
+}
@@ -7,7 +7,10 @@ export default defineConfig(({ mode }) => {
   return {
     plugins: [react()],
     define: {
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      // Only public settings: whatever is defined here ends up in the client bundle
+      'process.env.QUESTION_GENERATOR': JSON.stringify(env.QUESTION_GENERATOR),
+      'process.env.QUESTION_SERVER_URL': JSON.stringify(env.QUESTION_SERVER_URL),
+      'process.env.CALENDAR_FEED_URL': JSON.stringify(env.CALENDAR_FEED_URL)
     }
   };
 });
\ No newline at end of file